@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Gera o union tipado de ModuleKey a partir de uma exportação JSON do catálogo de módulos
+ *
+ * Uso:
+ *   npm run codegen:module-keys -- [<modules.json>] [--out <arquivo.ts>]
+ *
+ * Sem arquivo de entrada usa scripts/modules-export.json, a exportação versionada do catálogo
+ *
+ * Formatos aceitos no JSON:
+ * - Array de módulos: [{ "key": "USER_MODULE", "name": "Usuários" }, ...]
+ * - Resposta paginada da API: { "items": [...] } ou { "data": { "items": [...] } }
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve, relative, basename } from 'node:path';
+
+const DEFAULT_INPUT = 'scripts/modules-export.json';
+const DEFAULT_OUTPUT = 'src/shared/types/module-keys.generated.ts';
+const KEY_PATTERN = /^[A-Z0-9_-]+$/;
+
+const fail = (message) => {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv) => {
+  const args = { input: DEFAULT_INPUT, output: DEFAULT_OUTPUT };
+  let inputGiven = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--out') {
+      args.output = argv[++i];
+    } else if (!inputGiven) {
+      args.input = argv[i];
+      inputGiven = true;
+    }
+  }
+
+  if (!args.input || !args.output) {
+    fail('Uso: npm run codegen:module-keys -- [<modules.json>] [--out <arquivo.ts>]');
+  }
+
+  return args;
+};
+
+const extractModules = (json) => {
+  if (Array.isArray(json)) return json;
+  if (Array.isArray(json?.items)) return json.items;
+  if (Array.isArray(json?.data)) return json.data;
+  if (Array.isArray(json?.data?.items)) return json.data.items;
+  fail('Formato não reconhecido: esperado um array de módulos ou { items: [...] }');
+};
+
+const { input, output } = parseArgs(process.argv.slice(2));
+
+let json;
+try {
+  json = JSON.parse(readFileSync(resolve(input), 'utf8'));
+} catch (error) {
+  fail(`Não foi possível ler ${input}: ${error.message}`);
+}
+
+const modules = extractModules(json);
+const names = new Map();
+const invalid = [];
+
+modules.forEach((module) => {
+  const key = typeof module?.key === 'string' ? module.key.trim() : '';
+  // O módulo curinga ('*') não é uma chave verificável
+  if (!key || key === '*') return;
+
+  if (!KEY_PATTERN.test(key)) {
+    invalid.push(key);
+    return;
+  }
+
+  if (!names.has(key)) names.set(key, module.name);
+});
+
+if (invalid.length > 0) {
+  console.warn(`⚠️ Chaves ignoradas por formato inválido: ${invalid.join(', ')}`);
+}
+
+if (names.size === 0) {
+  fail('Nenhuma chave de módulo encontrada na exportação');
+}
+
+const keys = Array.from(names.keys()).sort();
+const lines = keys.map((key) => {
+  const name = names.get(key);
+  return name ? `  '${key}', // ${String(name).replace(/\s+/g, ' ')}` : `  '${key}',`;
+});
+
+const content = `// Arquivo gerado por scripts/generate-module-keys.mjs - não edite manualmente
+// Origem: ${basename(input)} (${keys.length} chaves)
+
+export const GENERATED_MODULE_KEYS = [
+${lines.join('\n')}
+] as const;
+
+export type GeneratedModuleKey = typeof GENERATED_MODULE_KEYS[number];
+`;
+
+writeFileSync(resolve(output), content);
+console.log(`✅ ${keys.length} chaves de módulo geradas em ${relative(process.cwd(), resolve(output))}`);
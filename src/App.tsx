@@ -1,4 +1,4 @@
-import { ThemeProvider, QueryProvider, RouterProvider, AuthProvider } from './app/providers';
+import { ThemeProvider, QueryProvider, RouterProvider, AuthProvider, NavigationProvider } from './app/providers';
 import { AppRoutes } from './app/routes';
 
 function App() {
@@ -7,7 +7,9 @@ function App() {
       <ThemeProvider>
         <RouterProvider>
           <AuthProvider>
-            <AppRoutes />
+            <NavigationProvider>
+              <AppRoutes />
+            </NavigationProvider>
           </AuthProvider>
         </RouterProvider>
       </ThemeProvider>
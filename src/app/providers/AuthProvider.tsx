@@ -3,6 +3,13 @@ import type { ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../shared/stores';
 import { ROUTES } from '../../shared/constants';
+import {
+  useSessionScheduler,
+  useSessionSync,
+  useModuleRegistrySync,
+  useOperationCatalogSync,
+} from '../../shared/hooks';
+import { SessionExpiryDialog } from '../../shared/components';
 
 interface AuthProviderProps {
   children: ReactNode;
@@ -15,6 +22,10 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const { initialize, logout } = useAuthStore();
   const navigate = useNavigate();
   const initRef = useRef(hasGloballyInitialized);
+  const { isWarningVisible, secondsRemaining, canExtend, staySignedIn, dismissWarning, signOut } = useSessionScheduler();
+  useSessionSync();
+  useModuleRegistrySync();
+  useOperationCatalogSync();
 
   useEffect(() => {
     const handleTokenExpired = () => {
@@ -55,5 +66,17 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return <div>Inicializando autenticação...</div>;
   }
 
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      <SessionExpiryDialog
+        open={isWarningVisible}
+        secondsRemaining={secondsRemaining}
+        canExtend={canExtend}
+        onStaySignedIn={staySignedIn}
+        onDismiss={dismissWarning}
+        onSignOut={signOut}
+      />
+    </>
+  );
 };
\ No newline at end of file
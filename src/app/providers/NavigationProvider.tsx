@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { RegisteredRoutesContext } from '../../shared/hooks';
+import { protectedRoutes } from '../routes/route.registry';
+
+interface NavigationProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Publica as rotas registradas para o modelo de navegação
+ * Itens de menu apontando para rotas inexistentes ficam escondidos
+ */
+export const NavigationProvider = ({ children }: NavigationProviderProps) => {
+  const registeredRoutes = useMemo(
+    () => new Set(protectedRoutes.map(route => route.path)),
+    []
+  );
+
+  return (
+    <RegisteredRoutesContext.Provider value={registeredRoutes}>
+      {children}
+    </RegisteredRoutesContext.Provider>
+  );
+};
@@ -2,4 +2,5 @@
 export * from './ThemeProvider';
 export * from './QueryProvider';
 export * from './RouterProvider';
-export * from './AuthProvider';
\ No newline at end of file
+export * from './AuthProvider';
+export * from './NavigationProvider';
\ No newline at end of file
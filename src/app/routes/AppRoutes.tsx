@@ -1,150 +1,78 @@
-import { Routes, Route, Navigate } from 'react-router-dom';
-import { LoginPage } from '../../features/auth';
-import { DashboardPage } from '../../features/dashboard';
-import { AccessGroupsPage } from '../../features/access-groups';
-import { GroupTypesTestPage, GroupTypesPage } from '../../features/groups';
-import { ModulesPage } from '../../features/modules';
-import { OperationsPage, OperationsTestPage } from '../../features/operations';
-import { PermissionsPage } from '../../features/permissions';
-import { RolesPage } from '../../features/roles';
-import { UsersPage } from '../../features/users';
+import { Routes, Route, Navigate, useNavigate } from 'react-router-dom';
+import { Button } from '@mui/material';
 import { ProtectedRoute } from './ProtectedRoute';
-import { MainLayout } from '../../shared/components';
+import { publicRoutes, protectedRoutes } from './route.registry';
+import { MainLayout, AccessDenied } from '../../shared/components';
 import { ROUTES } from '../../shared/constants';
+import type { ProtectedRouteConfig } from '../../shared/types';
+
+/**
+ * Tela de acesso negado com atalho para o dashboard
+ */
+const RouteAccessDenied = () => {
+  const navigate = useNavigate();
+
+  return (
+    <AccessDenied
+      message="Você não tem permissão para acessar esta página."
+      action={
+        <Button variant="contained" onClick={() => navigate(ROUTES.DASHBOARD)}>
+          Voltar ao dashboard
+        </Button>
+      }
+    />
+  );
+};
+
+/**
+ * Monta o elemento de uma rota protegida a partir do registro
+ */
+const renderProtectedRoute = ({
+  component: Component,
+  moduleKey,
+  operation,
+  permission,
+  layout = true,
+  onDenied = 'access-denied',
+  redirectTo,
+}: ProtectedRouteConfig) => {
+  const withLayout = (content: React.ReactNode) =>
+    layout ? <MainLayout>{content}</MainLayout> : content;
+
+  return (
+    <ProtectedRoute
+      moduleKey={moduleKey}
+      operation={operation}
+      permission={permission}
+      fallback={onDenied === 'access-denied' ? withLayout(<RouteAccessDenied />) : undefined}
+      redirectTo={redirectTo}
+    >
+      {withLayout(<Component />)}
+    </ProtectedRoute>
+  );
+};
 
 export const AppRoutes = () => {
   return (
     <Routes>
       {/* Rota raiz - redireciona para dashboard */}
       <Route path="/" element={<Navigate to={ROUTES.DASHBOARD} replace />} />
-      
-      {/* Rota de login - pública */}
-      <Route path={ROUTES.LOGIN} element={<LoginPage />} />
-      
-      {/* Rotas protegidas com layout */}
-      <Route 
-        path={ROUTES.DASHBOARD} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <DashboardPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rotas de Access Groups */}
-      <Route 
-        path={ROUTES.ACCESS_GROUPS} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <AccessGroupsPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rotas de Group Types */}
-      <Route 
-        path={ROUTES.GROUP_TYPES} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <GroupTypesPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rota de teste para Group Types */}
-      <Route 
-        path={ROUTES.GROUP_TYPES_TEST} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <GroupTypesTestPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rotas de Módulos */}
-      <Route 
-        path={ROUTES.MODULES} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <ModulesPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rotas de Operações */}
-      <Route 
-        path={ROUTES.OPERATIONS} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <OperationsPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rota de teste para Operations */}
-      <Route 
-        path={ROUTES.OPERATIONS_TEST} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <OperationsTestPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rotas de Permissões */}
-      <Route 
-        path={ROUTES.PERMISSIONS} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <PermissionsPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rotas de Roles */}
-      <Route 
-        path={ROUTES.ROLES} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <RolesPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* Rotas de Usuários */}
-      <Route 
-        path={ROUTES.USERS} 
-        element={
-          <ProtectedRoute>
-            <MainLayout>
-              <UsersPage />
-            </MainLayout>
-          </ProtectedRoute>
-        } 
-      />
-      
-      {/* TODO: Adicionar mais rotas conforme necessário */}
-      
+
+      {/* Rotas públicas (login e recuperação de senha) */}
+      {publicRoutes.map(({ path, component: Component }) => (
+        <Route key={path} path={path} element={<Component />} />
+      ))}
+
+      {/* Rotas protegidas - geradas a partir do registro */}
+      {protectedRoutes.map(route => (
+        <Route key={route.path} path={route.path} element={renderProtectedRoute(route)} />
+      ))}
+
+      {/* Configurações ainda não têm página própria - concentradas no perfil */}
+      <Route path={ROUTES.SETTINGS} element={<Navigate to={ROUTES.PROFILE} replace />} />
+
       {/* Rota de fallback - redireciona para dashboard */}
       <Route path="*" element={<Navigate to={ROUTES.DASHBOARD} replace />} />
     </Routes>
   );
-};
\ No newline at end of file
+};
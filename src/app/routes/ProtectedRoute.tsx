@@ -1,23 +1,49 @@
 import { Navigate, useLocation } from 'react-router-dom';
+import { useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
+import { Alert, AlertTitle, Box, Button, CircularProgress, Stack } from '@mui/material';
 import { useAuth } from '../../shared/hooks';
+import { useAuthStore, usePermissionStore } from '../../shared/stores';
 import { ROUTES } from '../../shared/constants';
+import { formatPermissionExpression } from '../../shared/utils';
+import type { ModuleKey, OperationCode, PermissionExpression } from '../../shared/types';
+
+// Tempo de espera pelas permissões antes de oferecer nova tentativa ou logout
+const PERMISSIONS_LOAD_TIMEOUT_MS = 10_000;
 
 interface ProtectedRouteProps {
   children: ReactNode;
-  requiredPermissions?: string[];
-  requiredRoles?: string[];
+  moduleKey?: ModuleKey;
+  operation?: OperationCode;
+  // Expressão combinada, avaliada além de moduleKey/operation
+  permission?: PermissionExpression;
+  // Renderizado quando falta permissão; sem fallback o usuário é redirecionado
+  fallback?: ReactNode;
+  redirectTo?: string;
 }
 
 /**
  * Componente que protege rotas baseado na autenticação e permissões
+ *
+ * Features:
+ * - Redireciona para o login quando não autenticado
+ * - Exige moduleKey/operation via usePermissionStore
+ * - Aceita expressões de permissão (ex: 'ROLE_MODULE:UPDATE && PERMISSION_MODULE:SELECT')
+ * - Aguarda o carregamento das permissões antes de decidir
+ * - Se as permissões não chegarem, oferece nova tentativa ou logout
  */
-export const ProtectedRoute = ({ 
-  children, 
-  requiredPermissions = [], 
-  requiredRoles = [] 
+export const ProtectedRoute = ({
+  children,
+  moduleKey,
+  operation = 'SELECT',
+  permission,
+  fallback,
+  redirectTo = ROUTES.DASHBOARD,
 }: ProtectedRouteProps) => {
-  const { isAuthenticated, hasAnyPermission, hasRole } = useAuth();
+  const { isAuthenticated } = useAuth();
+  const permissions = usePermissionStore(state => state.permissions);
+  const canPerformOperation = usePermissionStore(state => state.canPerformOperation);
+  const satisfies = usePermissionStore(state => state.satisfies);
   const location = useLocation();
 
   // Redireciona para login se não estiver autenticado
@@ -25,19 +51,90 @@ export const ProtectedRoute = ({
     return <Navigate to={ROUTES.LOGIN} state={{ from: location }} replace />;
   }
 
-  // Verifica permissões se necessário
-  if (requiredPermissions.length > 0 && !hasAnyPermission(requiredPermissions)) {
-    return (
-      <Navigate to={ROUTES.DASHBOARD} state={{ error: 'Acesso negado' }} replace />
-    );
+  if (!moduleKey && permission === undefined) {
+    return <>{children}</>;
   }
 
-  // Verifica roles se necessário
-  if (requiredRoles.length > 0 && !requiredRoles.some(role => hasRole(role))) {
+  // Sessão restaurada do storage - permissões chegam logo após a inicialização
+  if (!permissions) {
+    return <PermissionsPending />;
+  }
+
+  const allowed =
+    (!moduleKey || canPerformOperation(moduleKey, operation)) &&
+    (permission === undefined || satisfies(permission));
+
+  if (!allowed) {
+    const requirement = [
+      moduleKey && `${moduleKey}:${operation}`,
+      permission !== undefined && formatPermissionExpression(permission),
+    ].filter(Boolean).join(' && ');
+    console.warn(`🔒 ProtectedRoute: Acesso negado a ${location.pathname} (${requirement})`);
+
+    if (fallback !== undefined) {
+      return <>{fallback}</>;
+    }
+
     return (
-      <Navigate to={ROUTES.DASHBOARD} state={{ error: 'Acesso negado' }} replace />
+      <Navigate to={redirectTo} state={{ error: 'Acesso negado', from: location }} replace />
     );
   }
 
   return <>{children}</>;
-};
\ No newline at end of file
+};
+
+/**
+ * Espera pelas permissões da sessão
+ * Após o timeout, ou se a nova tentativa falhar, mostra o erro com as ações disponíveis
+ */
+const PermissionsPending = () => {
+  const reloadPermissions = useAuthStore(state => state.reloadPermissions);
+  const logout = useAuthStore(state => state.logout);
+  const [timedOut, setTimedOut] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setTimedOut(true), PERMISSIONS_LOAD_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, []);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    setError(null);
+    try {
+      await reloadPermissions();
+    } catch (reloadError) {
+      console.error('❌ ProtectedRoute: Erro ao recarregar permissões:', reloadError);
+      setError(reloadError instanceof Error ? reloadError.message : 'Erro ao carregar permissões');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh', p: 2 }}>
+      {(timedOut || error) && !retrying ? (
+        <Alert
+          severity="error"
+          sx={{ maxWidth: 480 }}
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button color="inherit" size="small" onClick={handleRetry}>
+                Tentar novamente
+              </Button>
+              <Button color="inherit" size="small" onClick={logout}>
+                Sair
+              </Button>
+            </Stack>
+          }
+        >
+          <AlertTitle>Não foi possível carregar suas permissões</AlertTitle>
+          {error ?? 'O carregamento está demorando mais que o esperado.'}
+        </Alert>
+      ) : (
+        <CircularProgress />
+      )}
+    </Box>
+  );
+};
@@ -1,3 +1,4 @@
 // Sistema de rotas da aplicação
 export * from './AppRoutes';
-export * from './ProtectedRoute';
\ No newline at end of file
+export * from './ProtectedRoute';
+export * from './route.registry';
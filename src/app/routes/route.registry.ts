@@ -0,0 +1,94 @@
+import type { ComponentType } from 'react';
+import { LoginPage, ForgotPasswordPage, ResetPasswordPage } from '../../features/auth';
+import { DashboardPage } from '../../features/dashboard';
+import { AccessGroupsPage } from '../../features/access-groups';
+import { GroupTypesTestPage, GroupTypesPage } from '../../features/groups';
+import { ModulesPage } from '../../features/modules';
+import { OperationsPage, OperationsTestPage } from '../../features/operations';
+import { PermissionsPage } from '../../features/permissions';
+import { PermissionExplainerPage } from '../../features/permission-explainer';
+import { PermissionMatrixPage } from '../../features/permission-matrix';
+import { RolesPage } from '../../features/roles';
+import { UsersPage } from '../../features/users';
+import { TenantsPage } from '../../features/tenants';
+import { ApplicationsPage } from '../../features/applications';
+import { ProfilePage } from '../../features/profile';
+import { LargeListBenchmarkPage } from '../../features/benchmarks';
+import { ROUTES } from '../../shared/constants';
+import { ModuleKey } from '../../shared/types';
+import type { ProtectedRouteConfig } from '../../shared/types';
+
+// Rota pública - sem autenticação nem layout
+export interface PublicRouteConfig {
+  path: string;
+  component: ComponentType;
+}
+
+/**
+ * Rotas públicas da aplicação
+ */
+export const publicRoutes: readonly PublicRouteConfig[] = [
+  { path: ROUTES.LOGIN, component: LoginPage },
+  { path: ROUTES.FORGOT_PASSWORD, component: ForgotPasswordPage },
+  { path: ROUTES.RESET_PASSWORD, component: ResetPasswordPage },
+];
+
+/**
+ * Registro único das rotas protegidas
+ *
+ * Cada entrada gera uma <Route> em AppRoutes e define a permissão exigida.
+ * Links diretos (ex: /roles) são bloqueados para quem não tem moduleKey:operation.
+ */
+export const protectedRoutes: readonly ProtectedRouteConfig[] = [
+  // Dashboard e perfil exigem apenas autenticação
+  { path: ROUTES.DASHBOARD, component: DashboardPage },
+  { path: ROUTES.PROFILE, component: ProfilePage },
+
+  // Controle de acesso
+  { path: ROUTES.ACCESS_GROUPS, component: AccessGroupsPage, moduleKey: ModuleKey.ACCESS_GROUP },
+  { path: ROUTES.GROUP_TYPES, component: GroupTypesPage, moduleKey: ModuleKey.GROUP_TYPE },
+  { path: ROUTES.MODULES, component: ModulesPage, moduleKey: ModuleKey.MODULES },
+  { path: ROUTES.OPERATIONS, component: OperationsPage, moduleKey: ModuleKey.OPERATION_MODULE },
+  { path: ROUTES.ROLES, component: RolesPage, moduleKey: ModuleKey.ROLE_MODULE },
+  { path: ROUTES.PERMISSIONS, component: PermissionsPage, moduleKey: ModuleKey.PERMISSION_MODULE },
+  {
+    path: ROUTES.PERMISSION_EXPLAIN,
+    component: PermissionExplainerPage,
+    moduleKey: ModuleKey.PERMISSION_MODULE,
+    // A explicação lê usuários e roles além das permissões
+    permission: 'USER_MODULE:SELECT && ROLE_MODULE:SELECT',
+  },
+  {
+    path: ROUTES.PERMISSION_MATRIX,
+    component: PermissionMatrixPage,
+    moduleKey: ModuleKey.PERMISSION_MODULE,
+    permission: 'USER_MODULE:SELECT && ROLE_MODULE:SELECT && ACCESS_GROUP:SELECT',
+  },
+  { path: ROUTES.USERS, component: UsersPage, moduleKey: ModuleKey.USER_MODULE },
+  { path: ROUTES.TENANTS, component: TenantsPage, moduleKey: ModuleKey.TENANT_MODULE },
+  { path: ROUTES.APPLICATIONS, component: ApplicationsPage, moduleKey: ModuleKey.APPLICATION_MODULE },
+
+  // Páginas de teste - redirecionam em vez de exibir acesso negado
+  {
+    path: ROUTES.GROUP_TYPES_TEST,
+    component: GroupTypesTestPage,
+    moduleKey: ModuleKey.GROUP_TYPE,
+    onDenied: 'redirect',
+  },
+  {
+    path: ROUTES.OPERATIONS_TEST,
+    component: OperationsTestPage,
+    moduleKey: ModuleKey.OPERATION_MODULE,
+    onDenied: 'redirect',
+  },
+
+  // Benchmark de listas grandes - registrado apenas em desenvolvimento
+  ...(import.meta.env.DEV
+    ? [{
+        path: ROUTES.LARGE_LIST_BENCHMARK,
+        component: LargeListBenchmarkPage,
+        moduleKey: ModuleKey.USER_MODULE,
+        onDenied: 'redirect' as const,
+      }]
+    : []),
+];
@@ -1,30 +1,49 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   PageHeader,
   ResponsiveContainer,
   StyledCard,
-  PermissionsDebug
+  PermissionsDebug,
+  ExportSelectionButton
 } from '../../shared/components';
 import { Add as AddIcon, Groups as GroupsIcon } from '@mui/icons-material';
 import { Typography, Box, CircularProgress, Alert } from '@mui/material';
-import { useAccessGroups } from '../../shared/hooks';
+import { useAccessGroups, useListUrlState } from '../../shared/hooks';
 import { useGroupTypes } from '../group-types/hooks';
 import { usePermissions } from '../../shared/stores';
-import { AccessGroupsList, AccessGroupDialog } from './components';
+import { AccessGroupsList, AccessGroupDialog, ACCESS_GROUP_FILTER_TYPES } from './components';
 import { ModuleKey } from '../../shared/types/permission.types';
-import type { AccessGroup, CreateAccessGroupRequest, UpdateAccessGroupRequest } from '../../shared/types';
+import type { AccessGroup, CreateAccessGroupRequest, UpdateAccessGroupRequest, ListQuery } from '../../shared/types';
+import { EMPTY_SELECTION, hasActiveFilters } from '../../shared/utils';
+import type { ExportRows, RowSelection } from '../../shared/utils';
+
+const toExportRows = (accessGroups: AccessGroup[]): ExportRows => [
+  ['Nome', 'Código', 'Tipo', 'Status', 'Criado em'],
+  ...accessGroups.map(group => [
+    group.name,
+    group.code,
+    group.groupTypeName,
+    group.isActive ? 'Ativo' : 'Inativo',
+    group.createdAt,
+  ]),
+];
 
 /**
  * Página de Grupos de Acesso
  * Gerencia todos os grupos de acesso do sistema
  * Protegida por permissões de módulo ACCESS_GROUP
+ * Página, ordenação e filtros ficam na URL (recarregar, compartilhar e voltar/avançar)
  */
 export const AccessGroupsPage = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingAccessGroup, setEditingAccessGroup] = useState<AccessGroup | null>(null);
+  const [selection, setSelection] = useState<RowSelection>(EMPTY_SELECTION);
 
   // Hook de permissões para controle de acesso
-  const { canCreate, canUpdate, canDelete, hasAccess } = usePermissions();
+  const { canCreate, canOn, hasAccess } = usePermissions();
+
+  // Estado da listagem na query string
+  const listUrl = useListUrlState({ filterTypes: ACCESS_GROUP_FILTER_TYPES });
 
   const {
     data: accessGroups = [],
@@ -33,19 +52,24 @@ export const AccessGroupsPage = () => {
     totalCount,
     currentPage,
     pageSize,
+    listQuery,
     createAccessGroup,
     updateAccessGroup,
     deleteAccessGroup,
-    loadAccessGroups,
     refreshData,
     clearError,
-    setPageSize,
-  } = useAccessGroups();
+    fetchAllMatching,
+  } = useAccessGroups({ listState: listUrl.state });
 
   const {
     groupTypes = [],
   } = useGroupTypes();
 
+  // A seleção deixa de valer quando o conjunto de registros muda (inclusive ao voltar/avançar no navegador)
+  useEffect(() => {
+    setSelection(EMPTY_SELECTION);
+  }, [listUrl.state.search, listUrl.state.listQuery]);
+
   // Verificar se tem permissão básica para visualizar
   if (!hasAccess(ModuleKey.ACCESS_GROUP, 'SELECT')) {
     return (
@@ -80,8 +104,8 @@ export const AccessGroupsPage = () => {
   };
 
   const handleEditAccessGroup = (accessGroup: AccessGroup) => {
-    if (!canUpdate(ModuleKey.ACCESS_GROUP)) {
-      alert('Você não tem permissão para editar grupos de acesso.');
+    if (!canOn(ModuleKey.ACCESS_GROUP, 'UPDATE', accessGroup)) {
+      alert('Você não tem permissão para editar este grupo de acesso.');
       return;
     }
     setEditingAccessGroup(accessGroup);
@@ -89,8 +113,8 @@ export const AccessGroupsPage = () => {
   };
 
   const handleDeleteAccessGroup = async (accessGroup: AccessGroup) => {
-    if (!canDelete(ModuleKey.ACCESS_GROUP)) {
-      alert('Você não tem permissão para excluir grupos de acesso.');
+    if (!canOn(ModuleKey.ACCESS_GROUP, 'DELETE', accessGroup)) {
+      alert('Você não tem permissão para excluir este grupo de acesso.');
       return;
     }
     if (window.confirm(`Tem certeza que deseja excluir o grupo "${accessGroup.name}"?`)) {
@@ -105,18 +129,23 @@ export const AccessGroupsPage = () => {
   };
 
   // Handlers para paginação
-  const handlePageChange = async (page: number) => {
+  const handlePageChange = (page: number) => {
     console.log(`📄 Mudando para página: ${page}`);
-    await loadAccessGroups(page);
+    listUrl.setPage(page);
   };
 
-  const handlePageSizeChange = async (newPageSize: number) => {
+  const handlePageSizeChange = (newPageSize: number) => {
     console.log(`📊 Mudando tamanho da página: ${newPageSize}`);
-    setPageSize(newPageSize);
-    // Volta para primeira página quando muda o tamanho
-    await loadAccessGroups(1);
+    // O hook recarrega a partir da primeira página com o novo tamanho
+    listUrl.setPageSize(newPageSize);
   };
 
+  const handleListQueryChange = (query: ListQuery) => {
+    listUrl.setListQuery(query);
+  };
+
+  const filtering = hasActiveFilters(listQuery.filters);
+
   const handleDialogSubmit = async (data: CreateAccessGroupRequest | UpdateAccessGroupRequest) => {
     try {
       if (editingAccessGroup) {
@@ -171,11 +200,11 @@ export const AccessGroupsPage = () => {
           </Alert>
         )}
 
-        {loading && (!accessGroups || accessGroups.length === 0) ? (
+        {loading && (!accessGroups || accessGroups.length === 0) && !filtering ? (
           <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
             <CircularProgress />
           </Box>
-        ) : (!accessGroups || accessGroups.length === 0) ? (
+        ) : (!accessGroups || accessGroups.length === 0) && !filtering ? (
           <Box sx={{ textAlign: 'center', py: 8 }}>
             <GroupsIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
             <Typography variant="h6" color="text.secondary" gutterBottom>
@@ -197,8 +226,23 @@ export const AccessGroupsPage = () => {
             pageSize={pageSize}
             onPageChange={handlePageChange}
             onPageSizeChange={handlePageSizeChange}
-            canEdit={canUpdate(ModuleKey.ACCESS_GROUP)}
-            canDelete={canDelete(ModuleKey.ACCESS_GROUP)}
+            listQuery={listQuery}
+            onListQueryChange={handleListQueryChange}
+            groupTypes={groupTypes}
+            selection={selection}
+            onSelectionChange={setSelection}
+            selectionActions={
+              <ExportSelectionButton
+                selection={selection}
+                rows={accessGroups}
+                getKey={(accessGroup) => accessGroup.id}
+                fetchAll={fetchAllMatching}
+                toExportRows={toExportRows}
+                filename="grupos-de-acesso.csv"
+              />
+            }
+            canEdit={(accessGroup) => canOn(ModuleKey.ACCESS_GROUP, 'UPDATE', accessGroup)}
+            canDelete={(accessGroup) => canOn(ModuleKey.ACCESS_GROUP, 'DELETE', accessGroup)}
           />
         )}
       </StyledCard>
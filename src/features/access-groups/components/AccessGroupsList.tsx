@@ -20,8 +20,10 @@ import {
 } from '@mui/icons-material';
 import { DataTable } from '../../../shared/components/data-display/DataTable';
 import type { DataTableColumn } from '../../../shared/components/data-display/DataTable';
-import type { AccessGroup } from '../../../shared/types';
+import type { AccessGroup, GroupType, ListQuery } from '../../../shared/types';
 import { formatDate } from '../../../shared/utils/date.utils';
+import { hasActiveFilters } from '../../../shared/utils';
+import type { RowSelection } from '../../../shared/utils';
 
 export interface AccessGroupsListProps {
   accessGroups: AccessGroup[];
@@ -36,11 +38,25 @@ export interface AccessGroupsListProps {
   pageSize?: number;
   onPageChange?: (page: number) => void;
   onPageSizeChange?: (pageSize: number) => void;
-  // Propriedades de permissão
-  canEdit?: boolean;
-  canDelete?: boolean;
+  // Ordenação e filtros no servidor
+  listQuery?: ListQuery;
+  onListQueryChange?: (query: ListQuery) => void;
+  // Opções do filtro por tipo de grupo
+  groupTypes?: GroupType[];
+  // Seleção
+  selection?: RowSelection;
+  onSelectionChange?: (selection: RowSelection) => void;
+  selectionActions?: React.ReactNode;
+  // Propriedades de permissão - aceitam função para decidir por registro
+  canEdit?: RowPermission;
+  canDelete?: RowPermission;
 }
 
+type RowPermission = boolean | ((accessGroup: AccessGroup) => boolean);
+
+const allowsRow = (permission: RowPermission, accessGroup: AccessGroup | null) =>
+  typeof permission === 'function' ? !!accessGroup && permission(accessGroup) : permission;
+
 /**
  * Lista responsiva de Access Groups com ações inline e paginação
  * Exibe dados de forma clara e acessível
@@ -57,6 +73,12 @@ export const AccessGroupsList = ({
   pageSize = 10,
   onPageChange,
   onPageSizeChange,
+  listQuery = {},
+  onListQueryChange,
+  groupTypes = [],
+  selection,
+  onSelectionChange,
+  selectionActions,
   canEdit = true,
   canDelete = true,
 }: AccessGroupsListProps) => {
@@ -114,6 +136,8 @@ export const AccessGroupsList = ({
       id: 'name',
       label: 'Nome',
       minWidth: 200,
+      sortable: true,
+      filter: { type: 'text' },
       format: (value, row) => (
         <Box>
           <Box sx={{ fontWeight: 600, color: 'text.primary' }}>
@@ -131,6 +155,8 @@ export const AccessGroupsList = ({
       id: 'code',
       label: 'Código',
       minWidth: 120,
+      sortable: true,
+      filter: { type: 'text' },
       format: (value) => (
         value ? (
           <Chip
@@ -155,6 +181,11 @@ export const AccessGroupsList = ({
       id: 'groupTypeName',
       label: 'Tipo',
       minWidth: 140,
+      filterKey: 'groupTypeId',
+      filter: {
+        type: 'enum',
+        options: groupTypes.map(groupType => ({ value: groupType.id, label: groupType.name })),
+      },
       format: (value, row) => (
         <Chip
           label={row.groupTypeName || value || 'N/A'}
@@ -172,6 +203,8 @@ export const AccessGroupsList = ({
       label: 'Status',
       minWidth: 120,
       align: 'center',
+      sortable: true,
+      filter: { type: 'boolean', trueLabel: 'Ativo', falseLabel: 'Inativo' },
       format: (value) => (
         <Chip
           icon={value ? <ActiveIcon /> : <InactiveIcon />}
@@ -186,6 +219,8 @@ export const AccessGroupsList = ({
       id: 'createdAt',
       label: 'Criado em',
       minWidth: 140,
+      sortable: true,
+      filter: { type: 'dateRange' },
       format: (value) => (
         <Box sx={{ fontSize: '0.875rem', color: 'text.secondary' }}>
           {formatDate(value)}
@@ -198,7 +233,7 @@ export const AccessGroupsList = ({
       minWidth: 80,
       align: 'center',
       format: (_, row) => (
-        (canEdit || canDelete || onToggleStatus) ? (
+        (allowsRow(canEdit, row) || allowsRow(canDelete, row)) ? (
           <Tooltip title="Mais opções">
             <IconButton
               size="small"
@@ -213,7 +248,10 @@ export const AccessGroupsList = ({
     },
   ];
 
-  if (loading) {
+  // Com filtros ativos a tabela continua visível (o carregamento é indicado por ela)
+  const filtering = hasActiveFilters(listQuery.filters);
+
+  if (loading && !filtering) {
     return (
       <Box sx={{ p: 3, textAlign: 'center' }}>
         Carregando grupos de acesso...
@@ -221,7 +259,7 @@ export const AccessGroupsList = ({
     );
   }
 
-  if (!accessGroups.length) {
+  if (!accessGroups.length && !filtering) {
     return (
       <Alert severity="info">
         <AlertTitle>Nenhum grupo de acesso encontrado</AlertTitle>
@@ -243,6 +281,17 @@ export const AccessGroupsList = ({
         onPageChange={handlePageChange}
         onRowsPerPageChange={handlePageSizeChange}
         rowsPerPageOptions={[5, 10, 25, 50]}
+        loading={loading}
+        rowKey="id"
+        sortBy={listQuery.sortBy}
+        sortDirection={listQuery.sortDirection}
+        onSortChange={onListQueryChange && ((sort) => onListQueryChange({ ...listQuery, ...sort }))}
+        filters={listQuery.filters}
+        onFiltersChange={onListQueryChange && ((filters) => onListQueryChange({ ...listQuery, filters }))}
+        selectable={!!onSelectionChange}
+        selection={selection}
+        onSelectionChange={onSelectionChange}
+        selectionActions={selectionActions}
       />
 
       {/* Menu de ações */}
@@ -259,7 +308,7 @@ export const AccessGroupsList = ({
         transformOrigin={{ horizontal: 'right', vertical: 'top' }}
         anchorOrigin={{ horizontal: 'right', vertical: 'bottom' }}
       >
-        {canEdit && (
+        {allowsRow(canEdit, selectedAccessGroup) && (
           <MenuItem onClick={handleEdit}>
             <ListItemIcon>
               <EditIcon fontSize="small" />
@@ -268,7 +317,7 @@ export const AccessGroupsList = ({
           </MenuItem>
         )}
         
-        {onToggleStatus && (
+        {onToggleStatus && allowsRow(canEdit, selectedAccessGroup) && (
           <MenuItem onClick={handleToggle}>
             <ListItemIcon>
               {selectedAccessGroup?.isActive ? (
@@ -283,7 +332,7 @@ export const AccessGroupsList = ({
           </MenuItem>
         )}
         
-        {canDelete && (
+        {allowsRow(canDelete, selectedAccessGroup) && (
           <MenuItem 
             onClick={handleDelete}
             sx={{ color: 'error.main' }}
@@ -1,6 +1,7 @@
 // Componentes do módulo de Access Groups
 export { AccessGroupsList } from './AccessGroupsList';
 export type { AccessGroupsListProps } from './AccessGroupsList';
+export { ACCESS_GROUP_FILTER_TYPES } from './table-columns';
 
 export { AccessGroupDialog } from './AccessGroupDialog';
 export type { AccessGroupDialogProps } from './AccessGroupDialog';
@@ -0,0 +1,8 @@
+import type { ColumnFilterTypes } from '../../../shared/types';
+
+// Filtros que não são texto, para ler a URL com o tipo da coluna
+export const ACCESS_GROUP_FILTER_TYPES: ColumnFilterTypes = {
+  groupTypeId: 'enum',
+  isActive: 'boolean',
+  createdAt: 'dateRange',
+};
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import {
+  PageHeader,
+  ResponsiveContainer,
+  StyledCard
+} from '../../shared/components';
+import {
+  Add as AddIcon,
+  Apps as ApplicationIcon,
+  Search as SearchIcon
+} from '@mui/icons-material';
+import {
+  Typography,
+  Box,
+  CircularProgress,
+  Alert,
+  Button,
+  Paper,
+  TextField,
+  InputAdornment
+} from '@mui/material';
+import { ApplicationsList, ApplicationDialog } from './components';
+import { useApplications } from './hooks';
+import { useListUrlState } from '../../shared/hooks';
+import { usePermissions } from '../../shared/stores';
+import { ModuleKey } from '../../shared/types/permission.types';
+import type {
+  Application,
+  CreateApplicationRequest,
+  UpdateApplicationRequest
+} from '../../shared/types';
+
+const PAGE_SIZE = 10;
+
+/**
+ * Página de Aplicações
+ * Gerencia as aplicações às quais módulos e roles pertencem
+ * Protegida por permissões de módulo APPLICATION_MODULE
+ */
+export const ApplicationsPage = () => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingApplication, setEditingApplication] = useState<Application | null>(null);
+
+  // Página e busca na query string (recarregar, compartilhar e voltar/avançar)
+  const listUrl = useListUrlState({ defaultPageSize: PAGE_SIZE });
+
+  // Hook de permissões para controle de acesso
+  const { canCreate, canUpdate, canDelete, hasAccess } = usePermissions();
+
+  const {
+    applications,
+    loading,
+    error,
+    totalItems,
+    currentPage,
+    createApplication,
+    updateApplication,
+    deleteApplication,
+    toggleStatus,
+    clearError,
+  } = useApplications({
+    autoLoad: true,
+    pageSize: PAGE_SIZE,
+    listState: listUrl.state
+  });
+
+  // Verificar se tem permissão básica para visualizar
+  if (!hasAccess(ModuleKey.APPLICATION_MODULE, 'SELECT')) {
+    return (
+      <ResponsiveContainer>
+        <Box sx={{ textAlign: 'center', py: 8 }}>
+          <ApplicationIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
+          <Typography variant="h6" color="text.secondary" gutterBottom>
+            Acesso Negado
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Você não tem permissão para visualizar aplicações.
+          </Typography>
+        </Box>
+      </ResponsiveContainer>
+    );
+  }
+
+  /**
+   * Abre dialog para criar nova aplicação
+   */
+  const handleCreateApplication = () => {
+    setEditingApplication(null);
+    setDialogOpen(true);
+  };
+
+  /**
+   * Abre dialog para editar aplicação existente
+   */
+  const handleEditApplication = (application: Application) => {
+    setEditingApplication(application);
+    setDialogOpen(true);
+  };
+
+  /**
+   * Remove uma aplicação com confirmação
+   */
+  const handleDeleteApplication = async (application: Application) => {
+    const confirmed = window.confirm(
+      `Tem certeza que deseja excluir a aplicação "${application.name}"?\n\n` +
+      `Esta ação não pode ser desfeita e pode afetar módulos e roles vinculados a esta aplicação.`
+    );
+
+    if (confirmed) {
+      try {
+        await deleteApplication(application.id);
+      } catch (err) {
+        console.error('Erro ao deletar aplicação:', err);
+      }
+    }
+  };
+
+  /**
+   * Alterna status ativo/inativo da aplicação
+   */
+  const handleToggleStatus = async (application: Application) => {
+    try {
+      await toggleStatus(application);
+    } catch (err) {
+      console.error('Erro ao alterar status da aplicação:', err);
+    }
+  };
+
+  /**
+   * Submete formulário do dialog (criar ou atualizar)
+   */
+  const handleDialogSubmit = async (data: CreateApplicationRequest | UpdateApplicationRequest): Promise<void> => {
+    if (editingApplication) {
+      await updateApplication(editingApplication.id, data as UpdateApplicationRequest);
+    } else {
+      await createApplication(data as CreateApplicationRequest);
+    }
+
+    setDialogOpen(false);
+    setEditingApplication(null);
+  };
+
+  /**
+   * Fecha dialog e limpa estado
+   */
+  const handleDialogClose = () => {
+    setDialogOpen(false);
+    setEditingApplication(null);
+    clearError();
+  };
+
+  const canUpdateApplications = canUpdate(ModuleKey.APPLICATION_MODULE);
+
+  return (
+    <ResponsiveContainer>
+
+      {/* Header da página */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <PageHeader
+          title="Aplicações"
+          subtitle="Gerenciamento das aplicações do sistema"
+          icon={<ApplicationIcon />}
+        />
+
+        {canCreate(ModuleKey.APPLICATION_MODULE) && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleCreateApplication}
+            disabled={loading}
+          >
+            Nova Aplicação
+          </Button>
+        )}
+      </Box>
+
+      {/* Busca */}
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <TextField
+          placeholder="Buscar por nome ou código..."
+          value={listUrl.searchInput}
+          onChange={(e) => listUrl.setSearchInput(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+          fullWidth
+          size="small"
+        />
+      </Paper>
+
+      {/* Conteúdo principal */}
+      <Box sx={{ mt: 3 }}>
+
+        {/* Estados de loading geral */}
+        {loading && applications.length === 0 && (
+          <StyledCard>
+            <Box sx={{ textAlign: 'center', py: 6 }}>
+              <CircularProgress size={40} />
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                Carregando aplicações...
+              </Typography>
+            </Box>
+          </StyledCard>
+        )}
+
+        {/* Estados de erro */}
+        {error && (
+          <Alert
+            severity="error"
+            onClose={clearError}
+            sx={{ mb: 3 }}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {/* Lista de aplicações */}
+        {!loading || applications.length > 0 ? (
+          <ApplicationsList
+            applications={applications}
+            loading={loading}
+            onEdit={canUpdateApplications ? handleEditApplication : undefined}
+            onDelete={canDelete(ModuleKey.APPLICATION_MODULE) ? handleDeleteApplication : undefined}
+            onToggleStatus={canUpdateApplications ? handleToggleStatus : undefined}
+            totalItems={totalItems}
+            currentPage={currentPage}
+            pageSize={listUrl.state.pageSize}
+            onPageChange={listUrl.setPage}
+          />
+        ) : null}
+
+      </Box>
+
+      {/* Dialog de criação/edição */}
+      <ApplicationDialog
+        open={dialogOpen}
+        onClose={handleDialogClose}
+        application={editingApplication}
+        onSubmit={handleDialogSubmit}
+        loading={loading}
+        error={error}
+      />
+
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,104 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Box
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { ApplicationForm } from './ApplicationForm';
+import type { Application, CreateApplicationRequest, UpdateApplicationRequest } from '../../../shared/types';
+
+interface ApplicationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  application?: Application | null;
+  onSubmit: (data: CreateApplicationRequest | UpdateApplicationRequest) => Promise<void>;
+  loading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Dialog modal para criação e edição de aplicações
+ */
+export const ApplicationDialog = ({
+  open,
+  onClose,
+  application,
+  onSubmit,
+  loading = false,
+  error
+}: ApplicationDialogProps) => {
+
+  const isEditing = Boolean(application);
+  const title = isEditing ? 'Editar Aplicação' : 'Nova Aplicação';
+
+  const handleSubmit = async (data: CreateApplicationRequest | UpdateApplicationRequest) => {
+    try {
+      await onSubmit(data);
+      onClose(); // Fecha dialog apenas em caso de sucesso
+    } catch (err) {
+      // Erro já é tratado pelo componente pai
+      console.error('Erro no submit do dialog:', err);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: { minHeight: 320 }
+      }}
+    >
+      {/* Header */}
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          {title}
+          <IconButton
+            edge="end"
+            color="inherit"
+            onClick={onClose}
+            aria-label="fechar"
+            disabled={loading}
+          >
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      {/* Content */}
+      <DialogContent dividers>
+        <ApplicationForm
+          application={application}
+          onSubmit={handleSubmit}
+          loading={loading}
+          error={error}
+        />
+      </DialogContent>
+
+      {/* Actions */}
+      <DialogActions sx={{ p: 2 }}>
+        <Button
+          onClick={onClose}
+          disabled={loading}
+          color="inherit"
+        >
+          Cancelar
+        </Button>
+        <Button
+          type="submit"
+          form="application-form"
+          variant="contained"
+          disabled={loading}
+        >
+          {loading ? 'Salvando...' : (isEditing ? 'Atualizar' : 'Criar')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
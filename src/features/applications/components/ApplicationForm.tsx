@@ -0,0 +1,191 @@
+import { useEffect } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Box,
+  TextField,
+  FormControlLabel,
+  Switch,
+  Typography,
+  Alert,
+  Stack
+} from '@mui/material';
+import type { Application, CreateApplicationRequest, UpdateApplicationRequest } from '../../../shared/types';
+
+const applicationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Nome deve ter pelo menos 2 caracteres')
+    .max(255, 'Nome deve ter no máximo 255 caracteres'),
+  code: z
+    .string()
+    .trim()
+    .max(50, 'Código deve ter no máximo 50 caracteres')
+    .regex(/^[A-Z0-9_-]*$/, 'Código deve conter apenas letras maiúsculas, números, _ e -'),
+  description: z.string().trim().max(500, 'Descrição deve ter no máximo 500 caracteres'),
+  isActive: z.boolean(),
+});
+
+type ApplicationFormData = z.infer<typeof applicationSchema>;
+
+const emptyFormData: ApplicationFormData = {
+  name: '',
+  code: '',
+  description: '',
+  isActive: true,
+};
+
+interface ApplicationFormProps {
+  application?: Application | null;
+  onSubmit: (data: CreateApplicationRequest | UpdateApplicationRequest) => Promise<void>;
+  loading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Componente de formulário para criação e edição de aplicações
+ *
+ * Features:
+ * - Validação com Zod via react-hook-form
+ * - Código normalizado em letras maiúsculas
+ * - Modo criação e edição
+ * - Auto-preenchimento para edição
+ */
+export const ApplicationForm = ({
+  application,
+  onSubmit,
+  loading = false,
+  error
+}: ApplicationFormProps) => {
+  const isEditing = Boolean(application);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ApplicationFormData>({
+    resolver: zodResolver(applicationSchema),
+    defaultValues: emptyFormData,
+  });
+
+  // Preenche formulário quando a aplicação é fornecida
+  useEffect(() => {
+    reset(application ? {
+      name: application.name || '',
+      code: application.code || '',
+      description: application.description || '',
+      isActive: application.isActive,
+    } : emptyFormData);
+  }, [application, reset]);
+
+  const submit = async (data: ApplicationFormData) => {
+    try {
+      await onSubmit({
+        name: data.name,
+        code: data.code || undefined,
+        description: data.description || undefined,
+        isActive: data.isActive,
+      });
+    } catch (err) {
+      console.error('Erro no submit do formulário:', err);
+    }
+  };
+
+  const codeRegistration = register('code');
+
+  return (
+    <Box component="form" onSubmit={handleSubmit(submit)} noValidate id="application-form">
+
+      {/* Erro geral */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Stack spacing={3}>
+
+        {/* Nome e Código */}
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField
+            {...register('name')}
+            label="Nome da Aplicação"
+            error={Boolean(errors.name)}
+            helperText={errors.name?.message || 'Nome exibido da aplicação (ex: Portal do Cliente)'}
+            required
+            fullWidth
+            disabled={loading}
+            autoFocus={!isEditing}
+          />
+
+          <TextField
+            {...codeRegistration}
+            onChange={(event) => {
+              event.target.value = event.target.value.toUpperCase();
+              codeRegistration.onChange(event);
+            }}
+            label="Código"
+            error={Boolean(errors.code)}
+            helperText={errors.code?.message || 'Código único (opcional) - letras maiúsculas, números, _ e -'}
+            fullWidth
+            disabled={loading}
+            placeholder="ex: PORTAL, BACKOFFICE"
+            inputProps={{
+              style: { fontFamily: 'monospace', fontWeight: 600 }
+            }}
+          />
+        </Stack>
+
+        {/* Descrição */}
+        <TextField
+          {...register('description')}
+          label="Descrição"
+          error={Boolean(errors.description)}
+          helperText={errors.description?.message || 'Descrição da aplicação e de seus módulos'}
+          fullWidth
+          multiline
+          rows={3}
+          disabled={loading}
+        />
+
+        {/* Status */}
+        <Controller
+          name="isActive"
+          control={control}
+          render={({ field }) => (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={field.value}
+                  onChange={(event) => field.onChange(event.target.checked)}
+                  disabled={loading}
+                  color="primary"
+                />
+              }
+              label={
+                <Box>
+                  <Typography variant="body2">
+                    Aplicação {field.value ? 'Ativa' : 'Inativa'}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {field.value
+                      ? 'Disponível para vincular módulos e roles'
+                      : 'Oculta na seleção de módulos e roles'
+                    }
+                  </Typography>
+                </Box>
+              }
+            />
+          )}
+        />
+
+      </Stack>
+
+      {/* Botão de submit é renderizado pelo componente pai (Dialog) */}
+    </Box>
+  );
+};
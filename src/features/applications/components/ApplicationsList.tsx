@@ -0,0 +1,223 @@
+import {
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Tooltip,
+  Typography,
+  Box,
+  TablePagination
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  ToggleOff as InactiveIcon,
+  ToggleOn as ActiveIcon,
+  Apps as ApplicationIcon
+} from '@mui/icons-material';
+import type { Application } from '../../../shared/types';
+
+interface ApplicationsListProps {
+  applications: Application[];
+  loading?: boolean;
+  onEdit?: (application: Application) => void;
+  onDelete?: (application: Application) => void;
+  onToggleStatus?: (application: Application) => void;
+  // Paginação
+  totalItems: number;
+  currentPage: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * Componente de lista de aplicações com tabela responsiva
+ *
+ * Features:
+ * - Tabela com nome, código e descrição das aplicações
+ * - Indicadores visuais de status (ativo/inativo)
+ * - Ações inline conforme permissões (editar, deletar, toggle status)
+ * - Paginação integrada
+ */
+export const ApplicationsList = ({
+  applications,
+  loading = false,
+  onEdit,
+  onDelete,
+  onToggleStatus,
+  totalItems,
+  currentPage,
+  pageSize,
+  onPageChange,
+}: ApplicationsListProps) => {
+
+  const handlePageChange = (_: unknown, newPage: number) => {
+    onPageChange(newPage + 1); // MUI usa 0-indexed, nossa API usa 1-indexed
+  };
+
+  if (applications.length === 0 && !loading) {
+    return (
+      <Paper sx={{ p: 4, textAlign: 'center' }}>
+        <ApplicationIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
+        <Typography variant="h6" color="text.secondary" gutterBottom>
+          Nenhuma aplicação encontrada
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Ajuste a busca ou cadastre uma nova aplicação
+        </Typography>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper>
+      <TableContainer>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Nome</TableCell>
+              <TableCell>Código</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Criado em</TableCell>
+              <TableCell align="right">Ações</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {applications.map((application) => (
+              <TableRow
+                key={application.id}
+                hover
+                sx={{
+                  '&:last-child td, &:last-child th': { border: 0 },
+                  opacity: application.isActive ? 1 : 0.6
+                }}
+              >
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <ApplicationIcon color="primary" fontSize="small" />
+                    <Box>
+                      <Typography variant="body2" fontWeight="medium">
+                        {application.name}
+                      </Typography>
+                      {application.description && (
+                        <Typography variant="caption" color="text.secondary">
+                          {application.description}
+                        </Typography>
+                      )}
+                    </Box>
+                  </Box>
+                </TableCell>
+
+                <TableCell>
+                  {application.code ? (
+                    <Chip
+                      label={application.code}
+                      size="small"
+                      variant="outlined"
+                      color="primary"
+                      sx={{ fontFamily: 'monospace' }}
+                    />
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      -
+                    </Typography>
+                  )}
+                </TableCell>
+
+                <TableCell>
+                  <Chip
+                    label={application.isActive ? 'Ativo' : 'Inativo'}
+                    color={application.isActive ? 'success' : 'default'}
+                    size="small"
+                    variant={application.isActive ? 'filled' : 'outlined'}
+                  />
+                </TableCell>
+
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary">
+                    {new Date(application.createdAt).toLocaleDateString('pt-BR')}
+                  </Typography>
+                </TableCell>
+
+                <TableCell align="right">
+                  <Box sx={{ display: 'flex', gap: 0.5, justifyContent: 'flex-end' }}>
+
+                    {/* Toggle Status */}
+                    {onToggleStatus && (
+                      <Tooltip title={application.isActive ? 'Desativar aplicação' : 'Ativar aplicação'}>
+                        <IconButton
+                          size="small"
+                          onClick={() => onToggleStatus(application)}
+                          color={application.isActive ? 'warning' : 'success'}
+                          disabled={loading}
+                        >
+                          {application.isActive ? <ActiveIcon /> : <InactiveIcon />}
+                        </IconButton>
+                      </Tooltip>
+                    )}
+
+                    {/* Editar */}
+                    {onEdit && (
+                      <Tooltip title="Editar aplicação">
+                        <IconButton
+                          size="small"
+                          onClick={() => onEdit(application)}
+                          color="primary"
+                          disabled={loading}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+
+                    {/* Deletar */}
+                    {onDelete && (
+                      <Tooltip title="Excluir aplicação">
+                        <IconButton
+                          size="small"
+                          onClick={() => onDelete(application)}
+                          color="error"
+                          disabled={loading}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+
+                  </Box>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Paginação */}
+      <TablePagination
+        component="div"
+        count={totalItems}
+        page={currentPage - 1} // MUI usa 0-indexed
+        onPageChange={handlePageChange}
+        rowsPerPage={pageSize}
+        rowsPerPageOptions={[]} // Desabilita a opção de mudar rows per page
+        labelDisplayedRows={({ from, to, count }) =>
+          `${from}–${to} de ${count !== -1 ? count : `mais de ${to}`}`
+        }
+        labelRowsPerPage=""
+        sx={{
+          borderTop: 1,
+          borderColor: 'divider',
+          '& .MuiTablePagination-toolbar': {
+            pl: 2,
+            pr: 1,
+          },
+        }}
+      />
+    </Paper>
+  );
+};
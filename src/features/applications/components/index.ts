@@ -0,0 +1,4 @@
+// Exporta todos os componentes relacionados a Aplicações
+export { ApplicationsList } from './ApplicationsList';
+export { ApplicationForm } from './ApplicationForm';
+export { ApplicationDialog } from './ApplicationDialog';
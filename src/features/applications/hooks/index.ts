@@ -0,0 +1,2 @@
+// Exporta todos os hooks relacionados a Aplicações
+export { useApplications } from './useApplications';
@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ApplicationService } from '../../../shared/services';
+import type { Application, CreateApplicationRequest, UpdateApplicationRequest, ListState } from '../../../shared/types';
+
+interface UseApplicationsOptions {
+  autoLoad?: boolean;
+  pageSize?: number;
+  // Página, tamanho e busca controlados pela página (ex: useListUrlState)
+  listState?: ListState;
+}
+
+interface UseApplicationsResult {
+  // Estado
+  applications: Application[];
+  loading: boolean;
+  error: string | null;
+  totalItems: number;
+  currentPage: number;
+  totalPages: number;
+  searchTerm: string;
+
+  // Ações CRUD
+  loadApplications: (page?: number) => Promise<void>;
+  createApplication: (application: CreateApplicationRequest) => Promise<Application>;
+  updateApplication: (id: string, application: UpdateApplicationRequest) => Promise<Application>;
+  deleteApplication: (id: string) => Promise<void>;
+  toggleStatus: (application: Application) => Promise<Application>;
+  setSearchTerm: (search: string) => void;
+  clearError: () => void;
+  refetch: () => Promise<void>;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
+/**
+ * Hook personalizado para gerenciar aplicações
+ * Centraliza toda a lógica de estado e operações CRUD das aplicações
+ *
+ * Features:
+ * - Carregamento automático opcional
+ * - Paginação e busca integradas
+ * - Estado da listagem controlado pela página (query string) ou interno
+ * - Estados de loading e error
+ * - Operações CRUD completas
+ * - Toggle de status ativo/inativo
+ *
+ * @param options - Configurações do hook
+ */
+export const useApplications = (options: UseApplicationsOptions = {}): UseApplicationsResult => {
+  // Configurações padrão
+  const { autoLoad = true, pageSize: initialPageSize = 10, listState } = options;
+
+  // Estados
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [totalItems, setTotalItems] = useState<number>(0);
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [totalPages, setTotalPages] = useState<number>(0);
+  const [localSearchTerm, setSearchTerm] = useState<string>('');
+
+  // Estado controlado pela página tem precedência sobre o interno
+  const pageSize = listState?.pageSize ?? initialPageSize;
+  const searchTerm = listState?.search ?? localSearchTerm;
+  const requestedPage = listState?.page ?? 1;
+
+  /**
+   * Limpa mensagens de erro
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Carrega aplicações com paginação e busca
+   */
+  const loadApplications = useCallback(async (page: number = 1) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useApplications: Carregando aplicações...', { page, pageSize, searchTerm });
+
+      const response = await ApplicationService.getApplications({
+        page,
+        limit: pageSize,
+        search: searchTerm.trim() || undefined,
+      });
+
+      console.log('✅ useApplications: Aplicações carregadas:', response);
+
+      setApplications(response.items || []);
+      setCurrentPage(response.page || page);
+      setTotalItems(response.total || 0);
+      setTotalPages(response.totalPages || 0);
+
+    } catch (err) {
+      console.error('❌ useApplications: Erro ao carregar aplicações:', err);
+      setError(getErrorMessage(err, 'Erro ao carregar aplicações'));
+      setApplications([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [pageSize, searchTerm]);
+
+  /**
+   * Cria uma nova aplicação
+   */
+  const createApplication = useCallback(async (applicationData: CreateApplicationRequest): Promise<Application> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useApplications: Criando nova aplicação...', applicationData);
+
+      const newApplication = await ApplicationService.createApplication(applicationData);
+
+      console.log('✅ useApplications: Aplicação criada:', newApplication);
+
+      // Recarrega a lista para refletir mudanças
+      await loadApplications(currentPage);
+
+      return newApplication;
+
+    } catch (err) {
+      console.error('❌ useApplications: Erro ao criar aplicação:', err);
+      setError(getErrorMessage(err, 'Erro ao criar aplicação'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [loadApplications, currentPage]);
+
+  /**
+   * Atualiza uma aplicação existente
+   */
+  const updateApplication = useCallback(async (id: string, applicationData: UpdateApplicationRequest): Promise<Application> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useApplications: Atualizando aplicação...', { id, applicationData });
+
+      const updatedApplication = await ApplicationService.updateApplication(id, applicationData);
+
+      console.log('✅ useApplications: Aplicação atualizada:', updatedApplication);
+
+      // Atualiza a aplicação na lista local
+      setApplications(prev => prev.map(application =>
+        application.id === id ? updatedApplication : application
+      ));
+
+      return updatedApplication;
+
+    } catch (err) {
+      console.error('❌ useApplications: Erro ao atualizar aplicação:', err);
+      setError(getErrorMessage(err, 'Erro ao atualizar aplicação'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Remove uma aplicação
+   */
+  const deleteApplication = useCallback(async (id: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useApplications: Removendo aplicação...', id);
+
+      await ApplicationService.deleteApplication(id);
+
+      console.log('✅ useApplications: Aplicação removida:', id);
+
+      // Remove a aplicação da lista local
+      setApplications(prev => prev.filter(application => application.id !== id));
+
+      // Se a página atual ficou vazia e não é a primeira, volta uma página
+      const remainingItems = applications.length - 1;
+      if (remainingItems === 0 && currentPage > 1) {
+        await loadApplications(currentPage - 1);
+      } else {
+        // Atualiza o total de itens
+        setTotalItems(prev => Math.max(0, prev - 1));
+      }
+
+    } catch (err) {
+      console.error('❌ useApplications: Erro ao remover aplicação:', err);
+      setError(getErrorMessage(err, 'Erro ao remover aplicação'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [applications.length, currentPage, loadApplications]);
+
+  /**
+   * Alterna o status ativo/inativo de uma aplicação
+   */
+  const toggleStatus = useCallback(async (application: Application): Promise<Application> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useApplications: Alternando status da aplicação...', {
+        id: application.id,
+        currentStatus: application.isActive
+      });
+
+      const updatedApplication = await ApplicationService.toggleApplicationStatus(application);
+
+      console.log('✅ useApplications: Status da aplicação alterado:', updatedApplication);
+
+      // Atualiza a aplicação na lista local
+      setApplications(prev => prev.map(a =>
+        a.id === application.id ? updatedApplication : a
+      ));
+
+      return updatedApplication;
+
+    } catch (err) {
+      console.error('❌ useApplications: Erro ao alterar status da aplicação:', err);
+      setError(getErrorMessage(err, 'Erro ao alterar status da aplicação'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Recarrega os dados da página atual
+   */
+  const refetch = useCallback(async () => {
+    await loadApplications(currentPage);
+  }, [loadApplications, currentPage]);
+
+  // Carregamento automático na inicialização e ao mudar página, busca ou tamanho da página
+  useEffect(() => {
+    if (autoLoad) {
+      loadApplications(requestedPage);
+    }
+  }, [autoLoad, loadApplications, requestedPage]);
+
+  return {
+    // Estado
+    applications,
+    loading,
+    error,
+    totalItems,
+    currentPage,
+    totalPages,
+    searchTerm,
+
+    // Ações CRUD
+    loadApplications,
+    createApplication,
+    updateApplication,
+    deleteApplication,
+    toggleStatus,
+    setSearchTerm,
+    clearError,
+    refetch,
+  };
+};
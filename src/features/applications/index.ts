@@ -0,0 +1,4 @@
+// Exporta todos os recursos relacionados a Aplicações
+export { ApplicationsPage } from './ApplicationsPage';
+export * from './components';
+export * from './hooks';
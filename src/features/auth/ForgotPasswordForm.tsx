@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  TextField,
+  Box,
+  Alert,
+  Typography,
+  InputAdornment,
+  Button,
+  Link,
+} from '@mui/material';
+import { Email } from '@mui/icons-material';
+import { UserService } from '../../shared/services';
+import { ROUTES } from '../../shared/constants';
+import { useAuthLink } from './hooks';
+
+const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .min(1, 'Email é obrigatório')
+    .pipe(z.email('Email inválido')),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+interface ForgotPasswordFormProps {
+  defaultEmail?: string;
+  // Mensagem exibida quando o usuário chega por um link de redefinição expirado/inválido
+  notice?: string | null;
+}
+
+/**
+ * Formulário de recuperação de senha
+ * Envia o e-mail com o link de redefinição via UserService.forgotPassword
+ */
+export const ForgotPasswordForm = ({ defaultEmail = '', notice }: ForgotPasswordFormProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const authLink = useAuthLink();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: defaultEmail,
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    if (isSubmitting) return; // Previne submissões múltiplas
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await UserService.forgotPassword(data.email);
+      setSentTo(data.email);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao enviar email de recuperação. Tente novamente.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const backToLogin = (
+    <Box sx={{ textAlign: 'center' }}>
+      <Link component={RouterLink} to={authLink(ROUTES.LOGIN)} variant="body2">
+        Voltar para o login
+      </Link>
+    </Box>
+  );
+
+  if (sentTo) {
+    return (
+      <Box sx={{ width: '100%' }}>
+        <Typography variant="h5" component="h1" gutterBottom align="center">
+          Verifique seu email
+        </Typography>
+
+        <Alert severity="success" sx={{ mb: 3 }}>
+          Se houver uma conta para <strong>{sentTo}</strong>, você receberá um email com o link
+          para redefinir a senha. O link tem validade limitada.
+        </Alert>
+
+        <Button
+          fullWidth
+          variant="outlined"
+          onClick={() => setSentTo(null)}
+          sx={{ mb: 2 }}
+        >
+          Enviar novamente
+        </Button>
+
+        {backToLogin}
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(onSubmit)}
+      noValidate
+      sx={{ width: '100%' }}
+    >
+      <Typography variant="h5" component="h1" gutterBottom align="center">
+        Esqueceu sua senha?
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" align="center" sx={{ mb: 3 }}>
+        Informe o email da sua conta e enviaremos um link para criar uma nova senha
+      </Typography>
+
+      {notice && !error && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {notice}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TextField
+        {...register('email')}
+        fullWidth
+        label="Email"
+        type="email"
+        autoComplete="email"
+        autoFocus
+        error={!!errors.email}
+        helperText={errors.email?.message}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Email color="action" />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ mb: 3 }}
+      />
+
+      <Button
+        type="submit"
+        fullWidth
+        variant="contained"
+        size="large"
+        disabled={isSubmitting}
+        sx={{ mb: 2 }}
+      >
+        {isSubmitting ? 'Enviando...' : 'Enviar link de redefinição'}
+      </Button>
+
+      {backToLogin}
+    </Box>
+  );
+};
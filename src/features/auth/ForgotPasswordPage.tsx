@@ -0,0 +1,22 @@
+import { useSearchParams } from 'react-router-dom';
+import { AuthCardLayout } from './components';
+import { ForgotPasswordForm } from './ForgotPasswordForm';
+
+/**
+ * Página pública de recuperação de senha
+ * Aceita `?email=` para pré-preencher e `?reason=expired` quando vem de um link vencido
+ */
+export const ForgotPasswordPage = () => {
+  const [searchParams] = useSearchParams();
+  const email = searchParams.get('email') ?? '';
+  const reason = searchParams.get('reason');
+
+  return (
+    <AuthCardLayout>
+      <ForgotPasswordForm
+        defaultEmail={email}
+        notice={reason === 'expired' ? 'Seu link de redefinição expirou. Solicite um novo abaixo.' : null}
+      />
+    </AuthCardLayout>
+  );
+};
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { Link as RouterLink } from 'react-router-dom';
 import {
   TextField,
   Box,
@@ -10,10 +11,14 @@ import {
   InputAdornment,
   IconButton,
   Button,
+  Link,
 } from '@mui/material';
 import { Visibility, VisibilityOff, Person, Lock } from '@mui/icons-material';
 import { useAuth } from '../../shared/hooks';
 import type { LoginRequest } from '../../shared/types';
+import { ROUTES } from '../../shared/constants';
+import { useAuthLink } from './hooks';
+import type { LoginTenant } from './hooks';
 
 const loginSchema = z.object({
   usernameOrEmail: z
@@ -29,14 +34,17 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 interface LoginFormProps {
   onSuccess?: () => void;
+  tenant?: LoginTenant | null; // Tenant resolvido pela URL - o login só é aceito nele
+  disabled?: boolean;
 }
 
-export const LoginForm = ({ onSuccess }: LoginFormProps) => {
+export const LoginForm = ({ onSuccess, tenant, disabled = false }: LoginFormProps) => {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const { login } = useAuth();
+  const authLink = useAuthLink();
 
   const {
     register,
@@ -60,6 +68,7 @@ export const LoginForm = ({ onSuccess }: LoginFormProps) => {
       const loginRequest: LoginRequest = {
         usernameOrEmail: data.usernameOrEmail,
         password: data.password,
+        ...(tenant && { tenantId: tenant.id, tenantSlug: tenant.slug }),
       };
 
       await login(loginRequest);
@@ -87,7 +96,9 @@ export const LoginForm = ({ onSuccess }: LoginFormProps) => {
       </Typography>
       
       <Typography variant="body2" color="text.secondary" align="center" sx={{ mb: 3 }}>
-        Faça login na sua conta para acessar o sistema
+        {tenant
+          ? `Faça login na sua conta de ${tenant.name}`
+          : 'Faça login na sua conta para acessar o sistema'}
       </Typography>
 
       {error && (
@@ -140,15 +151,21 @@ export const LoginForm = ({ onSuccess }: LoginFormProps) => {
             </InputAdornment>
           ),
         }}
-        sx={{ mb: 3 }}
+        sx={{ mb: 1 }}
       />
 
+      <Box sx={{ textAlign: 'right', mb: 3 }}>
+        <Link component={RouterLink} to={authLink(ROUTES.FORGOT_PASSWORD)} variant="body2">
+          Esqueceu sua senha?
+        </Link>
+      </Box>
+
       <Button
         type="submit"
         fullWidth
         variant="contained"
         size="large"
-        disabled={isSubmitting}
+        disabled={isSubmitting || disabled}
         sx={{ mb: 2 }}
       >
         {isSubmitting ? 'Entrando...' : 'Entrar'}
@@ -5,18 +5,23 @@ import {
   Box,
   Paper,
   Typography,
+  Alert,
+  Chip,
+  CircularProgress,
   useTheme,
 } from '@mui/material';
-import { AdminPanelSettings } from '@mui/icons-material';
+import { AdminPanelSettings, Business as TenantIcon } from '@mui/icons-material';
 import { useAuth } from '../../shared/hooks';
 import { ROUTES } from '../../shared/constants';
 import { LoginForm } from './LoginForm';
+import { useLoginTenant } from './hooks';
 
 export const LoginPage = () => {
   const theme = useTheme();
   const navigate = useNavigate();
   const { isAuthenticated, isLoading } = useAuth();
   const hasRedirected = useRef(false);
+  const { tenant, loading: tenantLoading, error: tenantError } = useLoginTenant();
 
   useEffect(() => {
     if (isAuthenticated && !isLoading && !hasRedirected.current) {
@@ -97,7 +102,28 @@ export const LoginPage = () => {
               }}
             >
               <Box sx={{ width: '100%', maxWidth: 400 }}>
-                <LoginForm onSuccess={handleLoginSuccess} />
+                {/* Tenant resolvido pelo endereço de acesso */}
+                {tenantLoading && (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', mb: 2 }}>
+                    <CircularProgress size={24} />
+                  </Box>
+                )}
+                {tenant && (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', mb: 2 }}>
+                    <Chip icon={<TenantIcon />} label={tenant.name} color="primary" variant="outlined" />
+                  </Box>
+                )}
+                {tenantError && (
+                  <Alert severity="error" sx={{ mb: 2 }}>
+                    {tenantError}
+                  </Alert>
+                )}
+
+                <LoginForm
+                  onSuccess={handleLoginSuccess}
+                  tenant={tenant}
+                  disabled={tenantLoading || !!tenantError}
+                />
               </Box>
 
               <Typography
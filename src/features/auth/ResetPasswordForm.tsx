@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { z } from 'zod';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  TextField,
+  Box,
+  Alert,
+  AlertTitle,
+  Typography,
+  InputAdornment,
+  IconButton,
+  Button,
+  Link,
+} from '@mui/material';
+import { Visibility, VisibilityOff, Lock } from '@mui/icons-material';
+import { UserService } from '../../shared/services';
+import { HTTP_STATUS, ROUTES } from '../../shared/constants';
+import type { ApiError } from '../../shared/types';
+import { newPasswordSchema } from '../../shared/validators';
+import { PasswordStrengthMeter } from '../../shared/components';
+import { useAuthLink } from './hooks';
+
+type ResetPasswordFormData = z.infer<typeof newPasswordSchema>;
+
+// Erros de validação da própria senha (campo newPassword) não invalidam o link
+const hasPasswordFieldError = (errors: ApiError['errors']) =>
+  !!errors && !Array.isArray(errors) && Object.keys(errors).some(field => field.toLowerCase().includes('password'));
+
+/**
+ * Indica se a API recusou o link (token inválido, expirado ou já usado) pelo status do erro normalizado
+ * - 400 sem erro de campo da senha, 401 ou 404 (usuário/token inexistente)
+ */
+const isTokenRejection = (error: Partial<ApiError>): boolean =>
+  error.status === HTTP_STATUS.UNAUTHORIZED ||
+  error.status === HTTP_STATUS.NOT_FOUND ||
+  (error.status === HTTP_STATUS.BAD_REQUEST && !hasPasswordFieldError(error.errors));
+
+interface ResetPasswordFormProps {
+  email: string;
+  token: string;
+}
+
+/**
+ * Formulário de redefinição de senha
+ * Usa o email e o token recebidos no link enviado por email
+ */
+export const ResetPasswordForm = ({ email, token }: ResetPasswordFormProps) => {
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tokenRejected, setTokenRejected] = useState(false);
+  const [completed, setCompleted] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const authLink = useAuthLink();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const password = watch('password');
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (isSubmitting) return; // Previne submissões múltiplas
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await UserService.resetPassword(email, token, data.password);
+      setCompleted(true);
+
+    } catch (err) {
+      const apiError = (err ?? {}) as Partial<ApiError>;
+
+      if (isTokenRejection(apiError)) {
+        setTokenRejected(true);
+      } else {
+        setError(apiError.message || 'Erro ao redefinir senha. Tente novamente.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (completed) {
+    return (
+      <Box sx={{ width: '100%' }}>
+        <Typography variant="h5" component="h1" gutterBottom align="center">
+          Senha redefinida
+        </Typography>
+
+        <Alert severity="success" sx={{ mb: 3 }}>
+          Sua senha foi alterada com sucesso. Entre com a nova senha para continuar.
+        </Alert>
+
+        <Button
+          component={RouterLink}
+          to={authLink(ROUTES.LOGIN)}
+          fullWidth
+          variant="contained"
+          size="large"
+        >
+          Ir para o login
+        </Button>
+      </Box>
+    );
+  }
+
+  if (tokenRejected) {
+    return <InvalidResetLink email={email} />;
+  }
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(onSubmit)}
+      noValidate
+      sx={{ width: '100%' }}
+    >
+      <Typography variant="h5" component="h1" gutterBottom align="center">
+        Criar nova senha
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" align="center" sx={{ mb: 3 }}>
+        Defina a nova senha da conta <strong>{email}</strong>
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Campo oculto para gerenciadores de senha associarem a conta */}
+      <input type="hidden" name="username" autoComplete="username" value={email} readOnly />
+
+      <TextField
+        {...register('password')}
+        fullWidth
+        label="Nova senha"
+        type={showPassword ? 'text' : 'password'}
+        autoComplete="new-password"
+        autoFocus
+        error={!!errors.password}
+        helperText={errors.password?.message}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Lock color="action" />
+            </InputAdornment>
+          ),
+          endAdornment: (
+            <InputAdornment position="end">
+              <IconButton
+                aria-label="toggle password visibility"
+                onClick={() => setShowPassword(!showPassword)}
+                edge="end"
+              >
+                {showPassword ? <VisibilityOff /> : <Visibility />}
+              </IconButton>
+            </InputAdornment>
+          ),
+        }}
+        sx={{ mb: 1 }}
+      />
+
+      <Box sx={{ mb: 2 }}>
+        <PasswordStrengthMeter password={password} />
+      </Box>
+
+      <TextField
+        {...register('confirmPassword')}
+        fullWidth
+        label="Confirmar nova senha"
+        type={showPassword ? 'text' : 'password'}
+        autoComplete="new-password"
+        error={!!errors.confirmPassword}
+        helperText={errors.confirmPassword?.message}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Lock color="action" />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ mb: 3 }}
+      />
+
+      <Button
+        type="submit"
+        fullWidth
+        variant="contained"
+        size="large"
+        disabled={isSubmitting}
+        sx={{ mb: 2 }}
+      >
+        {isSubmitting ? 'Salvando...' : 'Redefinir senha'}
+      </Button>
+
+      <Box sx={{ textAlign: 'center' }}>
+        <Link component={RouterLink} to={authLink(ROUTES.LOGIN)} variant="body2">
+          Voltar para o login
+        </Link>
+      </Box>
+    </Box>
+  );
+};
+
+interface InvalidResetLinkProps {
+  email?: string;
+}
+
+/**
+ * Aviso de link de redefinição expirado, inválido ou incompleto
+ * Oferece a solicitação de um novo link já com o email preenchido
+ */
+export const InvalidResetLink = ({ email }: InvalidResetLinkProps) => {
+  const authLink = useAuthLink();
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Typography variant="h5" component="h1" gutterBottom align="center">
+        Link inválido
+      </Typography>
+
+      <Alert severity="error" sx={{ mb: 3 }}>
+        <AlertTitle>Este link de redefinição expirou ou não é válido</AlertTitle>
+        Os links de redefinição podem ser usados uma única vez e por tempo limitado.
+        Solicite um novo link para continuar.
+      </Alert>
+
+      <Button
+        component={RouterLink}
+        to={authLink(ROUTES.FORGOT_PASSWORD, { email, reason: 'expired' })}
+        fullWidth
+        variant="contained"
+        size="large"
+        sx={{ mb: 2 }}
+      >
+        Solicitar novo link
+      </Button>
+
+      <Box sx={{ textAlign: 'center' }}>
+        <Link component={RouterLink} to={authLink(ROUTES.LOGIN)} variant="body2">
+          Voltar para o login
+        </Link>
+      </Box>
+    </Box>
+  );
+};
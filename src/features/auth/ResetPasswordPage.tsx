@@ -0,0 +1,24 @@
+import { useSearchParams } from 'react-router-dom';
+import { AuthCardLayout } from './components';
+import { ResetPasswordForm, InvalidResetLink } from './ResetPasswordForm';
+
+/**
+ * Página pública de redefinição de senha
+ * Lê `email` e `token` do link enviado por email (/reset-password?email=...&token=...)
+ */
+export const ResetPasswordPage = () => {
+  const [searchParams] = useSearchParams();
+  const email = searchParams.get('email')?.trim() ?? '';
+  // Tokens em base64 perdem o "+" quando o link não foi codificado (vira espaço na query)
+  const token = searchParams.get('token')?.replace(/ /g, '+') ?? '';
+
+  return (
+    <AuthCardLayout>
+      {email && token ? (
+        <ResetPasswordForm email={email} token={token} />
+      ) : (
+        <InvalidResetLink email={email || undefined} />
+      )}
+    </AuthCardLayout>
+  );
+};
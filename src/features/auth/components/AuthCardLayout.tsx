@@ -0,0 +1,52 @@
+import type { ReactNode } from 'react';
+import { Box, Container, Paper, Typography } from '@mui/material';
+import { AdminPanelSettings } from '@mui/icons-material';
+
+interface AuthCardLayoutProps {
+  children: ReactNode;
+}
+
+/**
+ * Layout das telas públicas de conta (recuperação e redefinição de senha)
+ * Mantém o fundo e a identidade visual da tela de login
+ */
+export const AuthCardLayout = ({ children }: AuthCardLayoutProps) => {
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        backgroundImage: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      }}
+    >
+      <Container maxWidth="sm">
+        <Paper
+          elevation={24}
+          sx={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            p: { xs: 3, sm: 4 },
+            borderRadius: 4,
+          }}
+        >
+          <AdminPanelSettings color="primary" sx={{ fontSize: 48, mb: 1 }} />
+
+          <Box sx={{ width: '100%', maxWidth: 400 }}>
+            {children}
+          </Box>
+
+          <Typography
+            variant="caption"
+            color="text.secondary"
+            align="center"
+            sx={{ mt: 4 }}
+          >
+            © 2025 Samuel System. Todos os direitos reservados.
+          </Typography>
+        </Paper>
+      </Container>
+    </Box>
+  );
+};
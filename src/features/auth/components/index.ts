@@ -0,0 +1,2 @@
+// Exporta todos os componentes relacionados a Autenticação
+export { AuthCardLayout } from './AuthCardLayout';
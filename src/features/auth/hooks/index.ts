@@ -0,0 +1,4 @@
+// Exporta todos os hooks relacionados a Autenticação
+export { useLoginTenant } from './useLoginTenant';
+export type { LoginTenant } from './useLoginTenant';
+export { useAuthLink } from './useAuthLink';
@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Monta links entre as telas públicas de conta (login, esqueci senha, redefinir senha)
+ * Preserva o `?tenant=` da URL para que o tenant continue resolvido na tela seguinte
+ */
+export const useAuthLink = () => {
+  const [searchParams] = useSearchParams();
+  const tenantSlug = searchParams.get('tenant');
+
+  return useCallback((path: string, params: Record<string, string | undefined> = {}) => {
+    const query = new URLSearchParams();
+    if (tenantSlug) {
+      query.set('tenant', tenantSlug);
+    }
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) {
+        query.set(key, value);
+      }
+    });
+
+    const search = query.toString();
+    return search ? `${path}?${search}` : path;
+  }, [tenantSlug]);
+};
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { TenantService } from '../../../shared/services';
+import { resolveTenantHint } from '../../../shared/utils';
+
+export interface LoginTenant {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+interface UseLoginTenantResult {
+  tenant: LoginTenant | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Resolve o tenant da tela de login pela URL (`?tenant=` ou subdomínio)
+ * Sem indicação na URL, o login segue sem tenant (comportamento anterior)
+ * Busca o tenant pelo slug; domínios personalizados ainda não têm endpoint de busca e seguem sem tenant
+ */
+export const useLoginTenant = (): UseLoginTenantResult => {
+  const [hint] = useState(() => {
+    const resolved = resolveTenantHint();
+    return resolved?.source === 'domain' ? null : resolved;
+  });
+  const [tenant, setTenant] = useState<LoginTenant | null>(null);
+  const [loading, setLoading] = useState(hint !== null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!hint) return;
+
+    let cancelled = false;
+
+    const resolveTenant = async () => {
+      try {
+        console.log('🏢 Login: Resolvendo tenant...', hint);
+
+        const resolved = await TenantService.getTenantBySlug(hint.slug);
+
+        if (cancelled) return;
+
+        setTenant({ id: resolved.id, name: resolved.name, slug: resolved.slug });
+      } catch (err) {
+        console.error('❌ Login: Erro ao resolver tenant:', err);
+        if (!cancelled) {
+          setError('Organização não encontrada para este endereço');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    resolveTenant();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hint]);
+
+  return { tenant, loading, error };
+};
@@ -1,3 +1,5 @@
 // Recursos de autenticação
 export * from './LoginPage';
-export * from './LoginForm';
\ No newline at end of file
+export * from './LoginForm';
+export * from './ForgotPasswordPage';
+export * from './ResetPasswordPage';
@@ -0,0 +1,214 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Box, Button, Chip, Stack, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { Speed as SpeedIcon, VerticalAlignBottom as ScrollEndIcon } from '@mui/icons-material';
+import {
+  PageHeader,
+  ResponsiveContainer,
+  StyledCard,
+  VirtualCheckboxList,
+} from '../../shared/components';
+import { useIncrementalList } from '../../shared/hooks';
+import type { IncrementalPage } from '../../shared/hooks';
+import type { AccessGroup } from '../../shared/types';
+import { UsersList } from '../users';
+import { PermissionOperationsList } from '../permissions';
+import {
+  LARGE_LIST_BENCHMARK_SIZE,
+  createAccessGroupFixtures,
+  createPermissionOperationFixtures,
+  createUserFixtures,
+} from './fixtures';
+
+type BenchmarkScenario = 'users' | 'permission-operations' | 'access-groups';
+
+interface BenchmarkMetrics {
+  fixtureMs: number;
+  renderMs: number;
+  renderedRows: number;
+}
+
+// Página simulada do carregamento incremental dos grupos (como na API)
+const ACCESS_GROUP_PAGE_SIZE = 1_000;
+
+const noop = () => undefined;
+
+// Linhas de dados presentes no DOM (exclui espaçadores da virtualização)
+const countRenderedRows = (container: HTMLElement | null, scenario: BenchmarkScenario) => {
+  if (!container) return 0;
+  const selector = scenario === 'access-groups'
+    ? 'input[type="checkbox"]'
+    : 'tbody tr:not([aria-hidden="true"])';
+  return container.querySelectorAll(selector).length;
+};
+
+const findScrollContainer = (container: HTMLElement | null) =>
+  Array.from(container?.querySelectorAll<HTMLElement>('*') ?? [])
+    .find(element => element.scrollHeight > element.clientHeight && getComputedStyle(element).overflowY === 'auto');
+
+/**
+ * Benchmark de listas grandes (apenas em desenvolvimento)
+ *
+ * Features:
+ * - Fixtures determinísticos de 50k usuários, relações permissão-operação e grupos
+ * - Mede geração dos dados, primeira renderização e linhas presentes no DOM
+ * - Grupos carregados incrementalmente, como nos dialogs de atribuição
+ */
+export const LargeListBenchmarkPage = () => {
+  const [scenario, setScenario] = useState<BenchmarkScenario>('users');
+  const [metrics, setMetrics] = useState<BenchmarkMetrics | null>(null);
+  const [selectedGroupIds, setSelectedGroupIds] = useState<Set<string>>(new Set());
+  const containerRef = useRef<HTMLDivElement>(null);
+  const renderStartRef = useRef(performance.now());
+  const fixtureMsRef = useRef(0);
+
+  const fixtures = useMemo(() => {
+    const start = performance.now();
+    const data = {
+      users: scenario === 'users' ? createUserFixtures() : [],
+      permissionOperations: scenario === 'permission-operations' ? createPermissionOperationFixtures() : [],
+      accessGroups: scenario === 'access-groups' ? createAccessGroupFixtures() : [],
+    };
+    fixtureMsRef.current = performance.now() - start;
+    return data;
+  }, [scenario]);
+
+  const fetchAccessGroupPage = useCallback(
+    async (page: number, limit: number): Promise<IncrementalPage<AccessGroup>> => ({
+      items: fixtures.accessGroups.slice((page - 1) * limit, page * limit),
+      total: fixtures.accessGroups.length,
+      totalPages: Math.ceil(fixtures.accessGroups.length / limit),
+    }),
+    [fixtures.accessGroups]
+  );
+
+  const accessGroups = useIncrementalList({
+    fetchPage: fetchAccessGroupPage,
+    pageSize: ACCESS_GROUP_PAGE_SIZE,
+    enabled: scenario === 'access-groups',
+  });
+
+  const measure = useCallback((start: number) => {
+    setMetrics({
+      fixtureMs: fixtureMsRef.current,
+      renderMs: performance.now() - start,
+      renderedRows: countRenderedRows(containerRef.current, scenario),
+    });
+  }, [scenario]);
+
+  // Primeira renderização: medida após o commit do DOM (grupos: após a primeira página)
+  useLayoutEffect(() => {
+    measure(renderStartRef.current);
+  }, [measure, accessGroups.loading]);
+
+  const handleScenarioChange = (_: unknown, value: BenchmarkScenario | null) => {
+    if (!value) return;
+    renderStartRef.current = performance.now();
+    setSelectedGroupIds(new Set());
+    setScenario(value);
+  };
+
+  const handleScrollToEnd = () => {
+    const scrollContainer = findScrollContainer(containerRef.current);
+    if (!scrollContainer) return;
+
+    const start = performance.now();
+    scrollContainer.scrollTop = scrollContainer.scrollHeight;
+    requestAnimationFrame(() => measure(start));
+  };
+
+  const handleGroupToggle = (group: AccessGroup) => {
+    setSelectedGroupIds(prev => {
+      const next = new Set(prev);
+      if (next.has(group.id)) {
+        next.delete(group.id);
+      } else {
+        next.add(group.id);
+      }
+      return next;
+    });
+  };
+
+  const totalRows = scenario === 'users'
+    ? fixtures.users.length
+    : scenario === 'permission-operations'
+      ? fixtures.permissionOperations.length
+      : accessGroups.total;
+
+  return (
+    <ResponsiveContainer>
+      <PageHeader
+        title="Benchmark de Listas Grandes"
+        subtitle={`Renderização virtualizada com ${LARGE_LIST_BENCHMARK_SIZE.toLocaleString('pt-BR')} linhas`}
+        icon={<SpeedIcon />}
+      >
+        <Stack direction="row" spacing={1} sx={{ mt: 2, flexWrap: 'wrap', gap: 1 }}>
+          <ToggleButtonGroup value={scenario} exclusive size="small" onChange={handleScenarioChange}>
+            <ToggleButton value="users">Usuários</ToggleButton>
+            <ToggleButton value="permission-operations">Permissão-Operação</ToggleButton>
+            <ToggleButton value="access-groups">Grupos (checkbox)</ToggleButton>
+          </ToggleButtonGroup>
+          <Button variant="outlined" startIcon={<ScrollEndIcon />} onClick={handleScrollToEnd}>
+            Rolar até o fim
+          </Button>
+        </Stack>
+      </PageHeader>
+
+      <Alert severity="info" sx={{ mb: 2 }}>
+        Dados sintéticos gerados no navegador - nenhuma chamada à API é feita nesta página.
+      </Alert>
+
+      {metrics && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <Chip label={`Total: ${totalRows.toLocaleString('pt-BR')} linhas`} variant="outlined" />
+          <Chip label={`Fixtures: ${metrics.fixtureMs.toFixed(1)} ms`} variant="outlined" />
+          <Chip label={`Renderização: ${metrics.renderMs.toFixed(1)} ms`} color="primary" variant="outlined" />
+          <Chip label={`Linhas no DOM: ${metrics.renderedRows}`} color="success" variant="outlined" />
+        </Box>
+      )}
+
+      <StyledCard>
+        <Box ref={containerRef}>
+          {scenario === 'users' && (
+            <UsersList
+              users={fixtures.users}
+              onEdit={noop}
+              onDelete={noop}
+              onToggleStatus={noop}
+              onManageGroups={noop}
+              totalItems={fixtures.users.length}
+              currentPage={1}
+              pageSize={fixtures.users.length}
+              onPageChange={noop}
+              onPageSizeChange={noop}
+              virtualized
+            />
+          )}
+
+          {scenario === 'permission-operations' && (
+            <PermissionOperationsList
+              permissionOperations={fixtures.permissionOperations}
+              onEdit={noop}
+              onDelete={noop}
+              onToggleStatus={noop}
+            />
+          )}
+
+          {scenario === 'access-groups' && (
+            <VirtualCheckboxList
+              items={accessGroups.items}
+              getKey={(group) => group.id}
+              renderLabel={(group) => `${group.name} · ${group.groupTypeName}`}
+              isChecked={(group) => selectedGroupIds.has(group.id)}
+              onToggle={handleGroupToggle}
+              isDisabled={(group) => !group.isActive}
+              height={480}
+              loading={accessGroups.loading}
+              onEndReached={accessGroups.hasMore ? accessGroups.loadMore : undefined}
+              loadingMore={accessGroups.loadingMore}
+            />
+          )}
+        </Box>
+      </StyledCard>
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,2 @@
+// Exporta os fixtures de benchmark
+export * from './large-list.fixture';
@@ -0,0 +1,85 @@
+import { UserAccountStatus } from '../../../shared/types';
+import type { AccessGroup, PermissionOperation, UserAccount } from '../../../shared/types';
+
+// Tamanho de referência do benchmark de listas grandes
+export const LARGE_LIST_BENCHMARK_SIZE = 50_000;
+
+// Data fixa para que os fixtures sejam determinísticos entre execuções
+const BASE_DATE = Date.UTC(2024, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIRST_NAMES = ['Ana', 'Bruno', 'Carla', 'Diego', 'Elisa', 'Fábio', 'Gabriela', 'Henrique', 'Isabela', 'João'];
+const LAST_NAMES = ['Silva', 'Souza', 'Oliveira', 'Santos', 'Pereira', 'Lima', 'Costa', 'Ferreira', 'Almeida', 'Ribeiro'];
+const USER_STATUSES = Object.values(UserAccountStatus);
+const OPERATIONS = ['SELECT', 'CREATE', 'UPDATE', 'DELETE', 'EXPORT', 'IMPORT'];
+const GROUP_TYPES = ['Sistema', 'Funcional', 'Departamental', 'Projeto'];
+
+const pad = (value: number) => String(value).padStart(6, '0');
+const isoDate = (index: number) => new Date(BASE_DATE + (index % 365) * DAY_MS).toISOString();
+
+/**
+ * Gera usuários sintéticos para o benchmark
+ */
+export const createUserFixtures = (count: number = LARGE_LIST_BENCHMARK_SIZE): UserAccount[] =>
+  Array.from({ length: count }, (_, index) => {
+    const firstName = FIRST_NAMES[index % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[Math.floor(index / FIRST_NAMES.length) % LAST_NAMES.length];
+    const username = `usuario.${pad(index)}`;
+
+    return {
+      id: `bench-user-${pad(index)}`,
+      tenantId: 'bench-tenant',
+      username,
+      email: `${username}@benchmark.local`,
+      firstName,
+      lastName,
+      fullName: `${firstName} ${lastName} ${pad(index)}`,
+      status: USER_STATUSES[index % USER_STATUSES.length],
+      isEmailVerified: index % 3 !== 0,
+      createdAt: isoDate(index),
+      lastLoginAt: index % 4 === 0 ? undefined : isoDate(index + 7),
+    };
+  });
+
+/**
+ * Gera relações permissão-operação sintéticas para o benchmark
+ */
+export const createPermissionOperationFixtures = (
+  count: number = LARGE_LIST_BENCHMARK_SIZE
+): PermissionOperation[] =>
+  Array.from({ length: count }, (_, index) => {
+    const operation = OPERATIONS[index % OPERATIONS.length];
+    const permissionIndex = Math.floor(index / OPERATIONS.length);
+
+    return {
+      id: `bench-permission-operation-${pad(index)}`,
+      permissionId: `bench-permission-${pad(permissionIndex)}`,
+      operationId: `bench-operation-${operation}`,
+      permissionName: `Permissão ${pad(permissionIndex)}`,
+      operationName: operation,
+      operationCode: operation,
+      operationDescription: `Operação ${operation}`,
+      isActive: index % 10 !== 0,
+      createdAt: isoDate(index),
+    };
+  });
+
+/**
+ * Gera grupos de acesso sintéticos para o benchmark
+ */
+export const createAccessGroupFixtures = (count: number = LARGE_LIST_BENCHMARK_SIZE): AccessGroup[] =>
+  Array.from({ length: count }, (_, index) => {
+    const groupTypeIndex = index % GROUP_TYPES.length;
+
+    return {
+      id: `bench-group-${pad(index)}`,
+      name: `Grupo ${pad(index)}`,
+      description: `Grupo sintético ${index + 1} do benchmark`,
+      code: `GRP_${pad(index)}`,
+      tenantId: 'bench-tenant',
+      groupTypeId: `bench-group-type-${groupTypeIndex}`,
+      groupTypeName: GROUP_TYPES[groupTypeIndex],
+      isActive: index % 15 !== 0,
+      createdAt: isoDate(index),
+    };
+  });
@@ -0,0 +1,3 @@
+// Exporta os recursos de benchmark (apenas desenvolvimento)
+export { LargeListBenchmarkPage } from './LargeListBenchmarkPage';
+export * from './fixtures';
@@ -1,69 +1,18 @@
 import { Box, Typography, Card, CardContent, Button } from '@mui/material';
-import { 
-  LogoutOutlined,
-  Group as GroupIcon,
-  People as PeopleIcon,
-  Security as SecurityIcon,
-  Settings as SettingsIcon,
-  BugReport as BugReportIcon,
-} from '@mui/icons-material';
+import { LogoutOutlined } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../../shared/hooks';
-import { ROUTES } from '../../shared/constants';
+import { useAuth, useNavigation } from '../../shared/hooks';
 
 export const DashboardPage = () => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
+  // Ações rápidas vêm do modelo de navegação, já filtradas por permissão
+  const { quickActions } = useNavigation();
 
   const handleLogout = () => {
     logout();
   };
 
-  const quickActions = [
-    {
-      title: 'Grupos de Acesso',
-      description: 'Gerenciar grupos e tipos de acesso',
-      icon: GroupIcon,
-      path: ROUTES.ACCESS_GROUPS,
-      color: 'primary',
-    },
-    {
-      title: 'Usuários',
-      description: 'Gerenciar usuários do sistema',
-      icon: PeopleIcon,
-      path: ROUTES.USERS,
-      color: 'secondary',
-    },
-    {
-      title: 'Roles',
-      description: 'Gerenciar papéis e funções',
-      icon: SecurityIcon,
-      path: ROUTES.ROLES,
-      color: 'primary',
-    },
-    {
-      title: 'Permissões',
-      description: 'Configurar permissões e operações',
-      icon: SecurityIcon,
-      path: ROUTES.PERMISSIONS,
-      color: 'success',
-    },
-    {
-      title: 'Configurações',
-      description: 'Configurações do sistema',
-      icon: SettingsIcon,
-      path: '/settings',
-      color: 'warning',
-    },
-    {
-      title: '🧪 Teste Group Types',
-      description: 'Testar API de tipos de grupo',
-      icon: BugReportIcon,
-      path: ROUTES.GROUP_TYPES_TEST,
-      color: 'info',
-    },
-  ];
-
   return (
     <Box sx={{ p: 3 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
@@ -117,7 +66,7 @@ export const DashboardPage = () => {
       }}>
         {quickActions.map((action) => (
           <Card 
-            key={action.title}
+            key={action.id}
             sx={{ 
               height: '100%',
               cursor: 'pointer',
@@ -127,21 +76,23 @@ export const DashboardPage = () => {
                 boxShadow: 3,
               }
             }}
-            onClick={() => navigate(action.path)}
+            onClick={() => action.path && navigate(action.path)}
           >
             <CardContent sx={{ textAlign: 'center', py: 3 }}>
-              <action.icon 
-                sx={{ 
-                  fontSize: 48, 
-                  color: `${action.color}.main`,
-                  mb: 2 
-                }} 
-              />
+              {action.icon && (
+                <action.icon 
+                  sx={{ 
+                    fontSize: 48, 
+                    color: `${action.quickAction?.color ?? 'primary'}.main`,
+                    mb: 2 
+                  }} 
+                />
+              )}
               <Typography variant="h6" gutterBottom>
                 {action.title}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                {action.description}
+                {action.quickAction?.description}
               </Typography>
             </CardContent>
           </Card>
@@ -1,36 +1,101 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   PageHeader,
   ResponsiveContainer,
-  StyledCard
+  StyledCard,
+  ApplicationSelect,
+  ExportSelectionButton,
+  PageToolbar
 } from '../../shared/components';
 import { Add as AddIcon, ViewModule as ModuleIcon } from '@mui/icons-material';
 import { Typography, Box, CircularProgress, Alert } from '@mui/material';
 import { 
   ModulesList, 
-  ModuleDialog 
+  ModuleDialog,
+  MODULE_TABLE_COLUMNS,
+  MODULE_FILTER_TYPES
 } from './components';
 import { useModules } from './hooks';
-import type { Module, CreateModuleRequest, UpdateModuleRequest } from '../../shared/types';
+import { useListUrlState, useTableViews } from '../../shared/hooks';
+import type { Module, CreateModuleRequest, UpdateModuleRequest, ListQuery } from '../../shared/types';
+import { EMPTY_SELECTION, hasActiveFilters } from '../../shared/utils';
+import type { ExportRows, RowSelection } from '../../shared/utils';
+
+const toExportRows = (modules: Module[]): ExportRows => [
+  ['Nome', 'Chave', 'Código', 'Aplicação', 'URL', 'Status', 'Criado em'],
+  ...modules.map(module => [
+    module.name,
+    module.key,
+    module.code,
+    module.applicationName,
+    module.url,
+    module.isActive ? 'Ativo' : 'Inativo',
+    module.createdAt,
+  ]),
+];
 
 /**
  * Página de Módulos
  * Gerencia todos os módulos do sistema
+ * Ordenação, filtros e colunas podem ser salvos como visualizações
+ * Página, ordenação e filtros ficam na URL (recarregar, compartilhar e voltar/avançar)
  */
 export const ModulesPage = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingModule, setEditingModule] = useState<Module | null>(null);
+  const [selection, setSelection] = useState<RowSelection>(EMPTY_SELECTION);
+
+  // Estado da listagem na query string
+  const listUrl = useListUrlState({ filterTypes: MODULE_FILTER_TYPES });
 
   const {
     modules,
     loading,
     error,
+    totalCount,
+    currentPage,
+    pageSize,
+    listQuery,
+    fetchAllMatching,
     createModule,
     updateModule,
     deleteModule,
     toggleStatus,
     clearError,
-  } = useModules();
+  } = useModules({ listState: listUrl.state });
+
+  // Filtro por aplicação na URL junto dos filtros por coluna (enviado como applicationId)
+  const { applicationId, ...columnFilters } = listQuery.filters ?? {};
+  const applicationFilter = typeof applicationId === 'string' ? applicationId : undefined;
+  const filtering = hasActiveFilters(columnFilters);
+
+  // A seleção deixa de valer quando o conjunto de registros muda (inclusive ao voltar/avançar no navegador)
+  useEffect(() => {
+    setSelection(EMPTY_SELECTION);
+  }, [listUrl.state.search, listUrl.state.listQuery]);
+
+  const handleListQueryChange = (query: ListQuery) => {
+    listUrl.setListQuery(query);
+  };
+
+  const tableViews = useTableViews({
+    tableId: 'modules',
+    columns: MODULE_TABLE_COLUMNS,
+    listQuery,
+    pageSize,
+    onApply: ({ listQuery: query, pageSize: size }, source) => {
+      // Ao recarregar ou abrir um link da listagem, a URL prevalece sobre a visualização padrão
+      if (source === 'default' && listUrl.hasUrlState) return;
+      listUrl.update({ listQuery: query, pageSize: size, page: 1 }, { replace: source !== 'user' });
+    },
+  });
+
+  const handleApplicationFilterChange = (selectedId: string | undefined) => {
+    listUrl.setListQuery({
+      ...listQuery,
+      filters: selectedId ? { ...columnFilters, applicationId: selectedId } : columnFilters,
+    });
+  };
 
   const handleCreateModule = () => {
     setEditingModule(null);
@@ -90,7 +155,21 @@ export const ModulesPage = () => {
         }}
       />
 
+      {/* Visualizações salvas */}
+      <PageToolbar tableViews={tableViews} />
+
       <StyledCard>
+        {/* Filtro por aplicação */}
+        <Box sx={{ mb: 2, maxWidth: { sm: 360 } }}>
+          <ApplicationSelect
+            value={applicationFilter}
+            onChange={handleApplicationFilterChange}
+            label="Filtrar por aplicação"
+            placeholder="Todas as aplicações"
+            size="small"
+          />
+        </Box>
+
         {error && (
           <Alert 
             severity="error" 
@@ -101,18 +180,20 @@ export const ModulesPage = () => {
           </Alert>
         )}
 
-        {loading && (!modules || modules.length === 0) ? (
+        {loading && (!modules || modules.length === 0) && !filtering ? (
           <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
             <CircularProgress />
           </Box>
-        ) : (!modules || modules.length === 0) ? (
+        ) : (!modules || modules.length === 0) && !filtering ? (
           <Box sx={{ textAlign: 'center', py: 8 }}>
             <ModuleIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
             <Typography variant="h6" gutterBottom>
               Nenhum módulo encontrado
             </Typography>
             <Typography variant="body2" color="text.secondary">
-              Crie o primeiro módulo para começar a estruturar o sistema.
+              {applicationFilter
+                ? 'Nenhum módulo pertence à aplicação selecionada.'
+                : 'Crie o primeiro módulo para começar a estruturar o sistema.'}
             </Typography>
           </Box>
         ) : (
@@ -122,6 +203,26 @@ export const ModulesPage = () => {
             onEdit={handleEditModule}
             onDelete={handleDeleteModule}
             onToggleStatus={handleToggleStatus}
+            page={currentPage}
+            pageSize={pageSize}
+            totalCount={totalCount}
+            onPageChange={listUrl.setPage}
+            onPageSizeChange={listUrl.setPageSize}
+            listQuery={listQuery}
+            onListQueryChange={handleListQueryChange}
+            selection={selection}
+            onSelectionChange={setSelection}
+            layout={tableViews.layout}
+            selectionActions={
+              <ExportSelectionButton
+                selection={selection}
+                rows={modules}
+                getKey={(module) => module.id}
+                fetchAll={fetchAllMatching}
+                toExportRows={toExportRows}
+                filename="modulos.csv"
+              />
+            }
           />
         )}
       </StyledCard>
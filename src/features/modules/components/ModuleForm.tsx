@@ -5,7 +5,13 @@ import {
   FormControlLabel,
   Switch,
   Stack,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
 } from '@mui/material';
+import { ApplicationSelect } from '../../../shared/components';
+import { navigationIcons } from '../../../shared/config';
+import { PERMISSION_WILDCARD } from '../../../shared/types';
 import type { Module, CreateModuleRequest, UpdateModuleRequest } from '../../../shared/types';
 
 export interface ModuleFormData {
@@ -15,6 +21,8 @@ export interface ModuleFormData {
   key: string; // Mudança: moduleKey → key
   code: string;
   applicationId: string;
+  icon: string;
+  displayOrder: string;
   isActive: boolean;
 }
 
@@ -36,6 +44,8 @@ export const ModuleForm = ({
     key: '', // Mudança: moduleKey → key
     code: '',
     applicationId: '',
+    icon: '',
+    displayOrder: '',
     isActive: true,
   });
 
@@ -50,6 +60,8 @@ export const ModuleForm = ({
         key: initialData.key || '', // Mudança: moduleKey → key
         code: initialData.code || '',
         applicationId: initialData.applicationId || '',
+        icon: initialData.icon || '',
+        displayOrder: initialData.displayOrder?.toString() ?? '',
         isActive: initialData.isActive,
       });
     }
@@ -73,7 +85,12 @@ export const ModuleForm = ({
       case 'key': // Mudança: moduleKey → key
         if (!value.trim()) return 'Chave do módulo é obrigatória';
         if (value.length > 100) return 'Chave do módulo não pode exceder 100 caracteres';
-        if (!/^[A-Z0-9_-]+$/.test(value)) return 'Chave deve conter apenas letras maiúsculas, números, underscore e hífen (sem espaços)';
+        // '*' é o módulo curinga: permissões ligadas a ele valem para todos os módulos
+        if (value !== PERMISSION_WILDCARD && !/^[A-Z0-9_-]+$/.test(value)) return 'Chave deve conter apenas letras maiúsculas, números, underscore e hífen (sem espaços), ou * para todos os módulos';
+        return '';
+
+      case 'displayOrder':
+        if (value && !/^\d+$/.test(value)) return 'Ordem deve ser um número inteiro positivo';
         return '';
       
       default:
@@ -111,6 +128,7 @@ export const ModuleForm = ({
     newErrors.description = validateField('description', formData.description);
     newErrors.url = validateField('url', formData.url);
     newErrors.key = validateField('key', formData.key); // Mudança: moduleKey → key
+    newErrors.displayOrder = validateField('displayOrder', formData.displayOrder);
 
     Object.keys(newErrors).forEach(key => {
       if (!newErrors[key]) {
@@ -136,7 +154,9 @@ export const ModuleForm = ({
       // key é obrigatório agora (mudança: moduleKey → key)
       key: formData.key.trim(),
       code: formData.code.trim() || undefined,
-      applicationId: formData.applicationId.trim() || undefined,
+      applicationId: formData.applicationId || undefined,
+      icon: formData.icon || undefined,
+      displayOrder: formData.displayOrder ? Number(formData.displayOrder) : undefined,
       isActive: formData.isActive,
     };
 
@@ -210,7 +230,7 @@ export const ModuleForm = ({
           value={formData.key}
           onChange={handleInputChange('key')}
           error={!!errors.key}
-          helperText={errors.key || 'Identificador único do módulo (obrigatório) - Ex: PERMISSION_MODULE'}
+          helperText={errors.key || 'Identificador único do módulo (obrigatório) - Ex: PERMISSION_MODULE; * representa todos os módulos'}
           required
           fullWidth
           disabled={isSubmitting}
@@ -232,18 +252,52 @@ export const ModuleForm = ({
           disabled={isSubmitting}
         />
 
-        {/* ID da Aplicação */}
-        <TextField
-          label="ID da Aplicação"
-          placeholder="00000000-0000-0000-0000-000000000000"
+        {/* Aplicação */}
+        <ApplicationSelect
           value={formData.applicationId}
-          onChange={handleInputChange('applicationId')}
-          error={!!errors.applicationId}
-          helperText={errors.applicationId || 'ID da aplicação à qual pertence (opcional)'}
-          fullWidth
+          onChange={(applicationId) => setFormData(prev => ({ ...prev, applicationId: applicationId || '' }))}
+          helperText="Aplicação à qual o módulo pertence (opcional)"
           disabled={isSubmitting}
+          activeOnly
         />
 
+        {/* Ícone e ordem no menu gerado pelo catálogo de módulos */}
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+          <TextField
+            select
+            label="Ícone no menu"
+            value={formData.icon}
+            onChange={handleInputChange('icon')}
+            helperText="Exibido no menu dinâmico (opcional)"
+            fullWidth
+            disabled={isSubmitting}
+          >
+            <MenuItem value="">
+              <em>Padrão</em>
+            </MenuItem>
+            {Object.entries(navigationIcons).map(([name, Icon]) => (
+              <MenuItem key={name} value={name}>
+                <ListItemIcon sx={{ minWidth: 32 }}>
+                  <Icon fontSize="small" />
+                </ListItemIcon>
+                <ListItemText primary={name} />
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <TextField
+            label="Ordem no menu"
+            placeholder="10"
+            value={formData.displayOrder}
+            onChange={handleInputChange('displayOrder')}
+            error={!!errors.displayOrder}
+            helperText={errors.displayOrder || 'Menor aparece primeiro (opcional)'}
+            fullWidth
+            disabled={isSubmitting}
+            inputProps={{ inputMode: 'numeric', maxLength: 6 }}
+          />
+        </Stack>
+
         {/* Status Ativo */}
         <FormControlLabel
           control={
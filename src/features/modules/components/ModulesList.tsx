@@ -22,8 +22,10 @@ import {
 } from '@mui/icons-material';
 import { DataTable } from '../../../shared/components/data-display/DataTable';
 import type { DataTableColumn } from '../../../shared/components/data-display/DataTable';
-import type { Module } from '../../../shared/types';
+import type { ListQuery, Module, TableColumnLayout } from '../../../shared/types';
 import { formatDate } from '../../../shared/utils/date.utils';
+import { hasActiveFilters } from '../../../shared/utils';
+import type { RowSelection } from '../../../shared/utils';
 
 export interface ModulesListProps {
   modules: Module[];
@@ -32,6 +34,21 @@ export interface ModulesListProps {
   onDelete: (module: Module) => void;
   onToggleStatus?: (module: Module) => void;
   emptyMessage?: string;
+  // Paginação
+  page?: number;
+  pageSize?: number;
+  totalCount?: number;
+  onPageChange?: (page: number) => void;
+  onPageSizeChange?: (pageSize: number) => void;
+  // Ordenação e filtros no servidor
+  listQuery?: ListQuery;
+  onListQueryChange?: (query: ListQuery) => void;
+  // Seleção
+  selection?: RowSelection;
+  onSelectionChange?: (selection: RowSelection) => void;
+  selectionActions?: React.ReactNode;
+  // Visualização salva: colunas e densidade
+  layout?: TableColumnLayout;
 }
 
 /**
@@ -45,6 +62,17 @@ export const ModulesList = ({
   onDelete,
   onToggleStatus,
   emptyMessage = 'Nenhum módulo encontrado',
+  page = 1,
+  pageSize = 10,
+  totalCount,
+  onPageChange,
+  onPageSizeChange,
+  listQuery = {},
+  onListQueryChange,
+  selection,
+  onSelectionChange,
+  selectionActions,
+  layout,
 }: ModulesListProps) => {
   const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
   const [selectedModule, setSelectedModule] = useState<Module | null>(null);
@@ -86,6 +114,8 @@ export const ModulesList = ({
       id: 'name',
       label: 'Nome',
       minWidth: 200,
+      sortable: true,
+      filter: { type: 'text' },
       format: (_, module: Module) => (
         <Box>
           <Box sx={{ fontWeight: 600, fontSize: '0.875rem' }}>
@@ -128,13 +158,30 @@ export const ModulesList = ({
         ),
     },
     {
-      id: 'moduleKey',
+      id: 'applicationName',
+      label: 'Aplicação',
+      minWidth: 140,
+      format: (_, module: Module) => 
+        module.applicationName ? (
+          <Box sx={{ fontSize: '0.875rem' }}>
+            {module.applicationName}
+          </Box>
+        ) : (
+          <Box sx={{ color: 'text.secondary', fontSize: '0.875rem' }}>
+            —
+          </Box>
+        ),
+    },
+    {
+      id: 'key',
       label: 'Chave',
       minWidth: 120,
+      sortable: true,
+      filter: { type: 'text' },
       format: (_, module: Module) => 
-        module.moduleKey ? (
+        module.key ? (
           <Chip
-            label={module.moduleKey}
+            label={module.key}
             size="small"
             variant="outlined"
             sx={{ fontSize: '0.75rem' }}
@@ -149,6 +196,8 @@ export const ModulesList = ({
       id: 'code',
       label: 'Código',
       minWidth: 100,
+      sortable: true,
+      filter: { type: 'text' },
       format: (_, module: Module) => 
         module.code ? (
           <Box sx={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>
@@ -164,6 +213,8 @@ export const ModulesList = ({
       id: 'isActive',
       label: 'Status',
       minWidth: 100,
+      sortable: true,
+      filter: { type: 'boolean', trueLabel: 'Ativo', falseLabel: 'Inativo' },
       format: (_, module: Module) => (
         <Chip
           icon={module.isActive ? <ActiveIcon /> : <InactiveIcon />}
@@ -178,6 +229,8 @@ export const ModulesList = ({
       id: 'createdAt',
       label: 'Criado em',
       minWidth: 120,
+      sortable: true,
+      filter: { type: 'dateRange' },
       format: (_, module: Module) => (
         <Box sx={{ fontSize: '0.875rem', color: 'text.secondary' }}>
           {formatDate(module.createdAt)}
@@ -203,7 +256,8 @@ export const ModulesList = ({
     },
   ];
 
-  if (modules.length === 0 && !loading) {
+  // Com filtros ativos a tabela continua visível para que possam ser ajustados
+  if (modules.length === 0 && !loading && !hasActiveFilters(listQuery.filters)) {
     return (
       <Alert severity="info" sx={{ mt: 2 }}>
         <AlertTitle>Nenhum módulo encontrado</AlertTitle>
@@ -219,6 +273,24 @@ export const ModulesList = ({
         columns={columns}
         emptyMessage={emptyMessage}
         maxHeight={600}
+        loading={loading}
+        rowKey="id"
+        showPagination={!!onPageChange}
+        page={page - 1}
+        rowsPerPage={pageSize}
+        totalCount={totalCount}
+        onPageChange={(_, newPage) => onPageChange?.(newPage + 1)}
+        onRowsPerPageChange={(event) => onPageSizeChange?.(parseInt(event.target.value, 10))}
+        sortBy={listQuery.sortBy}
+        sortDirection={listQuery.sortDirection}
+        onSortChange={onListQueryChange && ((sort) => onListQueryChange({ ...listQuery, ...sort }))}
+        filters={listQuery.filters}
+        onFiltersChange={onListQueryChange && ((filters) => onListQueryChange({ ...listQuery, filters }))}
+        selectable={!!onSelectionChange}
+        selection={selection}
+        onSelectionChange={onSelectionChange}
+        selectionActions={selectionActions}
+        layout={layout}
       />
 
       {/* Menu de Ações */}
@@ -1,6 +1,7 @@
 export { ModuleDialog } from './ModuleDialog';
 export { ModuleForm } from './ModuleForm';
 export { ModulesList } from './ModulesList';
+export { MODULE_TABLE_COLUMNS, MODULE_FILTER_TYPES } from './table-columns';
 
 export type { ModuleDialogProps } from './ModuleDialog';
 export type { ModuleFormProps, ModuleFormData } from './ModuleForm';
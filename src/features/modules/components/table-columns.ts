@@ -0,0 +1,19 @@
+import type { ColumnFilterTypes, TableViewColumn } from '../../../shared/types';
+
+// Colunas configuráveis nas visualizações salvas (mesmos ids e rótulos do DataTable)
+export const MODULE_TABLE_COLUMNS: TableViewColumn[] = [
+  { id: 'name', label: 'Nome', hideable: false },
+  { id: 'url', label: 'URL' },
+  { id: 'applicationName', label: 'Aplicação' },
+  { id: 'key', label: 'Chave' },
+  { id: 'code', label: 'Código' },
+  { id: 'isActive', label: 'Status' },
+  { id: 'createdAt', label: 'Criado em' },
+  { id: 'actions', label: 'Ações', hideable: false },
+];
+
+// Filtros que não são texto, para ler a URL com o tipo da coluna
+export const MODULE_FILTER_TYPES: ColumnFilterTypes = {
+  isActive: 'boolean',
+  createdAt: 'dateRange',
+};
@@ -1,11 +1,17 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Module, CreateModuleRequest, UpdateModuleRequest } from '../../../shared/types';
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { Module, CreateModuleRequest, UpdateModuleRequest, ListQuery, ListState, PaginatedResponse } from '../../../shared/types';
 import { ModuleService } from '../../../shared/services';
 import { logger } from '../../../shared/config';
+import { MODULE_CATALOG_QUERY_KEYS, MODULE_QUERY_KEYS } from '../../../shared/constants';
+import { useEffectivePermissionsInvalidation, useQueryError } from '../../../shared/hooks';
+import { applyOptimisticUpdate, fetchAllPages, getQueryErrorMessage, rollbackOptimisticUpdate } from '../../../shared/utils';
 
 interface UseModulesOptions {
   autoLoad?: boolean;
   pageSize?: number;
+  // Página, tamanho, busca, ordenação e filtros controlados pela página (ex: useListUrlState)
+  listState?: ListState;
 }
 
 interface ModulesState {
@@ -17,216 +23,275 @@ interface ModulesState {
   totalPages: number;
 }
 
+interface ModulesFilters {
+  applicationFilter?: string;
+  listQuery: ListQuery;
+  pageSize: number;
+}
+
 interface ModulesActions {
   loadModules: (page?: number, search?: string) => Promise<void>;
   createModule: (data: CreateModuleRequest) => Promise<Module | null>;
   updateModule: (id: string, data: UpdateModuleRequest) => Promise<Module | null>;
   deleteModule: (id: string) => Promise<boolean>;
   toggleStatus: (id: string) => Promise<boolean>;
+  setApplicationFilter: (applicationId: string | undefined) => void;
+  setListQuery: (query: ListQuery) => void;
+  setPageSize: (pageSize: number) => void;
+  fetchAllMatching: () => Promise<Module[]>;
   refreshData: () => Promise<void>;
   clearError: () => void;
 }
 
-export interface UseModulesResult extends ModulesState, ModulesActions {}
+export interface UseModulesResult extends ModulesState, ModulesFilters, ModulesActions {}
 
 /**
  * Hook personalizado para gerenciar estado e operações de Módulos
  * Centraliza lógica de negócio e integração com API
+ * O estado da listagem pode ser controlado pela página (query string) ou interno
+ * Listagens em cache por MODULE_QUERY_KEYS; alterações invalidam as listagens, o catálogo de módulos
+ * e as permissões efetivas. O toggle de status é otimista
  */
 export const useModules = (options: UseModulesOptions = {}): UseModulesResult => {
-  const { autoLoad = true, pageSize = 10 } = options;
-  const hasLoadedRef = useRef(false);
-
-  const [state, setState] = useState<ModulesState>({
-    modules: [],
-    loading: false,
-    error: null,
-    totalCount: 0,
-    currentPage: 1,
-    totalPages: 0,
-  });
-
-  const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
-  }, []);
-
-  const setLoading = useCallback((loading: boolean) => {
-    setState(prev => ({ ...prev, loading }));
-  }, []);
-
-  const setError = useCallback((error: string | null) => {
-    setState(prev => ({ ...prev, error, loading: false }));
-  }, []);
+  const { autoLoad = true, pageSize: initialPageSize = 10, listState } = options;
+  const queryClient = useQueryClient();
+  const invalidateEffectivePermissions = useEffectivePermissionsInvalidation();
+
+  const [enabled, setEnabled] = useState<boolean>(autoLoad);
+  const [localPage, setLocalPage] = useState<number>(1);
+  const [localSearch, setLocalSearch] = useState<string | undefined>(undefined);
+  const [applicationFilter, setLocalApplicationFilter] = useState<string | undefined>(undefined);
+  const [localListQuery, setLocalListQuery] = useState<ListQuery>({});
+  const [localPageSize, setLocalPageSize] = useState(initialPageSize);
+
+  // Estado controlado pela página tem precedência sobre o interno
+  const pageSize = listState?.pageSize ?? localPageSize;
+  const listQuery = listState?.listQuery ?? localListQuery;
+  const listSearch = listState ? listState.search.trim() || undefined : localSearch;
+  const page = listState?.page ?? localPage;
 
   /**
-   * Carrega lista de módulos
+   * Lista de módulos
    */
-  const loadModules = useCallback(async (page = 1, search?: string): Promise<void> => {
-    try {
-      setLoading(true);
-      clearError();
-
-      logger.info('[useModules] Carregando módulos', { page, search, pageSize });
+  const {
+    data,
+    error: queryError,
+    isFetching,
+    refetch,
+  } = useQuery({
+    queryKey: MODULE_QUERY_KEYS.list({ page, pageSize, search: listSearch, listQuery, applicationId: applicationFilter }),
+    queryFn: async () => {
+      logger.info('[useModules] Carregando módulos', { page, search: listSearch, pageSize, applicationFilter, listQuery });
 
       const response = await ModuleService.getModules({
         page,
         limit: pageSize,
-        search,
-        sortBy: 'name',
-        sortOrder: 'asc',
+        search: listSearch,
+        applicationId: applicationFilter,
+        // A API de módulos recebe a direção em sortOrder
+        sortBy: listQuery.sortBy ?? 'name',
+        sortOrder: listQuery.sortDirection ?? 'asc',
+        filters: listQuery.filters,
       });
 
-      setState(prev => ({
-        ...prev,
-        modules: response.data,
-        totalCount: response.totalCount,
-        currentPage: response.pageNumber,
-        totalPages: response.totalPages,
-        loading: false,
-        error: null,
-      }));
-
       logger.info('[useModules] Módulos carregados com sucesso', {
         count: response.data.length,
         totalCount: response.totalCount,
       });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao carregar módulos';
-      logger.error('[useModules] Erro ao carregar módulos', error);
-      setError(errorMessage);
-    }
-  }, [pageSize, setLoading, clearError, setError]);
+      return response;
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const { error, setError, clearError } = useQueryError(queryError, 'Erro ao carregar módulos');
+
+  /**
+   * Carrega lista de módulos (com listState, página e busca vêm do estado controlado)
+   */
+  const loadModules = useCallback(async (nextPage = 1, search?: string): Promise<void> => {
+    setEnabled(true);
+    setLocalPage(nextPage);
+    setLocalSearch(search);
+    await queryClient.invalidateQueries({ queryKey: MODULE_QUERY_KEYS.lists() });
+  }, [queryClient]);
+
+  // Mudanças de filtro ou tamanho voltam para a primeira página
+  const setApplicationFilter = useCallback((applicationId: string | undefined) => {
+    setLocalApplicationFilter(applicationId);
+    setLocalPage(1);
+  }, []);
+
+  const setListQuery = useCallback((query: ListQuery) => {
+    setLocalListQuery(query);
+    setLocalPage(1);
+  }, []);
+
+  const setPageSize = useCallback((size: number) => {
+    setLocalPageSize(size);
+    setLocalPage(1);
+  }, []);
+
+  /**
+   * Busca todos os módulos que atendem aos filtros atuais (ex: seleção de todas as páginas)
+   */
+  const fetchAllMatching = useCallback(() => fetchAllPages(async (pageNumber, limit) => {
+    const response = await ModuleService.getModules({
+      page: pageNumber,
+      limit,
+      search: listSearch,
+      applicationId: applicationFilter,
+      sortBy: listQuery.sortBy ?? 'name',
+      sortOrder: listQuery.sortDirection ?? 'asc',
+      filters: listQuery.filters,
+    });
+    return { items: response.data, totalPages: response.totalPages };
+  }), [listSearch, applicationFilter, listQuery]);
+
+  // O menu e o registro de chaves usam o catálogo de módulos e precisam refletir as alterações;
+  // a matriz e as explicações de permissão exibem os módulos
+  const invalidateModules = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: MODULE_QUERY_KEYS.lists() }),
+    queryClient.invalidateQueries({ queryKey: MODULE_CATALOG_QUERY_KEYS.all }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: createModuleMutation, isPending: creating } = useMutation({
+    mutationFn: (moduleData: CreateModuleRequest) => ModuleService.createModule(moduleData),
+    onSuccess: invalidateModules,
+  });
+
+  const { mutateAsync: updateModuleMutation, isPending: updating } = useMutation({
+    mutationFn: ({ id, moduleData }: { id: string; moduleData: UpdateModuleRequest }) =>
+      ModuleService.updateModule(id, moduleData),
+    onSuccess: invalidateModules,
+  });
+
+  const { mutateAsync: deleteModuleMutation, isPending: deleting } = useMutation({
+    mutationFn: (id: string) => ModuleService.deleteModule(id),
+    onSuccess: invalidateModules,
+  });
+
+  // O novo status aparece na hora; em caso de erro a listagem volta ao estado anterior
+  const { mutateAsync: toggleStatusMutation } = useMutation({
+    mutationFn: (id: string) => ModuleService.toggleModuleStatus(id),
+    onMutate: (id: string) => applyOptimisticUpdate<PaginatedResponse<Module>>(queryClient, MODULE_QUERY_KEYS.lists(), response => ({
+      ...response,
+      data: response.data.map(module => (module.id === id ? { ...module, isActive: !module.isActive } : module)),
+    })),
+    onError: (_err, _id, snapshot) => rollbackOptimisticUpdate(queryClient, snapshot),
+    onSettled: invalidateModules,
+  });
 
   /**
    * Cria um novo módulo
    */
-  const createModule = useCallback(async (data: CreateModuleRequest): Promise<Module | null> => {
+  const createModule = useCallback(async (moduleData: CreateModuleRequest): Promise<Module | null> => {
     try {
-      setLoading(true);
       clearError();
 
-      logger.info('[useModules] Criando módulo', { data });
+      logger.info('[useModules] Criando módulo', { data: moduleData });
 
-      const newModule = await ModuleService.createModule(data);
-
-      // Recarrega a lista para manter sincronia
-      await loadModules(state.currentPage);
+      const newModule = await createModuleMutation(moduleData);
 
       logger.info('[useModules] Módulo criado com sucesso', { id: newModule.id });
       return newModule;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao criar módulo';
       logger.error('[useModules] Erro ao criar módulo', error);
-      setError(errorMessage);
+      setError(getQueryErrorMessage(error, 'Erro ao criar módulo'));
       return null;
     }
-  }, [state.currentPage, loadModules, setLoading, clearError, setError]);
+  }, [createModuleMutation, clearError, setError]);
 
   /**
    * Atualiza um módulo existente
    */
-  const updateModule = useCallback(async (id: string, data: UpdateModuleRequest): Promise<Module | null> => {
+  const updateModule = useCallback(async (id: string, moduleData: UpdateModuleRequest): Promise<Module | null> => {
     try {
-      setLoading(true);
       clearError();
 
-      logger.info('[useModules] Atualizando módulo', { id, data });
-
-      const updatedModule = await ModuleService.updateModule(id, data);
+      logger.info('[useModules] Atualizando módulo', { id, data: moduleData });
 
-      // Recarrega a lista para manter sincronia
-      await loadModules(state.currentPage);
+      const updatedModule = await updateModuleMutation({ id, moduleData });
 
       logger.info('[useModules] Módulo atualizado com sucesso', { id });
       return updatedModule;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao atualizar módulo';
       logger.error('[useModules] Erro ao atualizar módulo', error);
-      setError(errorMessage);
+      setError(getQueryErrorMessage(error, 'Erro ao atualizar módulo'));
       return null;
     }
-  }, [state.currentPage, loadModules, setLoading, clearError, setError]);
+  }, [updateModuleMutation, clearError, setError]);
 
   /**
    * Exclui um módulo
    */
   const deleteModule = useCallback(async (id: string): Promise<boolean> => {
     try {
-      setLoading(true);
       clearError();
 
       logger.info('[useModules] Excluindo módulo', { id });
 
-      await ModuleService.deleteModule(id);
-
-      // Recarrega a lista para manter sincronia
-      await loadModules(state.currentPage);
+      await deleteModuleMutation(id);
 
       logger.info('[useModules] Módulo excluído com sucesso', { id });
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao excluir módulo';
       logger.error('[useModules] Erro ao excluir módulo', error);
-      setError(errorMessage);
+      setError(getQueryErrorMessage(error, 'Erro ao excluir módulo'));
       return false;
     }
-  }, [state.currentPage, loadModules, setLoading, clearError, setError]);
+  }, [deleteModuleMutation, clearError, setError]);
 
   /**
    * Alterna status ativo/inativo do módulo
    */
   const toggleStatus = useCallback(async (id: string): Promise<boolean> => {
     try {
-      setLoading(true);
       clearError();
 
       logger.info('[useModules] Alternando status do módulo', { id });
 
-      await ModuleService.toggleModuleStatus(id);
-
-      // Recarrega a lista para manter sincronia
-      await loadModules(state.currentPage);
+      await toggleStatusMutation(id);
 
       logger.info('[useModules] Status do módulo alterado com sucesso', { id });
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao alterar status do módulo';
       logger.error('[useModules] Erro ao alterar status do módulo', error);
-      setError(errorMessage);
+      setError(getQueryErrorMessage(error, 'Erro ao alterar status do módulo'));
       return false;
     }
-  }, [state.currentPage, loadModules, setLoading, clearError, setError]);
+  }, [toggleStatusMutation, clearError, setError]);
 
   /**
    * Recarrega os dados da página atual
    */
   const refreshData = useCallback(async (): Promise<void> => {
-    await loadModules(state.currentPage);
-  }, [state.currentPage, loadModules]);
-
-  // Carregamento automático na inicialização
-  useEffect(() => {
-    if (autoLoad && !hasLoadedRef.current) {
-      hasLoadedRef.current = true;
-      loadModules();
-    }
-  }, [autoLoad, loadModules]);
+    await refetch();
+  }, [refetch]);
 
   return {
     // Estado
-    modules: state.modules,
-    loading: state.loading,
-    error: state.error,
-    totalCount: state.totalCount,
-    currentPage: state.currentPage,
-    totalPages: state.totalPages,
+    modules: data?.data ?? [],
+    loading: isFetching || creating || updating || deleting,
+    error,
+    totalCount: data?.totalCount ?? 0,
+    currentPage: data?.pageNumber ?? page,
+    totalPages: data?.totalPages ?? 0,
+    applicationFilter,
+    listQuery,
+    pageSize,
     // Ações
     loadModules,
     createModule,
     updateModule,
     deleteModule,
     toggleStatus,
+    setApplicationFilter,
+    setListQuery,
+    setPageSize,
+    fetchAllMatching,
     refreshData,
     clearError,
   };
-};
\ No newline at end of file
+};
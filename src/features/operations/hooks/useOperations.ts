@@ -1,7 +1,15 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Operation, CreateOperationRequest, UpdateOperationRequest } from '../../../shared/types';
+import { useState, useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { Operation, CreateOperationRequest, UpdateOperationRequest, PaginatedResponse } from '../../../shared/types';
 import { OperationService } from '../../../shared/services';
 import { logger } from '../../../shared/config';
+import {
+  OPERATION_CATALOG_QUERY_KEYS,
+  OPERATION_QUERY_KEYS,
+  PERMISSION_OPERATION_QUERY_KEYS,
+} from '../../../shared/constants';
+import { useEffectivePermissionsInvalidation, useQueryError } from '../../../shared/hooks';
+import { applyOptimisticUpdate, getQueryErrorMessage, rollbackOptimisticUpdate } from '../../../shared/utils';
 
 interface UseOperationsOptions {
   autoLoad?: boolean;
@@ -32,195 +40,173 @@ export interface UseOperationsResult extends OperationsState, OperationsActions
 /**
  * Hook personalizado para gerenciar estado e operações de Operations
  * Centraliza lógica de negócio e integração com API
+ * Listagens em cache por OPERATION_QUERY_KEYS; alterações invalidam as listagens, o catálogo de operações,
+ * as relações permissão-operação e as permissões efetivas. O toggle de status é otimista
  */
 export const useOperations = (options: UseOperationsOptions = {}): UseOperationsResult => {
   const { autoLoad = true, pageSize = 10 } = options;
-  const hasLoadedRef = useRef(false);
-
-  const [state, setState] = useState<OperationsState>({
-    operations: [],
-    loading: false,
-    error: null,
-    totalCount: 0,
-    currentPage: 1,
-    totalPages: 0,
-  });
-
-  const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
-  }, []);
-
-  const loadOperations = useCallback(async (page = 1, search?: string) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
-    try {
+  const queryClient = useQueryClient();
+  const invalidateEffectivePermissions = useEffectivePermissionsInvalidation();
+
+  const [enabled, setEnabled] = useState<boolean>(autoLoad);
+  const [page, setPage] = useState<number>(1);
+  const [search, setSearch] = useState<string | undefined>(undefined);
+
+  const {
+    data,
+    error: queryError,
+    isFetching,
+  } = useQuery({
+    queryKey: OPERATION_QUERY_KEYS.list({ page, pageSize, search }),
+    queryFn: async () => {
       logger.info(`🔄 Carregando operações - Página: ${page}, Busca: ${search || 'N/A'}`);
-      
+
       const response = await OperationService.getOperations({
         page,
         limit: pageSize,
         search,
       });
 
-      setState(prev => ({
-        ...prev,
-        operations: response.data,
-        totalCount: response.totalCount,
-        currentPage: response.pageNumber,
-        totalPages: response.totalPages,
-        loading: false,
-      }));
-
       logger.info(`✅ Success: ${response.data.length} operações carregadas`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao carregar operações';
-      setState(prev => ({
-        ...prev,
-        error: errorMessage,
-        loading: false,
-      }));
-      logger.error('❌ Error:', errorMessage);
-    }
-  }, [pageSize]);
+      return response;
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const { error, setError, clearError } = useQueryError(queryError, 'Erro ao carregar operações');
+  const operations = useMemo(() => data?.data ?? [], [data]);
+
+  const loadOperations = useCallback(async (nextPage = 1, nextSearch?: string) => {
+    setEnabled(true);
+    setPage(nextPage);
+    setSearch(nextSearch);
+    await queryClient.invalidateQueries({ queryKey: OPERATION_QUERY_KEYS.lists() });
+  }, [queryClient]);
+
+  // Verificações de permissão usam o catálogo de operações e precisam refletir as alterações;
+  // relações permissão-operação e permissões efetivas exibem as operações
+  const invalidateOperations = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: OPERATION_QUERY_KEYS.lists() }),
+    queryClient.invalidateQueries({ queryKey: OPERATION_CATALOG_QUERY_KEYS.all }),
+    queryClient.invalidateQueries({ queryKey: PERMISSION_OPERATION_QUERY_KEYS.all }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: createOperationMutation, isPending: creating } = useMutation({
+    mutationFn: (operationData: CreateOperationRequest) => OperationService.createOperation(operationData),
+    onSuccess: invalidateOperations,
+  });
+
+  const { mutateAsync: updateOperationMutation, isPending: updating } = useMutation({
+    mutationFn: ({ id, operationData }: { id: string; operationData: UpdateOperationRequest }) =>
+      OperationService.updateOperation(id, operationData),
+    onSuccess: invalidateOperations,
+  });
+
+  const { mutateAsync: deleteOperationMutation, isPending: deleting } = useMutation({
+    mutationFn: (id: string) => OperationService.deleteOperation(id),
+    onSuccess: invalidateOperations,
+  });
+
+  // O novo status aparece na hora; em caso de erro a listagem volta ao estado anterior
+  const { mutateAsync: toggleStatusMutation } = useMutation({
+    mutationFn: (operation: Operation) => OperationService.updateOperation(operation.id, { isActive: !operation.isActive }),
+    onMutate: (operation: Operation) => applyOptimisticUpdate<PaginatedResponse<Operation>>(queryClient, OPERATION_QUERY_KEYS.lists(), response => ({
+      ...response,
+      data: response.data.map(op => (op.id === operation.id ? { ...op, isActive: !operation.isActive } : op)),
+    })),
+    onError: (_err, _operation, snapshot) => rollbackOptimisticUpdate(queryClient, snapshot),
+    onSettled: invalidateOperations,
+  });
+
+  const createOperation = useCallback(async (operationData: CreateOperationRequest): Promise<Operation | null> => {
+    setError(null);
 
-  const createOperation = useCallback(async (data: CreateOperationRequest): Promise<Operation | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
     try {
-      logger.info('🔄 Criando nova operação:', data);
-      const newOperation = await OperationService.createOperation(data);
-      
-      // Atualiza a lista local
-      setState(prev => ({
-        ...prev,
-        operations: [newOperation, ...prev.operations],
-        totalCount: prev.totalCount + 1,
-        loading: false,
-      }));
+      logger.info('🔄 Criando nova operação:', operationData);
+      const newOperation = await createOperationMutation(operationData);
 
       logger.info('✅ Success: Operação criada com sucesso!', newOperation);
       return newOperation;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao criar operação';
-      setState(prev => ({
-        ...prev,
-        error: errorMessage,
-        loading: false,
-      }));
+      const errorMessage = getQueryErrorMessage(error, 'Erro ao criar operação');
+      setError(errorMessage);
       logger.error('❌ Error:', errorMessage);
       // Propaga o erro para o componente pai poder tratar
       throw error;
     }
-  }, []);
+  }, [createOperationMutation, setError]);
+
+  const updateOperation = useCallback(async (id: string, operationData: UpdateOperationRequest): Promise<Operation | null> => {
+    setError(null);
 
-  const updateOperation = useCallback(async (id: string, data: UpdateOperationRequest): Promise<Operation | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
     try {
-      logger.info(`🔄 Atualizando operação ${id}:`, data);
-      const updatedOperation = await OperationService.updateOperation(id, data);
-      
-      // Atualiza a lista local
-      setState(prev => ({
-        ...prev,
-        operations: prev.operations.map(op => 
-          op.id === id ? updatedOperation : op
-        ),
-        loading: false,
-      }));
+      logger.info(`🔄 Atualizando operação ${id}:`, operationData);
+      const updatedOperation = await updateOperationMutation({ id, operationData });
 
       logger.info('✅ Success: Operação atualizada com sucesso!', updatedOperation);
       return updatedOperation;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao atualizar operação';
-      setState(prev => ({
-        ...prev,
-        error: errorMessage,
-        loading: false,
-      }));
+      const errorMessage = getQueryErrorMessage(error, 'Erro ao atualizar operação');
+      setError(errorMessage);
       logger.error('❌ Error:', errorMessage);
       // Propaga o erro para o componente pai poder tratar
       throw error;
     }
-  }, []);
+  }, [updateOperationMutation, setError]);
 
   const deleteOperation = useCallback(async (id: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
+    setError(null);
+
     try {
       logger.info(`🔄 Excluindo operação ${id}`);
-      await OperationService.deleteOperation(id);
-      
-      // Remove da lista local
-      setState(prev => ({
-        ...prev,
-        operations: prev.operations.filter(op => op.id !== id),
-        totalCount: prev.totalCount - 1,
-        loading: false,
-      }));
+      await deleteOperationMutation(id);
 
       logger.info('✅ Success: Operação excluída com sucesso!');
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao excluir operação';
-      setState(prev => ({
-        ...prev,
-        error: errorMessage,
-        loading: false,
-      }));
+      const errorMessage = getQueryErrorMessage(error, 'Erro ao excluir operação');
+      setError(errorMessage);
       logger.error('❌ Error:', errorMessage);
       return false;
     }
-  }, []);
+  }, [deleteOperationMutation, setError]);
 
   const toggleStatus = useCallback(async (id: string): Promise<boolean> => {
-    try {
-      const operation = state.operations.find(op => op.id === id);
-      if (!operation) {
-        logger.error('❌ Error: Operação não encontrada');
-        return false;
-      }
-
-      const updatedOperation = await updateOperation(id, {
-        isActive: !operation.isActive,
-      });
+    const operation = operations.find(op => op.id === id);
+    if (!operation) {
+      logger.error('❌ Error: Operação não encontrada');
+      return false;
+    }
 
-      if (!updatedOperation) {
-        return false;
-      }
+    setError(null);
 
-      // Atualiza a lista local
-      setState(prev => ({
-        ...prev,
-        operations: prev.operations.map(op => 
-          op.id === id ? updatedOperation : op
-        ),
-      }));
+    try {
+      const updatedOperation = await toggleStatusMutation(operation);
 
       const status = updatedOperation.isActive ? 'ativada' : 'desativada';
       logger.info(`✅ Success: Operação ${status} com sucesso!`);
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao alterar status';
+      const errorMessage = getQueryErrorMessage(error, 'Erro ao alterar status');
+      setError(errorMessage);
       logger.error('❌ Error:', errorMessage);
       return false;
     }
-  }, [updateOperation, state.operations]);
+  }, [operations, toggleStatusMutation, setError]);
 
   const refreshData = useCallback(async () => {
     await loadOperations(1); // Sempre recarrega a primeira página
   }, [loadOperations]);
 
-  // Carrega dados automaticamente na inicialização
-  useEffect(() => {
-    if (autoLoad && !hasLoadedRef.current) {
-      hasLoadedRef.current = true;
-      loadOperations();
-    }
-  }, [autoLoad, loadOperations]);
-
   return {
-    ...state,
+    operations,
+    loading: isFetching || creating || updating || deleting,
+    error,
+    totalCount: data?.totalCount ?? 0,
+    currentPage: data?.pageNumber ?? page,
+    totalPages: data?.totalPages ?? 0,
     loadOperations,
     createOperation,
     updateOperation,
@@ -229,4 +215,4 @@ export const useOperations = (options: UseOperationsOptions = {}): UseOperations
     refreshData,
     clearError,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  ManageSearch as ExplainIcon,
+} from '@mui/icons-material';
+import {
+  PageHeader,
+  ResponsiveContainer,
+  StyledCard
+} from '../../shared/components';
+import { UserService } from '../../shared/services';
+import { useModuleRegistryStore, usePermissionStore } from '../../shared/stores';
+import { describePermissionDecision } from '../../shared/utils';
+import type { UserAccount } from '../../shared/types';
+import { ExplainTree } from './components';
+import { usePermissionExplainer } from './hooks';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Página "por que este usuário pode (ou não) fazer X?"
+ *
+ * Features:
+ * - Seleção de usuário, chave de módulo e operação (também via ?userId=&moduleKey=&operation=)
+ * - Veredito com a entrada decisiva conforme a precedência configurada
+ * - Árvore usuário → grupos → roles → permissões → operações com as arestas que contribuem
+ */
+export const PermissionExplainerPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { explanation, loading, error, explain, clear } = usePermissionExplainer();
+
+  const moduleKeys = useModuleRegistryStore(state => state.keys);
+  const operationCodes = usePermissionStore(state => state.operationCodes);
+
+  const [userSearch, setUserSearch] = useState('');
+  const [userOptions, setUserOptions] = useState<UserAccount[]>([]);
+  const [searchingUsers, setSearchingUsers] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<UserAccount | null>(null);
+  const [moduleKey, setModuleKey] = useState(searchParams.get('moduleKey') ?? '');
+  const [operation, setOperation] = useState(searchParams.get('operation') ?? 'SELECT');
+  const [showUnrelated, setShowUnrelated] = useState(false);
+
+  // Parâmetros com que a página foi aberta (link compartilhado)
+  const [initialRequest] = useState(() => ({
+    userId: searchParams.get('userId'),
+    moduleKey: searchParams.get('moduleKey'),
+    operation: searchParams.get('operation') ?? 'SELECT',
+  }));
+
+  const userId = selectedUser?.id ?? searchParams.get('userId') ?? '';
+  const moduleKeyOptions = useMemo(() => Object.keys(moduleKeys).sort(), [moduleKeys]);
+
+  // Busca de usuários conforme a digitação
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      setSearchingUsers(true);
+      try {
+        const response = await UserService.getUsers({ page: 1, limit: 20, search: userSearch || undefined });
+        setUserOptions(response.items || []);
+      } catch (err) {
+        console.error('❌ PermissionExplainerPage: Erro ao buscar usuários:', err);
+      } finally {
+        setSearchingUsers(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [userSearch]);
+
+  // Link compartilhado: explica automaticamente ao abrir
+  useEffect(() => {
+    if (initialRequest.userId && initialRequest.moduleKey) {
+      explain(initialRequest.userId, initialRequest.moduleKey, initialRequest.operation);
+    }
+  }, [explain, initialRequest]);
+
+  const handleExplain = () => {
+    if (!userId || !moduleKey || !operation) return;
+
+    setSearchParams({ userId, moduleKey, operation: operation.toUpperCase() }, { replace: true });
+    explain(userId, moduleKey, operation);
+  };
+
+  const decision = explanation?.decision;
+
+  return (
+    <ResponsiveContainer>
+      <PageHeader
+        title="Explicar Permissões"
+        subtitle="Descubra por que um usuário pode ou não executar uma operação"
+        icon={<ExplainIcon />}
+      />
+
+      <Box sx={{ mb: 3 }}>
+        <StyledCard>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+            <Autocomplete
+              sx={{ flex: 2 }}
+              options={userOptions}
+              value={selectedUser}
+              loading={searchingUsers}
+              filterOptions={(options) => options}
+              getOptionLabel={(user) => `${user.fullName || user.username} (${user.email})`}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              onChange={(_, user) => { setSelectedUser(user); clear(); }}
+              onInputChange={(_, value, reason) => { if (reason === 'input') setUserSearch(value); }}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Usuário"
+                  placeholder="Nome, usuário ou email"
+                  helperText={!selectedUser && userId ? `ID informado: ${userId}` : undefined}
+                />
+              )}
+            />
+            <Autocomplete
+              sx={{ flex: 1 }}
+              freeSolo
+              options={moduleKeyOptions}
+              value={moduleKey}
+              onInputChange={(_, value) => setModuleKey(value)}
+              renderInput={(params) => <TextField {...params} label="Chave do módulo" placeholder="ROLE_MODULE" />}
+            />
+            <Autocomplete
+              sx={{ flex: 1 }}
+              freeSolo
+              options={operationCodes}
+              value={operation}
+              onInputChange={(_, value) => setOperation(value)}
+              renderInput={(params) => <TextField {...params} label="Operação" placeholder="DELETE" />}
+            />
+            <Button
+              variant="contained"
+              startIcon={loading ? <CircularProgress size={16} color="inherit" /> : <ExplainIcon />}
+              onClick={handleExplain}
+              disabled={loading || !userId || !moduleKey || !operation}
+            >
+              Explicar
+            </Button>
+          </Stack>
+        </StyledCard>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {explanation && decision && (
+        <StyledCard>
+          <Alert severity={decision.allowed ? 'success' : 'error'} sx={{ mb: 2 }}>
+            <Typography variant="subtitle2">
+              {decision.allowed ? 'Permitido' : 'Não permitido'}
+            </Typography>
+            {describePermissionDecision(decision)} (precedência: {decision.precedence})
+          </Alert>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+            <Chip label={`${explanation.grantPaths} caminho(s) de concessão`} size="small" color="success" variant="outlined" />
+            <Chip label={`${explanation.denyPaths} caminho(s) de negação`} size="small" color="error" variant="outlined" />
+            <Box sx={{ flex: 1 }} />
+            <FormControlLabel
+              control={<Switch size="small" checked={showUnrelated} onChange={(e) => setShowUnrelated(e.target.checked)} />}
+              label="Mostrar itens sem relação"
+            />
+          </Box>
+
+          <ExplainTree root={explanation.root} showUnrelated={showUnrelated} />
+        </StyledCard>
+      )}
+    </ResponsiveContainer>
+  );
+};
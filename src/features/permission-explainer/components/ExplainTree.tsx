@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Box, Chip, IconButton, Typography } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import type { SvgIconComponent } from '@mui/icons-material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  ChevronRight as ChevronRightIcon,
+  Person as UserIcon,
+  Group as GroupIcon,
+  AdminPanelSettings as RoleIcon,
+  Security as PermissionIcon,
+  PlayArrow as OperationIcon,
+} from '@mui/icons-material';
+import type { ExplainNode, ExplainNodeStatus, ExplainNodeType } from '../../../shared/types';
+
+const NODE_ICONS: Record<ExplainNodeType, SvgIconComponent> = {
+  user: UserIcon,
+  'access-group': GroupIcon,
+  role: RoleIcon,
+  permission: PermissionIcon,
+  operation: OperationIcon,
+};
+
+const STATUS_CONFIG: Record<ExplainNodeStatus, { label: string; color: 'success' | 'error' | 'default' | 'warning' }> = {
+  grant: { label: 'Concede', color: 'success' },
+  deny: { label: 'Nega', color: 'error' },
+  inactive: { label: 'Inativo', color: 'warning' },
+  'no-match': { label: 'Sem relação', color: 'default' },
+};
+
+interface ExplainTreeItemProps {
+  node: ExplainNode;
+  depth: number;
+  showUnrelated: boolean;
+}
+
+const ExplainTreeItem = ({ node, depth, showUnrelated }: ExplainTreeItemProps) => {
+  // Caminhos que contribuem (ou inativos no caminho) começam abertos
+  const [expanded, setExpanded] = useState(node.status !== 'no-match' || depth === 0);
+
+  const children = showUnrelated
+    ? node.children
+    : node.children.filter(child => child.status !== 'no-match');
+  const Icon = NODE_ICONS[node.type];
+  const status = STATUS_CONFIG[node.status];
+  const edgeColor = node.status === 'deny' ? 'error.main' : 'success.main';
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          py: 0.5,
+          pl: depth * 3,
+          borderLeft: 3,
+          borderColor: node.contributes ? edgeColor : 'transparent',
+          bgcolor: (theme) => node.decisive
+            ? alpha(node.status === 'deny' ? theme.palette.error.main : theme.palette.success.main, 0.08)
+            : 'transparent',
+          opacity: node.status === 'no-match' ? 0.6 : 1,
+        }}
+      >
+        {children.length > 0 ? (
+          <IconButton size="small" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+          </IconButton>
+        ) : (
+          <Box sx={{ width: 34 }} />
+        )}
+        <Icon fontSize="small" color={node.contributes ? 'primary' : 'disabled'} />
+        <Typography variant="body2" fontWeight={node.contributes ? 600 : 400}>
+          {node.label}
+        </Typography>
+        {node.description && (
+          <Typography variant="caption" color="text.secondary">
+            {node.description}
+          </Typography>
+        )}
+        <Chip
+          label={status.label}
+          size="small"
+          color={status.color}
+          variant={node.contributes ? 'filled' : 'outlined'}
+          sx={{ height: 20 }}
+        />
+        {node.decisive && node.type !== 'user' && (
+          <Chip label="Decisivo" size="small" variant="outlined" color="primary" sx={{ height: 20 }} />
+        )}
+      </Box>
+
+      {expanded && children.map(child => (
+        <ExplainTreeItem key={child.id} node={child} depth={depth + 1} showUnrelated={showUnrelated} />
+      ))}
+    </Box>
+  );
+};
+
+interface ExplainTreeProps {
+  root: ExplainNode;
+  // Exibe também grupos/roles/operações que não levam à operação verificada
+  showUnrelated?: boolean;
+}
+
+/**
+ * Árvore do caminho de concessão: usuário → grupos → roles → permissões → operações
+ *
+ * Features:
+ * - Arestas que contribuem destacadas (verde concede, vermelho nega)
+ * - Caminho decisivo (precedência) em destaque
+ * - Nós inativos indicados, pois interrompem o caminho
+ */
+export const ExplainTree = ({ root, showUnrelated = false }: ExplainTreeProps) => (
+  <Box sx={{ overflowX: 'auto' }}>
+    <ExplainTreeItem node={root} depth={0} showUnrelated={showUnrelated} />
+  </Box>
+);
@@ -0,0 +1,2 @@
+// Exporta todos os componentes da explicação de permissões
+export { ExplainTree } from './ExplainTree';
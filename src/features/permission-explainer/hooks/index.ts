@@ -0,0 +1,2 @@
+// Exporta todos os hooks da explicação de permissões
+export { usePermissionExplainer } from './usePermissionExplainer';
@@ -0,0 +1,72 @@
+import { useState, useCallback } from 'react';
+import { useQuery, useQueryClient, skipToken } from '@tanstack/react-query';
+import { PermissionExplainService } from '../../../shared/services';
+import { EFFECTIVE_PERMISSION_QUERY_KEYS } from '../../../shared/constants';
+import type { OperationCode, PermissionExplanation } from '../../../shared/types';
+import { getQueryErrorMessage } from '../../../shared/utils';
+
+interface UsePermissionExplainerResult {
+  // Estado
+  explanation: PermissionExplanation | null;
+  loading: boolean;
+  error: string | null;
+
+  // Ações
+  explain: (userId: string, moduleKey: string, operation: OperationCode) => Promise<void>;
+  clear: () => void;
+}
+
+interface ExplanationRequest {
+  userId: string;
+  moduleKey: string;
+  operation: OperationCode;
+}
+
+const explanationKey = ({ userId, moduleKey, operation }: ExplanationRequest) =>
+  EFFECTIVE_PERMISSION_QUERY_KEYS.explanation(userId, moduleKey, operation);
+
+const fetchExplanation = async ({ userId, moduleKey, operation }: ExplanationRequest) => {
+  try {
+    return await PermissionExplainService.explain(userId, moduleKey, operation);
+  } catch (err) {
+    console.error('❌ usePermissionExplainer: Erro ao explicar permissão:', err);
+    throw err;
+  }
+};
+
+/**
+ * Hook da explicação de permissões efetivas
+ *
+ * Features:
+ * - Percorre usuário → grupos → roles → permissões → operações sob demanda
+ * - Mantém a última explicação para exibição em árvore
+ * - Explicação em cache (EFFECTIVE_PERMISSION_QUERY_KEYS), invalidada quando grupos, roles,
+ *   permissões ou operações mudam; pedir de novo sempre recalcula
+ */
+export const usePermissionExplainer = (): UsePermissionExplainerResult => {
+  const queryClient = useQueryClient();
+  const [request, setRequest] = useState<ExplanationRequest | null>(null);
+
+  const { data, error: queryError, isFetching } = useQuery({
+    queryKey: request ? explanationKey(request) : EFFECTIVE_PERMISSION_QUERY_KEYS.explanations(),
+    queryFn: request ? () => fetchExplanation(request) : skipToken,
+  });
+
+  const explain = useCallback(async (userId: string, moduleKey: string, operation: OperationCode) => {
+    const next = { userId, moduleKey, operation };
+    setRequest(next);
+    await queryClient.prefetchQuery({ queryKey: explanationKey(next), queryFn: () => fetchExplanation(next), staleTime: 0 });
+  }, [queryClient]);
+
+  const clear = useCallback(() => {
+    setRequest(null);
+  }, []);
+
+  return {
+    explanation: data ?? null,
+    loading: isFetching,
+    error: queryError ? getQueryErrorMessage(queryError, 'Erro ao montar a explicação da permissão') : null,
+    explain,
+    clear,
+  };
+};
@@ -0,0 +1,4 @@
+// Exporta todos os recursos da explicação de permissões
+export { PermissionExplainerPage } from './PermissionExplainerPage';
+export * from './components';
+export * from './hooks';
@@ -0,0 +1,100 @@
+import { Alert, Box, Button, Chip, Stack, Typography } from '@mui/material';
+import {
+  GridOn as MatrixIcon,
+  Refresh as RefreshIcon,
+  Description as CsvIcon,
+  TableView as XlsxIcon,
+} from '@mui/icons-material';
+import {
+  ErrorDisplay,
+  LoadingSpinner,
+  PageHeader,
+  ResponsiveContainer,
+  StyledCard,
+} from '../../shared/components';
+import { PRIVILEGED_PERMISSIONS } from '../../shared/types';
+import { formatDateTime } from '../../shared/utils/date.utils';
+import { PermissionMatrixFilters, PermissionMatrixTable } from './components';
+import { usePermissionMatrix } from './hooks';
+
+/**
+ * Relatório de auditoria: permissões efetivas de todos os usuários do tenant
+ *
+ * Features:
+ * - Matriz usuários × módulo:operação calculada a partir de usuário → grupo → role → permissão
+ * - Filtros por tipo de grupo, grupo de acesso e role
+ * - Destaque das permissões privilegiadas (ex: DELETE em PERMISSION_MODULE e ROLE_MODULE)
+ * - Exportação CSV e XLSX das linhas filtradas
+ */
+export const PermissionMatrixPage = () => {
+  const { matrix, rows, loading, error, filters, refresh, setFilters, exportCsv, exportXlsx } = usePermissionMatrix();
+
+  const privilegedUsers = matrix
+    ? rows.filter(row => matrix.columns.some(column => column.privileged && row.cells[column.id]?.allowed)).length
+    : 0;
+
+  return (
+    <ResponsiveContainer>
+      <PageHeader
+        title="Matriz de Permissões"
+        subtitle="Módulos e operações de cada usuário do tenant, para auditoria"
+        icon={<MatrixIcon />}
+      >
+        <Stack direction="row" spacing={1} sx={{ mt: 2 }}>
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={refresh} disabled={loading}>
+            Atualizar
+          </Button>
+          <Button variant="outlined" startIcon={<CsvIcon />} onClick={exportCsv} disabled={!matrix || loading}>
+            CSV
+          </Button>
+          <Button variant="contained" startIcon={<XlsxIcon />} onClick={exportXlsx} disabled={!matrix || loading}>
+            XLSX
+          </Button>
+        </Stack>
+      </PageHeader>
+
+      {error && <ErrorDisplay message={error} onRetry={refresh} />}
+
+      {loading && !matrix && <LoadingSpinner message="Montando matriz de permissões..." />}
+
+      {matrix && (
+        <>
+          <Box sx={{ mb: 3 }}>
+            <StyledCard>
+              <PermissionMatrixFilters
+                filters={filters}
+                onChange={setFilters}
+                groupTypes={matrix.groupTypes}
+                accessGroups={matrix.accessGroups}
+                roles={matrix.roles}
+              />
+            </StyledCard>
+          </Box>
+
+          <StyledCard>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+              <Chip label={`${rows.length} de ${matrix.rows.length} usuário(s)`} size="small" variant="outlined" />
+              <Chip
+                label={`${privilegedUsers} com acesso privilegiado`}
+                size="small"
+                color={privilegedUsers > 0 ? 'warning' : 'default'}
+                variant="outlined"
+              />
+              <Box sx={{ flex: 1 }} />
+              <Typography variant="caption" color="text.secondary">
+                Gerado em {formatDateTime(matrix.generatedAt)}
+              </Typography>
+            </Box>
+
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Privilegiadas: {PRIVILEGED_PERMISSIONS.map(entry => `${entry.moduleKey}:${entry.operation}`).join(', ')}.
+              {' '}* indica concessão que depende de condições por registro.
+            </Alert>
+
+            <PermissionMatrixTable columns={matrix.columns} rows={rows} />
+          </StyledCard>
+        </>
+      )}
+    </ResponsiveContainer>
+  );
+};
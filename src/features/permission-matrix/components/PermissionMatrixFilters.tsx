@@ -0,0 +1,106 @@
+import {
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+} from '@mui/material';
+import type {
+  AccessGroup,
+  GroupType,
+  PermissionMatrixFilters as Filters,
+  Role,
+} from '../../../shared/types';
+
+interface PermissionMatrixFiltersProps {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+  groupTypes: GroupType[];
+  accessGroups: AccessGroup[];
+  roles: Role[];
+}
+
+/**
+ * Filtros da matriz de permissões
+ *
+ * Features:
+ * - Tipo de grupo restringe as opções de grupo de acesso
+ * - Busca por nome, usuário ou email
+ * - Somente usuários com acesso privilegiado
+ */
+export const PermissionMatrixFilters = ({
+  filters,
+  onChange,
+  groupTypes,
+  accessGroups,
+  roles,
+}: PermissionMatrixFiltersProps) => {
+  const groupOptions = filters.groupTypeId
+    ? accessGroups.filter(group => group.groupTypeId === filters.groupTypeId)
+    : accessGroups;
+
+  const update = (changes: Partial<Filters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+      <TextField
+        size="small"
+        label="Buscar usuário"
+        value={filters.search ?? ''}
+        onChange={(e) => update({ search: e.target.value })}
+        sx={{ flex: 1 }}
+      />
+      <TextField
+        select
+        size="small"
+        label="Tipo de grupo"
+        value={filters.groupTypeId ?? ''}
+        // Ao trocar o tipo, o grupo selecionado pode não pertencer mais a ele
+        onChange={(e) => update({ groupTypeId: e.target.value || undefined, accessGroupId: undefined })}
+        sx={{ flex: 1 }}
+      >
+        <MenuItem value="">Todos</MenuItem>
+        {groupTypes.map(type => (
+          <MenuItem key={type.id} value={type.id}>{type.name}</MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Grupo de acesso"
+        value={filters.accessGroupId ?? ''}
+        onChange={(e) => update({ accessGroupId: e.target.value || undefined })}
+        sx={{ flex: 1 }}
+      >
+        <MenuItem value="">Todos</MenuItem>
+        {groupOptions.map(group => (
+          <MenuItem key={group.id} value={group.id}>{group.name}</MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Role"
+        value={filters.roleId ?? ''}
+        onChange={(e) => update({ roleId: e.target.value || undefined })}
+        sx={{ flex: 1 }}
+      >
+        <MenuItem value="">Todas</MenuItem>
+        {roles.map(role => (
+          <MenuItem key={role.id} value={role.id}>{role.name}</MenuItem>
+        ))}
+      </TextField>
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={!!filters.onlyPrivileged}
+            onChange={(e) => update({ onlyPrivileged: e.target.checked || undefined })}
+          />
+        }
+        label="Somente privilegiados"
+        sx={{ whiteSpace: 'nowrap' }}
+      />
+    </Stack>
+  );
+};
@@ -0,0 +1,163 @@
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import {
+  Check as AllowedIcon,
+  Block as DeniedIcon,
+} from '@mui/icons-material';
+import type {
+  PermissionMatrixCell,
+  PermissionMatrixColumn,
+  PermissionMatrixRow,
+} from '../../../shared/types';
+
+interface PermissionMatrixTableProps {
+  columns: PermissionMatrixColumn[];
+  rows: PermissionMatrixRow[];
+}
+
+// Colunas agrupadas por módulo para o cabeçalho de duas linhas
+const groupByModule = (columns: PermissionMatrixColumn[]) =>
+  columns.reduce<{ moduleKey: string; moduleName: string; span: number }[]>((groups, column) => {
+    const last = groups[groups.length - 1];
+    if (last?.moduleKey === column.moduleKey) {
+      last.span++;
+    } else {
+      groups.push({ moduleKey: column.moduleKey, moduleName: column.moduleName, span: 1 });
+    }
+    return groups;
+  }, []);
+
+const cellTooltip = (cell: PermissionMatrixCell | undefined) => {
+  if (!cell) return 'Sem concessão';
+  const verdict = cell.allowed ? 'Concedido' : 'Negado';
+  const conditional = cell.conditional ? ' (depende de condições por registro)' : '';
+  return `${verdict} por ${cell.decidedBy}${conditional}`;
+};
+
+/**
+ * Tabela da matriz de permissões: usuários × módulo:operação
+ *
+ * Features:
+ * - Cabeçalho agrupado por módulo e coluna de usuário fixa
+ * - Células privilegiadas concedidas destacadas
+ * - Tooltip com o grupo › role que decidiu cada célula
+ */
+export const PermissionMatrixTable = ({ columns, rows }: PermissionMatrixTableProps) => {
+  const moduleGroups = groupByModule(columns);
+
+  if (rows.length === 0) {
+    return (
+      <Box sx={{ p: 4, textAlign: 'center' }}>
+        <Typography color="text.secondary">
+          Nenhum usuário encontrado com os filtros selecionados
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <TableContainer sx={{ maxHeight: '70vh' }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell
+              rowSpan={2}
+              sx={{ minWidth: 220, left: 0, zIndex: 3, fontWeight: 600 }}
+            >
+              Usuário
+            </TableCell>
+            {moduleGroups.map(group => (
+              <TableCell
+                key={group.moduleKey}
+                colSpan={group.span}
+                align="center"
+                sx={{ fontWeight: 600, borderLeft: 1, borderColor: 'divider' }}
+              >
+                <Tooltip title={group.moduleKey}>
+                  <span>{group.moduleName}</span>
+                </Tooltip>
+              </TableCell>
+            ))}
+          </TableRow>
+          <TableRow>
+            {columns.map((column, index) => (
+              <TableCell
+                key={column.id}
+                align="center"
+                sx={{
+                  // A segunda linha fica abaixo da primeira no cabeçalho fixo
+                  top: 37,
+                  fontSize: '0.75rem',
+                  whiteSpace: 'nowrap',
+                  color: column.privileged ? 'warning.dark' : 'text.secondary',
+                  fontWeight: column.privileged ? 600 : 400,
+                  borderLeft: index === 0 || columns[index - 1].moduleKey !== column.moduleKey ? 1 : 0,
+                  borderColor: 'divider',
+                }}
+              >
+                {column.operation}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.user.id} hover>
+              <TableCell
+                sx={{
+                  position: 'sticky',
+                  left: 0,
+                  zIndex: 1,
+                  bgcolor: 'background.paper',
+                }}
+              >
+                <Typography variant="body2" fontWeight={500}>
+                  {row.user.fullName || row.user.username}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {row.user.email}
+                </Typography>
+              </TableCell>
+              {columns.map(column => {
+                const cell = row.cells[column.id];
+                const privilegedGrant = column.privileged && cell?.allowed;
+
+                return (
+                  <Tooltip key={column.id} title={cellTooltip(cell)}>
+                    <TableCell
+                      align="center"
+                      sx={{
+                        bgcolor: (theme) => privilegedGrant ? alpha(theme.palette.warning.main, 0.2) : 'transparent',
+                        borderLeft: privilegedGrant ? 2 : 0,
+                        borderRight: privilegedGrant ? 2 : 0,
+                        borderColor: 'warning.main',
+                      }}
+                    >
+                      {cell?.allowed && (
+                        <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center' }}>
+                          <AllowedIcon fontSize="small" color={privilegedGrant ? 'warning' : 'success'} />
+                          {cell.conditional && <Typography variant="caption">*</Typography>}
+                        </Box>
+                      )}
+                      {cell && !cell.allowed && <DeniedIcon fontSize="small" color="error" />}
+                    </TableCell>
+                  </Tooltip>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
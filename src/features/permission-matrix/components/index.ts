@@ -0,0 +1,3 @@
+// Exporta todos os componentes da matriz de permissões
+export { PermissionMatrixFilters } from './PermissionMatrixFilters';
+export { PermissionMatrixTable } from './PermissionMatrixTable';
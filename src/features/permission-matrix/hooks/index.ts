@@ -0,0 +1,2 @@
+// Exporta todos os hooks da matriz de permissões
+export { usePermissionMatrix } from './usePermissionMatrix';
@@ -0,0 +1,133 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { PermissionMatrixService } from '../../../shared/services';
+import { EFFECTIVE_PERMISSION_QUERY_KEYS } from '../../../shared/constants';
+import type {
+  PermissionMatrix,
+  PermissionMatrixCell,
+  PermissionMatrixColumn,
+  PermissionMatrixFilters,
+  PermissionMatrixRow,
+} from '../../../shared/types';
+import { exportToCsv, exportToXlsx, getQueryErrorMessage } from '../../../shared/utils';
+import type { ExportRows } from '../../../shared/utils';
+
+interface UsePermissionMatrixResult {
+  // Estado
+  matrix: PermissionMatrix | null;
+  rows: PermissionMatrixRow[];
+  loading: boolean;
+  error: string | null;
+  filters: PermissionMatrixFilters;
+
+  // Ações
+  refresh: () => Promise<void>;
+  setFilters: (filters: PermissionMatrixFilters) => void;
+  exportCsv: () => void;
+  exportXlsx: () => void;
+}
+
+const hasPrivilegedAccess = (row: PermissionMatrixRow, columns: PermissionMatrixColumn[]) =>
+  columns.some(column => column.privileged && row.cells[column.id]?.allowed);
+
+const filterRows = (matrix: PermissionMatrix, filters: PermissionMatrixFilters): PermissionMatrixRow[] => {
+  const search = filters.search?.trim().toLowerCase();
+
+  return matrix.rows.filter(row =>
+    (!filters.groupTypeId || row.groupTypeIds.includes(filters.groupTypeId)) &&
+    (!filters.accessGroupId || row.accessGroupIds.includes(filters.accessGroupId)) &&
+    (!filters.roleId || row.roleIds.includes(filters.roleId)) &&
+    (!filters.onlyPrivileged || hasPrivilegedAccess(row, matrix.columns)) &&
+    (!search || [row.user.fullName, row.user.username, row.user.email]
+      .some(value => value?.toLowerCase().includes(search)))
+  );
+};
+
+// Valor exportado de cada célula: X (concedido), X* (condicional), NEGADO ou vazio
+const exportCellValue = (cell: PermissionMatrixCell | undefined) => {
+  if (!cell) return '';
+  if (!cell.allowed) return 'NEGADO';
+  return cell.conditional ? 'X*' : 'X';
+};
+
+const buildExportRows = (matrix: PermissionMatrix, rows: PermissionMatrixRow[]): ExportRows => {
+  const groupNames = new Map(matrix.accessGroups.map(group => [group.id, group.name]));
+
+  return [
+    [
+      'Usuário',
+      'Email',
+      'Status',
+      'Grupos de acesso',
+      ...matrix.columns.map(column => `${column.moduleKey}:${column.operation}${column.privileged ? ' (privilegiada)' : ''}`),
+    ],
+    ...rows.map(row => [
+      row.user.fullName || row.user.username,
+      row.user.email,
+      row.user.status,
+      row.accessGroupIds.map(id => groupNames.get(id) ?? id).join(', '),
+      ...matrix.columns.map(column => exportCellValue(row.cells[column.id])),
+    ]),
+  ];
+};
+
+const exportFilename = (extension: string) =>
+  `matriz-permissoes-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+/**
+ * Hook da matriz de permissões (relatório de auditoria)
+ *
+ * Features:
+ * - Carrega a matriz usuários × módulo:operação de todo o tenant
+ * - Filtros por tipo de grupo, grupo de acesso, role, busca e acesso privilegiado
+ * - Exportação CSV/XLSX das linhas filtradas
+ * - Matriz em cache (EFFECTIVE_PERMISSION_QUERY_KEYS), invalidada quando usuários, grupos, roles,
+ *   permissões, módulos ou operações mudam
+ */
+export const usePermissionMatrix = (): UsePermissionMatrixResult => {
+  const [filters, setFilters] = useState<PermissionMatrixFilters>({});
+
+  const { data, error: queryError, isFetching, refetch } = useQuery({
+    queryKey: EFFECTIVE_PERMISSION_QUERY_KEYS.matrix(),
+    queryFn: async () => {
+      try {
+        return await PermissionMatrixService.getMatrix();
+      } catch (err) {
+        console.error('❌ usePermissionMatrix: Erro ao montar matriz:', err);
+        throw err;
+      }
+    },
+  });
+
+  const matrix = data ?? null;
+
+  const refresh = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+
+  const rows = useMemo(() => (matrix ? filterRows(matrix, filters) : []), [matrix, filters]);
+
+  const exportCsv = useCallback(() => {
+    if (!matrix) return;
+    exportToCsv(exportFilename('csv'), buildExportRows(matrix, rows));
+    console.log('📤 usePermissionMatrix: CSV exportado', rows.length);
+  }, [matrix, rows]);
+
+  const exportXlsx = useCallback(() => {
+    if (!matrix) return;
+    exportToXlsx(exportFilename('xlsx'), 'Matriz de Permissões', buildExportRows(matrix, rows));
+    console.log('📤 usePermissionMatrix: XLSX exportado', rows.length);
+  }, [matrix, rows]);
+
+  return {
+    matrix,
+    rows,
+    loading: isFetching,
+    error: queryError ? getQueryErrorMessage(queryError, 'Erro ao montar a matriz de permissões') : null,
+    filters,
+    refresh,
+    setFilters,
+    exportCsv,
+    exportXlsx,
+  };
+};
@@ -0,0 +1,4 @@
+// Exporta todos os recursos da matriz de permissões
+export { PermissionMatrixPage } from './PermissionMatrixPage';
+export * from './components';
+export * from './hooks';
@@ -17,6 +17,9 @@ import type {
   UpdatePermissionOperationRequest 
 } from '../../shared/types';
 
+// Relações buscadas a cada avanço da rolagem contínua
+const PAGE_SIZE = 100;
+
 /**
  * Página de Relações Permissão-Operação
  * Gerencia todas as relações entre permissões e operações do sistema
@@ -29,12 +32,16 @@ export const PermissionOperationsPage = () => {
     permissionOperations,
     loading,
     error,
+    totalCount,
+    hasMore,
+    loadingMore,
+    loadMorePermissionOperations,
     createPermissionOperation,
     updatePermissionOperation,
     deletePermissionOperation,
     toggleStatus,
     clearError,
-  } = usePermissionOperations();
+  } = usePermissionOperations({ pageSize: PAGE_SIZE });
 
   const handleCreatePermissionOperation = () => {
     setEditingPermissionOperation(null);
@@ -108,7 +115,9 @@ export const PermissionOperationsPage = () => {
           <>
             <Box sx={{ mb: 2 }}>
               <Typography variant="h6" gutterBottom>
-                Relações Cadastradas ({permissionOperations.length})
+                Relações Cadastradas ({permissionOperations.length < totalCount
+                  ? `${permissionOperations.length} de ${totalCount}`
+                  : totalCount})
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Gerencie as relações que definem quais operações cada permissão pode executar
@@ -121,6 +130,8 @@ export const PermissionOperationsPage = () => {
               onEdit={handleEditPermissionOperation}
               onDelete={handleDeletePermissionOperation}
               onToggleStatus={handleToggleStatus}
+              onLoadMore={hasMore ? loadMorePermissionOperations : undefined}
+              loadingMore={loadingMore}
             />
           </>
         )}
@@ -3,25 +3,34 @@ import {
   PageHeader,
   ResponsiveContainer,
   StyledCard,
-  Pagination
+  Pagination,
+  PageToolbar
 } from '../../shared/components';
 import { Add as AddIcon, Lock as PermissionIcon } from '@mui/icons-material';
 import { Typography, Box, CircularProgress, Alert } from '@mui/material';
 import { 
   PermissionsList, 
-  PermissionDialog 
+  PermissionDialog,
+  PERMISSION_TABLE_COLUMNS,
+  PERMISSION_FILTER_TYPES
 } from '../permissions/components';
 import { usePermissions } from '../permissions/hooks';
+import { useListUrlState, useTableViews } from '../../shared/hooks';
 import type { Permission, CreatePermissionRequest, UpdatePermissionRequest } from '../../shared/types';
+import { hasActiveFilters } from '../../shared/utils';
 
 /**
  * Página de Permissões
  * Gerencia todas as permissões do sistema
+ * Ordenação, filtros e colunas podem ser salvos como visualizações
+ * Página, tamanho, ordenação e filtros ficam na URL (recarregar, compartilhar e voltar/avançar)
  */
 export const PermissionsPage = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingPermission, setEditingPermission] = useState<Permission | null>(null);
-  const [pageSize, setPageSize] = useState(10);
+
+  // Estado da listagem na query string
+  const listUrl = useListUrlState({ filterTypes: PERMISSION_FILTER_TYPES });
 
   const {
     permissions,
@@ -30,14 +39,27 @@ export const PermissionsPage = () => {
     totalCount,
     currentPage,
     totalPages,
-    loadPermissions,
+    listQuery,
     createPermission,
     updatePermission,
     deletePermission,
     toggleStatus,
     clearError,
   } = usePermissions({
+    listState: listUrl.state,
+  });
+  const { pageSize } = listUrl.state;
+
+  const tableViews = useTableViews({
+    tableId: 'permissions',
+    columns: PERMISSION_TABLE_COLUMNS,
+    listQuery,
     pageSize,
+    onApply: ({ listQuery: query, pageSize: size }, source) => {
+      // Ao recarregar ou abrir um link da listagem, a URL prevalece sobre a visualização padrão
+      if (source === 'default' && listUrl.hasUrlState) return;
+      listUrl.update({ listQuery: query, pageSize: size, page: 1 }, { replace: source !== 'user' });
+    },
   });
 
   const handleCreatePermission = () => {
@@ -79,11 +101,11 @@ export const PermissionsPage = () => {
 
   // Handlers de paginação
   const handlePageChange = (page: number) => {
-    loadPermissions(page);
+    listUrl.setPage(page);
   };
 
   const handlePageSizeChange = (newPageSize: number) => {
-    setPageSize(newPageSize);
+    listUrl.setPageSize(newPageSize);
     // O hook irá automaticamente recarregar os dados com o novo pageSize
   };
 
@@ -101,6 +123,9 @@ export const PermissionsPage = () => {
         }}
       />
 
+      {/* Visualizações salvas */}
+      <PageToolbar tableViews={tableViews} />
+
       {/* Conteúdo Principal */}
       <StyledCard>
         {error && (
@@ -113,7 +138,7 @@ export const PermissionsPage = () => {
           </Alert>
         )}
 
-        {loading && permissions.length === 0 ? (
+        {loading && permissions.length === 0 && !hasActiveFilters(listQuery.filters) ? (
           <Box display="flex" justifyContent="center" alignItems="center" minHeight={300}>
             <CircularProgress />
           </Box>
@@ -134,6 +159,9 @@ export const PermissionsPage = () => {
               onEdit={handleEditPermission}
               onDelete={handleDeletePermission}
               onToggleStatus={handleToggleStatus}
+              listQuery={listQuery}
+              onListQueryChange={listUrl.setListQuery}
+              layout={tableViews.layout}
             />
 
             {/* Controles de Paginação */}
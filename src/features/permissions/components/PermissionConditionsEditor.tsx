@@ -0,0 +1,202 @@
+import React from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Business as TenantIcon,
+  Person as OwnerIcon,
+} from '@mui/icons-material';
+import { CONDITION_SUBJECT_REFS } from '../../../shared/types';
+import type {
+  PermissionConditionOperator,
+  PermissionConditionRule,
+  PermissionConditions,
+} from '../../../shared/types';
+
+interface PermissionConditionsEditorProps {
+  value: PermissionConditions;
+  onChange: (conditions: PermissionConditions) => void;
+  disabled?: boolean;
+}
+
+// Condições mais comuns, adicionadas com um clique
+const CONDITION_PRESETS: { label: string; icon: React.ReactElement; rule: PermissionConditionRule }[] = [
+  {
+    label: 'Mesmo tenant do usuário',
+    icon: <TenantIcon fontSize="small" />,
+    rule: { field: 'tenantId', operator: 'eq', value: CONDITION_SUBJECT_REFS.TENANT_ID },
+  },
+  {
+    label: 'Criados pelo usuário',
+    icon: <OwnerIcon fontSize="small" />,
+    rule: { field: 'createdBy', operator: 'eq', value: CONDITION_SUBJECT_REFS.USER_ID },
+  },
+];
+
+const OPERATOR_OPTIONS: { value: PermissionConditionOperator; label: string }[] = [
+  { value: 'eq', label: 'igual a' },
+  { value: 'neq', label: 'diferente de' },
+  { value: 'in', label: 'um de' },
+];
+
+const formatRuleValue = (value: string | string[]) => (Array.isArray(value) ? value.join(', ') : value);
+
+const parseRuleValue = (operator: PermissionConditionOperator, text: string): string | string[] =>
+  operator === 'in'
+    ? text.split(',').map(item => item.trim()).filter(Boolean)
+    : text.trim();
+
+/**
+ * Editor das condições de uma permissão
+ *
+ * Features:
+ * - Atalhos para as condições de tenant e de autoria
+ * - Regras livres (campo, operador e valor ou referência $user.*)
+ * - Allow-list de campos que podem ser alterados
+ */
+export const PermissionConditionsEditor: React.FC<PermissionConditionsEditorProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const rules = value.rules ?? [];
+
+  const updateRules = (nextRules: PermissionConditionRule[]) =>
+    onChange({ ...value, rules: nextRules });
+
+  const updateRule = (index: number, changes: Partial<PermissionConditionRule>) =>
+    updateRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+
+  const hasPreset = (preset: PermissionConditionRule) =>
+    rules.some(rule => rule.field === preset.field && rule.value === preset.value);
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        Condições (opcional)
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Sem condições a permissão vale para qualquer registro do módulo. Use {CONDITION_SUBJECT_REFS.USER_ID} e{' '}
+        {CONDITION_SUBJECT_REFS.TENANT_ID} para referenciar o usuário logado.
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }}>
+        {CONDITION_PRESETS.map(preset => (
+          <Chip
+            key={preset.label}
+            icon={preset.icon}
+            label={preset.label}
+            variant={hasPreset(preset.rule) ? 'filled' : 'outlined'}
+            color={hasPreset(preset.rule) ? 'primary' : 'default'}
+            disabled={disabled || hasPreset(preset.rule)}
+            onClick={() => updateRules([...rules, preset.rule])}
+          />
+        ))}
+      </Stack>
+
+      <Stack spacing={1.5}>
+        {rules.map((rule, index) => (
+          <Stack key={index} direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+            <TextField
+              label="Campo"
+              size="small"
+              value={rule.field}
+              onChange={(e) => updateRule(index, { field: e.target.value })}
+              disabled={disabled}
+              placeholder="tenantId"
+              sx={{ flex: 1 }}
+            />
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Operador</InputLabel>
+              <Select
+                label="Operador"
+                value={rule.operator}
+                onChange={(e) => {
+                  const operator = e.target.value as PermissionConditionOperator;
+                  updateRule(index, { operator, value: parseRuleValue(operator, formatRuleValue(rule.value)) });
+                }}
+                disabled={disabled}
+              >
+                {OPERATOR_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label={rule.operator === 'in' ? 'Valores (separados por vírgula)' : 'Valor'}
+              size="small"
+              value={formatRuleValue(rule.value)}
+              onChange={(e) => updateRule(index, { value: parseRuleValue(rule.operator, e.target.value) })}
+              disabled={disabled}
+              placeholder={CONDITION_SUBJECT_REFS.TENANT_ID}
+              sx={{ flex: 1 }}
+            />
+            <Tooltip title="Remover condição">
+              <span>
+                <IconButton
+                  size="small"
+                  color="error"
+                  onClick={() => updateRules(rules.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Stack>
+        ))}
+
+        <Box>
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => updateRules([...rules, { field: '', operator: 'eq', value: '' }])}
+            disabled={disabled}
+          >
+            Adicionar condição
+          </Button>
+        </Box>
+
+        <Autocomplete
+          multiple
+          freeSolo
+          options={[]}
+          value={value.allowedFields ?? []}
+          onChange={(_, fields) => onChange({ ...value, allowedFields: fields.map(field => field.trim()).filter(Boolean) })}
+          disabled={disabled}
+          renderValue={(fields, getItemProps) =>
+            fields.map((field, index) => {
+              const { key, ...itemProps } = getItemProps({ index });
+              return <Chip key={key} label={field} size="small" {...itemProps} />;
+            })
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              size="small"
+              label="Campos permitidos"
+              placeholder="Digite o campo e pressione Enter"
+              helperText="Vazio = todos os campos podem ser alterados"
+            />
+          )}
+        />
+      </Stack>
+    </Box>
+  );
+};
@@ -13,11 +13,23 @@ import {
   Select,
   MenuItem,
   Chip,
-  OutlinedInput
+  OutlinedInput,
+  Divider
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material/Select';
-import type { Permission, CreatePermissionRequest, UpdatePermissionRequest, Module, Operation } from '../../../shared/types';
+import { PERMISSION_WILDCARD } from '../../../shared/types';
+import type {
+  Permission,
+  CreatePermissionRequest,
+  UpdatePermissionRequest,
+  Module,
+  Operation,
+  PermissionConditions,
+  PermissionEffect
+} from '../../../shared/types';
 import { ModuleService, OperationService } from '../../../shared/services';
+import { hasPermissionConditions } from '../../../shared/utils';
+import { PermissionConditionsEditor } from './PermissionConditionsEditor';
 
 interface PermissionFormProps {
   permission?: Permission | null;
@@ -26,9 +38,24 @@ interface PermissionFormProps {
   loading?: boolean;
 }
 
+/**
+ * Remove regras incompletas e devolve undefined quando não sobra condição
+ */
+const sanitizeConditions = (conditions: PermissionConditions): PermissionConditions | undefined => {
+  const sanitized: PermissionConditions = {
+    rules: (conditions.rules ?? []).filter(rule =>
+      rule.field.trim() && (Array.isArray(rule.value) ? rule.value.length > 0 : rule.value.trim())
+    ),
+    allowedFields: conditions.allowedFields ?? [],
+  };
+
+  return hasPermissionConditions(sanitized) ? sanitized : undefined;
+};
+
 /**
  * Formulário de Permissão
  * Componente para criar/editar permissões
+ * Permite restringir a permissão por condições sobre o registro (tenant, autor, campos)
  */
 export const PermissionForm: React.FC<PermissionFormProps> = ({
   permission,
@@ -41,6 +68,8 @@ export const PermissionForm: React.FC<PermissionFormProps> = ({
     roleId: '',
     moduleId: '',
     operationIds: [] as string[],
+    conditions: {} as PermissionConditions,
+    effect: 'allow' as PermissionEffect,
     isActive: true,
   });
   
@@ -51,6 +80,10 @@ export const PermissionForm: React.FC<PermissionFormProps> = ({
 
   const isEdit = !!permission;
 
+  // Módulo curinga ('*'): a permissão vale para todos os módulos (ex: negar DELETE em tudo)
+  const wildcardModule = modules.find(module => module.key === PERMISSION_WILDCARD);
+  const specificModules = modules.filter(module => module.key !== PERMISSION_WILDCARD);
+
   // Carrega dados necessários
   useEffect(() => {
     const loadData = async () => {
@@ -89,6 +122,8 @@ export const PermissionForm: React.FC<PermissionFormProps> = ({
         roleId: permission.roleId || '',
         moduleId: permission.moduleId || '',
         operationIds: operationIds,
+        conditions: permission.conditions ?? {},
+        effect: permission.effect ?? 'allow',
         isActive: permission.isActive,
       });
       
@@ -119,6 +154,9 @@ export const PermissionForm: React.FC<PermissionFormProps> = ({
             roleId: formData.roleId || undefined,
             moduleId: formData.moduleId,
             operationIds: formData.operationIds.length > 0 ? formData.operationIds : undefined,
+            // Sem condições envia null explicitamente, senão o backend mantém as anteriores
+            conditions: sanitizeConditions(formData.conditions) ?? null,
+            effect: formData.effect,
             isActive: formData.isActive,
           } as UpdatePermissionRequest
         : {
@@ -126,6 +164,8 @@ export const PermissionForm: React.FC<PermissionFormProps> = ({
             roleId: formData.roleId || undefined,
             moduleId: formData.moduleId,
             operationIds: formData.operationIds.length > 0 ? formData.operationIds : undefined,
+            conditions: sanitizeConditions(formData.conditions),
+            effect: formData.effect,
             isActive: formData.isActive,
           } as CreatePermissionRequest;
 
@@ -194,7 +234,13 @@ export const PermissionForm: React.FC<PermissionFormProps> = ({
             <MenuItem value="">
               <em>Selecione um módulo</em>
             </MenuItem>
-            {modules.map((module) => (
+            <MenuItem value={wildcardModule?.id ?? PERMISSION_WILDCARD} disabled={!wildcardModule}>
+              {wildcardModule
+                ? 'Todos os módulos (*)'
+                : 'Todos os módulos (*) - cadastre um módulo com a chave * para habilitar'}
+            </MenuItem>
+            <Divider />
+            {specificModules.map((module) => (
               <MenuItem key={module.id} value={module.id}>
                 {module.name}
               </MenuItem>
@@ -233,6 +279,34 @@ export const PermissionForm: React.FC<PermissionFormProps> = ({
           </Select>
         </FormControl>
 
+        <FormControl fullWidth>
+          <InputLabel>Efeito</InputLabel>
+          <Select
+            value={formData.effect}
+            onChange={(e) => setFormData(prev => ({ ...prev, effect: e.target.value as PermissionEffect }))}
+            disabled={loading}
+            label="Efeito"
+          >
+            <MenuItem value="allow">Conceder as operações</MenuItem>
+            <MenuItem value="deny">Negar as operações</MenuItem>
+          </Select>
+        </FormControl>
+
+        {formData.effect === 'deny' && (
+          <Alert severity="warning">
+            Negações prevalecem sobre concessões: usuários com esta permissão perdem as operações selecionadas,
+            mesmo que outro papel ou grupo as conceda.
+          </Alert>
+        )}
+
+        <Divider />
+
+        <PermissionConditionsEditor
+          value={formData.conditions}
+          onChange={(conditions) => setFormData(prev => ({ ...prev, conditions }))}
+          disabled={loading}
+        />
+
         <FormControlLabel
           control={
             <Switch
@@ -1,11 +1,5 @@
 import React from 'react';
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
   Paper,
   IconButton,
   Chip,
@@ -20,19 +14,28 @@ import {
   PowerSettingsNew as ToggleIcon,
   Link as LinkIcon
 } from '@mui/icons-material';
+import { DataTable } from '../../../shared/components/data-display/DataTable';
+import type { DataTableColumn } from '../../../shared/components/data-display/DataTable';
 import type { PermissionOperation } from '../../../shared/types';
 
+// Altura fixa das linhas na renderização virtualizada
+const ROW_HEIGHT = 53;
+
 interface PermissionOperationsListProps {
   permissionOperations: PermissionOperation[];
   loading?: boolean;
   onEdit: (permissionOperation: PermissionOperation) => void;
   onDelete: (permissionOperation: PermissionOperation) => void;
   onToggleStatus: (permissionOperation: PermissionOperation) => void;
+  // Carregamento incremental ao rolar até o fim das relações carregadas
+  onLoadMore?: () => void;
+  loadingMore?: boolean;
 }
 
 /**
  * Lista de Relações Permissão-Operação
  * Componente responsável por exibir as relações em formato de tabela
+ * Renderização virtualizada - suporta dezenas de milhares de relações
  */
 export const PermissionOperationsList: React.FC<PermissionOperationsListProps> = ({
   permissionOperations,
@@ -40,6 +43,8 @@ export const PermissionOperationsList: React.FC<PermissionOperationsListProps> =
   onEdit,
   onDelete,
   onToggleStatus,
+  onLoadMore,
+  loadingMore = false,
 }) => {
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR', {
@@ -73,95 +78,121 @@ export const PermissionOperationsList: React.FC<PermissionOperationsListProps> =
     );
   }
 
+  const columns: DataTableColumn<PermissionOperation>[] = [
+    {
+      id: 'permissionName',
+      label: 'Permissão',
+      minWidth: 160,
+      format: (value) => (
+        <Typography variant="body2" fontWeight="medium">
+          {value}
+        </Typography>
+      ),
+    },
+    {
+      id: 'operationName',
+      label: 'Operação',
+      minWidth: 140,
+      format: (value) => (
+        <Typography variant="body2" fontWeight="medium">
+          {value}
+        </Typography>
+      ),
+    },
+    {
+      id: 'operationCode',
+      label: 'Código',
+      minWidth: 100,
+      format: (value) => (
+        <Typography variant="body2" fontFamily="monospace">
+          {value || '-'}
+        </Typography>
+      ),
+    },
+    {
+      id: 'operationDescription',
+      label: 'Descrição',
+      minWidth: 180,
+      format: (value) => (
+        <Typography variant="body2" noWrap>
+          {value || '-'}
+        </Typography>
+      ),
+    },
+    {
+      id: 'isActive',
+      label: 'Status',
+      minWidth: 90,
+      format: (value) => (
+        <Chip
+          label={value ? 'Ativo' : 'Inativo'}
+          color={value ? 'success' : 'default'}
+          variant="outlined"
+          size="small"
+        />
+      ),
+    },
+    {
+      id: 'createdAt',
+      label: 'Criado em',
+      minWidth: 140,
+      format: (value) => (
+        <Typography variant="body2" color="text.secondary">
+          {formatDate(value)}
+        </Typography>
+      ),
+    },
+    {
+      id: 'actions',
+      label: 'Ações',
+      minWidth: 130,
+      align: 'center',
+      format: (_, permissionOperation) => (
+        <Box display="flex" gap={0.5} justifyContent="center">
+          <Tooltip title="Editar relação">
+            <IconButton
+              size="small"
+              onClick={() => onEdit(permissionOperation)}
+              color="primary"
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          
+          <Tooltip title={permissionOperation.isActive ? 'Desativar' : 'Ativar'}>
+            <IconButton
+              size="small"
+              onClick={() => onToggleStatus(permissionOperation)}
+              color={permissionOperation.isActive ? 'warning' : 'success'}
+            >
+              <ToggleIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          
+          <Tooltip title="Excluir relação">
+            <IconButton
+              size="small"
+              onClick={() => onDelete(permissionOperation)}
+              color="error"
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      ),
+    },
+  ];
+
   return (
-    <Paper elevation={1}>
-      <TableContainer>
-        <Table>
-          <TableHead>
-            <TableRow>
-              <TableCell>Permissão</TableCell>
-              <TableCell>Operação</TableCell>
-              <TableCell>Código</TableCell>
-              <TableCell>Descrição</TableCell>
-              <TableCell>Status</TableCell>
-              <TableCell>Criado em</TableCell>
-              <TableCell align="center">Ações</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {permissionOperations.map((permissionOperation) => (
-              <TableRow key={permissionOperation.id} hover>
-                <TableCell>
-                  <Typography variant="body2" fontWeight="medium">
-                    {permissionOperation.permissionName}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Typography variant="body2" fontWeight="medium">
-                    {permissionOperation.operationName}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Typography variant="body2" fontFamily="monospace">
-                    {permissionOperation.operationCode || '-'}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Typography variant="body2">
-                    {permissionOperation.operationDescription || '-'}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Chip
-                    label={permissionOperation.isActive ? 'Ativo' : 'Inativo'}
-                    color={permissionOperation.isActive ? 'success' : 'default'}
-                    variant="outlined"
-                    size="small"
-                  />
-                </TableCell>
-                <TableCell>
-                  <Typography variant="body2" color="text.secondary">
-                    {formatDate(permissionOperation.createdAt)}
-                  </Typography>
-                </TableCell>
-                <TableCell align="center">
-                  <Box display="flex" gap={0.5} justifyContent="center">
-                    <Tooltip title="Editar relação">
-                      <IconButton
-                        size="small"
-                        onClick={() => onEdit(permissionOperation)}
-                        color="primary"
-                      >
-                        <EditIcon fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
-                    
-                    <Tooltip title={permissionOperation.isActive ? 'Desativar' : 'Ativar'}>
-                      <IconButton
-                        size="small"
-                        onClick={() => onToggleStatus(permissionOperation)}
-                        color={permissionOperation.isActive ? 'warning' : 'success'}
-                      >
-                        <ToggleIcon fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
-                    
-                    <Tooltip title="Excluir relação">
-                      <IconButton
-                        size="small"
-                        onClick={() => onDelete(permissionOperation)}
-                        color="error"
-                      >
-                        <DeleteIcon fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
-                  </Box>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
-    </Paper>
+    <DataTable
+      columns={columns}
+      data={permissionOperations}
+      rowKey="id"
+      maxHeight={600}
+      virtualized
+      rowHeight={ROW_HEIGHT}
+      onEndReached={onLoadMore}
+      loadingMore={loadingMore}
+    />
   );
-};
\ No newline at end of file
+};
@@ -1,11 +1,5 @@
 import React from 'react';
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
   Paper,
   IconButton,
   Chip,
@@ -20,7 +14,10 @@ import {
   PowerSettingsNew as ToggleIcon,
   Lock as PermissionIcon
 } from '@mui/icons-material';
-import type { Permission } from '../../../shared/types';
+import { DataTable } from '../../../shared/components/data-display/DataTable';
+import type { DataTableColumn } from '../../../shared/components/data-display/DataTable';
+import type { ListQuery, Permission, TableColumnLayout } from '../../../shared/types';
+import { hasActiveFilters } from '../../../shared/utils';
 
 interface PermissionsListProps {
   permissions: Permission[];
@@ -28,11 +25,17 @@ interface PermissionsListProps {
   onEdit: (permission: Permission) => void;
   onDelete: (permission: Permission) => void;
   onToggleStatus: (permission: Permission) => void;
+  // Ordenação e filtros
+  listQuery?: ListQuery;
+  onListQueryChange?: (query: ListQuery) => void;
+  // Visualização salva: colunas e densidade
+  layout?: TableColumnLayout;
 }
 
 /**
  * Lista de Permissões
  * Componente responsável por exibir as permissões em formato de tabela
+ * Ordenação, filtros por coluna e colunas configuráveis pelo DataTable compartilhado
  */
 export const PermissionsList: React.FC<PermissionsListProps> = ({
   permissions,
@@ -40,6 +43,9 @@ export const PermissionsList: React.FC<PermissionsListProps> = ({
   onEdit,
   onDelete,
   onToggleStatus,
+  listQuery = {},
+  onListQueryChange,
+  layout,
 }) => {
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR', {
@@ -51,7 +57,114 @@ export const PermissionsList: React.FC<PermissionsListProps> = ({
     });
   };
 
-  if (loading && permissions.length === 0) {
+  const columns: DataTableColumn<Permission>[] = [
+    {
+      id: 'name',
+      label: 'Nome',
+      minWidth: 180,
+      sortable: true,
+      filter: { type: 'text' },
+      format: (_, permission) => (
+        <Typography variant="body2" fontWeight="medium">
+          {permission.name}
+        </Typography>
+      ),
+    },
+    {
+      id: 'code',
+      label: 'Código',
+      minWidth: 140,
+      sortable: true,
+      filter: { type: 'text' },
+      format: (_, permission) => (
+        <Typography variant="body2" fontFamily="monospace">
+          {permission.code || '-'}
+        </Typography>
+      ),
+    },
+    {
+      id: 'description',
+      label: 'Descrição',
+      minWidth: 200,
+      filter: { type: 'text' },
+      format: (_, permission) => (
+        <Typography variant="body2">
+          {permission.description || '-'}
+        </Typography>
+      ),
+    },
+    {
+      id: 'isActive',
+      label: 'Status',
+      minWidth: 110,
+      sortable: true,
+      filter: { type: 'boolean', trueLabel: 'Ativo', falseLabel: 'Inativo' },
+      format: (_, permission) => (
+        <Chip
+          label={permission.isActive ? 'Ativo' : 'Inativo'}
+          color={permission.isActive ? 'success' : 'default'}
+          variant="outlined"
+          size="small"
+        />
+      ),
+    },
+    {
+      id: 'createdAt',
+      label: 'Criado em',
+      minWidth: 150,
+      sortable: true,
+      filter: { type: 'dateRange' },
+      format: (_, permission) => (
+        <Typography variant="body2" color="text.secondary">
+          {formatDate(permission.createdAt)}
+        </Typography>
+      ),
+    },
+    {
+      id: 'actions',
+      label: 'Ações',
+      minWidth: 130,
+      align: 'center',
+      format: (_, permission) => (
+        <Box display="flex" gap={0.5} justifyContent="center">
+          <Tooltip title="Editar permissão">
+            <IconButton
+              size="small"
+              onClick={() => onEdit(permission)}
+              color="primary"
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          
+          <Tooltip title={permission.isActive ? 'Desativar' : 'Ativar'}>
+            <IconButton
+              size="small"
+              onClick={() => onToggleStatus(permission)}
+              color={permission.isActive ? 'warning' : 'success'}
+            >
+              <ToggleIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          
+          <Tooltip title="Excluir permissão">
+            <IconButton
+              size="small"
+              onClick={() => onDelete(permission)}
+              color="error"
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      ),
+    },
+  ];
+
+  // Com filtros ativos a tabela continua visível para que possam ser ajustados
+  const filtering = hasActiveFilters(listQuery.filters);
+
+  if (loading && permissions.length === 0 && !filtering) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight={200}>
         <CircularProgress />
@@ -59,7 +172,7 @@ export const PermissionsList: React.FC<PermissionsListProps> = ({
     );
   }
 
-  if (permissions.length === 0) {
+  if (permissions.length === 0 && !filtering) {
     return (
       <Paper elevation={1} sx={{ p: 4, textAlign: 'center' }}>
         <PermissionIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
@@ -74,88 +187,19 @@ export const PermissionsList: React.FC<PermissionsListProps> = ({
   }
 
   return (
-    <Paper elevation={1}>
-      <TableContainer>
-        <Table>
-          <TableHead>
-            <TableRow>
-              <TableCell>Nome</TableCell>
-              <TableCell>Código</TableCell>
-              <TableCell>Descrição</TableCell>
-              <TableCell>Status</TableCell>
-              <TableCell>Criado em</TableCell>
-              <TableCell align="center">Ações</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {permissions.map((permission) => (
-              <TableRow key={permission.id} hover>
-                <TableCell>
-                  <Typography variant="body2" fontWeight="medium">
-                    {permission.name}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Typography variant="body2" fontFamily="monospace">
-                    {permission.code || '-'}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Typography variant="body2">
-                    {permission.description || '-'}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Chip
-                    label={permission.isActive ? 'Ativo' : 'Inativo'}
-                    color={permission.isActive ? 'success' : 'default'}
-                    variant="outlined"
-                    size="small"
-                  />
-                </TableCell>
-                <TableCell>
-                  <Typography variant="body2" color="text.secondary">
-                    {formatDate(permission.createdAt)}
-                  </Typography>
-                </TableCell>
-                <TableCell align="center">
-                  <Box display="flex" gap={0.5} justifyContent="center">
-                    <Tooltip title="Editar permissão">
-                      <IconButton
-                        size="small"
-                        onClick={() => onEdit(permission)}
-                        color="primary"
-                      >
-                        <EditIcon fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
-                    
-                    <Tooltip title={permission.isActive ? 'Desativar' : 'Ativar'}>
-                      <IconButton
-                        size="small"
-                        onClick={() => onToggleStatus(permission)}
-                        color={permission.isActive ? 'warning' : 'success'}
-                      >
-                        <ToggleIcon fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
-                    
-                    <Tooltip title="Excluir permissão">
-                      <IconButton
-                        size="small"
-                        onClick={() => onDelete(permission)}
-                        color="error"
-                      >
-                        <DeleteIcon fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
-                  </Box>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
-    </Paper>
+    <DataTable
+      columns={columns}
+      data={permissions}
+      emptyMessage="Nenhuma permissão atende aos filtros"
+      maxHeight={600}
+      loading={loading}
+      rowKey="id"
+      sortBy={listQuery.sortBy}
+      sortDirection={listQuery.sortDirection}
+      onSortChange={onListQueryChange && ((sort) => onListQueryChange({ ...listQuery, ...sort }))}
+      filters={listQuery.filters}
+      onFiltersChange={onListQueryChange && ((filters) => onListQueryChange({ ...listQuery, filters }))}
+      layout={layout}
+    />
   );
-};
\ No newline at end of file
+};
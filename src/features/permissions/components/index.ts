@@ -1,7 +1,9 @@
 // Componentes do módulo de Permissions
 export { PermissionsList } from './PermissionsList';
+export { PERMISSION_TABLE_COLUMNS, PERMISSION_FILTER_TYPES } from './table-columns';
 export { PermissionForm } from './PermissionForm';
 export { PermissionDialog } from './PermissionDialog';
+export { PermissionConditionsEditor } from './PermissionConditionsEditor';
 
 // Componentes de Permission Operations
 export { PermissionOperationsList } from './PermissionOperationsList';
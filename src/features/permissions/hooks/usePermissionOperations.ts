@@ -1,12 +1,18 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { InfiniteData } from '@tanstack/react-query';
 import type { 
   PermissionOperation, 
   CreatePermissionOperationRequest, 
   UpdatePermissionOperationRequest,
-  PermissionOperationBulkRequest 
+  PermissionOperationBulkRequest,
+  PaginatedResponse
 } from '../../../shared/types';
 import { PermissionOperationService } from '../../../shared/services';
 import { logger } from '../../../shared/config';
+import { PERMISSION_OPERATION_QUERY_KEYS } from '../../../shared/constants';
+import { useEffectivePermissionsInvalidation, useQueryError } from '../../../shared/hooks';
+import { applyOptimisticUpdate, getQueryErrorMessage, rollbackOptimisticUpdate } from '../../../shared/utils';
 
 interface UsePermissionOperationsOptions {
   autoLoad?: boolean;
@@ -22,10 +28,12 @@ interface PermissionOperationsState {
   totalCount: number;
   currentPage: number;
   totalPages: number;
+  loadingMore: boolean;
 }
 
 interface PermissionOperationsActions {
   loadPermissionOperations: (page?: number, search?: string) => Promise<void>;
+  loadMorePermissionOperations: () => Promise<void>;
   loadByPermissionId: (permissionId: string) => Promise<PermissionOperation[]>;
   loadByOperationId: (operationId: string) => Promise<PermissionOperation[]>;
   createPermissionOperation: (data: CreatePermissionOperationRequest) => Promise<PermissionOperation | null>;
@@ -39,37 +47,42 @@ interface PermissionOperationsActions {
   clearError: () => void;
 }
 
-export interface UsePermissionOperationsResult extends PermissionOperationsState, PermissionOperationsActions {}
+export interface UsePermissionOperationsResult extends PermissionOperationsState, PermissionOperationsActions {
+  hasMore: boolean;
+}
+
+type PermissionOperationsPage = PaginatedResponse<PermissionOperation>;
 
 /**
  * Hook personalizado para gerenciar estado e operações de Permission Operations
  * Centraliza lógica de negócio e integração com API
+ * Listagens em cache por PERMISSION_OPERATION_QUERY_KEYS (páginas da rolagem contínua na mesma entrada);
+ * alterações invalidam as relações e as permissões efetivas. O toggle de status é otimista
  */
 export const usePermissionOperations = (options: UsePermissionOperationsOptions = {}): UsePermissionOperationsResult => {
   const { autoLoad = true, pageSize = 10, permissionId, operationId } = options;
-  const hasLoadedRef = useRef(false);
-
-  const [state, setState] = useState<PermissionOperationsState>({
-    permissionOperations: [],
-    loading: false,
-    error: null,
-    totalCount: 0,
-    currentPage: 1,
-    totalPages: 0,
-  });
+  const queryClient = useQueryClient();
+  const invalidateEffectivePermissions = useEffectivePermissionsInvalidation();
 
-  const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
-  }, []);
+  const [enabled, setEnabled] = useState<boolean>(autoLoad);
+  const [page, setPage] = useState<number>(1);
+  const [search, setSearch] = useState<string | undefined>(undefined);
+
+  const {
+    data,
+    error: queryError,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: PERMISSION_OPERATION_QUERY_KEYS.list({ page, pageSize, search, permissionId, operationId }),
+    queryFn: async ({ pageParam }) => {
+      logger.info(`🔄 Carregando relações permissão-operação - Página: ${pageParam}, Busca: ${search || 'N/A'}`);
 
-  const loadPermissionOperations = useCallback(async (page = 1, search?: string) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
-    try {
-      logger.info(`🔄 Carregando relações permissão-operação - Página: ${page}, Busca: ${search || 'N/A'}`);
-      
       const response = await PermissionOperationService.getPermissionOperations({
-        page,
+        page: pageParam,
         limit: pageSize,
         search,
         permissionId,
@@ -84,314 +97,268 @@ export const usePermissionOperations = (options: UsePermissionOperationsOptions
         página: response.pageNumber,
         totalPáginas: response.totalPages
       });
+      return response;
+    },
+    initialPageParam: page,
+    getNextPageParam: (lastPage: PermissionOperationsPage) =>
+      lastPage.pageNumber < lastPage.totalPages ? lastPage.pageNumber + 1 : undefined,
+    enabled,
+    placeholderData: keepPreviousData,
+  });
 
-      setState(prev => ({
-        ...prev,
-        permissionOperations: response.data,
-        totalCount: response.totalCount,
-        currentPage: response.pageNumber,
-        totalPages: response.totalPages,
-        loading: false,
-        error: null
-      }));
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao carregar relações permissão-operação';
-      logger.error('❌ Erro ao carregar relações permissão-operação:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage,
-        permissionOperations: [],
-        totalCount: 0,
-        currentPage: 1,
-        totalPages: 0
-      }));
-    }
-  }, [pageSize, permissionId, operationId]);
+  const { error, setError, clearError } = useQueryError(queryError, 'Erro ao carregar relações permissão-operação');
+
+  const permissionOperations = useMemo(() => data?.pages.flatMap(response => response.data) ?? [], [data]);
+  const lastPage = data?.pages[data.pages.length - 1];
+
+  const loadPermissionOperations = useCallback(async (nextPage = 1, nextSearch?: string) => {
+    setEnabled(true);
+    setPage(nextPage);
+    setSearch(nextSearch);
+    await queryClient.invalidateQueries({ queryKey: PERMISSION_OPERATION_QUERY_KEYS.lists() });
+  }, [queryClient]);
+
+  /**
+   * Acrescenta a próxima página à lista (rolagem contínua)
+   */
+  const loadMorePermissionOperations = useCallback(async () => {
+    if (isFetching || !hasNextPage) return;
+
+    logger.info('🔄 Carregando mais relações permissão-operação');
+    await fetchNextPage();
+  }, [isFetching, hasNextPage, fetchNextPage]);
 
   const loadByPermissionId = useCallback(async (permissionId: string): Promise<PermissionOperation[]> => {
     try {
       logger.info(`🔄 Carregando relações por permissão: ${permissionId}`);
       
-      const operations = await PermissionOperationService.getByPermissionId(permissionId);
+      const operations = await queryClient.fetchQuery({
+        queryKey: PERMISSION_OPERATION_QUERY_KEYS.byPermission(permissionId),
+        queryFn: () => PermissionOperationService.getByPermissionId(permissionId),
+      });
       
       logger.info('✅ Relações por permissão carregadas com sucesso:', operations);
       
       return operations;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao carregar operações da permissão';
       logger.error('❌ Erro ao carregar operações da permissão:', error);
-      
-      setState(prev => ({
-        ...prev,
-        error: errorMessage
-      }));
-      
+      setError(getQueryErrorMessage(error, 'Erro ao carregar operações da permissão'));
       return [];
     }
-  }, []);
+  }, [queryClient, setError]);
 
   const loadByOperationId = useCallback(async (operationId: string): Promise<PermissionOperation[]> => {
     try {
       logger.info(`🔄 Carregando relações por operação: ${operationId}`);
       
-      const permissions = await PermissionOperationService.getByOperationId(operationId);
+      const permissions = await queryClient.fetchQuery({
+        queryKey: PERMISSION_OPERATION_QUERY_KEYS.byOperation(operationId),
+        queryFn: () => PermissionOperationService.getByOperationId(operationId),
+      });
       
       logger.info('✅ Relações por operação carregadas com sucesso:', permissions);
       
       return permissions;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao carregar permissões da operação';
       logger.error('❌ Erro ao carregar permissões da operação:', error);
-      
-      setState(prev => ({
-        ...prev,
-        error: errorMessage
-      }));
-      
+      setError(getQueryErrorMessage(error, 'Erro ao carregar permissões da operação'));
       return [];
     }
-  }, []);
+  }, [queryClient, setError]);
+
+  // Listagens, relações por permissão/operação e as permissões efetivas que dependem delas
+  const invalidatePermissionOperations = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: PERMISSION_OPERATION_QUERY_KEYS.all }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: createMutation, isPending: creating } = useMutation({
+    mutationFn: (permissionOperation: CreatePermissionOperationRequest) =>
+      PermissionOperationService.createPermissionOperation(permissionOperation),
+    onSuccess: invalidatePermissionOperations,
+  });
+
+  const { mutateAsync: createBulkMutation, isPending: creatingBulk } = useMutation({
+    mutationFn: (bulkRequest: PermissionOperationBulkRequest) =>
+      PermissionOperationService.createPermissionOperationsBulk(bulkRequest),
+    onSuccess: invalidatePermissionOperations,
+  });
+
+  const { mutateAsync: updateMutation, isPending: updating } = useMutation({
+    mutationFn: ({ id, permissionOperation }: { id: string; permissionOperation: UpdatePermissionOperationRequest }) =>
+      PermissionOperationService.updatePermissionOperation(id, permissionOperation),
+    onSuccess: invalidatePermissionOperations,
+  });
+
+  const { mutateAsync: deleteMutation, isPending: deleting } = useMutation({
+    mutationFn: (id: string) => PermissionOperationService.deletePermissionOperation(id),
+    onSuccess: invalidatePermissionOperations,
+  });
+
+  const { mutateAsync: deleteAllByPermissionMutation, isPending: deletingAll } = useMutation({
+    mutationFn: (permissionId: string) => PermissionOperationService.deleteAllByPermissionId(permissionId),
+    onSuccess: invalidatePermissionOperations,
+  });
+
+  const { mutateAsync: deleteByOperationsMutation, isPending: deletingByOperations } = useMutation({
+    mutationFn: ({ permissionId, operationIds }: { permissionId: string; operationIds: string[] }) =>
+      PermissionOperationService.deleteByPermissionAndOperations(permissionId, operationIds),
+    onSuccess: invalidatePermissionOperations,
+  });
+
+  // O novo status aparece na hora; em caso de erro a listagem volta ao estado anterior
+  const { mutateAsync: toggleStatusMutation } = useMutation({
+    mutationFn: (id: string) => PermissionOperationService.togglePermissionOperationStatus(id),
+    onMutate: (id: string) => applyOptimisticUpdate<InfiniteData<PermissionOperationsPage>>(
+      queryClient,
+      PERMISSION_OPERATION_QUERY_KEYS.lists(),
+      listData => ({
+        ...listData,
+        pages: listData.pages.map(response => ({
+          ...response,
+          data: response.data.map(po => (po.id === id ? { ...po, isActive: !po.isActive } : po)),
+        })),
+      })
+    ),
+    onError: (_err, _id, snapshot) => rollbackOptimisticUpdate(queryClient, snapshot),
+    onSettled: invalidatePermissionOperations,
+  });
 
-  const createPermissionOperation = useCallback(async (data: CreatePermissionOperationRequest): Promise<PermissionOperation | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+  const createPermissionOperation = useCallback(async (permissionOperationData: CreatePermissionOperationRequest): Promise<PermissionOperation | null> => {
+    setError(null);
     
     try {
-      logger.info('🔄 Criando nova relação permissão-operação:', data);
+      logger.info('🔄 Criando nova relação permissão-operação:', permissionOperationData);
       
-      const newPermissionOperation = await PermissionOperationService.createPermissionOperation(data);
+      const newPermissionOperation = await createMutation(permissionOperationData);
       
       logger.info('✅ Relação permissão-operação criada com sucesso:', newPermissionOperation);
-      
-      // Recarrega os dados para manter sincronizado
-      await loadPermissionOperations(state.currentPage);
-      
-      setState(prev => ({ ...prev, loading: false }));
       return newPermissionOperation;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao criar relação permissão-operação';
       logger.error('❌ Erro ao criar relação permissão-operação:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao criar relação permissão-operação'));
       return null;
     }
-  }, [loadPermissionOperations, state.currentPage]);
+  }, [createMutation, setError]);
 
-  const createPermissionOperationsBulk = useCallback(async (data: PermissionOperationBulkRequest): Promise<PermissionOperation[] | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+  const createPermissionOperationsBulk = useCallback(async (bulkRequest: PermissionOperationBulkRequest): Promise<PermissionOperation[] | null> => {
+    setError(null);
     
     try {
-      logger.info('🔄 Criando relações permissão-operação em lote:', data);
+      logger.info('🔄 Criando relações permissão-operação em lote:', bulkRequest);
       
-      const newPermissionOperations = await PermissionOperationService.createPermissionOperationsBulk(data);
+      const newPermissionOperations = await createBulkMutation(bulkRequest);
       
       logger.info('✅ Relações permissão-operação criadas em lote com sucesso:', newPermissionOperations);
-      
-      // Recarrega os dados para manter sincronizado
-      await loadPermissionOperations(state.currentPage);
-      
-      setState(prev => ({ ...prev, loading: false }));
       return newPermissionOperations;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao criar relações permissão-operação em lote';
       logger.error('❌ Erro ao criar relações permissão-operação em lote:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao criar relações permissão-operação em lote'));
       return null;
     }
-  }, [loadPermissionOperations, state.currentPage]);
+  }, [createBulkMutation, setError]);
 
-  const updatePermissionOperation = useCallback(async (id: string, data: UpdatePermissionOperationRequest): Promise<PermissionOperation | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+  const updatePermissionOperation = useCallback(async (id: string, permissionOperation: UpdatePermissionOperationRequest): Promise<PermissionOperation | null> => {
+    setError(null);
     
     try {
-      logger.info(`🔄 Atualizando relação permissão-operação ${id}:`, data);
+      logger.info(`🔄 Atualizando relação permissão-operação ${id}:`, permissionOperation);
       
-      const updatedPermissionOperation = await PermissionOperationService.updatePermissionOperation(id, data);
+      const updatedPermissionOperation = await updateMutation({ id, permissionOperation });
       
       logger.info('✅ Relação permissão-operação atualizada com sucesso:', updatedPermissionOperation);
-      
-      // Atualiza o estado local diretamente para UX mais responsiva
-      setState(prev => ({
-        ...prev,
-        permissionOperations: prev.permissionOperations.map(permissionOperation => 
-          permissionOperation.id === id ? updatedPermissionOperation : permissionOperation
-        ),
-        loading: false
-      }));
-      
       return updatedPermissionOperation;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao atualizar relação permissão-operação';
       logger.error('❌ Erro ao atualizar relação permissão-operação:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao atualizar relação permissão-operação'));
       return null;
     }
-  }, []);
+  }, [updateMutation, setError]);
 
   const deletePermissionOperation = useCallback(async (id: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    setError(null);
     
     try {
       logger.info(`🔄 Removendo relação permissão-operação ${id}`);
       
-      await PermissionOperationService.deletePermissionOperation(id);
+      await deleteMutation(id);
       
       logger.info('✅ Relação permissão-operação removida com sucesso');
-      
-      // Remove do estado local
-      setState(prev => ({
-        ...prev,
-        permissionOperations: prev.permissionOperations.filter(permissionOperation => permissionOperation.id !== id),
-        totalCount: prev.totalCount - 1,
-        loading: false
-      }));
-      
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao remover relação permissão-operação';
       logger.error('❌ Erro ao remover relação permissão-operação:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao remover relação permissão-operação'));
       return false;
     }
-  }, []);
+  }, [deleteMutation, setError]);
 
   const deleteAllByPermissionId = useCallback(async (permissionId: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    setError(null);
     
     try {
       logger.info(`🔄 Removendo todas as relações da permissão ${permissionId}`);
       
-      await PermissionOperationService.deleteAllByPermissionId(permissionId);
+      await deleteAllByPermissionMutation(permissionId);
       
       logger.info('✅ Todas as relações da permissão removidas com sucesso');
-      
-      // Remove do estado local
-      setState(prev => ({
-        ...prev,
-        permissionOperations: prev.permissionOperations.filter(po => po.permissionId !== permissionId),
-        loading: false
-      }));
-      
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao remover relações da permissão';
       logger.error('❌ Erro ao remover relações da permissão:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao remover relações da permissão'));
       return false;
     }
-  }, []);
+  }, [deleteAllByPermissionMutation, setError]);
 
   const deleteByPermissionAndOperations = useCallback(async (permissionId: string, operationIds: string[]): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    setError(null);
     
     try {
       logger.info(`🔄 Removendo relações específicas da permissão ${permissionId}:`, operationIds);
       
-      await PermissionOperationService.deleteByPermissionAndOperations(permissionId, operationIds);
+      await deleteByOperationsMutation({ permissionId, operationIds });
       
       logger.info('✅ Relações específicas da permissão removidas com sucesso');
-      
-      // Remove do estado local
-      setState(prev => ({
-        ...prev,
-        permissionOperations: prev.permissionOperations.filter(po => 
-          !(po.permissionId === permissionId && operationIds.includes(po.operationId))
-        ),
-        loading: false
-      }));
-      
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao remover relações específicas da permissão';
       logger.error('❌ Erro ao remover relações específicas da permissão:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao remover relações específicas da permissão'));
       return false;
     }
-  }, []);
+  }, [deleteByOperationsMutation, setError]);
 
   const toggleStatus = useCallback(async (id: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    setError(null);
     
     try {
       logger.info(`🔄 Alternando status da relação permissão-operação ${id}`);
       
-      const updatedPermissionOperation = await PermissionOperationService.togglePermissionOperationStatus(id);
+      const updatedPermissionOperation = await toggleStatusMutation(id);
       
       logger.info('✅ Status da relação permissão-operação alternado com sucesso:', updatedPermissionOperation);
-      
-      // Atualiza o estado local
-      setState(prev => ({
-        ...prev,
-        permissionOperations: prev.permissionOperations.map(permissionOperation => 
-          permissionOperation.id === id ? updatedPermissionOperation : permissionOperation
-        ),
-        loading: false
-      }));
-      
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao alterar status da relação permissão-operação';
       logger.error('❌ Erro ao alterar status da relação permissão-operação:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao alterar status da relação permissão-operação'));
       return false;
     }
-  }, []);
+  }, [toggleStatusMutation, setError]);
 
   const refreshData = useCallback(async () => {
-    await loadPermissionOperations(state.currentPage);
-  }, [loadPermissionOperations, state.currentPage]);
-
-  // Carregamento automático
-  useEffect(() => {
-    if (autoLoad && !hasLoadedRef.current) {
-      hasLoadedRef.current = true;
-      loadPermissionOperations();
-    }
-  }, [autoLoad, loadPermissionOperations]);
+    await refetch();
+  }, [refetch]);
 
   return {
-    permissionOperations: state.permissionOperations,
-    loading: state.loading,
-    error: state.error,
-    totalCount: state.totalCount,
-    currentPage: state.currentPage,
-    totalPages: state.totalPages,
+    permissionOperations,
+    loading: (isFetching && !isFetchingNextPage) || creating || creatingBulk || updating
+      || deleting || deletingAll || deletingByOperations,
+    error,
+    totalCount: lastPage?.totalCount ?? 0,
+    currentPage: lastPage?.pageNumber ?? page,
+    totalPages: lastPage?.totalPages ?? 0,
+    loadingMore: isFetchingNextPage,
+    hasMore: hasNextPage,
     loadPermissionOperations,
+    loadMorePermissionOperations,
     loadByPermissionId,
     loadByOperationId,
     createPermissionOperation,
@@ -404,4 +371,4 @@ export const usePermissionOperations = (options: UsePermissionOperationsOptions
     refreshData,
     clearError,
   };
-};
\ No newline at end of file
+};
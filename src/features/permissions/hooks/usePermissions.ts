@@ -1,13 +1,19 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Permission, CreatePermissionRequest, UpdatePermissionRequest } from '../../../shared/types';
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { Permission, CreatePermissionRequest, UpdatePermissionRequest, ListQuery, ListState, PaginatedResponse } from '../../../shared/types';
 import { PermissionService } from '../../../shared/services';
 import { logger } from '../../../shared/config';
+import { PERMISSION_QUERY_KEYS, ROLE_QUERY_KEYS } from '../../../shared/constants';
+import { useEffectivePermissionsInvalidation, useQueryError } from '../../../shared/hooks';
+import { applyOptimisticUpdate, getQueryErrorMessage, rollbackOptimisticUpdate } from '../../../shared/utils';
 
 interface UsePermissionsOptions {
   autoLoad?: boolean;
   pageSize?: number;
   moduleId?: string;
   roleId?: string;
+  // Página, tamanho, busca, ordenação e filtros controlados pela página (ex: useListUrlState)
+  listState?: ListState;
 }
 
 interface PermissionsState {
@@ -19,7 +25,12 @@ interface PermissionsState {
   totalPages: number;
 }
 
+interface PermissionsFilters {
+  listQuery: ListQuery;
+}
+
 interface PermissionsActions {
+  setListQuery: (query: ListQuery) => void;
   loadPermissions: (page?: number, search?: string) => Promise<void>;
   createPermission: (data: CreatePermissionRequest) => Promise<Permission | null>;
   updatePermission: (id: string, data: UpdatePermissionRequest) => Promise<Permission | null>;
@@ -29,50 +40,53 @@ interface PermissionsActions {
   clearError: () => void;
 }
 
-export interface UsePermissionsResult extends PermissionsState, PermissionsActions {}
+export interface UsePermissionsResult extends PermissionsState, PermissionsFilters, PermissionsActions {}
 
 /**
  * Hook personalizado para gerenciar estado e operações de Permissions
  * Centraliza lógica de negócio e integração com API
+ * O estado da listagem pode ser controlado pela página (query string) ou interno
+ * Listagens em cache por PERMISSION_QUERY_KEYS; alterações invalidam as listagens, as permissões
+ * dos roles e as permissões efetivas. O toggle de status é otimista
  */
 export const usePermissions = (options: UsePermissionsOptions = {}): UsePermissionsResult => {
-  const { autoLoad = true, pageSize = 10, moduleId, roleId } = options;
-  const hasLoadedRef = useRef(false);
-
-  const [state, setState] = useState<PermissionsState>({
-    permissions: [],
-    loading: false,
-    error: null,
-    totalCount: 0,
-    currentPage: 1,
-    totalPages: 0,
-  });
-
-  const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
-  }, []);
-
-  const loadPermissions = useCallback(async (page = 1, search?: string) => {
-    setState(prev => ({ 
-      ...prev, 
-      loading: true, 
-      error: null,
-      // Limpa os dados se estiver mudando de página para evitar flicker
-      ...(page !== prev.currentPage ? { permissions: [] } : {})
-    }));
-    
-    try {
-      logger.info(`🔄 Carregando permissões - Página: ${page}, Busca: ${search || 'N/A'}, PageSize: ${pageSize}`);
-      
+  const { autoLoad = true, pageSize: initialPageSize = 10, moduleId, roleId, listState } = options;
+  const queryClient = useQueryClient();
+  const invalidateEffectivePermissions = useEffectivePermissionsInvalidation();
+
+  const [enabled, setEnabled] = useState<boolean>(autoLoad);
+  const [localPage, setLocalPage] = useState<number>(1);
+  const [localSearch, setLocalSearch] = useState<string | undefined>(undefined);
+  const [localListQuery, setLocalListQuery] = useState<ListQuery>({});
+
+  // Estado controlado pela página tem precedência sobre o interno
+  const pageSize = listState?.pageSize ?? initialPageSize;
+  const listQuery = listState?.listQuery ?? localListQuery;
+  const listSearch = listState ? listState.search.trim() || undefined : localSearch;
+  const page = listState?.page ?? localPage;
+
+  const {
+    data,
+    error: queryError,
+    isFetching,
+    refetch,
+  } = useQuery({
+    queryKey: PERMISSION_QUERY_KEYS.list({ page, pageSize, search: listSearch, listQuery, moduleId, roleId }),
+    queryFn: async () => {
+      logger.info(`🔄 Carregando permissões - Página: ${page}, Busca: ${listSearch || 'N/A'}, PageSize: ${pageSize}`, listQuery);
+
+      const statusFilter = listQuery.filters?.isActive;
       const response = await PermissionService.getPermissions({
         page,
         limit: pageSize,
-        search,
+        search: listSearch,
         moduleId,
         roleId,
-        isActive: true, // Por padrão só mostra ativos
-        sortBy: 'name',
-        sortOrder: 'asc'
+        // Por padrão só mostra ativos; o filtro de status da coluna substitui o padrão
+        isActive: typeof statusFilter === 'boolean' ? statusFilter : true,
+        sortBy: listQuery.sortBy ?? 'name',
+        sortOrder: listQuery.sortDirection ?? 'asc',
+        filters: listQuery.filters
       });
 
       logger.info('✅ Permissões carregadas com sucesso:', {
@@ -81,176 +95,145 @@ export const usePermissions = (options: UsePermissionsOptions = {}): UsePermissi
         totalPáginas: response.totalPages,
         itensNaPagina: response.data.length
       });
+      return response;
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+  });
 
-      setState(prev => ({
-        ...prev,
-        permissions: response.data,
-        totalCount: response.totalCount,
-        currentPage: response.pageNumber,
-        totalPages: response.totalPages,
-        loading: false,
-        error: null
-      }));
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao carregar permissões';
-      logger.error('❌ Erro ao carregar permissões:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage,
-        permissions: [],
-        totalCount: 0,
-        currentPage: 1,
-        totalPages: 0
-      }));
-    }
-  }, [pageSize, moduleId, roleId]);
+  const { error, setError, clearError } = useQueryError(queryError, 'Erro ao carregar permissões');
+
+  /**
+   * Carrega uma página (com listState, página e busca vêm do estado controlado)
+   */
+  const loadPermissions = useCallback(async (nextPage = 1, search?: string) => {
+    setEnabled(true);
+    setLocalPage(nextPage);
+    setLocalSearch(search);
+    await queryClient.invalidateQueries({ queryKey: PERMISSION_QUERY_KEYS.lists() });
+  }, [queryClient]);
+
+  // Ordenação e filtros diferentes voltam para a primeira página
+  const setListQuery = useCallback((query: ListQuery) => {
+    setLocalListQuery(query);
+    setLocalPage(1);
+  }, []);
+
+  // Roles exibem suas permissões e as permissões efetivas dependem delas
+  const invalidatePermissions = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: PERMISSION_QUERY_KEYS.lists() }),
+    queryClient.invalidateQueries({ queryKey: ROLE_QUERY_KEYS.permissionLists() }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: createPermissionMutation, isPending: creating } = useMutation({
+    mutationFn: (permissionData: CreatePermissionRequest) => PermissionService.createPermission(permissionData),
+    onSuccess: invalidatePermissions,
+  });
+
+  const { mutateAsync: updatePermissionMutation, isPending: updating } = useMutation({
+    mutationFn: ({ id, permissionData }: { id: string; permissionData: UpdatePermissionRequest }) =>
+      PermissionService.updatePermission(id, permissionData),
+    onSuccess: invalidatePermissions,
+  });
+
+  const { mutateAsync: deletePermissionMutation, isPending: deleting } = useMutation({
+    mutationFn: (id: string) => PermissionService.deletePermission(id),
+    onSuccess: invalidatePermissions,
+  });
+
+  // O novo status aparece na hora; em caso de erro a listagem volta ao estado anterior
+  const { mutateAsync: toggleStatusMutation } = useMutation({
+    mutationFn: (id: string) => PermissionService.togglePermissionStatus(id),
+    onMutate: (id: string) => applyOptimisticUpdate<PaginatedResponse<Permission>>(queryClient, PERMISSION_QUERY_KEYS.lists(), response => ({
+      ...response,
+      data: response.data.map(permission => (permission.id === id ? { ...permission, isActive: !permission.isActive } : permission)),
+    })),
+    onError: (_err, _id, snapshot) => rollbackOptimisticUpdate(queryClient, snapshot),
+    onSettled: invalidatePermissions,
+  });
+
+  const createPermission = useCallback(async (permissionData: CreatePermissionRequest): Promise<Permission | null> => {
+    setError(null);
 
-  const createPermission = useCallback(async (data: CreatePermissionRequest): Promise<Permission | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
     try {
-      logger.info('🔄 Criando nova permissão:', data);
-      
-      const newPermission = await PermissionService.createPermission(data);
-      
+      logger.info('🔄 Criando nova permissão:', permissionData);
+
+      const newPermission = await createPermissionMutation(permissionData);
+
       logger.info('✅ Permissão criada com sucesso:', newPermission);
-      
-      // Recarrega os dados para manter sincronizado
-      await loadPermissions(state.currentPage);
-      
-      setState(prev => ({ ...prev, loading: false }));
       return newPermission;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao criar permissão';
       logger.error('❌ Erro ao criar permissão:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao criar permissão'));
       return null;
     }
-  }, [loadPermissions, state.currentPage]);
+  }, [createPermissionMutation, setError]);
+
+  const updatePermission = useCallback(async (id: string, permissionData: UpdatePermissionRequest): Promise<Permission | null> => {
+    setError(null);
 
-  const updatePermission = useCallback(async (id: string, data: UpdatePermissionRequest): Promise<Permission | null> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
     try {
-      logger.info(`🔄 Atualizando permissão ${id}:`, data);
-      
-      const updatedPermission = await PermissionService.updatePermission(id, data);
-      
+      logger.info(`🔄 Atualizando permissão ${id}:`, permissionData);
+
+      const updatedPermission = await updatePermissionMutation({ id, permissionData });
+
       logger.info('✅ Permissão atualizada com sucesso:', updatedPermission);
-      
-      // Recarrega os dados para garantir sincronização completa
-      await loadPermissions(state.currentPage);
-      
-      setState(prev => ({ ...prev, loading: false }));
-      
       return updatedPermission;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao atualizar permissão';
       logger.error('❌ Erro ao atualizar permissão:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao atualizar permissão'));
       return null;
     }
-  }, [loadPermissions, state.currentPage]);
+  }, [updatePermissionMutation, setError]);
 
   const deletePermission = useCallback(async (id: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
+    setError(null);
+
     try {
       logger.info(`🔄 Removendo permissão ${id}`);
-      
-      await PermissionService.deletePermission(id);
-      
+
+      await deletePermissionMutation(id);
+
       logger.info('✅ Permissão removida com sucesso');
-      
-      // Remove do estado local
-      setState(prev => ({
-        ...prev,
-        permissions: prev.permissions.filter(permission => permission.id !== id),
-        totalCount: prev.totalCount - 1,
-        loading: false
-      }));
-      
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao remover permissão';
       logger.error('❌ Erro ao remover permissão:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao remover permissão'));
       return false;
     }
-  }, []);
+  }, [deletePermissionMutation, setError]);
 
   const toggleStatus = useCallback(async (id: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
+    setError(null);
+
     try {
       logger.info(`🔄 Alternando status da permissão ${id}`);
-      
-      const updatedPermission = await PermissionService.togglePermissionStatus(id);
-      
+
+      const updatedPermission = await toggleStatusMutation(id);
+
       logger.info('✅ Status da permissão alternado com sucesso:', updatedPermission);
-      
-      // Recarrega os dados para garantir sincronização completa
-      await loadPermissions(state.currentPage);
-      
-      setState(prev => ({ ...prev, loading: false }));
-      
       return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao alterar status da permissão';
       logger.error('❌ Erro ao alterar status da permissão:', error);
-      
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage
-      }));
+      setError(getQueryErrorMessage(error, 'Erro ao alterar status da permissão'));
       return false;
     }
-  }, [loadPermissions, state.currentPage]);
+  }, [toggleStatusMutation, setError]);
 
   const refreshData = useCallback(async () => {
-    await loadPermissions(state.currentPage);
-  }, [loadPermissions, state.currentPage]);
-
-  // Carregamento automático
-  useEffect(() => {
-    if (autoLoad && !hasLoadedRef.current) {
-      hasLoadedRef.current = true;
-      loadPermissions();
-    }
-  }, [autoLoad, loadPermissions]);
-
-  // Recarregar quando pageSize muda
-  useEffect(() => {
-    if (hasLoadedRef.current) {
-      loadPermissions(1); // Sempre volta para a primeira página quando pageSize muda
-    }
-  }, [pageSize]);
+    await refetch();
+  }, [refetch]);
 
   return {
-    permissions: state.permissions,
-    loading: state.loading,
-    error: state.error,
-    totalCount: state.totalCount,
-    currentPage: state.currentPage,
-    totalPages: state.totalPages,
+    permissions: data?.data ?? [],
+    loading: isFetching || creating || updating || deleting,
+    error,
+    totalCount: data?.totalCount ?? 0,
+    currentPage: data?.pageNumber ?? page,
+    totalPages: data?.totalPages ?? 0,
+    listQuery,
+    setListQuery,
     loadPermissions,
     createPermission,
     updatePermission,
@@ -259,4 +242,4 @@ export const usePermissions = (options: UsePermissionsOptions = {}): UsePermissi
     refreshData,
     clearError,
   };
-};
\ No newline at end of file
+};
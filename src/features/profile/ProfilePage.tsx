@@ -0,0 +1,137 @@
+import {
+  PageHeader,
+  ResponsiveContainer,
+  StyledCard
+} from '../../shared/components';
+import {
+  AccountCircle as ProfileIcon,
+  VerifiedUser as VerifiedIcon,
+  ErrorOutline as UnverifiedIcon,
+} from '@mui/icons-material';
+import {
+  Typography,
+  Box,
+  CircularProgress,
+  Alert,
+  Avatar,
+  Chip,
+  Stack,
+} from '@mui/material';
+import { ProfileInfoForm, ChangePasswordForm, EffectiveAccessCard } from './components';
+import { useProfile } from './hooks';
+import { useAuthStore } from '../../shared/stores';
+import { formatDateTime, formatRelativeDate } from '../../shared/utils/date.utils';
+
+/**
+ * Página de perfil do usuário logado
+ *
+ * Features:
+ * - Edição de nome, sobrenome e telefone
+ * - Troca de senha
+ * - Último acesso e status de verificação do email
+ * - Grupos de acesso, roles e operações efetivas da sessão
+ *
+ * O backend não tem endpoint de perfil do próprio usuário: a conta é lida e salva pelos endpoints
+ * de usuários. Sem as permissões de USER_MODULE, a página mostra os dados da sessão e explica o limite
+ */
+export const ProfilePage = () => {
+  const {
+    account,
+    loading,
+    saving,
+    error,
+    canViewAccount,
+    canEditAccount,
+    updateProfile,
+    changePassword,
+    clearError,
+  } = useProfile();
+  const { user } = useAuthStore();
+
+  const initials = account
+    ? `${account.firstName?.[0] ?? ''}${account.lastName?.[0] ?? ''}`.toUpperCase()
+    : (user?.fullName ?? '').split(' ').filter(Boolean).slice(0, 2).map(name => name[0]).join('').toUpperCase();
+
+  return (
+    <ResponsiveContainer>
+      <PageHeader
+        title="Meu Perfil"
+        subtitle="Seus dados pessoais, senha e acessos"
+        icon={<ProfileIcon />}
+      />
+
+      {error && (
+        <Alert severity="error" onClose={clearError} sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && !account ? (
+        <StyledCard>
+          <Box sx={{ textAlign: 'center', py: 6 }}>
+            <CircularProgress size={40} />
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Carregando perfil...
+            </Typography>
+          </Box>
+        </StyledCard>
+      ) : (
+        <Stack spacing={3}>
+          {/* Identificação e situação da conta */}
+          <StyledCard>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+              <Avatar sx={{ width: 56, height: 56, bgcolor: 'primary.main' }}>
+                {initials}
+              </Avatar>
+              <Box sx={{ flex: 1, minWidth: 200 }}>
+                <Typography variant="h6">{account?.fullName ?? user?.fullName}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {account?.email ?? user?.email}
+                </Typography>
+              </Box>
+              {account && (
+                <Stack spacing={1} alignItems={{ xs: 'flex-start', sm: 'flex-end' }}>
+                  <Chip
+                    icon={account.isEmailVerified ? <VerifiedIcon /> : <UnverifiedIcon />}
+                    label={account.isEmailVerified ? 'Email verificado' : 'Email não verificado'}
+                    color={account.isEmailVerified ? 'success' : 'warning'}
+                    size="small"
+                    variant="outlined"
+                  />
+                  <Typography variant="caption" color="text.secondary">
+                    {account.lastLoginAt
+                      ? `Último acesso: ${formatDateTime(account.lastLoginAt)} (${formatRelativeDate(account.lastLoginAt)})`
+                      : 'Último acesso: não registrado'}
+                  </Typography>
+                </Stack>
+              )}
+            </Box>
+          </StyledCard>
+
+          {/* Dados pessoais - com permissão de edição, aparece quando a conta é carregada */}
+          <StyledCard title="Dados pessoais">
+            {canEditAccount ? (
+              account && <ProfileInfoForm account={account} onSubmit={updateProfile} saving={saving} />
+            ) : (
+              <Alert severity="info">
+                {canViewAccount
+                  ? 'A edição dos dados pessoais usa o cadastro de usuários e exige permissão de atualização de usuários. Peça a alteração a um administrador.'
+                  : 'Telefone, último acesso e verificação do email vêm do cadastro de usuários, que exige permissão de consulta de usuários. Peça a um administrador para ver ou alterar esses dados.'}
+              </Alert>
+            )}
+          </StyledCard>
+
+          {/* Senha */}
+          <StyledCard title="Alterar senha">
+            <ChangePasswordForm onSubmit={changePassword} />
+          </StyledCard>
+
+          {/* Acessos efetivos */}
+          <StyledCard title="Meus acessos" subtitle="Permissões da sua sessão atual no tenant ativo">
+            <EffectiveAccessCard />
+          </StyledCard>
+        </Stack>
+      )}
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Box,
+  TextField,
+  Button,
+  Alert,
+  Stack,
+  InputAdornment,
+  IconButton,
+} from '@mui/material';
+import { Visibility, VisibilityOff } from '@mui/icons-material';
+import { PasswordStrengthMeter } from '../../../shared/components';
+import { passwordSchema } from '../../../shared/validators';
+
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Informe a senha atual'),
+    password: passwordSchema,
+    confirmPassword: z.string().min(1, 'Confirme a nova senha'),
+  })
+  .refine(data => data.password === data.confirmPassword, {
+    message: 'Senhas não coincidem',
+    path: ['confirmPassword'],
+  })
+  .refine(data => data.password !== data.currentPassword, {
+    message: 'A nova senha deve ser diferente da atual',
+    path: ['password'],
+  });
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+const emptyFormData: ChangePasswordFormData = {
+  currentPassword: '',
+  password: '',
+  confirmPassword: '',
+};
+
+interface ChangePasswordFormProps {
+  onSubmit: (currentPassword: string, newPassword: string) => Promise<void>;
+}
+
+/**
+ * Formulário de troca de senha do próprio usuário
+ *
+ * Features:
+ * - Exige a senha atual
+ * - Medidor de força e confirmação da nova senha
+ * - Erros da API exibidos no próprio formulário
+ */
+export const ChangePasswordForm = ({ onSubmit }: ChangePasswordFormProps) => {
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: emptyFormData,
+  });
+
+  const password = watch('password');
+
+  const submit = async (data: ChangePasswordFormData) => {
+    setError(null);
+    setSuccess(false);
+
+    try {
+      await onSubmit(data.currentPassword, data.password);
+      reset(emptyFormData);
+      setSuccess(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao alterar senha');
+    }
+  };
+
+  const passwordType = showPasswords ? 'text' : 'password';
+
+  return (
+    <Box component="form" onSubmit={handleSubmit(submit)} noValidate>
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(false)}>
+          Senha alterada com sucesso
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Stack spacing={2}>
+        <TextField
+          {...register('currentPassword')}
+          label="Senha atual"
+          type={passwordType}
+          autoComplete="current-password"
+          error={Boolean(errors.currentPassword)}
+          helperText={errors.currentPassword?.message}
+          required
+          fullWidth
+          disabled={isSubmitting}
+          InputProps={{
+            endAdornment: (
+              <InputAdornment position="end">
+                <IconButton
+                  aria-label="toggle password visibility"
+                  onClick={() => setShowPasswords(!showPasswords)}
+                  edge="end"
+                >
+                  {showPasswords ? <VisibilityOff /> : <Visibility />}
+                </IconButton>
+              </InputAdornment>
+            ),
+          }}
+        />
+
+        <Box>
+          <TextField
+            {...register('password')}
+            label="Nova senha"
+            type={passwordType}
+            autoComplete="new-password"
+            error={Boolean(errors.password)}
+            helperText={errors.password?.message}
+            required
+            fullWidth
+            disabled={isSubmitting}
+            sx={{ mb: 1 }}
+          />
+          <PasswordStrengthMeter password={password} />
+        </Box>
+
+        <TextField
+          {...register('confirmPassword')}
+          label="Confirmar nova senha"
+          type={passwordType}
+          autoComplete="new-password"
+          error={Boolean(errors.confirmPassword)}
+          helperText={errors.confirmPassword?.message}
+          required
+          fullWidth
+          disabled={isSubmitting}
+        />
+
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {isSubmitting ? 'Alterando...' : 'Alterar senha'}
+          </Button>
+        </Box>
+      </Stack>
+    </Box>
+  );
+};
@@ -0,0 +1,198 @@
+import { useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Alert,
+  Divider,
+} from '@mui/material';
+import {
+  Group as GroupIcon,
+  AdminPanelSettings as RoleIcon,
+} from '@mui/icons-material';
+import { usePermissionStore } from '../../../shared/stores';
+import { BUILT_IN_OPERATIONS, PERMISSION_WILDCARD } from '../../../shared/types';
+import type { OperationType, OperationCode } from '../../../shared/types';
+
+const OPERATION_COLORS: Record<OperationType, 'info' | 'success' | 'warning' | 'error'> = {
+  SELECT: 'info',
+  CREATE: 'success',
+  UPDATE: 'warning',
+  DELETE: 'error',
+};
+
+// Operações customizadas (ex: EXPORT) usam a cor secundária
+const getOperationColor = (operation: OperationCode) =>
+  OPERATION_COLORS[operation as OperationType] ?? 'secondary';
+
+// Operações padrão primeiro, na ordem do CRUD; customizadas em ordem alfabética
+const compareOperations = (a: OperationCode, b: OperationCode) => {
+  const indexA = BUILT_IN_OPERATIONS.indexOf(a as OperationType);
+  const indexB = BUILT_IN_OPERATIONS.indexOf(b as OperationType);
+  if (indexA !== -1 || indexB !== -1) {
+    return (indexA === -1 ? Infinity : indexA) - (indexB === -1 ? Infinity : indexB);
+  }
+  return a.localeCompare(b);
+};
+
+// Rótulos das entradas curinga ('*'), que valem para todos os módulos ou operações
+const formatModuleKey = (key: string) => (key === PERMISSION_WILDCARD ? 'Todos os módulos (*)' : key);
+const formatOperation = (operation: OperationCode) => (operation === PERMISSION_WILDCARD ? 'Todas (*)' : operation);
+
+interface ModuleAccess {
+  key: string;
+  operations: OperationCode[];
+  roles: string[];
+}
+
+/**
+ * Resumo do acesso efetivo do usuário logado
+ * Lê as permissões da sessão (usePermissionStore) - grupos, roles e operações por módulo
+ * Operações removidas por negações não aparecem
+ * Concessões curinga ('*') aparecem em uma linha própria; negações de módulos específicos continuam valendo sobre elas
+ */
+export const EffectiveAccessCard = () => {
+  const permissions = usePermissionStore(state => state.permissions);
+  const canPerformOperation = usePermissionStore(state => state.canPerformOperation);
+
+  const accessGroups = useMemo(() => permissions?.accessGroups ?? [], [permissions]);
+
+  // Consolida as operações por módulo, guardando quais roles concedem cada módulo
+  const modules = useMemo<ModuleAccess[]>(() => {
+    const byKey = new Map<string, { operations: Set<OperationCode>; roles: Set<string> }>();
+
+    accessGroups.forEach(group =>
+      group.roles.forEach(role =>
+        role.modules.forEach(module => {
+          // Negações não concedem nada - o efeito delas aparece no filtro abaixo
+          if (module.effect === 'deny') return;
+
+          // O curinga não é um módulo verificável: suas operações são listadas como concedidas
+          const isWildcard = module.key === PERMISSION_WILDCARD;
+          const entry = byKey.get(module.key) ?? { operations: new Set(), roles: new Set() };
+          module.operations
+            .filter(operation => isWildcard || canPerformOperation(module.key, operation))
+            .forEach(operation => entry.operations.add(operation));
+          entry.roles.add(role.code);
+          byKey.set(module.key, entry);
+        })
+      )
+    );
+
+    return Array.from(byKey.entries())
+      .map(([key, entry]) => ({
+        key,
+        operations: Array.from(entry.operations).sort(compareOperations),
+        roles: Array.from(entry.roles),
+      }))
+      // Curinga primeiro, depois os módulos em ordem alfabética
+      .sort((a, b) => Number(b.key === PERMISSION_WILDCARD) - Number(a.key === PERMISSION_WILDCARD) || a.key.localeCompare(b.key));
+  }, [accessGroups, canPerformOperation]);
+
+  const roleCount = new Set(accessGroups.flatMap(group => group.roles.map(role => role.id))).size;
+
+  if (!permissions || accessGroups.length === 0) {
+    return (
+      <Alert severity="info">
+        Você ainda não pertence a nenhum grupo de acesso. Fale com um administrador para liberar módulos.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Resumo */}
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mb: 3 }}>
+        <Chip label={`${accessGroups.length} grupo(s) de acesso`} size="small" />
+        <Chip label={`${roleCount} role(s)`} size="small" />
+        <Chip label={`${modules.length} módulo(s)`} size="small" />
+      </Stack>
+
+      {/* Grupos e roles */}
+      <Typography variant="subtitle2" gutterBottom>
+        Grupos de acesso e roles
+      </Typography>
+      <Stack spacing={1.5} sx={{ mb: 3 }}>
+        {accessGroups.map(group => (
+          <Box key={group.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 180 }}>
+              <GroupIcon fontSize="small" color="primary" />
+              <Typography variant="body2" fontWeight={600}>
+                {group.code}
+              </Typography>
+            </Box>
+            {group.roles.length === 0 ? (
+              <Typography variant="caption" color="text.secondary">
+                Nenhum role
+              </Typography>
+            ) : (
+              group.roles.map(role => (
+                <Chip
+                  key={role.id}
+                  icon={<RoleIcon />}
+                  label={role.code}
+                  size="small"
+                  variant="outlined"
+                />
+              ))
+            )}
+          </Box>
+        ))}
+      </Stack>
+
+      <Divider sx={{ mb: 2 }} />
+
+      {/* Operações por módulo */}
+      <Typography variant="subtitle2" gutterBottom>
+        Operações por módulo
+      </Typography>
+      <Box sx={{ overflowX: 'auto' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Módulo</TableCell>
+              <TableCell>Operações</TableCell>
+              <TableCell>Concedido por</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {modules.map(module => (
+              <TableRow key={module.key}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatModuleKey(module.key)}</TableCell>
+                <TableCell>
+                  <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                    {module.operations.map(operation => (
+                      <Chip
+                        key={operation}
+                        label={formatOperation(operation)}
+                        size="small"
+                        color={getOperationColor(operation)}
+                        variant="outlined"
+                      />
+                    ))}
+                  </Stack>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="caption" color="text.secondary">
+                    {module.roles.join(', ')}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+      {modules.some(module => module.key === PERMISSION_WILDCARD) && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Concessões em "Todos os módulos" valem para qualquer módulo, exceto onde houver uma negação específica.
+        </Typography>
+      )}
+    </Box>
+  );
+};
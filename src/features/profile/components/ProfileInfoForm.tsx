@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Box,
+  TextField,
+  Button,
+  Alert,
+  Stack,
+} from '@mui/material';
+import {
+  phoneSchema,
+  optionalField,
+  withMask,
+  formatPhone,
+  onlyDigits,
+} from '../../../shared/validators';
+import type { UserAccount } from '../../../shared/types';
+import type { ProfileUpdate } from '../hooks';
+
+const profileSchema = z.object({
+  firstName: z
+    .string()
+    .trim()
+    .min(2, 'Nome deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome deve ter no máximo 100 caracteres'),
+  lastName: z
+    .string()
+    .trim()
+    .min(2, 'Sobrenome deve ter pelo menos 2 caracteres')
+    .max(100, 'Sobrenome deve ter no máximo 100 caracteres'),
+  phoneNumber: optionalField(phoneSchema),
+});
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+
+interface ProfileInfoFormProps {
+  account: UserAccount;
+  onSubmit: (data: ProfileUpdate) => Promise<unknown>;
+  saving?: boolean;
+}
+
+/**
+ * Formulário de dados pessoais do perfil
+ *
+ * Features:
+ * - Edição de nome, sobrenome e telefone (com máscara)
+ * - Email e username somente leitura
+ * - Botão de salvar habilitado apenas com alterações
+ */
+export const ProfileInfoForm = ({ account, onSubmit, saving = false }: ProfileInfoFormProps) => {
+  const [saved, setSaved] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      firstName: '',
+      lastName: '',
+      phoneNumber: '',
+    },
+  });
+
+  // Preenche o formulário com os dados da conta
+  useEffect(() => {
+    reset({
+      firstName: account.firstName || '',
+      lastName: account.lastName || '',
+      phoneNumber: account.phoneNumber ? formatPhone(account.phoneNumber) : '',
+    });
+  }, [account, reset]);
+
+  const submit = async (data: ProfileFormData) => {
+    setSaved(false);
+    try {
+      await onSubmit({
+        firstName: data.firstName,
+        lastName: data.lastName,
+        phoneNumber: onlyDigits(data.phoneNumber) || null,
+      });
+      setSaved(true);
+    } catch (err) {
+      // Erro exibido pela página
+      console.error('Erro ao salvar perfil:', err);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit(submit)} noValidate>
+      {saved && !isDirty && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSaved(false)}>
+          Dados atualizados com sucesso
+        </Alert>
+      )}
+
+      <Stack spacing={2}>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField
+            {...register('firstName')}
+            label="Nome"
+            error={Boolean(errors.firstName)}
+            helperText={errors.firstName?.message}
+            required
+            fullWidth
+            disabled={saving}
+          />
+          <TextField
+            {...register('lastName')}
+            label="Sobrenome"
+            error={Boolean(errors.lastName)}
+            helperText={errors.lastName?.message}
+            required
+            fullWidth
+            disabled={saving}
+          />
+        </Stack>
+
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField label="Email" value={account.email} fullWidth disabled />
+          <TextField label="Username" value={account.username} fullWidth disabled />
+        </Stack>
+
+        <TextField
+          {...withMask(register('phoneNumber'), formatPhone)}
+          label="Telefone"
+          placeholder="(11) 91234-5678"
+          error={Boolean(errors.phoneNumber)}
+          helperText={errors.phoneNumber?.message}
+          fullWidth
+          disabled={saving}
+        />
+
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+          <Button
+            onClick={() => reset()}
+            disabled={saving || !isDirty}
+            color="inherit"
+          >
+            Descartar
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={saving || !isDirty}
+          >
+            {saving ? 'Salvando...' : 'Salvar alterações'}
+          </Button>
+        </Box>
+      </Stack>
+    </Box>
+  );
+};
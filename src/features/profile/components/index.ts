@@ -0,0 +1,4 @@
+// Exporta todos os componentes relacionados ao Perfil
+export { ProfileInfoForm } from './ProfileInfoForm';
+export { ChangePasswordForm } from './ChangePasswordForm';
+export { EffectiveAccessCard } from './EffectiveAccessCard';
@@ -0,0 +1,3 @@
+// Exporta todos os hooks relacionados ao Perfil
+export { useProfile } from './useProfile';
+export type { ProfileUpdate } from './useProfile';
@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UserService } from '../../../shared/services';
+import { useAuthStore, usePermissions } from '../../../shared/stores';
+import { ModuleKey } from '../../../shared/types/permission.types';
+import type { UserAccount } from '../../../shared/types';
+
+export interface ProfileUpdate {
+  firstName: string;
+  lastName: string;
+  // null remove o telefone cadastrado
+  phoneNumber: string | null;
+}
+
+interface UseProfileResult {
+  // Estado
+  account: UserAccount | null;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+  // Não há endpoint do próprio usuário: conta e edição usam os endpoints de usuários (USER_MODULE)
+  canViewAccount: boolean;
+  canEditAccount: boolean;
+
+  // Ações
+  loadProfile: () => Promise<void>;
+  updateProfile: (data: ProfileUpdate) => Promise<UserAccount>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  clearError: () => void;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
+/**
+ * Hook do perfil do usuário logado
+ *
+ * Features:
+ * - Carrega a conta completa do usuário autenticado
+ * - Atualização de nome e telefone preservando os demais campos
+ * - Troca de senha com a senha atual
+ * - Sincroniza o nome exibido na sessão após salvar
+ * - Conta e edição dependem das permissões SELECT/UPDATE em USER_MODULE (sem elas, nada é requisitado)
+ */
+export const useProfile = (): UseProfileResult => {
+  const { user, reloadPermissions } = useAuthStore();
+  const userId = user?.id;
+  const { hasAccess } = usePermissions();
+  const canViewAccount = hasAccess(ModuleKey.USER_MODULE, 'SELECT');
+  const canEditAccount = canViewAccount && hasAccess(ModuleKey.USER_MODULE, 'UPDATE');
+
+  const [account, setAccount] = useState<UserAccount | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Limpa mensagens de erro
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Carrega os dados da conta do usuário logado
+   */
+  const loadProfile = useCallback(async () => {
+    if (!userId || !canViewAccount) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useProfile: Carregando perfil...', userId);
+
+      const response = await UserService.getUserById(userId);
+      setAccount(response);
+
+      console.log('✅ useProfile: Perfil carregado');
+
+    } catch (err) {
+      console.error('❌ useProfile: Erro ao carregar perfil:', err);
+      setError(getErrorMessage(err, 'Erro ao carregar perfil'));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, canViewAccount]);
+
+  /**
+   * Atualiza nome e telefone
+   * O PUT de usuários substitui o registro, então os demais campos são reenviados
+   */
+  const updateProfile = useCallback(async (data: ProfileUpdate): Promise<UserAccount> => {
+    if (!account) {
+      throw new Error('Perfil ainda não carregado');
+    }
+    if (!canEditAccount) {
+      throw new Error('Sem permissão para atualizar o perfil');
+    }
+
+    setSaving(true);
+    setError(null);
+
+    let updatedAccount: UserAccount;
+    try {
+      console.log('🔄 useProfile: Atualizando perfil...', data);
+
+      updatedAccount = await UserService.updateUser(account.id, {
+        username: account.username,
+        email: account.email,
+        status: account.status,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        phoneNumber: data.phoneNumber,
+      });
+
+      setAccount(updatedAccount);
+      console.log('✅ useProfile: Perfil atualizado');
+
+    } catch (err) {
+      console.error('❌ useProfile: Erro ao atualizar perfil:', err);
+      setError(getErrorMessage(err, 'Erro ao atualizar perfil'));
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+
+    // Atualiza o nome exibido no header e nas demais abas
+    // O perfil já foi salvo: uma falha aqui não é reportada como erro ao salvar
+    try {
+      await reloadPermissions();
+    } catch (err) {
+      console.warn('⚠️ useProfile: Perfil salvo, mas a sessão não foi recarregada:', err);
+    }
+
+    return updatedAccount;
+  }, [account, canEditAccount, reloadPermissions]);
+
+  /**
+   * Troca a senha do usuário logado
+   * Erros são propagados para o formulário de senha, sem afetar o erro geral do perfil
+   */
+  const changePassword = useCallback(async (currentPassword: string, newPassword: string): Promise<void> => {
+    if (!userId) {
+      throw new Error('Usuário não autenticado');
+    }
+
+    console.log('🔄 useProfile: Alterando senha...');
+    await UserService.changePassword(userId, currentPassword, newPassword);
+    console.log('✅ useProfile: Senha alterada');
+  }, [userId]);
+
+  // Carregamento automático do perfil
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  return {
+    // Estado
+    account,
+    loading,
+    saving,
+    error,
+    canViewAccount,
+    canEditAccount,
+
+    // Ações
+    loadProfile,
+    updateProfile,
+    changePassword,
+    clearError,
+  };
+};
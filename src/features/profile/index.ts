@@ -0,0 +1,4 @@
+// Exporta todos os recursos relacionados ao Perfil
+export { ProfilePage } from './ProfilePage';
+export * from './components';
+export * from './hooks';
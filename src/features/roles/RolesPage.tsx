@@ -1,19 +1,36 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   PageHeader,
   ResponsiveContainer,
-  StyledCard
+  StyledCard,
+  ApplicationSelect,
+  ExportSelectionButton
 } from '../../shared/components';
 import { Add as AddIcon, AdminPanelSettings as RoleIcon } from '@mui/icons-material';
-import { Typography, Box, CircularProgress, Alert, Button } from '@mui/material';
+import { Typography, Box, CircularProgress, Alert, Button, Paper } from '@mui/material';
 import { 
   RolesList, 
   RoleDialog,
   RoleAccessGroups,
-  RolePermissions
+  RolePermissions,
+  ROLE_FILTER_TYPES
 } from '../roles/components';
 import { useRoles } from '../roles/hooks';
-import type { Role, CreateRoleRequest, UpdateRoleRequest } from '../../shared/types';
+import { useListUrlState } from '../../shared/hooks';
+import type { Role, CreateRoleRequest, UpdateRoleRequest, ListQuery } from '../../shared/types';
+import { EMPTY_SELECTION, hasActiveFilters } from '../../shared/utils';
+import type { ExportRows, RowSelection } from '../../shared/utils';
+
+const toExportRows = (roles: Role[]): ExportRows => [
+  ['Nome', 'Código', 'Descrição', 'Status', 'Criado em'],
+  ...roles.map(role => [
+    role.name,
+    role.code,
+    role.description,
+    role.isActive ? 'Ativo' : 'Inativo',
+    role.createdAt,
+  ]),
+];
 
 /**
  * Página principal de Roles
@@ -21,6 +38,10 @@ import type { Role, CreateRoleRequest, UpdateRoleRequest } from '../../shared/ty
  * 
  * Features:
  * - Lista paginada de roles
+ * - Filtro por aplicação
+ * - Ordenação e filtros por coluna
+ * - Página, ordenação e filtros na URL (recarregar, compartilhar e voltar/avançar)
+ * - Seleção com exportação dos selecionados (CSV)
  * - Criação de novos roles
  * - Edição de roles existentes
  * - Remoção de roles
@@ -35,6 +56,10 @@ export const RolesPage = () => {
   const [selectedRoleForGroups, setSelectedRoleForGroups] = useState<Role | null>(null);
   const [permissionsOpen, setPermissionsOpen] = useState(false);
   const [selectedRoleForPermissions, setSelectedRoleForPermissions] = useState<Role | null>(null);
+  const [selection, setSelection] = useState<RowSelection>(EMPTY_SELECTION);
+
+  // Estado da listagem na query string
+  const listUrl = useListUrlState({ filterTypes: ROLE_FILTER_TYPES });
 
   const {
     roles,
@@ -42,7 +67,9 @@ export const RolesPage = () => {
     error,
     totalItems,
     currentPage,
-    loadRoles,
+    pageSize,
+    listQuery,
+    fetchAllMatching,
     createRole,
     updateRole,
     deleteRole,
@@ -50,9 +77,19 @@ export const RolesPage = () => {
     clearError,
   } = useRoles({ 
     autoLoad: true, 
-    pageSize: 10 
+    pageSize: 10,
+    listState: listUrl.state
   });
 
+  // Filtro por aplicação na URL junto dos filtros por coluna (enviado como applicationId)
+  const { applicationId, ...columnFilters } = listQuery.filters ?? {};
+  const applicationFilter = typeof applicationId === 'string' ? applicationId : undefined;
+
+  // A seleção deixa de valer quando o conjunto muda (inclusive ao voltar/avançar no navegador)
+  useEffect(() => {
+    setSelection(EMPTY_SELECTION);
+  }, [listUrl.state.search, listUrl.state.listQuery]);
+
   /**
    * Abre dialog para criar novo role
    */
@@ -164,10 +201,26 @@ export const RolesPage = () => {
   /**
    * Handle mudança de página
    */
-  const handlePageChange = async (page: number) => {
-    await loadRoles(page);
+  const handlePageChange = (page: number) => {
+    listUrl.setPage(page);
   };
 
+  /**
+   * Handle ordenação e filtros
+   */
+  const handleListQueryChange = (query: ListQuery) => {
+    listUrl.setListQuery(query);
+  };
+
+  const handleApplicationFilterChange = (selectedId: string | undefined) => {
+    listUrl.setListQuery({
+      ...listQuery,
+      filters: selectedId ? { ...columnFilters, applicationId: selectedId } : columnFilters,
+    });
+  };
+
+  const filtering = hasActiveFilters(columnFilters);
+
   return (
     <ResponsiveContainer>
       
@@ -189,11 +242,24 @@ export const RolesPage = () => {
         </Button>
       </Box>
 
+      {/* Filtro por aplicação */}
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box sx={{ maxWidth: { sm: 360 } }}>
+          <ApplicationSelect
+            value={applicationFilter}
+            onChange={handleApplicationFilterChange}
+            label="Filtrar por aplicação"
+            placeholder="Todas as aplicações"
+            size="small"
+          />
+        </Box>
+      </Paper>
+
       {/* Conteúdo principal */}
       <Box sx={{ mt: 3 }}>
 
         {/* Estados de loading geral */}
-        {loading && roles.length === 0 && (
+        {loading && roles.length === 0 && !filtering && (
           <StyledCard>
             <Box sx={{ textAlign: 'center', py: 6 }}>
               <CircularProgress size={40} />
@@ -216,7 +282,7 @@ export const RolesPage = () => {
         )}
 
         {/* Lista de roles */}
-        {!loading || roles.length > 0 ? (
+        {!loading || roles.length > 0 || filtering ? (
           <RolesList
             roles={roles}
             loading={loading}
@@ -227,8 +293,23 @@ export const RolesPage = () => {
             onManagePermissions={handleManagePermissions}
             totalItems={totalItems}
             currentPage={currentPage}
-            pageSize={10}
+            pageSize={pageSize}
             onPageChange={handlePageChange}
+            onPageSizeChange={listUrl.setPageSize}
+            listQuery={listQuery}
+            onListQueryChange={handleListQueryChange}
+            selection={selection}
+            onSelectionChange={setSelection}
+            selectionActions={
+              <ExportSelectionButton
+                selection={selection}
+                rows={roles}
+                getKey={(role) => role.id}
+                fetchAll={fetchAllMatching}
+                toExportRows={toExportRows}
+                filename="roles.csv"
+              />
+            }
           />
         ) : null}
 
@@ -5,27 +5,24 @@ import {
   DialogContent,
   DialogActions,
   Button,
-  FormControlLabel,
-  Checkbox,
   Typography,
   Box,
   CircularProgress,
   Alert,
   Divider,
-  FormGroup,
-  Accordion,
-  AccordionSummary,
-  AccordionDetails,
   Chip,
+  TextField,
+  InputAdornment,
 } from '@mui/material';
 import {
-  ExpandMore as ExpandMoreIcon,
   Group as GroupIcon,
   Save as SaveIcon,
   Close as CloseIcon,
+  Search as SearchIcon,
 } from '@mui/icons-material';
 import { useRoles } from '../hooks';
-import { AccessGroupService } from '../../../shared/services';
+import { useAccessGroupOptions } from '../../../shared/hooks';
+import { VirtualCheckboxList } from '../../../shared/components';
 import type { Role, AccessGroup } from '../../../shared/types';
 
 interface RoleAccessGroupsProps {
@@ -38,10 +35,10 @@ interface RoleAccessGroupsProps {
  * Dialog para gerenciar grupos de acesso de um role
  * 
  * Features:
- * - Lista todos os grupos de acesso disponíveis
+ * - Lista virtualizada dos grupos disponíveis com carregamento incremental
+ * - Busca de grupos por nome
  * - Mostra grupos já associados ao role
  * - Permite associar/desassociar grupos
- * - Organização por tipo de grupo
  * - Estados de loading e error
  * - Validação e feedback
  */
@@ -53,7 +50,6 @@ export const RoleAccessGroups = ({
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [allGroups, setAllGroups] = useState<AccessGroup[]>([]);
   const [roleGroups, setRoleGroups] = useState<AccessGroup[]>([]);
   const [selectedGroupIds, setSelectedGroupIds] = useState<Set<string>>(new Set());
 
@@ -63,6 +59,9 @@ export const RoleAccessGroups = ({
     removeAccessGroupsFromRole 
   } = useRoles();
 
+  // Grupos disponíveis carregados aos poucos (tenants podem ter milhares de grupos)
+  const groupOptions = useAccessGroupOptions({ enabled: open && !!role });
+
   // Carregar dados quando dialog abre
   useEffect(() => {
     if (open && role) {
@@ -73,7 +72,6 @@ export const RoleAccessGroups = ({
   }, [open, role]);
 
   const resetState = () => {
-    setAllGroups([]);
     setRoleGroups([]);
     setSelectedGroupIds(new Set());
     setError(null);
@@ -88,20 +86,15 @@ export const RoleAccessGroups = ({
     setError(null);
 
     try {
-      // Carregar grupos de acesso do role e todos os grupos disponíveis
-      const [currentGroups, availableGroups] = await Promise.all([
-        getRoleAccessGroups(role.id),
-        AccessGroupService.getAllAccessGroups(),
-      ]);
+      // Os grupos disponíveis são carregados incrementalmente por useAccessGroupOptions
+      const currentGroups = await getRoleAccessGroups(role.id);
 
       console.log('🔄 RoleAccessGroups: Dados carregados:', {
         role: role.name,
         currentGroups: currentGroups.length,
-        availableGroups: availableGroups.length,
       });
 
       setRoleGroups(currentGroups);
-      setAllGroups(availableGroups);
       
       // Marcar grupos já associados como selecionados
       const currentGroupIds = new Set(currentGroups.map((g: AccessGroup) => g.id));
@@ -181,26 +174,7 @@ export const RoleAccessGroups = ({
     }
   };
 
-  // Agrupar por tipo de grupo
-  const groupsByType = allGroups.reduce((acc, group) => {
-    const groupType = group.groupTypeName || 'Outros';
-    if (!acc[groupType]) {
-      acc[groupType] = [];
-    }
-    acc[groupType].push(group);
-    return acc;
-  }, {} as Record<string, AccessGroup[]>);
-
-  const getGroupTypeTitle = (groupType: string): string => {
-    const typeMap: Record<string, string> = {
-      'Sistema': '🔧 Sistema',
-      'Funcional': '⚙️ Funcional', 
-      'Departamental': '🏢 Departamental',
-      'Projeto': '📋 Projeto',
-      'Outros': '📁 Outros',
-    };
-    return typeMap[groupType] || `📁 ${groupType}`;
-  };
+  const displayError = error || groupOptions.error;
 
   return (
     <Dialog
@@ -238,24 +212,18 @@ export const RoleAccessGroups = ({
           </Box>
         )}
 
-        {error && (
+        {displayError && (
           <Alert severity="error" sx={{ mb: 2 }}>
-            {error}
+            {displayError}
           </Alert>
         )}
 
-        {!loading && allGroups.length === 0 && (
-          <Alert severity="info">
-            Nenhum grupo de acesso disponível.
-          </Alert>
-        )}
-
-        {!loading && allGroups.length > 0 && (
+        {!loading && (
           <Box>
             {/* Resumo */}
             <Box sx={{ mb: 3, p: 2, bgcolor: 'background.default', borderRadius: 1 }}>
               <Typography variant="body2" color="text.secondary">
-                <strong>{selectedGroupIds.size}</strong> de <strong>{allGroups.length}</strong> grupos selecionados
+                <strong>{selectedGroupIds.size}</strong> de <strong>{groupOptions.total}</strong> grupos selecionados
               </Typography>
               
               {roleGroups.length > 0 && (
@@ -285,58 +253,59 @@ export const RoleAccessGroups = ({
               )}
             </Box>
 
-            {/* Lista de grupos por tipo */}
-            {Object.entries(groupsByType).map(([groupType, groups]) => (
-              <Accordion key={groupType} defaultExpanded>
-                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
-                  <Typography variant="subtitle1" sx={{ fontWeight: 500 }}>
-                    {getGroupTypeTitle(groupType)}
-                  </Typography>
-                  <Chip 
-                    label={groups.length} 
-                    size="small" 
-                    sx={{ ml: 2 }}
-                  />
-                </AccordionSummary>
-                <AccordionDetails>
-                  <FormGroup>
-                    {groups.map(group => (
-                      <FormControlLabel
-                        key={group.id}
-                        control={
-                          <Checkbox
-                            checked={selectedGroupIds.has(group.id)}
-                            onChange={() => handleGroupToggle(group.id)}
-                            disabled={saving}
-                          />
-                        }
-                        label={
-                          <Box>
-                            <Typography variant="body2" sx={{ fontWeight: 500 }}>
-                              {group.name}
-                            </Typography>
-                            {group.description && (
-                              <Typography variant="caption" color="text.secondary">
-                                {group.description}
-                              </Typography>
-                            )}
-                            {!group.isActive && (
-                              <Chip 
-                                label="Inativo" 
-                                size="small" 
-                                variant="outlined" 
-                                color="warning"
-                                sx={{ ml: 1 }}
-                              />
-                            )}
-                          </Box>
-                        }
+            {/* Busca e lista virtualizada de grupos */}
+            <TextField
+              placeholder="Buscar grupos..."
+              value={groupOptions.search}
+              onChange={(e) => groupOptions.setSearch(e.target.value)}
+              size="small"
+              fullWidth
+              sx={{ mb: 1 }}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon fontSize="small" />
+                  </InputAdornment>
+                ),
+              }}
+            />
+
+            <VirtualCheckboxList
+              items={groupOptions.items}
+              getKey={(group) => group.id}
+              isChecked={(group) => selectedGroupIds.has(group.id)}
+              onToggle={(group) => handleGroupToggle(group.id)}
+              isDisabled={() => saving}
+              height={400}
+              loading={groupOptions.loading}
+              onEndReached={groupOptions.hasMore ? groupOptions.loadMore : undefined}
+              loadingMore={groupOptions.loadingMore}
+              emptyMessage="Nenhum grupo de acesso disponível."
+              renderLabel={(group) => (
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="body2" noWrap sx={{ fontWeight: 500 }}>
+                    {group.name}
+                    {group.groupTypeName && (
+                      <Chip label={group.groupTypeName} size="small" sx={{ ml: 1 }} />
+                    )}
+                    {!group.isActive && (
+                      <Chip
+                        label="Inativo"
+                        size="small"
+                        variant="outlined"
+                        color="warning"
+                        sx={{ ml: 1 }}
                       />
-                    ))}
-                  </FormGroup>
-                </AccordionDetails>
-              </Accordion>
-            ))}
+                    )}
+                  </Typography>
+                  {group.description && (
+                    <Typography variant="caption" color="text.secondary" noWrap component="div">
+                      {group.description}
+                    </Typography>
+                  )}
+                </Box>
+              )}
+            />
           </Box>
         )}
       </DialogContent>
@@ -355,7 +324,7 @@ export const RoleAccessGroups = ({
         <Button
           onClick={handleSave}
           variant="contained"
-          disabled={loading || saving || allGroups.length === 0}
+          disabled={loading || saving}
           startIcon={saving ? <CircularProgress size={16} /> : <SaveIcon />}
         >
           {saving ? 'Salvando...' : 'Salvar'}
@@ -8,6 +8,7 @@ import {
   Alert,
   Stack
 } from '@mui/material';
+import { ApplicationSelect } from '../../../shared/components';
 import type { Role, CreateRoleRequest, UpdateRoleRequest } from '../../../shared/types';
 
 interface RoleFormProps {
@@ -33,6 +34,7 @@ interface FormData {
  * - Formulário responsivo com validação
  * - Modo criação e edição
  * - Campos otimizados para role
+ * - Seleção da aplicação do role
  * - Validação em tempo real
  * - Estados de loading e error
  * - Auto-preenchimento para edição
@@ -197,11 +199,12 @@ export const RoleForm = ({
           applicationId: formData.applicationId,
         };
       } else {
-        // Para criação, só inclui campos básicos
+        // Para criação, só inclui campos básicos e a aplicação escolhida
         submitData = {
           name: formData.name.trim(),
           description: formData.description.trim(),
           code: formData.code.trim().toUpperCase() || undefined,
+          applicationId: formData.applicationId,
         };
       }
 
@@ -276,6 +279,15 @@ export const RoleForm = ({
           placeholder="Descreva as responsabilidades e funcionalidades deste role..."
         />
 
+        {/* Aplicação */}
+        <ApplicationSelect
+          value={formData.applicationId}
+          onChange={(applicationId) => setFormData(prev => ({ ...prev, applicationId }))}
+          helperText="Aplicação à qual o role pertence (opcional)"
+          disabled={loading}
+          activeOnly
+        />
+
         {/* Status (apenas para edição) */}
         {isEditing && (
           <FormControlLabel
@@ -21,7 +21,8 @@ import {
   ExpandMore as ExpandMoreIcon,
   Security as SecurityIcon,
   Save as SaveIcon,
-  Close as CloseIcon
+  Close as CloseIcon,
+  Block as DenyIcon
 } from '@mui/icons-material';
 import { useRoles } from '../hooks';
 import { PermissionService, ModuleService } from '../../../shared/services';
@@ -50,6 +51,7 @@ interface PermissionsByModule {
  * - Exibição hierárquica por módulo
  * - Seleção múltipla de permissões
  * - Visualização de operações por permissão
+ * - Destaque das negações, que prevalecem sobre concessões
  * - Estados de loading e error
  * - Integração com API via hooks
  * 
@@ -297,6 +299,10 @@ export const RolePermissions: React.FC<RolePermissionsProps> = ({
            !isModuleFullySelected(moduleId);
   };
 
+  const selectedDenyCount = allPermissions.filter(
+    p => p.effect === 'deny' && selectedPermissions.has(p.id)
+  ).length;
+
   // ========== RENDER ==========
 
   if (!role) return null;
@@ -346,6 +352,13 @@ export const RolePermissions: React.FC<RolePermissionsProps> = ({
               </Typography>
             </Box>
 
+            {selectedDenyCount > 0 && (
+              <Alert severity="warning" icon={<DenyIcon />} sx={{ mb: 2 }}>
+                {selectedDenyCount} negação(ões) selecionada(s). Negações prevalecem sobre concessões:
+                as operações negadas ficam bloqueadas para os usuários deste role, mesmo que outro role as conceda.
+              </Alert>
+            )}
+
             {Object.entries(permissionsByModule).map(([moduleId, group]) => (
               <Accordion key={moduleId} defaultExpanded>
                 <AccordionSummary expandIcon={<ExpandMoreIcon />}>
@@ -388,7 +401,7 @@ export const RolePermissions: React.FC<RolePermissionsProps> = ({
                           sx={{ 
                             p: 2, 
                             border: 1, 
-                            borderColor: 'divider', 
+                            borderColor: permission.effect === 'deny' ? 'error.light' : 'divider', 
                             borderRadius: 1,
                             bgcolor: selectedPermissions.has(permission.id) ? 'action.selected' : 'transparent'
                           }}
@@ -402,9 +415,20 @@ export const RolePermissions: React.FC<RolePermissionsProps> = ({
                             }
                             label={
                               <Box>
-                                <Typography variant="body2" fontWeight="medium">
-                                  {permission.name}
-                                </Typography>
+                                <Box display="flex" alignItems="center" gap={1}>
+                                  <Typography variant="body2" fontWeight="medium">
+                                    {permission.name}
+                                  </Typography>
+                                  {permission.effect === 'deny' && (
+                                    <Chip
+                                      icon={<DenyIcon />}
+                                      label="Negação"
+                                      size="small"
+                                      color="error"
+                                      sx={{ height: 20 }}
+                                    />
+                                  )}
+                                </Box>
                                 {permission.description && (
                                   <Typography variant="caption" color="text.secondary" display="block">
                                     {permission.description}
@@ -418,6 +442,7 @@ export const RolePermissions: React.FC<RolePermissionsProps> = ({
                                         label={op.value || op.name}
                                         size="small"
                                         variant="outlined"
+                                        color={permission.effect === 'deny' ? 'error' : 'default'}
                                         sx={{ fontSize: '0.6rem', height: 20 }}
                                       />
                                     ))}
@@ -1,17 +1,10 @@
 import { 
   Paper, 
-  Table, 
-  TableBody, 
-  TableCell, 
-  TableContainer, 
-  TableHead, 
-  TableRow,
   IconButton,
   Chip,
   Tooltip,
   Typography,
-  Box,
-  TablePagination
+  Box
 } from '@mui/material';
 import {
   Edit as EditIcon,
@@ -22,7 +15,11 @@ import {
   Security as SecurityIcon,
   Key as PermissionIcon
 } from '@mui/icons-material';
-import type { Role } from '../../../shared/types';
+import { DataTable } from '../../../shared/components/data-display/DataTable';
+import type { DataTableColumn } from '../../../shared/components/data-display/DataTable';
+import type { ListQuery, Role } from '../../../shared/types';
+import { hasActiveFilters } from '../../../shared/utils';
+import type { RowSelection } from '../../../shared/utils';
 
 interface RolesListProps {
   roles: Role[];
@@ -37,6 +34,14 @@ interface RolesListProps {
   currentPage: number;
   pageSize: number;
   onPageChange: (page: number) => void;
+  onPageSizeChange?: (pageSize: number) => void;
+  // Ordenação e filtros no servidor
+  listQuery?: ListQuery;
+  onListQueryChange?: (query: ListQuery) => void;
+  // Seleção
+  selection?: RowSelection;
+  onSelectionChange?: (selection: RowSelection) => void;
+  selectionActions?: React.ReactNode;
 }
 
 /**
@@ -46,6 +51,8 @@ interface RolesListProps {
  * - Tabela responsiva com dados dos roles
  * - Indicadores visuais de status (ativo/inativo)
  * - Ações inline (editar, deletar, toggle status)
+ * - Ordenação e filtros por coluna no servidor
+ * - Seleção de linhas (inclusive de todas as páginas)
  * - Paginação integrada
  * - Estados de loading
  * - Tooltips informativos
@@ -62,13 +69,165 @@ export const RolesList = ({
   currentPage,
   pageSize,
   onPageChange,
+  onPageSizeChange,
+  listQuery = {},
+  onListQueryChange,
+  selection,
+  onSelectionChange,
+  selectionActions,
 }: RolesListProps) => {
 
-  const handlePageChange = (_: unknown, newPage: number) => {
-    onPageChange(newPage + 1); // MUI usa 0-indexed, nossa API usa 1-indexed
-  };
+  const columns: DataTableColumn<Role>[] = [
+    {
+      id: 'name',
+      label: 'Nome',
+      minWidth: 180,
+      sortable: true,
+      filter: { type: 'text' },
+      format: (_, role) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <RoleIcon color="primary" fontSize="small" />
+          <Typography variant="body2" fontWeight="medium">
+            {role.name}
+          </Typography>
+        </Box>
+      ),
+    },
+    {
+      id: 'description',
+      label: 'Descrição',
+      minWidth: 200,
+      format: (_, role) => (
+        <Typography variant="body2" color="text.secondary">
+          {role.description || '-'}
+        </Typography>
+      ),
+    },
+    {
+      id: 'code',
+      label: 'Código',
+      minWidth: 120,
+      sortable: true,
+      filter: { type: 'text' },
+      format: (_, role) => (
+        role.code ? (
+          <Chip 
+            label={role.code} 
+            size="small" 
+            variant="outlined"
+            color="primary"
+          />
+        ) : (
+          <Typography variant="body2" color="text.secondary">-</Typography>
+        )
+      ),
+    },
+    {
+      id: 'isActive',
+      label: 'Status',
+      minWidth: 110,
+      sortable: true,
+      filter: { type: 'boolean', trueLabel: 'Ativo', falseLabel: 'Inativo' },
+      format: (_, role) => (
+        <Chip
+          label={role.isActive ? 'Ativo' : 'Inativo'}
+          color={role.isActive ? 'success' : 'default'}
+          size="small"
+          variant={role.isActive ? 'filled' : 'outlined'}
+        />
+      ),
+    },
+    {
+      id: 'createdAt',
+      label: 'Criado em',
+      minWidth: 120,
+      sortable: true,
+      filter: { type: 'dateRange' },
+      format: (_, role) => (
+        <Typography variant="body2" color="text.secondary">
+          {new Date(role.createdAt).toLocaleDateString('pt-BR')}
+        </Typography>
+      ),
+    },
+    {
+      id: 'actions',
+      label: 'Ações',
+      minWidth: 200,
+      align: 'right',
+      format: (_, role) => (
+        <Box sx={{ display: 'flex', gap: 0.5, justifyContent: 'flex-end' }}>
+          
+          {/* Gerenciar Permissões */}
+          {onManagePermissions && (
+            <Tooltip title="Gerenciar permissões">
+              <IconButton
+                size="small"
+                onClick={() => onManagePermissions(role)}
+                color="secondary"
+                disabled={loading}
+              >
+                <PermissionIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+
+          {/* Gerenciar Grupos de Acesso */}
+          {onManageGroups && (
+            <Tooltip title="Gerenciar grupos de acesso">
+              <IconButton
+                size="small"
+                onClick={() => onManageGroups(role)}
+                color="info"
+                disabled={loading}
+              >
+                <SecurityIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+
+          {/* Toggle Status */}
+          <Tooltip title={role.isActive ? 'Desativar role' : 'Ativar role'}>
+            <IconButton
+              size="small"
+              onClick={() => onToggleStatus(role)}
+              color={role.isActive ? 'warning' : 'success'}
+              disabled={loading}
+            >
+              {role.isActive ? <ActiveIcon /> : <InactiveIcon />}
+            </IconButton>
+          </Tooltip>
+
+          {/* Editar */}
+          <Tooltip title="Editar role">
+            <IconButton
+              size="small"
+              onClick={() => onEdit(role)}
+              color="primary"
+              disabled={loading}
+            >
+              <EditIcon />
+            </IconButton>
+          </Tooltip>
 
-  if (roles.length === 0 && !loading) {
+          {/* Deletar */}
+          <Tooltip title="Excluir role">
+            <IconButton
+              size="small"
+              onClick={() => onDelete(role)}
+              color="error"
+              disabled={loading}
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Tooltip>
+
+        </Box>
+      ),
+    },
+  ];
+
+  // Com filtros ativos a tabela continua visível para que possam ser ajustados
+  if (roles.length === 0 && !loading && !hasActiveFilters(listQuery.filters)) {
     return (
       <Paper sx={{ p: 4, textAlign: 'center' }}>
         <RoleIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
@@ -83,168 +242,30 @@ export const RolesList = ({
   }
 
   return (
-    <Paper>
-      <TableContainer>
-        <Table>
-          <TableHead>
-            <TableRow>
-              <TableCell>Nome</TableCell>
-              <TableCell>Descrição</TableCell>
-              <TableCell>Código</TableCell>
-              <TableCell>Status</TableCell>
-              <TableCell>Criado em</TableCell>
-              <TableCell align="right">Ações</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {roles.map((role) => (
-              <TableRow 
-                key={role.id} 
-                hover
-                sx={{ 
-                  '&:last-child td, &:last-child th': { border: 0 },
-                  opacity: role.isActive ? 1 : 0.6
-                }}
-              >
-                <TableCell>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                    <RoleIcon color="primary" fontSize="small" />
-                    <Typography variant="body2" fontWeight="medium">
-                      {role.name}
-                    </Typography>
-                  </Box>
-                </TableCell>
-                
-                <TableCell>
-                  <Typography variant="body2" color="text.secondary">
-                    {role.description || '-'}
-                  </Typography>
-                </TableCell>
-                
-                <TableCell>
-                  {role.code ? (
-                    <Chip 
-                      label={role.code} 
-                      size="small" 
-                      variant="outlined"
-                      color="primary"
-                    />
-                  ) : (
-                    <Typography variant="body2" color="text.secondary">-</Typography>
-                  )}
-                </TableCell>
-                
-                <TableCell>
-                  <Chip
-                    label={role.isActive ? 'Ativo' : 'Inativo'}
-                    color={role.isActive ? 'success' : 'default'}
-                    size="small"
-                    variant={role.isActive ? 'filled' : 'outlined'}
-                  />
-                </TableCell>
-                
-                <TableCell>
-                  <Typography variant="body2" color="text.secondary">
-                    {new Date(role.createdAt).toLocaleDateString('pt-BR')}
-                  </Typography>
-                </TableCell>
-                
-                <TableCell align="right">
-                  <Box sx={{ display: 'flex', gap: 0.5, justifyContent: 'flex-end' }}>
-                    
-                    {/* Gerenciar Permissões */}
-                    {onManagePermissions && (
-                      <Tooltip title="Gerenciar permissões">
-                        <IconButton
-                          size="small"
-                          onClick={() => onManagePermissions(role)}
-                          color="secondary"
-                          disabled={loading}
-                        >
-                          <PermissionIcon />
-                        </IconButton>
-                      </Tooltip>
-                    )}
-
-                    {/* Gerenciar Grupos de Acesso */}
-                    {onManageGroups && (
-                      <Tooltip title="Gerenciar grupos de acesso">
-                        <IconButton
-                          size="small"
-                          onClick={() => onManageGroups(role)}
-                          color="info"
-                          disabled={loading}
-                        >
-                          <SecurityIcon />
-                        </IconButton>
-                      </Tooltip>
-                    )}
-
-                    {/* Toggle Status */}
-                    <Tooltip title={role.isActive ? 'Desativar role' : 'Ativar role'}>
-                      <IconButton
-                        size="small"
-                        onClick={() => onToggleStatus(role)}
-                        color={role.isActive ? 'warning' : 'success'}
-                        disabled={loading}
-                      >
-                        {role.isActive ? <ActiveIcon /> : <InactiveIcon />}
-                      </IconButton>
-                    </Tooltip>
-
-                    {/* Editar */}
-                    <Tooltip title="Editar role">
-                      <IconButton
-                        size="small"
-                        onClick={() => onEdit(role)}
-                        color="primary"
-                        disabled={loading}
-                      >
-                        <EditIcon />
-                      </IconButton>
-                    </Tooltip>
-
-                    {/* Deletar */}
-                    <Tooltip title="Excluir role">
-                      <IconButton
-                        size="small"
-                        onClick={() => onDelete(role)}
-                        color="error"
-                        disabled={loading}
-                      >
-                        <DeleteIcon />
-                      </IconButton>
-                    </Tooltip>
-
-                  </Box>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
-
-      {/* Paginação */}
-      <TablePagination
-        component="div"
-        count={totalItems}
-        page={currentPage - 1} // MUI usa 0-indexed
-        onPageChange={handlePageChange}
-        rowsPerPage={pageSize}
-        rowsPerPageOptions={[]} // Desabilita a opção de mudar rows per page
-        labelDisplayedRows={({ from, to, count }) => 
-          `${from}–${to} de ${count !== -1 ? count : `mais de ${to}`}`
-        }
-        labelRowsPerPage=""
-        sx={{
-          borderTop: 1,
-          borderColor: 'divider',
-          '& .MuiTablePagination-toolbar': {
-            pl: 2,
-            pr: 1,
-          },
-        }}
-      />
-    </Paper>
+    <DataTable
+      columns={columns}
+      data={roles}
+      emptyMessage="Nenhum role atende aos filtros"
+      maxHeight={600}
+      loading={loading}
+      rowKey="id"
+      rowSx={(role) => ({ opacity: role.isActive ? 1 : 0.6 })}
+      showPagination
+      page={currentPage - 1} // MUI usa 0-indexed, nossa API usa 1-indexed
+      rowsPerPage={pageSize}
+      totalCount={totalItems}
+      onPageChange={(_, newPage) => onPageChange(newPage + 1)}
+      onRowsPerPageChange={(event) => onPageSizeChange?.(parseInt(event.target.value, 10))}
+      rowsPerPageOptions={onPageSizeChange ? [5, 10, 25, 50] : []}
+      sortBy={listQuery.sortBy}
+      sortDirection={listQuery.sortDirection}
+      onSortChange={onListQueryChange && ((sort) => onListQueryChange({ ...listQuery, ...sort }))}
+      filters={listQuery.filters}
+      onFiltersChange={onListQueryChange && ((filters) => onListQueryChange({ ...listQuery, filters }))}
+      selectable={!!onSelectionChange}
+      selection={selection}
+      onSelectionChange={onSelectionChange}
+      selectionActions={selectionActions}
+    />
   );
-};
\ No newline at end of file
+};
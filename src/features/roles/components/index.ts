@@ -1,5 +1,6 @@
 // Exporta todos os componentes relacionados a Roles
 export { RolesList } from './RolesList';
+export { ROLE_FILTER_TYPES } from './table-columns';
 export { RoleForm } from './RoleForm';
 export { RoleDialog } from './RoleDialog';
 export { RoleAccessGroups } from './RoleAccessGroups';
@@ -0,0 +1,7 @@
+import type { ColumnFilterTypes } from '../../../shared/types';
+
+// Filtros que não são texto, para ler a URL com o tipo da coluna
+export const ROLE_FILTER_TYPES: ColumnFilterTypes = {
+  isActive: 'boolean',
+  createdAt: 'dateRange',
+};
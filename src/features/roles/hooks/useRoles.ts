@@ -1,10 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { RoleService } from '../../../shared/services';
-import type { Role, CreateRoleRequest, UpdateRoleRequest, AccessGroup, Permission } from '../../../shared/types';
+import type { Role, CreateRoleRequest, UpdateRoleRequest, AccessGroup, Permission, ListQuery, ListState } from '../../../shared/types';
+import { PERMISSION_QUERY_KEYS, ROLE_QUERY_KEYS } from '../../../shared/constants';
+import { useEffectivePermissionsInvalidation, useQueryError } from '../../../shared/hooks';
+import { applyOptimisticUpdate, fetchAllPages, getQueryErrorMessage, rollbackOptimisticUpdate } from '../../../shared/utils';
 
 interface UseRolesOptions {
   autoLoad?: boolean;
   pageSize?: number;
+  // Página, tamanho, busca, ordenação e filtros controlados pela página (ex: useListUrlState)
+  listState?: ListState;
 }
 
 interface UseRolesResult {
@@ -15,6 +21,9 @@ interface UseRolesResult {
   totalItems: number;
   currentPage: number;
   totalPages: number;
+  applicationFilter?: string;
+  pageSize: number;
+  listQuery: ListQuery;
 
   // Ações CRUD
   loadRoles: (page?: number) => Promise<void>;
@@ -22,6 +31,10 @@ interface UseRolesResult {
   updateRole: (id: string, role: UpdateRoleRequest) => Promise<Role>;
   deleteRole: (id: string) => Promise<void>;
   toggleStatus: (role: Role) => Promise<Role>;
+  setApplicationFilter: (applicationId: string | undefined) => void;
+  setPageSize: (pageSize: number) => void;
+  setListQuery: (query: ListQuery) => void;
+  fetchAllMatching: () => Promise<Role[]>;
   clearError: () => void;
   refetch: () => Promise<void>;
 
@@ -36,202 +49,264 @@ interface UseRolesResult {
   removePermissionsFromRole: (roleId: string, permissionIds: string[]) => Promise<void>;
 }
 
+type RolesPage = Awaited<ReturnType<typeof RoleService.getRoles>>;
+
+interface RoleAssignment {
+  roleId: string;
+  ids: string[];
+}
+
 /**
  * Hook personalizado para gerenciar roles
  * Centraliza toda a lógica de estado e operações CRUD dos roles
- * 
+ *
  * Features:
  * - Carregamento automático opcional
  * - Paginação integrada
+ * - Filtro por aplicação
+ * - Ordenação e filtros por coluna no servidor
+ * - Estado da listagem controlado pela página (query string) ou interno
  * - Estados de loading e error
  * - Operações CRUD completas
- * - Toggle de status ativo/inativo
- * - Cache local dos dados
- * 
+ * - Toggle de status ativo/inativo com atualização otimista
+ * - Cache do React Query por página, busca, ordenação e filtros (ROLE_QUERY_KEYS)
+ * - Alterações invalidam as listagens, as permissões dos roles e as permissões efetivas
+ *
  * @param options - Configurações do hook
  */
 export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
   // Configurações padrão
-  const { autoLoad = true, pageSize = 10 } = options;
+  const { autoLoad = true, pageSize: initialPageSize = 10, listState } = options;
+  const queryClient = useQueryClient();
+  const invalidateEffectivePermissions = useEffectivePermissionsInvalidation();
 
   // Estados
-  const [roles, setRoles] = useState<Role[]>([]);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [totalItems, setTotalItems] = useState<number>(0);
-  const [currentPage, setCurrentPage] = useState<number>(1);
-  const [totalPages, setTotalPages] = useState<number>(0);
-
-  /**
-   * Limpa mensagens de erro
-   */
-  const clearError = useCallback(() => {
-    setError(null);
-  }, []);
-
-  /**
-   * Carrega roles com paginação
-   */
-  const loadRoles = useCallback(async (page: number = 1) => {
-    setLoading(true);
-    setError(null);
+  const [enabled, setEnabled] = useState<boolean>(autoLoad);
+  const [localPage, setLocalPage] = useState<number>(1);
+  const [applicationFilter, setLocalApplicationFilter] = useState<string | undefined>(undefined);
+  const [localPageSize, setLocalPageSize] = useState<number>(initialPageSize);
+  const [localListQuery, setLocalListQuery] = useState<ListQuery>({});
+
+  // Estado controlado pela página tem precedência sobre o interno
+  const pageSize = listState?.pageSize ?? localPageSize;
+  const listQuery = listState?.listQuery ?? localListQuery;
+  const search = listState?.search.trim() || undefined;
+  const page = listState?.page ?? localPage;
+
+  // ========== LISTAGEM ==========
+
+  const {
+    data,
+    error: queryError,
+    isFetching,
+    refetch: refetchRoles,
+  } = useQuery({
+    queryKey: ROLE_QUERY_KEYS.list({ page, pageSize, search, listQuery, applicationId: applicationFilter }),
+    queryFn: async () => {
+      console.log('🔄 useRoles: Carregando roles...', { page, pageSize, search, applicationFilter, listQuery });
 
-    try {
-      console.log('🔄 useRoles: Carregando roles...', { page, pageSize });
-      
       const response = await RoleService.getRoles({
         page,
-        limit: pageSize
+        limit: pageSize,
+        search,
+        applicationId: applicationFilter,
+        ...listQuery
       });
 
       console.log('✅ useRoles: Roles carregados:', response);
+      return response;
+    },
+    enabled,
+    // Mantém a página anterior visível enquanto a próxima carrega
+    placeholderData: keepPreviousData,
+  });
 
-      setRoles(response.items || []);
-      setCurrentPage(response.page || page);
-      setTotalItems(response.total || 0);
-      setTotalPages(response.totalPages || 0);
-      
-    } catch (err: any) {
-      console.error('❌ useRoles: Erro ao carregar roles:', err);
-      setError(err.message || 'Erro ao carregar roles');
-      setRoles([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [pageSize]);
+  const { error, setError, clearError } = useQueryError(queryError, 'Erro ao carregar roles');
+
+  const roles = data?.items ?? [];
+
+  /**
+   * Carrega roles com paginação (com listState, a página vem do estado controlado)
+   */
+  const loadRoles = useCallback(async (nextPage: number = 1) => {
+    setEnabled(true);
+    setLocalPage(nextPage);
+    await queryClient.invalidateQueries({ queryKey: ROLE_QUERY_KEYS.lists() });
+  }, [queryClient]);
+
+  // Mudanças de filtro ou tamanho voltam para a primeira página
+  const setApplicationFilter = useCallback((applicationId: string | undefined) => {
+    setLocalApplicationFilter(applicationId);
+    setLocalPage(1);
+  }, []);
+
+  const setPageSize = useCallback((size: number) => {
+    setLocalPageSize(size);
+    setLocalPage(1);
+  }, []);
+
+  const setListQuery = useCallback((query: ListQuery) => {
+    setLocalListQuery(query);
+    setLocalPage(1);
+  }, []);
+
+  /**
+   * Busca todos os roles que atendem aos filtros atuais (ex: seleção de todas as páginas)
+   */
+  const fetchAllMatching = useCallback(() => fetchAllPages(async (pageNumber, limit) => {
+    const response = await RoleService.getRoles({ page: pageNumber, limit, search, applicationId: applicationFilter, ...listQuery });
+    return { items: response.items || [], totalPages: response.totalPages };
+  }), [search, applicationFilter, listQuery]);
+
+  // ========== MUTATIONS ==========
+
+  // Roles concedem permissões: qualquer alteração muda as permissões efetivas de quem os recebe
+  const invalidateRoles = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ROLE_QUERY_KEYS.lists() }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: createRoleMutation, isPending: creating } = useMutation({
+    mutationFn: (roleData: CreateRoleRequest) => RoleService.createRole(roleData),
+    onSuccess: invalidateRoles,
+  });
+
+  const { mutateAsync: updateRoleMutation, isPending: updating } = useMutation({
+    mutationFn: ({ id, roleData }: { id: string; roleData: UpdateRoleRequest }) => RoleService.updateRole(id, roleData),
+    onSuccess: invalidateRoles,
+  });
+
+  const { mutateAsync: deleteRoleMutation, isPending: deleting } = useMutation({
+    mutationFn: (id: string) => RoleService.deleteRole(id),
+    onSuccess: invalidateRoles,
+  });
+
+  // O novo status aparece na hora; em caso de erro a listagem volta ao estado anterior
+  const { mutateAsync: toggleStatusMutation } = useMutation({
+    mutationFn: (role: Role) => RoleService.toggleRoleStatus(role),
+    onMutate: (role: Role) => applyOptimisticUpdate<RolesPage>(queryClient, ROLE_QUERY_KEYS.lists(), rolesPage => ({
+      ...rolesPage,
+      items: rolesPage.items.map(r => (r.id === role.id ? { ...r, isActive: !role.isActive } : r)),
+    })),
+    onError: (_err, _role, snapshot) => rollbackOptimisticUpdate(queryClient, snapshot),
+    onSettled: invalidateRoles,
+  });
 
   /**
    * Cria um novo role
    */
   const createRole = useCallback(async (roleData: CreateRoleRequest): Promise<Role> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useRoles: Criando novo role...', roleData);
-      
-      const newRole = await RoleService.createRole(roleData);
-      
-      console.log('✅ useRoles: Role criado:', newRole);
 
-      // Recarrega a lista para refletir mudanças
-      await loadRoles(currentPage);
-      
+      const newRole = await createRoleMutation(roleData);
+
+      console.log('✅ useRoles: Role criado:', newRole);
       return newRole;
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao criar role:', err);
-      setError(err.message || 'Erro ao criar role');
+      setError(getQueryErrorMessage(err, 'Erro ao criar role'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, [loadRoles, currentPage]);
+  }, [createRoleMutation, setError]);
 
   /**
    * Atualiza um role existente
    */
   const updateRole = useCallback(async (id: string, roleData: UpdateRoleRequest): Promise<Role> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useRoles: Atualizando role...', { id, roleData });
-      
-      const updatedRole = await RoleService.updateRole(id, roleData);
-      
-      console.log('✅ useRoles: Role atualizado:', updatedRole);
 
-      // Atualiza o role na lista local
-      setRoles(prev => prev.map(role => 
-        role.id === id ? updatedRole : role
-      ));
-      
+      const updatedRole = await updateRoleMutation({ id, roleData });
+
+      console.log('✅ useRoles: Role atualizado:', updatedRole);
       return updatedRole;
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao atualizar role:', err);
-      setError(err.message || 'Erro ao atualizar role');
+      setError(getQueryErrorMessage(err, 'Erro ao atualizar role'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [updateRoleMutation, setError]);
 
   /**
    * Remove um role
    */
   const deleteRole = useCallback(async (id: string): Promise<void> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useRoles: Removendo role...', id);
-      
-      await RoleService.deleteRole(id);
-      
+
+      await deleteRoleMutation(id);
+
       console.log('✅ useRoles: Role removido:', id);
 
-      // Remove o role da lista local
-      setRoles(prev => prev.filter(role => role.id !== id));
-      
-      // Se a página atual ficou vazia e não é a primeira, volta uma página
-      const remainingItems = roles.length - 1;
-      if (remainingItems === 0 && currentPage > 1) {
-        await loadRoles(currentPage - 1);
-      } else {
-        // Atualiza o total de itens
-        setTotalItems(prev => Math.max(0, prev - 1));
+      // Se a página atual ficou vazia e não é a primeira, volta uma página (estado interno)
+      if (!listState && roles.length === 1 && localPage > 1) {
+        setLocalPage(localPage - 1);
       }
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao remover role:', err);
-      setError(err.message || 'Erro ao remover role');
+      setError(getQueryErrorMessage(err, 'Erro ao remover role'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, [roles.length, currentPage, loadRoles]);
+  }, [deleteRoleMutation, setError, listState, roles.length, localPage]);
 
   /**
    * Alterna o status ativo/inativo de um role
    */
   const toggleStatus = useCallback(async (role: Role): Promise<Role> => {
-    setLoading(true);
     setError(null);
 
     try {
-      console.log('🔄 useRoles: Alternando status do role...', { 
-        id: role.id, 
-        currentStatus: role.isActive 
+      console.log('🔄 useRoles: Alternando status do role...', {
+        id: role.id,
+        currentStatus: role.isActive
       });
-      
-      const updatedRole = await RoleService.toggleRoleStatus(role);
-      
-      console.log('✅ useRoles: Status do role alterado:', updatedRole);
 
-      // Atualiza o role na lista local
-      setRoles(prev => prev.map(r => 
-        r.id === role.id ? updatedRole : r
-      ));
-      
+      const updatedRole = await toggleStatusMutation(role);
+
+      console.log('✅ useRoles: Status do role alterado:', updatedRole);
       return updatedRole;
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao alterar status do role:', err);
-      setError(err.message || 'Erro ao alterar status do role');
+      setError(getQueryErrorMessage(err, 'Erro ao alterar status do role'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [toggleStatusMutation, setError]);
 
   /**
    * Recarrega os dados da página atual
    */
   const refetch = useCallback(async () => {
-    await loadRoles(currentPage);
-  }, [loadRoles, currentPage]);
+    await refetchRoles();
+  }, [refetchRoles]);
+
+  // ========== GRUPOS DE ACESSO ==========
+
+  // Grupos do role e permissões efetivas dos membros desses grupos
+  const invalidateRoleAccessGroups = useCallback((roleId: string) => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ROLE_QUERY_KEYS.accessGroups(roleId) }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: assignAccessGroupsMutation } = useMutation({
+    mutationFn: ({ roleId, ids }: RoleAssignment) => RoleService.assignAccessGroupsToRole(roleId, ids),
+    onSuccess: (_data, { roleId }) => invalidateRoleAccessGroups(roleId),
+  });
+
+  const { mutateAsync: removeAccessGroupsMutation } = useMutation({
+    mutationFn: ({ roleId, ids }: RoleAssignment) => RoleService.removeAccessGroupsFromRole(roleId, ids),
+    onSuccess: (_data, { roleId }) => invalidateRoleAccessGroups(roleId),
+  });
 
   /**
    * Busca grupos de acesso associados a um role
@@ -239,17 +314,20 @@ export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
   const getRoleAccessGroups = useCallback(async (roleId: string): Promise<AccessGroup[]> => {
     try {
       console.log('🔄 useRoles: Buscando grupos de acesso do role...', roleId);
-      
-      const groups = await RoleService.getAccessGroupsByRole(roleId);
-      
+
+      const groups = await queryClient.fetchQuery({
+        queryKey: ROLE_QUERY_KEYS.accessGroups(roleId),
+        queryFn: () => RoleService.getAccessGroupsByRole(roleId),
+      });
+
       console.log('✅ useRoles: Grupos de acesso encontrados:', groups.length);
       return groups;
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao buscar grupos de acesso:', err);
-      throw new Error(err.message || 'Erro ao buscar grupos de acesso do role');
+      throw new Error(getQueryErrorMessage(err, 'Erro ao buscar grupos de acesso do role'));
     }
-  }, []);
+  }, [queryClient]);
 
   /**
    * Atribui grupos de acesso a um role
@@ -257,16 +335,16 @@ export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
   const assignAccessGroupsToRole = useCallback(async (roleId: string, accessGroupIds: string[]): Promise<void> => {
     try {
       console.log('🔄 useRoles: Atribuindo grupos de acesso ao role...', { roleId, count: accessGroupIds.length });
-      
-      await RoleService.assignAccessGroupsToRole(roleId, accessGroupIds);
-      
+
+      await assignAccessGroupsMutation({ roleId, ids: accessGroupIds });
+
       console.log('✅ useRoles: Grupos de acesso atribuídos com sucesso');
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao atribuir grupos de acesso:', err);
-      throw new Error(err.message || 'Erro ao atribuir grupos de acesso ao role');
+      throw new Error(getQueryErrorMessage(err, 'Erro ao atribuir grupos de acesso ao role'));
     }
-  }, []);
+  }, [assignAccessGroupsMutation]);
 
   /**
    * Remove grupos de acesso de um role
@@ -274,36 +352,56 @@ export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
   const removeAccessGroupsFromRole = useCallback(async (roleId: string, accessGroupIds: string[]): Promise<void> => {
     try {
       console.log('🔄 useRoles: Removendo grupos de acesso do role...', { roleId, count: accessGroupIds.length });
-      
-      await RoleService.removeAccessGroupsFromRole(roleId, accessGroupIds);
-      
+
+      await removeAccessGroupsMutation({ roleId, ids: accessGroupIds });
+
       console.log('✅ useRoles: Grupos de acesso removidos com sucesso');
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao remover grupos de acesso:', err);
-      throw new Error(err.message || 'Erro ao remover grupos de acesso do role');
+      throw new Error(getQueryErrorMessage(err, 'Erro ao remover grupos de acesso do role'));
     }
-  }, []);
+  }, [removeAccessGroupsMutation]);
 
   // ========== PERMISSÕES ==========
 
+  // Permissões do role, listagens de permissões filtradas por role e permissões efetivas
+  const invalidateRolePermissions = useCallback((roleId: string) => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ROLE_QUERY_KEYS.permissions(roleId) }),
+    queryClient.invalidateQueries({ queryKey: PERMISSION_QUERY_KEYS.lists() }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: assignPermissionsMutation } = useMutation({
+    mutationFn: ({ roleId, ids }: RoleAssignment) => RoleService.assignPermissionsToRole(roleId, ids),
+    onSuccess: (_data, { roleId }) => invalidateRolePermissions(roleId),
+  });
+
+  const { mutateAsync: removePermissionsMutation } = useMutation({
+    mutationFn: ({ roleId, ids }: RoleAssignment) => RoleService.removePermissionsFromRole(roleId, ids),
+    onSuccess: (_data, { roleId }) => invalidateRolePermissions(roleId),
+  });
+
   /**
    * Busca permissões de um role
    */
   const getRolePermissions = useCallback(async (roleId: string): Promise<Permission[]> => {
     try {
       console.log('🔄 useRoles: Buscando permissões do role...', roleId);
-      
-      const permissions = await RoleService.getPermissionsByRole(roleId);
-      
+
+      const permissions = await queryClient.fetchQuery({
+        queryKey: ROLE_QUERY_KEYS.permissions(roleId),
+        queryFn: () => RoleService.getPermissionsByRole(roleId),
+      });
+
       console.log('✅ useRoles: Permissões encontradas:', permissions.length);
       return permissions;
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao buscar permissões:', err);
-      throw new Error(err.message || 'Erro ao buscar permissões do role');
+      throw new Error(getQueryErrorMessage(err, 'Erro ao buscar permissões do role'));
     }
-  }, []);
+  }, [queryClient]);
 
   /**
    * Atribui permissões a um role
@@ -311,16 +409,16 @@ export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
   const assignPermissionsToRole = useCallback(async (roleId: string, permissionIds: string[]): Promise<void> => {
     try {
       console.log('🔄 useRoles: Atribuindo permissões ao role...', { roleId, count: permissionIds.length });
-      
-      await RoleService.assignPermissionsToRole(roleId, permissionIds);
-      
+
+      await assignPermissionsMutation({ roleId, ids: permissionIds });
+
       console.log('✅ useRoles: Permissões atribuídas com sucesso');
-      
-    } catch (err: any) {
+
+    } catch (err) {
       console.error('❌ useRoles: Erro ao atribuir permissões:', err);
-      throw new Error(err.message || 'Erro ao atribuir permissões ao role');
+      throw new Error(getQueryErrorMessage(err, 'Erro ao atribuir permissões ao role'));
     }
-  }, []);
+  }, [assignPermissionsMutation]);
 
   /**
    * Remove permissões de um role
@@ -328,32 +426,28 @@ export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
   const removePermissionsFromRole = useCallback(async (roleId: string, permissionIds: string[]): Promise<void> => {
     try {
       console.log('🔄 useRoles: Removendo permissões do role...', { roleId, count: permissionIds.length });
-      
-      await RoleService.removePermissionsFromRole(roleId, permissionIds);
-      
+
+      await removePermissionsMutation({ roleId, ids: permissionIds });
+
       console.log('✅ useRoles: Permissões removidas com sucesso');
-      
-    } catch (err: any) {
-      console.error('❌ useRoles: Erro ao remover permissões:', err);
-      throw new Error(err.message || 'Erro ao remover permissões do role');
-    }
-  }, []);
 
-  // Carregamento automático na inicialização
-  useEffect(() => {
-    if (autoLoad) {
-      loadRoles(1);
+    } catch (err) {
+      console.error('❌ useRoles: Erro ao remover permissões:', err);
+      throw new Error(getQueryErrorMessage(err, 'Erro ao remover permissões do role'));
     }
-  }, [autoLoad, loadRoles]);
+  }, [removePermissionsMutation]);
 
   return {
     // Estado
     roles,
-    loading,
+    loading: isFetching || creating || updating || deleting,
     error,
-    totalItems,
-    currentPage,
-    totalPages,
+    totalItems: data?.total ?? 0,
+    currentPage: data?.page ?? page,
+    totalPages: data?.totalPages ?? 0,
+    applicationFilter,
+    pageSize,
+    listQuery,
 
     // Ações CRUD
     loadRoles,
@@ -361,6 +455,10 @@ export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
     updateRole,
     deleteRole,
     toggleStatus,
+    setApplicationFilter,
+    setPageSize,
+    setListQuery,
+    fetchAllMatching,
     clearError,
     refetch,
 
@@ -374,4 +472,4 @@ export const useRoles = (options: UseRolesOptions = {}): UseRolesResult => {
     assignPermissionsToRole,
     removePermissionsFromRole,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import {
+  PageHeader,
+  ResponsiveContainer,
+  StyledCard
+} from '../../shared/components';
+import {
+  Add as AddIcon,
+  Business as TenantIcon,
+  Search as SearchIcon
+} from '@mui/icons-material';
+import {
+  Typography,
+  Box,
+  CircularProgress,
+  Alert,
+  Button,
+  Paper,
+  TextField,
+  InputAdornment
+} from '@mui/material';
+import { TenantsList, TenantDialog } from './components';
+import { useTenants } from './hooks';
+import { useListUrlState } from '../../shared/hooks';
+import { usePermissions } from '../../shared/stores';
+import { ModuleKey } from '../../shared/types/permission.types';
+import type {
+  Tenant,
+  TenantSummary,
+  CreateTenantRequest,
+  UpdateTenantRequest
+} from '../../shared/types';
+
+const PAGE_SIZE = 10;
+
+/**
+ * Página de Tenants
+ * Gerencia os tenants (clientes) da plataforma
+ * Protegida por permissões de módulo TENANT_MODULE
+ */
+export const TenantsPage = () => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTenant, setEditingTenant] = useState<Tenant | null>(null);
+
+  // Página e busca na query string (recarregar, compartilhar e voltar/avançar)
+  const listUrl = useListUrlState({ defaultPageSize: PAGE_SIZE });
+
+  // Hook de permissões para controle de acesso
+  const { canCreate, canUpdate, canDelete, hasAccess } = usePermissions();
+
+  const {
+    tenants,
+    loading,
+    error,
+    totalItems,
+    currentPage,
+    getTenant,
+    createTenant,
+    updateTenant,
+    deleteTenant,
+    toggleStatus,
+    clearError,
+  } = useTenants({
+    autoLoad: true,
+    pageSize: PAGE_SIZE,
+    listState: listUrl.state
+  });
+
+  // Verificar se tem permissão básica para visualizar
+  if (!hasAccess(ModuleKey.TENANT_MODULE, 'SELECT')) {
+    return (
+      <ResponsiveContainer>
+        <Box sx={{ textAlign: 'center', py: 8 }}>
+          <TenantIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
+          <Typography variant="h6" color="text.secondary" gutterBottom>
+            Acesso Negado
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Você não tem permissão para visualizar tenants.
+          </Typography>
+        </Box>
+      </ResponsiveContainer>
+    );
+  }
+
+  /**
+   * Abre dialog para criar novo tenant
+   */
+  const handleCreateTenant = () => {
+    setEditingTenant(null);
+    setDialogOpen(true);
+  };
+
+  /**
+   * Carrega os dados completos e abre dialog para editar tenant existente
+   */
+  const handleEditTenant = async (tenant: TenantSummary) => {
+    try {
+      const fullTenant = await getTenant(tenant.id);
+      setEditingTenant(fullTenant);
+      setDialogOpen(true);
+    } catch (err) {
+      console.error('Erro ao carregar tenant:', err);
+    }
+  };
+
+  /**
+   * Remove um tenant com confirmação
+   */
+  const handleDeleteTenant = async (tenant: TenantSummary) => {
+    const confirmed = window.confirm(
+      `Tem certeza que deseja excluir o tenant "${tenant.name}"?\n\n` +
+      `Esta ação não pode ser desfeita e remove o acesso de todos os usuários deste tenant.`
+    );
+
+    if (confirmed) {
+      try {
+        await deleteTenant(tenant.id);
+      } catch (err) {
+        console.error('Erro ao deletar tenant:', err);
+      }
+    }
+  };
+
+  /**
+   * Alterna status ativo/inativo do tenant
+   */
+  const handleToggleStatus = async (tenant: TenantSummary) => {
+    try {
+      await toggleStatus(tenant);
+    } catch (err) {
+      console.error('Erro ao alterar status do tenant:', err);
+    }
+  };
+
+  /**
+   * Submete formulário do dialog (criar ou atualizar)
+   */
+  const handleDialogSubmit = async (data: CreateTenantRequest | UpdateTenantRequest): Promise<void> => {
+    if (editingTenant) {
+      await updateTenant(editingTenant.id, data as UpdateTenantRequest);
+    } else {
+      await createTenant(data as CreateTenantRequest);
+    }
+
+    setDialogOpen(false);
+    setEditingTenant(null);
+  };
+
+  /**
+   * Fecha dialog e limpa estado
+   */
+  const handleDialogClose = () => {
+    setDialogOpen(false);
+    setEditingTenant(null);
+    clearError();
+  };
+
+  const canUpdateTenants = canUpdate(ModuleKey.TENANT_MODULE);
+
+  return (
+    <ResponsiveContainer>
+
+      {/* Header da página */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <PageHeader
+          title="Tenants"
+          subtitle="Gerenciamento dos clientes da plataforma"
+          icon={<TenantIcon />}
+        />
+
+        {canCreate(ModuleKey.TENANT_MODULE) && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleCreateTenant}
+            disabled={loading}
+          >
+            Novo Tenant
+          </Button>
+        )}
+      </Box>
+
+      {/* Busca */}
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <TextField
+          placeholder="Buscar por nome, slug ou e-mail..."
+          value={listUrl.searchInput}
+          onChange={(e) => listUrl.setSearchInput(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+          fullWidth
+          size="small"
+        />
+      </Paper>
+
+      {/* Conteúdo principal */}
+      <Box sx={{ mt: 3 }}>
+
+        {/* Estados de loading geral */}
+        {loading && tenants.length === 0 && (
+          <StyledCard>
+            <Box sx={{ textAlign: 'center', py: 6 }}>
+              <CircularProgress size={40} />
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                Carregando tenants...
+              </Typography>
+            </Box>
+          </StyledCard>
+        )}
+
+        {/* Estados de erro */}
+        {error && (
+          <Alert
+            severity="error"
+            onClose={clearError}
+            sx={{ mb: 3 }}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {/* Lista de tenants */}
+        {!loading || tenants.length > 0 ? (
+          <TenantsList
+            tenants={tenants}
+            loading={loading}
+            onEdit={canUpdateTenants ? handleEditTenant : undefined}
+            onDelete={canDelete(ModuleKey.TENANT_MODULE) ? handleDeleteTenant : undefined}
+            onToggleStatus={canUpdateTenants ? handleToggleStatus : undefined}
+            totalItems={totalItems}
+            currentPage={currentPage}
+            pageSize={listUrl.state.pageSize}
+            onPageChange={listUrl.setPage}
+          />
+        ) : null}
+
+      </Box>
+
+      {/* Dialog de criação/edição */}
+      <TenantDialog
+        open={dialogOpen}
+        onClose={handleDialogClose}
+        tenant={editingTenant}
+        onSubmit={handleDialogSubmit}
+        loading={loading}
+        error={error}
+      />
+
+    </ResponsiveContainer>
+  );
+};
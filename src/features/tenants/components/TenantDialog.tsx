@@ -0,0 +1,104 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Box
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { TenantForm } from './TenantForm';
+import type { Tenant, CreateTenantRequest, UpdateTenantRequest } from '../../../shared/types';
+
+interface TenantDialogProps {
+  open: boolean;
+  onClose: () => void;
+  tenant?: Tenant | null;
+  onSubmit: (data: CreateTenantRequest | UpdateTenantRequest) => Promise<void>;
+  loading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Dialog modal para criação e edição de tenants
+ */
+export const TenantDialog = ({
+  open,
+  onClose,
+  tenant,
+  onSubmit,
+  loading = false,
+  error
+}: TenantDialogProps) => {
+
+  const isEditing = Boolean(tenant);
+  const title = isEditing ? 'Editar Tenant' : 'Novo Tenant';
+
+  const handleSubmit = async (data: CreateTenantRequest | UpdateTenantRequest) => {
+    try {
+      await onSubmit(data);
+      onClose(); // Fecha dialog apenas em caso de sucesso
+    } catch (err) {
+      // Erro já é tratado pelo componente pai
+      console.error('Erro no submit do dialog:', err);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: { minHeight: 400 }
+      }}
+    >
+      {/* Header */}
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          {title}
+          <IconButton
+            edge="end"
+            color="inherit"
+            onClick={onClose}
+            aria-label="fechar"
+            disabled={loading}
+          >
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      {/* Content */}
+      <DialogContent dividers>
+        <TenantForm
+          tenant={tenant}
+          onSubmit={handleSubmit}
+          loading={loading}
+          error={error}
+        />
+      </DialogContent>
+
+      {/* Actions */}
+      <DialogActions sx={{ p: 2 }}>
+        <Button
+          onClick={onClose}
+          disabled={loading}
+          color="inherit"
+        >
+          Cancelar
+        </Button>
+        <Button
+          type="submit"
+          form="tenant-form"
+          variant="contained"
+          disabled={loading}
+        >
+          {loading ? 'Salvando...' : (isEditing ? 'Atualizar' : 'Criar')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
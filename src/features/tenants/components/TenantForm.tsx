@@ -0,0 +1,355 @@
+import { useEffect, useState } from 'react';
+import type { FocusEvent } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Box,
+  TextField,
+  Typography,
+  Alert,
+  Stack,
+  Divider,
+  InputAdornment,
+  CircularProgress
+} from '@mui/material';
+import { CepService } from '../../../shared/services';
+import {
+  cpfSchema,
+  cpfCnpjSchema,
+  cepSchema,
+  phoneSchema,
+  optionalField,
+  withMask,
+  formatCpf,
+  formatCpfCnpj,
+  formatCep,
+  formatPhone,
+  isValidCep,
+  onlyAlphanumeric,
+} from '../../../shared/validators';
+import type { Tenant, CreateTenantRequest, UpdateTenantRequest, TenantOptionalFields } from '../../../shared/types';
+
+const optionalEmail = z.email('E-mail inválido').or(z.literal(''));
+
+const tenantSchema = z.object({
+  // Dados gerais
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Nome deve ter pelo menos 2 caracteres')
+    .max(255, 'Nome deve ter no máximo 255 caracteres'),
+  slug: z
+    .string()
+    .trim()
+    .min(2, 'Slug deve ter pelo menos 2 caracteres')
+    .max(100, 'Slug deve ter no máximo 100 caracteres')
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug deve conter apenas letras minúsculas, números e hífens'),
+  domain: z.string().trim(),
+  email: optionalEmail,
+  phone: optionalField(phoneSchema),
+  website: z.string().trim(),
+
+  // Dados fiscais
+  cnpjCpf: optionalField(cpfCnpjSchema),
+  razaoSocial: z.string().trim().max(255, 'Razão social deve ter no máximo 255 caracteres'),
+  inscricaoEstadual: z.string().trim(),
+  inscricaoMunicipal: z.string().trim(),
+
+  // Endereço
+  addressZipCode: optionalField(cepSchema),
+  addressStreet: z.string().trim(),
+  addressNumber: z.string().trim(),
+  addressComplement: z.string().trim(),
+  addressNeighborhood: z.string().trim(),
+  addressCity: z.string().trim(),
+  addressState: z.string().trim().max(2, 'Use a sigla da UF (ex: SP)'),
+  addressCountry: z.string().trim(),
+
+  // Representante legal
+  legalRepresentativeName: z.string().trim(),
+  legalRepresentativeCpf: optionalField(cpfSchema),
+  legalRepresentativeEmail: optionalEmail,
+  legalRepresentativePhone: optionalField(phoneSchema),
+});
+
+type TenantFormData = z.infer<typeof tenantSchema>;
+
+const emptyFormData: TenantFormData = {
+  name: '',
+  slug: '',
+  domain: '',
+  email: '',
+  phone: '',
+  website: '',
+  cnpjCpf: '',
+  razaoSocial: '',
+  inscricaoEstadual: '',
+  inscricaoMunicipal: '',
+  addressZipCode: '',
+  addressStreet: '',
+  addressNumber: '',
+  addressComplement: '',
+  addressNeighborhood: '',
+  addressCity: '',
+  addressState: '',
+  addressCountry: 'Brasil',
+  legalRepresentativeName: '',
+  legalRepresentativeCpf: '',
+  legalRepresentativeEmail: '',
+  legalRepresentativePhone: '',
+};
+
+// Máscaras aplicadas na digitação e ao carregar dados da API
+const fieldMasks: Partial<Record<keyof TenantFormData, (value: string) => string>> = {
+  phone: formatPhone,
+  cnpjCpf: formatCpfCnpj,
+  addressZipCode: formatCep,
+  legalRepresentativeCpf: formatCpf,
+  legalRepresentativePhone: formatPhone,
+};
+
+/**
+ * Converte o tenant da API para os valores do formulário (campos nulos viram string vazia)
+ */
+const toFormData = (tenant: Tenant): TenantFormData => {
+  const formData = { ...emptyFormData };
+  (Object.keys(emptyFormData) as Array<keyof TenantFormData>).forEach(field => {
+    const value = tenant[field] ?? emptyFormData[field];
+    const mask = fieldMasks[field];
+    formData[field] = mask ? mask(value) : value;
+  });
+  return formData;
+};
+
+// Campos opcionais do formulário - os mesmos do DTO, exceto nome e slug
+const optionalFields = (Object.keys(emptyFormData) as Array<keyof TenantFormData>).filter(
+  (field): field is keyof TenantOptionalFields => field !== 'name' && field !== 'slug'
+);
+
+// Documentos e telefones seguem sem máscara
+const requestValue = (data: TenantFormData, field: keyof TenantFormData): string =>
+  fieldMasks[field] ? onlyAlphanumeric(data[field]) : data[field];
+
+/**
+ * Converte os valores do formulário para o DTO de criação (campos vazios não são enviados)
+ */
+const toCreateRequest = (data: TenantFormData): CreateTenantRequest => {
+  const request: CreateTenantRequest = { name: data.name, slug: data.slug };
+  optionalFields.forEach(field => {
+    const value = requestValue(data, field);
+    if (value) request[field] = value;
+  });
+  return request;
+};
+
+/**
+ * Converte os valores do formulário para o DTO de edição
+ * Campos esvaziados seguem como null para serem limpos no servidor
+ */
+const toUpdateRequest = (data: TenantFormData): UpdateTenantRequest => {
+  const request: UpdateTenantRequest = { name: data.name, slug: data.slug };
+  optionalFields.forEach(field => {
+    request[field] = requestValue(data, field) || null;
+  });
+  return request;
+};
+
+interface TenantFormProps {
+  tenant?: Tenant | null;
+  onSubmit: (data: CreateTenantRequest | UpdateTenantRequest) => Promise<void>;
+  loading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Componente de formulário para criação e edição de tenants
+ *
+ * Features:
+ * - Validação com Zod via react-hook-form (CPF/CNPJ, CEP e telefones)
+ * - Máscaras de entrada e preenchimento do endereço pelo CEP
+ * - Seções de dados gerais, dados fiscais, endereço e representante legal
+ * - Modo criação e edição
+ * - Auto-preenchimento para edição
+ */
+export const TenantForm = ({
+  tenant,
+  onSubmit,
+  loading = false,
+  error
+}: TenantFormProps) => {
+  const isEditing = Boolean(tenant);
+  const [cepLoading, setCepLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    setError,
+    formState: { errors },
+  } = useForm<TenantFormData>({
+    resolver: zodResolver(tenantSchema),
+    defaultValues: emptyFormData,
+  });
+
+  // Preenche formulário quando tenant é fornecido
+  useEffect(() => {
+    reset(tenant ? toFormData(tenant) : emptyFormData);
+  }, [tenant, reset]);
+
+  const submit = async (data: TenantFormData) => {
+    try {
+      await onSubmit(isEditing ? toUpdateRequest(data) : toCreateRequest(data));
+    } catch (err) {
+      console.error('Erro no submit do formulário:', err);
+    }
+  };
+
+  /**
+   * Consulta o CEP ao sair do campo e preenche o endereço
+   */
+  const handleZipCodeBlur = async (event: FocusEvent<HTMLInputElement>) => {
+    const cep = event.target.value;
+    if (!isValidCep(cep)) return;
+
+    setCepLoading(true);
+    try {
+      const address = await CepService.lookup(cep);
+      if (!address) {
+        setError('addressZipCode', { message: 'CEP não encontrado' });
+        return;
+      }
+
+      const options = { shouldValidate: true, shouldDirty: true };
+      setValue('addressStreet', address.street, options);
+      setValue('addressNeighborhood', address.neighborhood, options);
+      setValue('addressCity', address.city, options);
+      setValue('addressState', address.state, options);
+      if (address.complement) {
+        setValue('addressComplement', address.complement, options);
+      }
+    } catch (err) {
+      console.error('Erro ao consultar CEP:', err);
+      setError('addressZipCode', { message: 'Não foi possível consultar o CEP - preencha o endereço manualmente' });
+    } finally {
+      setCepLoading(false);
+    }
+  };
+
+  /**
+   * Props comuns de cada campo de texto (com máscara, quando houver)
+   */
+  const fieldProps = (field: keyof TenantFormData, label: string, helperText?: string) => {
+    const registration = register(field, field === 'addressZipCode' ? { onBlur: handleZipCodeBlur } : undefined);
+    const mask = fieldMasks[field];
+
+    return {
+      ...(mask ? withMask(registration, mask) : registration),
+      label,
+      error: Boolean(errors[field]),
+      helperText: errors[field]?.message || helperText,
+      fullWidth: true,
+      disabled: loading,
+    };
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit(submit)} noValidate id="tenant-form">
+
+      {/* Erro geral */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Stack spacing={3}>
+
+        {/* Dados gerais */}
+        <Typography variant="subtitle1" fontWeight={600}>
+          Dados gerais
+        </Typography>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('name', 'Nome')} required autoFocus={!isEditing} />
+          <TextField
+            {...fieldProps('slug', 'Slug', 'Identificador usado em URLs e subdomínios (ex: minha-empresa)')}
+            required
+            inputProps={{ style: { fontFamily: 'monospace' } }}
+          />
+        </Stack>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('domain', 'Domínio personalizado')} placeholder="app.minhaempresa.com.br" />
+          <TextField {...fieldProps('website', 'Website')} />
+        </Stack>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('email', 'E-mail')} type="email" />
+          <TextField {...fieldProps('phone', 'Telefone')} placeholder="(11) 91234-5678" />
+        </Stack>
+
+        <Divider />
+
+        {/* Dados fiscais */}
+        <Typography variant="subtitle1" fontWeight={600}>
+          Dados fiscais
+        </Typography>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('cnpjCpf', 'CNPJ / CPF')} />
+          <TextField {...fieldProps('razaoSocial', 'Razão social')} />
+        </Stack>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('inscricaoEstadual', 'Inscrição estadual')} />
+          <TextField {...fieldProps('inscricaoMunicipal', 'Inscrição municipal')} />
+        </Stack>
+
+        <Divider />
+
+        {/* Endereço */}
+        <Typography variant="subtitle1" fontWeight={600}>
+          Endereço
+        </Typography>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField
+            {...fieldProps('addressZipCode', 'CEP', 'O endereço é preenchido automaticamente')}
+            InputProps={{
+              endAdornment: cepLoading ? (
+                <InputAdornment position="end">
+                  <CircularProgress size={18} />
+                </InputAdornment>
+              ) : undefined,
+            }}
+          />
+          <TextField {...fieldProps('addressStreet', 'Logradouro')} />
+          <TextField {...fieldProps('addressNumber', 'Número')} />
+        </Stack>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('addressComplement', 'Complemento')} />
+          <TextField {...fieldProps('addressNeighborhood', 'Bairro')} />
+        </Stack>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('addressCity', 'Cidade')} />
+          <TextField {...fieldProps('addressState', 'UF')} />
+          <TextField {...fieldProps('addressCountry', 'País')} />
+        </Stack>
+
+        <Divider />
+
+        {/* Representante legal */}
+        <Typography variant="subtitle1" fontWeight={600}>
+          Representante legal
+        </Typography>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('legalRepresentativeName', 'Nome')} />
+          <TextField {...fieldProps('legalRepresentativeCpf', 'CPF')} />
+        </Stack>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <TextField {...fieldProps('legalRepresentativeEmail', 'E-mail')} type="email" />
+          <TextField {...fieldProps('legalRepresentativePhone', 'Telefone')} />
+        </Stack>
+
+      </Stack>
+
+      {/* Botão de submit é renderizado pelo componente pai (Dialog) */}
+    </Box>
+  );
+};
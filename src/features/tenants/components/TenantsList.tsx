@@ -0,0 +1,234 @@
+import {
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Tooltip,
+  Typography,
+  Box,
+  TablePagination
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  ToggleOff as InactiveIcon,
+  ToggleOn as ActiveIcon,
+  Business as TenantIcon
+} from '@mui/icons-material';
+import { TenantStatus } from '../../../shared/types';
+import type { TenantSummary } from '../../../shared/types';
+
+interface TenantsListProps {
+  tenants: TenantSummary[];
+  loading?: boolean;
+  onEdit?: (tenant: TenantSummary) => void;
+  onDelete?: (tenant: TenantSummary) => void;
+  onToggleStatus?: (tenant: TenantSummary) => void;
+  // Paginação
+  totalItems: number;
+  currentPage: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * Componente de lista de tenants com tabela responsiva
+ *
+ * Features:
+ * - Tabela com dados resumidos dos tenants
+ * - Indicadores visuais de status (ativo/inativo)
+ * - Ações inline conforme permissões (editar, deletar, toggle status)
+ * - Paginação integrada
+ */
+export const TenantsList = ({
+  tenants,
+  loading = false,
+  onEdit,
+  onDelete,
+  onToggleStatus,
+  totalItems,
+  currentPage,
+  pageSize,
+  onPageChange,
+}: TenantsListProps) => {
+
+  const handlePageChange = (_: unknown, newPage: number) => {
+    onPageChange(newPage + 1); // MUI usa 0-indexed, nossa API usa 1-indexed
+  };
+
+  if (tenants.length === 0 && !loading) {
+    return (
+      <Paper sx={{ p: 4, textAlign: 'center' }}>
+        <TenantIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
+        <Typography variant="h6" color="text.secondary" gutterBottom>
+          Nenhum tenant encontrado
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Ajuste a busca ou cadastre um novo tenant
+        </Typography>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper>
+      <TableContainer>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Nome</TableCell>
+              <TableCell>Slug</TableCell>
+              <TableCell>Domínio</TableCell>
+              <TableCell>Contato</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Criado em</TableCell>
+              <TableCell align="right">Ações</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {tenants.map((tenant) => {
+              const isActive = tenant.status === TenantStatus.ACTIVE;
+
+              return (
+                <TableRow
+                  key={tenant.id}
+                  hover
+                  sx={{
+                    '&:last-child td, &:last-child th': { border: 0 },
+                    opacity: isActive ? 1 : 0.6
+                  }}
+                >
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <TenantIcon color="primary" fontSize="small" />
+                      <Typography variant="body2" fontWeight="medium">
+                        {tenant.name}
+                      </Typography>
+                    </Box>
+                  </TableCell>
+
+                  <TableCell>
+                    <Chip
+                      label={tenant.slug}
+                      size="small"
+                      variant="outlined"
+                      color="primary"
+                      sx={{ fontFamily: 'monospace' }}
+                    />
+                  </TableCell>
+
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      {tenant.domain || '-'}
+                    </Typography>
+                  </TableCell>
+
+                  <TableCell>
+                    <Typography variant="body2">
+                      {tenant.email || '-'}
+                    </Typography>
+                    {tenant.phone && (
+                      <Typography variant="caption" color="text.secondary">
+                        {tenant.phone}
+                      </Typography>
+                    )}
+                  </TableCell>
+
+                  <TableCell>
+                    <Chip
+                      label={isActive ? 'Ativo' : 'Inativo'}
+                      color={isActive ? 'success' : 'default'}
+                      size="small"
+                      variant={isActive ? 'filled' : 'outlined'}
+                    />
+                  </TableCell>
+
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      {new Date(tenant.createdAt).toLocaleDateString('pt-BR')}
+                    </Typography>
+                  </TableCell>
+
+                  <TableCell align="right">
+                    <Box sx={{ display: 'flex', gap: 0.5, justifyContent: 'flex-end' }}>
+
+                      {/* Toggle Status */}
+                      {onToggleStatus && (
+                        <Tooltip title={isActive ? 'Desativar tenant' : 'Ativar tenant'}>
+                          <IconButton
+                            size="small"
+                            onClick={() => onToggleStatus(tenant)}
+                            color={isActive ? 'warning' : 'success'}
+                            disabled={loading}
+                          >
+                            {isActive ? <ActiveIcon /> : <InactiveIcon />}
+                          </IconButton>
+                        </Tooltip>
+                      )}
+
+                      {/* Editar */}
+                      {onEdit && (
+                        <Tooltip title="Editar tenant">
+                          <IconButton
+                            size="small"
+                            onClick={() => onEdit(tenant)}
+                            color="primary"
+                            disabled={loading}
+                          >
+                            <EditIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+
+                      {/* Deletar */}
+                      {onDelete && (
+                        <Tooltip title="Excluir tenant">
+                          <IconButton
+                            size="small"
+                            onClick={() => onDelete(tenant)}
+                            color="error"
+                            disabled={loading}
+                          >
+                            <DeleteIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Paginação */}
+      <TablePagination
+        component="div"
+        count={totalItems}
+        page={currentPage - 1} // MUI usa 0-indexed
+        onPageChange={handlePageChange}
+        rowsPerPage={pageSize}
+        rowsPerPageOptions={[]} // Desabilita a opção de mudar rows per page
+        labelDisplayedRows={({ from, to, count }) =>
+          `${from}–${to} de ${count !== -1 ? count : `mais de ${to}`}`
+        }
+        labelRowsPerPage=""
+        sx={{
+          borderTop: 1,
+          borderColor: 'divider',
+          '& .MuiTablePagination-toolbar': {
+            pl: 2,
+            pr: 1,
+          },
+        }}
+      />
+    </Paper>
+  );
+};
@@ -0,0 +1,4 @@
+// Exporta todos os componentes relacionados a Tenants
+export { TenantsList } from './TenantsList';
+export { TenantForm } from './TenantForm';
+export { TenantDialog } from './TenantDialog';
@@ -0,0 +1,2 @@
+// Exporta todos os hooks relacionados a Tenants
+export { useTenants } from './useTenants';
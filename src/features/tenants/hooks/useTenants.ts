@@ -0,0 +1,283 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TenantService } from '../../../shared/services';
+import type { Tenant, TenantSummary, CreateTenantRequest, UpdateTenantRequest, ListState } from '../../../shared/types';
+
+interface UseTenantsOptions {
+  autoLoad?: boolean;
+  pageSize?: number;
+  // Página, tamanho e busca controlados pela página (ex: useListUrlState)
+  listState?: ListState;
+}
+
+interface UseTenantsResult {
+  // Estado
+  tenants: TenantSummary[];
+  loading: boolean;
+  error: string | null;
+  totalItems: number;
+  currentPage: number;
+  totalPages: number;
+  searchTerm: string;
+
+  // Ações CRUD
+  loadTenants: (page?: number) => Promise<void>;
+  getTenant: (id: string) => Promise<Tenant>;
+  createTenant: (tenant: CreateTenantRequest) => Promise<Tenant>;
+  updateTenant: (id: string, tenant: UpdateTenantRequest) => Promise<Tenant>;
+  deleteTenant: (id: string) => Promise<void>;
+  toggleStatus: (tenant: TenantSummary) => Promise<Tenant>;
+  setSearchTerm: (search: string) => void;
+  clearError: () => void;
+  refetch: () => Promise<void>;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
+
+/**
+ * Hook personalizado para gerenciar tenants
+ * Centraliza toda a lógica de estado e operações CRUD dos tenants
+ *
+ * Features:
+ * - Carregamento automático opcional
+ * - Paginação e busca integradas
+ * - Estado da listagem controlado pela página (query string) ou interno
+ * - Estados de loading e error
+ * - Operações CRUD completas
+ * - Toggle de status ativo/inativo
+ *
+ * @param options - Configurações do hook
+ */
+export const useTenants = (options: UseTenantsOptions = {}): UseTenantsResult => {
+  // Configurações padrão
+  const { autoLoad = true, pageSize: initialPageSize = 10, listState } = options;
+
+  // Estados
+  const [tenants, setTenants] = useState<TenantSummary[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [totalItems, setTotalItems] = useState<number>(0);
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [totalPages, setTotalPages] = useState<number>(0);
+  const [localSearchTerm, setSearchTerm] = useState<string>('');
+
+  // Estado controlado pela página tem precedência sobre o interno
+  const pageSize = listState?.pageSize ?? initialPageSize;
+  const searchTerm = listState?.search ?? localSearchTerm;
+  const requestedPage = listState?.page ?? 1;
+
+  /**
+   * Limpa mensagens de erro
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Carrega tenants com paginação e busca
+   */
+  const loadTenants = useCallback(async (page: number = 1) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useTenants: Carregando tenants...', { page, pageSize, searchTerm });
+
+      const response = await TenantService.getTenants({
+        page,
+        limit: pageSize,
+        search: searchTerm.trim() || undefined,
+      });
+
+      console.log('✅ useTenants: Tenants carregados:', response);
+
+      setTenants(response.items || []);
+      setCurrentPage(response.page || page);
+      setTotalItems(response.total || 0);
+      setTotalPages(response.totalPages || 0);
+
+    } catch (err) {
+      console.error('❌ useTenants: Erro ao carregar tenants:', err);
+      setError(getErrorMessage(err, 'Erro ao carregar tenants'));
+      setTenants([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [pageSize, searchTerm]);
+
+  /**
+   * Busca os dados completos de um tenant (fiscais, endereço e representante)
+   */
+  const getTenant = useCallback(async (id: string): Promise<Tenant> => {
+    try {
+      console.log('🔄 useTenants: Buscando tenant...', id);
+      return await TenantService.getTenantById(id);
+    } catch (err) {
+      console.error('❌ useTenants: Erro ao buscar tenant:', err);
+      setError(getErrorMessage(err, 'Erro ao buscar tenant'));
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Cria um novo tenant
+   */
+  const createTenant = useCallback(async (tenantData: CreateTenantRequest): Promise<Tenant> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useTenants: Criando novo tenant...', tenantData);
+
+      const newTenant = await TenantService.createTenant(tenantData);
+
+      console.log('✅ useTenants: Tenant criado:', newTenant);
+
+      // Recarrega a lista para refletir mudanças
+      await loadTenants(currentPage);
+
+      return newTenant;
+
+    } catch (err) {
+      console.error('❌ useTenants: Erro ao criar tenant:', err);
+      setError(getErrorMessage(err, 'Erro ao criar tenant'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [loadTenants, currentPage]);
+
+  /**
+   * Atualiza um tenant existente
+   */
+  const updateTenant = useCallback(async (id: string, tenantData: UpdateTenantRequest): Promise<Tenant> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useTenants: Atualizando tenant...', { id, tenantData });
+
+      const updatedTenant = await TenantService.updateTenant(id, tenantData);
+
+      console.log('✅ useTenants: Tenant atualizado:', updatedTenant);
+
+      // Atualiza o tenant na lista local
+      setTenants(prev => prev.map(tenant =>
+        tenant.id === id ? updatedTenant : tenant
+      ));
+
+      return updatedTenant;
+
+    } catch (err) {
+      console.error('❌ useTenants: Erro ao atualizar tenant:', err);
+      setError(getErrorMessage(err, 'Erro ao atualizar tenant'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Remove um tenant
+   */
+  const deleteTenant = useCallback(async (id: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useTenants: Removendo tenant...', id);
+
+      await TenantService.deleteTenant(id);
+
+      console.log('✅ useTenants: Tenant removido:', id);
+
+      // Remove o tenant da lista local
+      setTenants(prev => prev.filter(tenant => tenant.id !== id));
+
+      // Se a página atual ficou vazia e não é a primeira, volta uma página
+      const remainingItems = tenants.length - 1;
+      if (remainingItems === 0 && currentPage > 1) {
+        await loadTenants(currentPage - 1);
+      } else {
+        // Atualiza o total de itens
+        setTotalItems(prev => Math.max(0, prev - 1));
+      }
+
+    } catch (err) {
+      console.error('❌ useTenants: Erro ao remover tenant:', err);
+      setError(getErrorMessage(err, 'Erro ao remover tenant'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [tenants.length, currentPage, loadTenants]);
+
+  /**
+   * Alterna o status ativo/inativo de um tenant
+   */
+  const toggleStatus = useCallback(async (tenant: TenantSummary): Promise<Tenant> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔄 useTenants: Alternando status do tenant...', {
+        id: tenant.id,
+        currentStatus: tenant.status
+      });
+
+      const updatedTenant = await TenantService.toggleTenantStatus(tenant);
+
+      console.log('✅ useTenants: Status do tenant alterado:', updatedTenant);
+
+      // Atualiza o tenant na lista local
+      setTenants(prev => prev.map(t =>
+        t.id === tenant.id ? updatedTenant : t
+      ));
+
+      return updatedTenant;
+
+    } catch (err) {
+      console.error('❌ useTenants: Erro ao alterar status do tenant:', err);
+      setError(getErrorMessage(err, 'Erro ao alterar status do tenant'));
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Recarrega os dados da página atual
+   */
+  const refetch = useCallback(async () => {
+    await loadTenants(currentPage);
+  }, [loadTenants, currentPage]);
+
+  // Carregamento automático na inicialização e ao mudar página, busca ou tamanho da página
+  useEffect(() => {
+    if (autoLoad) {
+      loadTenants(requestedPage);
+    }
+  }, [autoLoad, loadTenants, requestedPage]);
+
+  return {
+    // Estado
+    tenants,
+    loading,
+    error,
+    totalItems,
+    currentPage,
+    totalPages,
+    searchTerm,
+
+    // Ações CRUD
+    loadTenants,
+    getTenant,
+    createTenant,
+    updateTenant,
+    deleteTenant,
+    toggleStatus,
+    setSearchTerm,
+    clearError,
+    refetch,
+  };
+};
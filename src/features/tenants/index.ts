@@ -0,0 +1,4 @@
+// Exporta todos os recursos relacionados a Tenants
+export { TenantsPage } from './TenantsPage';
+export * from './components';
+export * from './hooks';
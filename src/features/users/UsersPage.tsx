@@ -1,38 +1,63 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Container,
   Typography,
   Button,
   Box,
-  Paper,
-  TextField,
-  InputAdornment,
   Alert,
   Dialog,
   DialogTitle,
   DialogContent,
   DialogContentText,
-  DialogActions
+  DialogActions,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
 import {
   Add as AddIcon,
-  Search as SearchIcon,
   Person as PersonIcon,
   Refresh as RefreshIcon
 } from '@mui/icons-material';
 
 import { UsersList } from './components/UsersList';
+import { USER_FILTER_TYPES, USER_TABLE_COLUMNS } from './components/table-columns';
 import { UserForm } from './components/UserForm';
 import { UserAccessGroups } from './components/UserAccessGroups';
 import { useUsers } from './hooks/useUsers';
-import type { UserAccount } from '../../shared/types';
+import { usePermissions } from '../../shared/stores';
+import { ExportSelectionButton, PageToolbar } from '../../shared/components';
+import { useListUrlState, useTableViews } from '../../shared/hooks';
+import { ModuleKey } from '../../shared/types';
+import type { ListQuery, UserAccount } from '../../shared/types';
+import { EMPTY_SELECTION } from '../../shared/utils';
+import type { ExportRows, RowSelection } from '../../shared/utils';
+
+// Tamanho das páginas buscadas a cada avanço da rolagem contínua
+const CONTINUOUS_PAGE_SIZE = 100;
+const PAGINATED_PAGE_SIZE = 10;
+
+const toExportRows = (users: UserAccount[]): ExportRows => [
+  ['Nome', 'Usuário', 'Email', 'Telefone', 'Status', 'Email verificado', 'Último login'],
+  ...users.map(user => [
+    user.fullName || `${user.firstName} ${user.lastName}`.trim(),
+    user.username,
+    user.email,
+    user.phoneNumber,
+    user.status,
+    user.isEmailVerified ? 'Sim' : 'Não',
+    user.lastLoginAt,
+  ]),
+];
 
 /**
  * Página principal de gerenciamento de usuários
  * 
  * Features:
- * - Listagem paginada de usuários
- * - Busca e filtros
+ * - Listagem paginada de usuários ou rolagem contínua virtualizada
+ * - Busca, ordenação e filtros por coluna
+ * - Página, busca, ordenação e filtros na URL (recarregar, compartilhar e voltar/avançar)
+ * - Seleção com exportação dos selecionados (CSV)
+ * - Visualizações salvas (colunas, ordenação, filtros, tamanho de página e densidade)
  * - Criação e edição de usuários
  * - Exclusão com confirmação
  * - Toggle de status ativo/inativo
@@ -40,6 +65,9 @@ import type { UserAccount } from '../../shared/types';
  * - Interface responsiva
  */
 export function UsersPage() {
+  // Estado da listagem na query string
+  const listUrl = useListUrlState({ defaultPageSize: PAGINATED_PAGE_SIZE, filterTypes: USER_FILTER_TYPES });
+
   // Hook de usuários
   const {
     users,
@@ -47,7 +75,12 @@ export function UsersPage() {
     error,
     totalItems,
     currentPage,
-    loadUsers,
+    pageSize,
+    listQuery,
+    loadingMore,
+    hasMore,
+    loadMoreUsers,
+    fetchAllMatching,
     createUser,
     updateUser,
     deleteUser,
@@ -55,11 +88,14 @@ export function UsersPage() {
     clearError,
     refetch,
     validateEmail
-  } = useUsers();
+  } = useUsers({ pageSize: PAGINATED_PAGE_SIZE, listState: listUrl.state });
+
+  // Ações por registro respeitam as condições da permissão (ex: mesmo tenant)
+  const { canOn } = usePermissions();
 
   // Estados da UI
-  const [searchTerm, setSearchTerm] = useState('');
-  const [pageSize, setPageSize] = useState(10);
+  const [selection, setSelection] = useState<RowSelection>(EMPTY_SELECTION);
+  const [continuousScroll, setContinuousScroll] = useState(false);
   const [formOpen, setFormOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserAccount | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
@@ -70,6 +106,25 @@ export function UsersPage() {
   const [accessGroupsOpen, setAccessGroupsOpen] = useState(false);
   const [selectedUserForGroups, setSelectedUserForGroups] = useState<UserAccount | null>(null);
 
+  // Visualizações salvas da listagem
+  const tableViews = useTableViews({
+    tableId: 'users',
+    columns: USER_TABLE_COLUMNS,
+    listQuery,
+    pageSize,
+    defaultPageSize: PAGINATED_PAGE_SIZE,
+    onApply: ({ listQuery: query, pageSize: size }, source) => {
+      // Ao recarregar ou abrir um link da listagem, a URL prevalece sobre a visualização padrão
+      if (source === 'default' && listUrl.hasUrlState) return;
+      listUrl.update({ listQuery: query, pageSize: size, page: 1 }, { replace: source !== 'user' });
+    },
+  });
+
+  // A seleção deixa de valer quando o conjunto muda (inclusive ao voltar/avançar no navegador)
+  useEffect(() => {
+    setSelection(EMPTY_SELECTION);
+  }, [listUrl.state.search, listUrl.state.listQuery]);
+
   /**
    * Abre formulário para criar novo usuário
    */
@@ -173,30 +228,36 @@ export function UsersPage() {
    * Manipula mudança de página
    */
   const handlePageChange = (page: number) => {
-    loadUsers(page);
+    listUrl.setPage(page);
   };
 
   /**
    * Manipula mudança de tamanho da página
    */
   const handlePageSizeChange = (newPageSize: number) => {
-    setPageSize(newPageSize);
-    loadUsers(1); // Volta para primeira página
+    listUrl.setPageSize(newPageSize); // O hook recarrega a partir da primeira página
   };
 
   /**
-   * Recarrega dados
+   * Alterna entre paginação e rolagem contínua - o hook recarrega a partir da primeira página
    */
-  const handleRefresh = () => {
-    refetch();
+  const handleContinuousScrollChange = (enabled: boolean) => {
+    setContinuousScroll(enabled);
+    listUrl.setPageSize(enabled ? CONTINUOUS_PAGE_SIZE : PAGINATED_PAGE_SIZE);
+  };
+
+  /**
+   * Manipula ordenação e filtros
+   */
+  const handleListQueryChange = (query: ListQuery) => {
+    listUrl.setListQuery(query);
   };
 
   /**
-   * Manipula busca (implementação futura)
+   * Recarrega dados
    */
-  const handleSearch = (term: string) => {
-    setSearchTerm(term);
-    // TODO: Implementar busca na API
+  const handleRefresh = () => {
+    refetch();
   };
 
   return (
@@ -235,35 +296,36 @@ export function UsersPage() {
       )}
 
       {/* Barra de ferramentas */}
-      <Paper sx={{ p: 2, mb: 2 }}>
-        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
-          {/* Busca */}
-          <TextField
-            placeholder="Buscar usuários..."
-            value={searchTerm}
-            onChange={(e) => handleSearch(e.target.value)}
-            InputProps={{
-              startAdornment: (
-                <InputAdornment position="start">
-                  <SearchIcon />
-                </InputAdornment>
-              ),
-            }}
-            sx={{ minWidth: 300, flexGrow: 1 }}
-            size="small"
-          />
+      <PageToolbar
+        searchValue={listUrl.searchInput}
+        onSearchChange={listUrl.setSearchInput}
+        searchPlaceholder="Buscar usuários..."
+        tableViews={tableViews}
+        actions={
+          <>
+            {/* Rolagem contínua para tenants com muitos usuários */}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={continuousScroll}
+                  onChange={(e) => handleContinuousScrollChange(e.target.checked)}
+                />
+              }
+              label={continuousScroll ? `Rolagem contínua (${users.length} de ${totalItems})` : 'Rolagem contínua'}
+            />
 
-          {/* Botão Atualizar */}
-          <Button
-            variant="outlined"
-            startIcon={<RefreshIcon />}
-            onClick={handleRefresh}
-            disabled={loading}
-          >
-            Atualizar
-          </Button>
-        </Box>
-      </Paper>
+            {/* Botão Atualizar */}
+            <Button
+              variant="outlined"
+              startIcon={<RefreshIcon />}
+              onClick={handleRefresh}
+              disabled={loading}
+            >
+              Atualizar
+            </Button>
+          </>
+        }
+      />
 
       {/* Lista de usuários */}
       <UsersList
@@ -273,11 +335,31 @@ export function UsersPage() {
         onDelete={handleDeleteUser}
         onToggleStatus={handleToggleStatus}
         onManageGroups={handleManageGroups}
+        canEdit={(user) => canOn(ModuleKey.USER_MODULE, 'UPDATE', user)}
+        canDelete={(user) => canOn(ModuleKey.USER_MODULE, 'DELETE', user)}
         totalItems={totalItems}
         currentPage={currentPage}
         pageSize={pageSize}
         onPageChange={handlePageChange}
         onPageSizeChange={handlePageSizeChange}
+        virtualized={continuousScroll}
+        onLoadMore={hasMore ? loadMoreUsers : undefined}
+        loadingMore={loadingMore}
+        listQuery={listQuery}
+        onListQueryChange={handleListQueryChange}
+        selection={selection}
+        onSelectionChange={setSelection}
+        layout={tableViews.layout}
+        selectionActions={
+          <ExportSelectionButton
+            selection={selection}
+            rows={users}
+            getKey={(user) => user.id}
+            fetchAll={fetchAllMatching}
+            toExportRows={toExportRows}
+            filename="usuarios.csv"
+          />
+        }
       />
 
       {/* Formulário de usuário */}
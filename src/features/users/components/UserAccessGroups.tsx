@@ -8,23 +8,23 @@ import {
   Box,
   Typography,
   Chip,
-  Card,
-  CardContent,
-  Checkbox,
-  FormControlLabel,
   Alert,
   CircularProgress,
   Stack,
   Divider,
-  IconButton
+  IconButton,
+  TextField,
+  InputAdornment
 } from '@mui/material';
 import {
   Group as GroupIcon,
   Security as SecurityIcon,
-  Close as CloseIcon
+  Close as CloseIcon,
+  Search as SearchIcon
 } from '@mui/icons-material';
 import { useUsers } from '../hooks/useUsers';
-import { AccessGroupService } from '../../../shared/services';
+import { useAccessGroupOptions } from '../../../shared/hooks';
+import { VirtualCheckboxList } from '../../../shared/components';
 import type { UserAccount, AccessGroup } from '../../../shared/types';
 
 interface UserAccessGroupsProps {
@@ -43,11 +43,13 @@ export function UserAccessGroups({ open, onClose, user }: UserAccessGroupsProps)
   } = useUsers({ autoLoad: false });
 
   const [userGroups, setUserGroups] = useState<AccessGroup[]>([]);
-  const [allGroups, setAllGroups] = useState<AccessGroup[]>([]);
   const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
   const [localLoading, setLocalLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
 
+  // Grupos disponíveis carregados aos poucos (tenants podem ter milhares de grupos)
+  const groupOptions = useAccessGroupOptions({ enabled: open && !!user });
+
   // Carrega dados quando o dialog é aberto
   useEffect(() => {
     if (open && user) {
@@ -62,14 +64,10 @@ export function UserAccessGroups({ open, onClose, user }: UserAccessGroupsProps)
     setLocalError(null);
 
     try {
-      // Carrega grupos do usuário e todos os grupos disponíveis em paralelo
-      const [userGroupsData, allGroupsData] = await Promise.all([
-        getUserAccessGroups(user.id),
-        AccessGroupService.getAllAccessGroups()
-      ]);
+      // Os grupos disponíveis são carregados incrementalmente por useAccessGroupOptions
+      const userGroupsData = await getUserAccessGroups(user.id);
 
       setUserGroups(userGroupsData);
-      setAllGroups(allGroupsData);
       
       // Pré-seleciona os grupos já atribuídos ao usuário
       setSelectedGroups(userGroupsData.map(group => group.id));
@@ -133,21 +131,7 @@ export function UserAccessGroups({ open, onClose, user }: UserAccessGroupsProps)
   };
 
   const isLoading = loading || localLoading;
-  const displayError = error || localError;
-
-  const getGroupsByType = () => {
-    const groupedByType: Record<string, AccessGroup[]> = {};
-    
-    allGroups.forEach(group => {
-      const type = group.groupTypeName || 'Outros';
-      if (!groupedByType[type]) {
-        groupedByType[type] = [];
-      }
-      groupedByType[type].push(group);
-    });
-    
-    return groupedByType;
-  };
+  const displayError = error || localError || groupOptions.error;
 
   return (
     <Dialog 
@@ -222,57 +206,60 @@ export function UserAccessGroups({ open, onClose, user }: UserAccessGroupsProps)
 
             {/* Todos os grupos disponíveis */}
             <Box>
-              <Typography variant="subtitle1" gutterBottom>
-                Selecionar Grupos
-              </Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+                <Typography variant="subtitle1">
+                  Selecionar Grupos
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {selectedGroups.length} selecionado(s) · {groupOptions.items.length} de {groupOptions.total} carregados
+                </Typography>
+              </Box>
 
-              <Stack spacing={2}>
-                {Object.entries(getGroupsByType()).map(([typeName, groups]) => (
-                  <Card key={typeName} variant="outlined">
-                    <CardContent sx={{ p: 2 }}>
-                      <Typography variant="subtitle2" color="primary" gutterBottom>
-                        {typeName}
-                      </Typography>
-                      
-                      <Stack spacing={1}>
-                        {groups.map(group => (
-                          <FormControlLabel
-                            key={group.id}
-                            control={
-                              <Checkbox
-                                checked={selectedGroups.includes(group.id)}
-                                onChange={() => handleGroupToggle(group.id)}
-                                disabled={!group.isActive}
-                              />
-                            }
-                            label={
-                              <Box>
-                                <Typography variant="body2">
-                                  {group.name}
-                                </Typography>
-                                {group.description && (
-                                  <Typography variant="caption" color="text.secondary">
-                                    {group.description}
-                                  </Typography>
-                                )}
-                                {!group.isActive && (
-                                  <Chip label="Inativo" size="small" color="warning" sx={{ ml: 1 }} />
-                                )}
-                              </Box>
-                            }
-                          />
-                        ))}
-                      </Stack>
-                    </CardContent>
-                  </Card>
-                ))}
-              </Stack>
+              <TextField
+                placeholder="Buscar grupos..."
+                value={groupOptions.search}
+                onChange={(e) => groupOptions.setSearch(e.target.value)}
+                size="small"
+                fullWidth
+                sx={{ mb: 1 }}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon fontSize="small" />
+                    </InputAdornment>
+                  ),
+                }}
+              />
 
-              {allGroups.length === 0 && (
-                <Typography color="text.secondary" sx={{ fontStyle: 'italic', textAlign: 'center', p: 2 }}>
-                  Nenhum grupo disponível
-                </Typography>
-              )}
+              <VirtualCheckboxList
+                items={groupOptions.items}
+                getKey={(group) => group.id}
+                isChecked={(group) => selectedGroups.includes(group.id)}
+                onToggle={(group) => handleGroupToggle(group.id)}
+                isDisabled={(group) => !group.isActive}
+                loading={groupOptions.loading}
+                onEndReached={groupOptions.hasMore ? groupOptions.loadMore : undefined}
+                loadingMore={groupOptions.loadingMore}
+                emptyMessage="Nenhum grupo disponível"
+                renderLabel={(group) => (
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography variant="body2" noWrap>
+                      {group.name}
+                      {group.groupTypeName && (
+                        <Chip label={group.groupTypeName} size="small" variant="outlined" sx={{ ml: 1 }} />
+                      )}
+                      {!group.isActive && (
+                        <Chip label="Inativo" size="small" color="warning" sx={{ ml: 1 }} />
+                      )}
+                    </Typography>
+                    {group.description && (
+                      <Typography variant="caption" color="text.secondary" noWrap component="div">
+                        {group.description}
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+              />
             </Box>
           </Stack>
         )}
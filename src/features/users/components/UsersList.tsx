@@ -1,19 +1,13 @@
 import { 
   Paper, 
-  Table, 
-  TableBody, 
-  TableCell, 
-  TableContainer, 
-  TableHead, 
-  TableRow,
   IconButton,
   Chip,
   Tooltip,
   Typography,
   Box,
-  TablePagination,
   Avatar
 } from '@mui/material';
+import type { ChipProps } from '@mui/material';
 import {
   Edit as EditIcon,
   Delete as DeleteIcon,
@@ -26,7 +20,18 @@ import {
   Cancel as UnverifiedIcon,
   Security as SecurityIcon
 } from '@mui/icons-material';
-import type { UserAccount } from '../../../shared/types';
+import { DataTable } from '../../../shared/components/data-display/DataTable';
+import type { DataTableColumn } from '../../../shared/components/data-display/DataTable';
+import type { ListQuery, TableColumnLayout, UserAccount } from '../../../shared/types';
+import { hasActiveFilters } from '../../../shared/utils';
+import type { RowSelection } from '../../../shared/utils';
+
+const STATUS_OPTIONS = [
+  { value: 'Active', label: 'Ativo' },
+  { value: 'Inactive', label: 'Inativo' },
+  { value: 'Pending', label: 'Pendente' },
+  { value: 'Suspended', label: 'Suspenso' },
+];
 
 interface UsersListProps {
   users: UserAccount[];
@@ -35,6 +40,10 @@ interface UsersListProps {
   onDelete: (user: UserAccount) => void;
   onToggleStatus: (user: UserAccount) => void;
   onManageGroups: (user: UserAccount) => void;
+
+  // Permissões por registro (ex: condições de tenant/autoria) - padrão: permitido
+  canEdit?: (user: UserAccount) => boolean;
+  canDelete?: (user: UserAccount) => boolean;
   
   // Paginação
   totalItems: number;
@@ -42,16 +51,39 @@ interface UsersListProps {
   pageSize: number;
   onPageChange: (page: number) => void;
   onPageSizeChange: (pageSize: number) => void;
+
+  // Ordenação e filtros no servidor
+  listQuery?: ListQuery;
+  onListQueryChange?: (query: ListQuery) => void;
+
+  // Seleção
+  selection?: RowSelection;
+  onSelectionChange?: (selection: RowSelection) => void;
+  selectionActions?: React.ReactNode;
+
+  // Rolagem contínua: renderização virtualizada e próxima página ao chegar ao fim
+  virtualized?: boolean;
+  onLoadMore?: () => void;
+  loadingMore?: boolean;
+
+  // Visualização salva: colunas e densidade
+  layout?: TableColumnLayout;
 }
 
+// Altura fixa das linhas no modo virtualizado (avatar de 40px + espaçamento)
+const VIRTUAL_ROW_HEIGHT = 73;
+
 /**
  * Componente de listagem de usuários com tabela paginada
  * 
  * Features:
- * - Tabela responsiva com Material-UI
+ * - Tabela responsiva com o DataTable compartilhado
+ * - Ordenação e filtros por coluna no servidor
+ * - Seleção de linhas (inclusive de todas as páginas)
  * - Chips coloridos para status
  * - Ações inline (editar, excluir, toggle status)
- * - Paginação integrada
+ * - Ações ocultadas por registro conforme canEdit/canDelete
+ * - Paginação integrada ou rolagem contínua virtualizada (listas grandes)
  * - Indicadores visuais (avatars, badges)
  * - Tooltips informativos
  * - Loading states
@@ -63,17 +95,28 @@ export function UsersList({
   onDelete, 
   onToggleStatus,
   onManageGroups,
+  canEdit = () => true,
+  canDelete = () => true,
   totalItems,
   currentPage,
   pageSize,
   onPageChange,
-  onPageSizeChange
+  onPageSizeChange,
+  listQuery = {},
+  onListQueryChange,
+  selection,
+  onSelectionChange,
+  selectionActions,
+  virtualized = false,
+  onLoadMore,
+  loadingMore = false,
+  layout
 }: UsersListProps) {
 
   /**
    * Retorna cor do chip baseado no status
    */
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string): ChipProps['color'] => {
     switch (status) {
       case 'Active': return 'success';
       case 'Inactive': return 'default';
@@ -105,23 +148,201 @@ export function UsersList({
     return `${first}${last}` || '?';
   };
 
-  /**
-   * Manipula mudança de página
-   */
-  const handlePageChange = (_event: unknown, newPage: number) => {
-    onPageChange(newPage + 1); // Material-UI usa índice zero
-  };
+  const columns: DataTableColumn<UserAccount>[] = [
+    {
+      id: 'fullName',
+      label: 'Usuário',
+      minWidth: 220,
+      sortable: true,
+      filter: { type: 'text' },
+      format: (_, user) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar 
+            sx={{ 
+              width: 40, 
+              height: 40,
+              bgcolor: user.status === 'Active' ? 'primary.main' : 'grey.400',
+              fontSize: '0.875rem'
+            }}
+          >
+            {getInitials(user.firstName, user.lastName)}
+          </Avatar>
+          <Box>
+            <Typography 
+              variant="subtitle2" 
+              fontWeight={600}
+              sx={{ 
+                color: user.status === 'Active' ? 'text.primary' : 'text.secondary'
+              }}
+            >
+              {user.fullName || `${user.firstName} ${user.lastName}`.trim()}
+            </Typography>
+            <Typography 
+              variant="caption" 
+              color="text.secondary"
+              sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+            >
+              <PersonIcon sx={{ fontSize: 12 }} />
+              @{user.username}
+            </Typography>
+          </Box>
+        </Box>
+      ),
+    },
+    {
+      id: 'email',
+      label: 'Email',
+      minWidth: 200,
+      sortable: true,
+      filter: { type: 'text' },
+      format: (_, user) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <EmailIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
+          <Typography variant="body2">
+            {user.email}
+          </Typography>
+        </Box>
+      ),
+    },
+    {
+      id: 'phoneNumber',
+      label: 'Telefone',
+      minWidth: 140,
+      filter: { type: 'text' },
+      format: (_, user) => (
+        user.phoneNumber ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <PhoneIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
+            <Typography variant="body2">
+              {user.phoneNumber}
+            </Typography>
+          </Box>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            -
+          </Typography>
+        )
+      ),
+    },
+    {
+      id: 'status',
+      label: 'Status',
+      minWidth: 120,
+      align: 'center',
+      sortable: true,
+      filter: { type: 'enum', options: STATUS_OPTIONS },
+      format: (_, user) => (
+        <Chip
+          label={getStatusText(user.status)}
+          color={getStatusColor(user.status)}
+          size="small"
+          variant={user.status === 'Active' ? 'filled' : 'outlined'}
+        />
+      ),
+    },
+    {
+      id: 'isEmailVerified',
+      label: 'Email Verificado',
+      minWidth: 130,
+      align: 'center',
+      filter: { type: 'boolean', trueLabel: 'Verificado', falseLabel: 'Não verificado' },
+      format: (_, user) => (
+        <Tooltip title={user.isEmailVerified ? 'Email verificado' : 'Email não verificado'}>
+          {user.isEmailVerified ? (
+            <VerifiedIcon sx={{ color: 'success.main', fontSize: 20 }} />
+          ) : (
+            <UnverifiedIcon sx={{ color: 'warning.main', fontSize: 20 }} />
+          )}
+        </Tooltip>
+      ),
+    },
+    {
+      id: 'lastLoginAt',
+      label: 'Último Login',
+      minWidth: 160,
+      align: 'center',
+      sortable: true,
+      filter: { type: 'dateRange' },
+      format: (_, user) => (
+        <Typography variant="body2" color="text.secondary">
+          {user.lastLoginAt 
+            ? new Date(user.lastLoginAt).toLocaleDateString('pt-BR', {
+                day: '2-digit',
+                month: '2-digit',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit'
+              })
+            : 'Nunca'
+          }
+        </Typography>
+      ),
+    },
+    {
+      id: 'actions',
+      label: 'Ações',
+      minWidth: 160,
+      align: 'center',
+      format: (_, user) => (
+        <Box sx={{ display: 'flex', justifyContent: 'center', gap: 0.5 }}>
+          {/* Toggle Status, Editar e Gerenciar Grupos exigem UPDATE no registro */}
+          {canEdit(user) && (
+            <>
+              <Tooltip title={user.status === 'Active' ? 'Desativar usuário' : 'Ativar usuário'}>
+                <IconButton
+                  size="small"
+                  onClick={() => onToggleStatus(user)}
+                  color={user.status === 'Active' ? 'success' : 'default'}
+                >
+                  {user.status === 'Active' ? <ActiveIcon /> : <InactiveIcon />}
+                </IconButton>
+              </Tooltip>
 
-  /**
-   * Manipula mudança de tamanho da página
-   */
-  const handlePageSizeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const newPageSize = parseInt(event.target.value, 10);
-    onPageSizeChange(newPageSize);
-    onPageChange(1); // Volta para primeira página
-  };
+              {/* Editar */}
+              <Tooltip title="Editar usuário">
+                <IconButton
+                  size="small"
+                  onClick={() => onEdit(user)}
+                  color="primary"
+                >
+                  <EditIcon />
+                </IconButton>
+              </Tooltip>
+
+              {/* Gerenciar Grupos */}
+              <Tooltip title="Gerenciar grupos de acesso">
+                <IconButton
+                  size="small"
+                  onClick={() => onManageGroups(user)}
+                  color="secondary"
+                >
+                  <SecurityIcon />
+                </IconButton>
+              </Tooltip>
+            </>
+          )}
 
-  if (loading) {
+          {/* Excluir */}
+          {canDelete(user) && (
+            <Tooltip title="Excluir usuário">
+              <IconButton
+                size="small"
+                onClick={() => onDelete(user)}
+                color="error"
+              >
+                <DeleteIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Box>
+      ),
+    },
+  ];
+
+  // Com filtros ativos a tabela continua visível para que possam ser ajustados
+  const filtering = hasActiveFilters(listQuery.filters);
+
+  if (loading && !filtering) {
     return (
       <Paper sx={{ p: 3, textAlign: 'center' }}>
         <Typography color="text.secondary">
@@ -131,7 +352,7 @@ export function UsersList({
     );
   }
 
-  if (!users || users.length === 0) {
+  if ((!users || users.length === 0) && !filtering) {
     return (
       <Paper sx={{ p: 3, textAlign: 'center' }}>
         <PersonIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2 }} />
@@ -146,203 +367,34 @@ export function UsersList({
   }
 
   return (
-    <Paper>
-      <TableContainer>
-        <Table stickyHeader>
-          <TableHead>
-            <TableRow>
-              <TableCell>Usuário</TableCell>
-              <TableCell>Email</TableCell>
-              <TableCell>Telefone</TableCell>
-              <TableCell align="center">Status</TableCell>
-              <TableCell align="center">Email Verificado</TableCell>
-              <TableCell align="center">Último Login</TableCell>
-              <TableCell align="center">Ações</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {users.map((user) => (
-              <TableRow 
-                key={user.id} 
-                hover
-                sx={{ 
-                  '&:hover': { backgroundColor: 'action.hover' },
-                  opacity: user.status === 'Active' ? 1 : 0.7
-                }}
-              >
-                {/* Coluna Usuário */}
-                <TableCell>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-                    <Avatar 
-                      sx={{ 
-                        width: 40, 
-                        height: 40,
-                        bgcolor: user.status === 'Active' ? 'primary.main' : 'grey.400',
-                        fontSize: '0.875rem'
-                      }}
-                    >
-                      {getInitials(user.firstName, user.lastName)}
-                    </Avatar>
-                    <Box>
-                      <Typography 
-                        variant="subtitle2" 
-                        fontWeight={600}
-                        sx={{ 
-                          color: user.status === 'Active' ? 'text.primary' : 'text.secondary'
-                        }}
-                      >
-                        {user.fullName || `${user.firstName} ${user.lastName}`.trim()}
-                      </Typography>
-                      <Typography 
-                        variant="caption" 
-                        color="text.secondary"
-                        sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
-                      >
-                        <PersonIcon sx={{ fontSize: 12 }} />
-                        @{user.username}
-                      </Typography>
-                    </Box>
-                  </Box>
-                </TableCell>
-
-                {/* Coluna Email */}
-                <TableCell>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                    <EmailIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
-                    <Typography variant="body2">
-                      {user.email}
-                    </Typography>
-                  </Box>
-                </TableCell>
-
-                {/* Coluna Telefone */}
-                <TableCell>
-                  {user.phoneNumber ? (
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                      <PhoneIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
-                      <Typography variant="body2">
-                        {user.phoneNumber}
-                      </Typography>
-                    </Box>
-                  ) : (
-                    <Typography variant="body2" color="text.secondary">
-                      -
-                    </Typography>
-                  )}
-                </TableCell>
-
-                {/* Coluna Status */}
-                <TableCell align="center">
-                  <Chip
-                    label={getStatusText(user.status)}
-                    color={getStatusColor(user.status) as any}
-                    size="small"
-                    variant={user.status === 'Active' ? 'filled' : 'outlined'}
-                  />
-                </TableCell>
-
-                {/* Coluna Email Verificado */}
-                <TableCell align="center">
-                  <Tooltip title={user.isEmailVerified ? 'Email verificado' : 'Email não verificado'}>
-                    {user.isEmailVerified ? (
-                      <VerifiedIcon sx={{ color: 'success.main', fontSize: 20 }} />
-                    ) : (
-                      <UnverifiedIcon sx={{ color: 'warning.main', fontSize: 20 }} />
-                    )}
-                  </Tooltip>
-                </TableCell>
-
-                {/* Coluna Último Login */}
-                <TableCell align="center">
-                  <Typography variant="body2" color="text.secondary">
-                    {user.lastLoginAt 
-                      ? new Date(user.lastLoginAt).toLocaleDateString('pt-BR', {
-                          day: '2-digit',
-                          month: '2-digit',
-                          year: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit'
-                        })
-                      : 'Nunca'
-                    }
-                  </Typography>
-                </TableCell>
-
-                {/* Coluna Ações */}
-                <TableCell align="center">
-                  <Box sx={{ display: 'flex', justifyContent: 'center', gap: 0.5 }}>
-                    {/* Toggle Status */}
-                    <Tooltip title={user.status === 'Active' ? 'Desativar usuário' : 'Ativar usuário'}>
-                      <IconButton
-                        size="small"
-                        onClick={() => onToggleStatus(user)}
-                        color={user.status === 'Active' ? 'success' : 'default'}
-                      >
-                        {user.status === 'Active' ? <ActiveIcon /> : <InactiveIcon />}
-                      </IconButton>
-                    </Tooltip>
-
-                    {/* Editar */}
-                    <Tooltip title="Editar usuário">
-                      <IconButton
-                        size="small"
-                        onClick={() => onEdit(user)}
-                        color="primary"
-                      >
-                        <EditIcon />
-                      </IconButton>
-                    </Tooltip>
-
-                    {/* Gerenciar Grupos */}
-                    <Tooltip title="Gerenciar grupos de acesso">
-                      <IconButton
-                        size="small"
-                        onClick={() => onManageGroups(user)}
-                        color="secondary"
-                      >
-                        <SecurityIcon />
-                      </IconButton>
-                    </Tooltip>
-
-                    {/* Excluir */}
-                    <Tooltip title="Excluir usuário">
-                      <IconButton
-                        size="small"
-                        onClick={() => onDelete(user)}
-                        color="error"
-                      >
-                        <DeleteIcon />
-                      </IconButton>
-                    </Tooltip>
-                  </Box>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
-
-      {/* Paginação */}
-      <TablePagination
-        component="div"
-        count={totalItems}
-        page={currentPage - 1} // Material-UI usa índice zero
-        onPageChange={handlePageChange}
-        rowsPerPage={pageSize}
-        onRowsPerPageChange={handlePageSizeChange}
-        rowsPerPageOptions={[5, 10, 25, 50]}
-        labelRowsPerPage="Itens por página:"
-        labelDisplayedRows={({ from, to, count }) => 
-          `${from}-${to} de ${count !== -1 ? count : `mais de ${to}`}`
-        }
-        sx={{
-          borderTop: 1,
-          borderColor: 'divider',
-          '& .MuiTablePagination-toolbar': {
-            px: 2
-          }
-        }}
-      />
-    </Paper>
+    <DataTable
+      columns={columns}
+      data={users}
+      emptyMessage="Nenhum usuário atende aos filtros"
+      maxHeight={600}
+      loading={loading}
+      rowKey="id"
+      rowSx={(user) => ({ opacity: user.status === 'Active' ? 1 : 0.7 })}
+      virtualized={virtualized}
+      rowHeight={VIRTUAL_ROW_HEIGHT}
+      onEndReached={onLoadMore}
+      loadingMore={loadingMore}
+      showPagination={!virtualized}
+      page={currentPage - 1} // Material-UI usa índice zero
+      rowsPerPage={pageSize}
+      totalCount={totalItems}
+      onPageChange={(_, newPage) => onPageChange(newPage + 1)}
+      onRowsPerPageChange={(event) => onPageSizeChange(parseInt(event.target.value, 10))}
+      sortBy={listQuery.sortBy}
+      sortDirection={listQuery.sortDirection}
+      onSortChange={onListQueryChange && ((sort) => onListQueryChange({ ...listQuery, ...sort }))}
+      filters={listQuery.filters}
+      onFiltersChange={onListQueryChange && ((filters) => onListQueryChange({ ...listQuery, filters }))}
+      selectable={!!onSelectionChange}
+      selection={selection}
+      onSelectionChange={onSelectionChange}
+      selectionActions={selectionActions}
+      layout={layout}
+    />
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,19 @@
+import type { ColumnFilterTypes, TableViewColumn } from '../../../shared/types';
+
+// Colunas configuráveis nas visualizações salvas (mesmos ids e rótulos do DataTable)
+export const USER_TABLE_COLUMNS: TableViewColumn[] = [
+  { id: 'fullName', label: 'Usuário', hideable: false },
+  { id: 'email', label: 'Email' },
+  { id: 'phoneNumber', label: 'Telefone' },
+  { id: 'status', label: 'Status' },
+  { id: 'isEmailVerified', label: 'Email Verificado' },
+  { id: 'lastLoginAt', label: 'Último Login' },
+  { id: 'actions', label: 'Ações', hideable: false },
+];
+
+// Filtros que não são texto, para ler a URL com o tipo da coluna
+export const USER_FILTER_TYPES: ColumnFilterTypes = {
+  status: 'enum',
+  isEmailVerified: 'boolean',
+  lastLoginAt: 'dateRange',
+};
@@ -1,11 +1,19 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useIsFetching, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { InfiniteData } from '@tanstack/react-query';
 import { UserService } from '../../../shared/services';
-import type { UserAccount, CreateUserAccountRequest, UpdateUserAccountRequest } from '../../../shared/types';
+import { UserAccountStatus } from '../../../shared/types';
+import type { UserAccount, CreateUserAccountRequest, UpdateUserAccountRequest, ListQuery, ListState } from '../../../shared/types';
 import type { AccessGroup } from '../../../shared/types';
+import { USER_QUERY_KEYS } from '../../../shared/constants';
+import { useEffectivePermissionsInvalidation, useQueryError } from '../../../shared/hooks';
+import { applyOptimisticUpdate, fetchAllPages, getQueryErrorMessage, rollbackOptimisticUpdate } from '../../../shared/utils';
 
 interface UseUsersOptions {
   autoLoad?: boolean;
   pageSize?: number;
+  // Página, tamanho, busca, ordenação e filtros controlados pela página (ex: useListUrlState)
+  listState?: ListState;
 }
 
 interface UseUsersResult {
@@ -16,9 +24,17 @@ interface UseUsersResult {
   totalItems: number;
   currentPage: number;
   totalPages: number;
+  pageSize: number;
+  listQuery: ListQuery;
+  loadingMore: boolean;
+  hasMore: boolean;
 
   // Ações
   loadUsers: (page?: number) => Promise<void>;
+  loadMoreUsers: () => Promise<void>;
+  setPageSize: (pageSize: number) => void;
+  setListQuery: (query: ListQuery) => void;
+  fetchAllMatching: () => Promise<UserAccount[]>;
   createUser: (user: CreateUserAccountRequest) => Promise<UserAccount>;
   updateUser: (id: string, user: UpdateUserAccountRequest) => Promise<UserAccount>;
   deleteUser: (id: string) => Promise<void>;
@@ -39,194 +55,282 @@ interface UseUsersResult {
   resetPassword: (email: string, token: string, newPassword: string) => Promise<void>;
 }
 
+type UsersPage = Awaited<ReturnType<typeof UserService.getUsers>>;
+
+// Mesmo critério de UserService.toggleUserStatus
+const toggledStatus = (user: UserAccount): UserAccountStatus =>
+  user.status === UserAccountStatus.Active ? UserAccountStatus.Inactive : UserAccountStatus.Active;
+
 /**
  * Hook personalizado para gerenciar usuários
  * Centraliza toda a lógica de estado e operações CRUD dos usuários
  * 
  * Features:
  * - Carregamento automático opcional
- * - Paginação integrada
+ * - Paginação integrada ou carregamento incremental (rolagem contínua)
+ * - Busca, ordenação e filtros por coluna no servidor
+ * - Estado da listagem controlado pela página (query string) ou interno
  * - Estados de loading e error
  * - Operações CRUD completas
- * - Toggle de status ativo/inativo
+ * - Toggle de status ativo/inativo com atualização otimista
  * - Validações de email e username
  * - Gerenciamento de senha (esqueci/reset)
- * - Cache local dos dados
+ * - Cache do React Query por página, busca, ordenação e filtros (USER_QUERY_KEYS)
+ * - Alterações invalidam as listagens, os grupos do usuário e as permissões efetivas
  * 
  * @param options - Configurações do hook
  */
 export const useUsers = (options: UseUsersOptions = {}): UseUsersResult => {
   // Configurações padrão
-  const { autoLoad = true, pageSize = 10 } = options;
+  const { autoLoad = true, pageSize: initialPageSize = 10, listState } = options;
+  const queryClient = useQueryClient();
+  const invalidateEffectivePermissions = useEffectivePermissionsInvalidation();
 
   // Estados
-  const [users, setUsers] = useState<UserAccount[]>([]);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [totalItems, setTotalItems] = useState<number>(0);
-  const [currentPage, setCurrentPage] = useState<number>(1);
-  const [totalPages, setTotalPages] = useState<number>(0);
+  const [enabled, setEnabled] = useState<boolean>(autoLoad);
+  const [localPage, setLocalPage] = useState<number>(1);
+  const [localPageSize, setLocalPageSize] = useState<number>(initialPageSize);
+  const [localListQuery, setLocalListQuery] = useState<ListQuery>({});
+
+  // Estado controlado pela página tem precedência sobre o interno
+  const pageSize = listState?.pageSize ?? localPageSize;
+  const listQuery = listState?.listQuery ?? localListQuery;
+  const search = listState?.search.trim() || undefined;
+  const requestedPage = listState?.page ?? localPage;
+
+  // ========== LISTAGEM ==========
+
+  // Cada página buscada pela rolagem contínua é acrescentada à mesma entrada do cache
+  const {
+    data,
+    error: queryError,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    refetch: refetchUsers,
+  } = useInfiniteQuery({
+    queryKey: USER_QUERY_KEYS.list({ page: requestedPage, pageSize, search, listQuery }),
+    queryFn: async ({ pageParam }) => {
+      console.log('🔄 useUsers: Carregando usuários...', { page: pageParam, pageSize, search, listQuery });
+
+      const response = await UserService.getUsers({
+        page: pageParam,
+        limit: pageSize,
+        search,
+        ...listQuery
+      });
+
+      console.log('✅ useUsers: Usuários carregados:', response);
+      return response;
+    },
+    initialPageParam: requestedPage,
+    getNextPageParam: (lastPage: UsersPage) =>
+      lastPage.page < lastPage.totalPages ? lastPage.page + 1 : undefined,
+    enabled,
+    // Mantém a listagem anterior visível enquanto a próxima carrega
+    placeholderData: keepPreviousData,
+  });
+
+  const { error, setError, clearError } = useQueryError(queryError, 'Erro ao carregar usuários');
+
+  const users = useMemo(() => data?.pages.flatMap(usersPage => usersPage.items || []) ?? [], [data]);
+  const lastPage = data?.pages[data.pages.length - 1];
+  const currentPage = lastPage?.page ?? requestedPage;
 
   /**
-   * Limpa mensagens de erro
+   * Carrega usuários com paginação (com listState, a página vem do estado controlado)
    */
-  const clearError = useCallback(() => {
-    setError(null);
-  }, []);
+  const loadUsers = useCallback(async (page: number = 1) => {
+    setEnabled(true);
+    setLocalPage(page);
+    await queryClient.invalidateQueries({ queryKey: USER_QUERY_KEYS.lists() });
+  }, [queryClient]);
 
   /**
-   * Carrega usuários com paginação
+   * Acrescenta a próxima página à lista (rolagem contínua)
    */
-  const loadUsers = useCallback(async (page: number = 1) => {
-    setLoading(true);
-    setError(null);
+  const loadMoreUsers = useCallback(async () => {
+    if (isFetching || !hasNextPage) return;
 
-    try {
-      console.log('🔄 useUsers: Carregando usuários...', { page, pageSize });
-      
-      const response = await UserService.getUsers({
-        page,
-        limit: pageSize
-      });
+    console.log('🔄 useUsers: Carregando mais usuários...', { page: currentPage + 1, pageSize });
+    await fetchNextPage();
+  }, [isFetching, hasNextPage, currentPage, pageSize, fetchNextPage]);
 
-      console.log('✅ useUsers: Usuários carregados:', response);
+  // Mudanças de tamanho, ordenação ou filtros voltam para a primeira página
+  const setPageSize = useCallback((size: number) => {
+    setLocalPageSize(size);
+    setLocalPage(1);
+  }, []);
 
-      setUsers(response.items || []);
-      setCurrentPage(response.page || page);
-      setTotalItems(response.total || 0);
-      setTotalPages(response.totalPages || 0);
-      
-    } catch (err: any) {
-      console.error('❌ useUsers: Erro ao carregar usuários:', err);
-      setError(err.message || 'Erro ao carregar usuários');
-      setUsers([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [pageSize]);
+  const setListQuery = useCallback((query: ListQuery) => {
+    setLocalListQuery(query);
+    setLocalPage(1);
+  }, []);
+
+  /**
+   * Busca todos os usuários que atendem aos filtros atuais (ex: seleção de todas as páginas)
+   */
+  const fetchAllMatching = useCallback(() => fetchAllPages(async (page, limit) => {
+    const response = await UserService.getUsers({ page, limit, search, ...listQuery });
+    return { items: response.items || [], totalPages: response.totalPages };
+  }), [search, listQuery]);
+
+  // ========== MUTATIONS ==========
+
+  // Status e exclusão de usuários mudam as linhas da matriz de permissões
+  const invalidateUsers = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: USER_QUERY_KEYS.lists() }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  // Grupos do usuário e as permissões efetivas que vêm deles
+  const invalidateUserAccessGroups = useCallback((userId: string) => Promise.all([
+    queryClient.invalidateQueries({ queryKey: USER_QUERY_KEYS.accessGroups(userId) }),
+    invalidateEffectivePermissions(),
+  ]), [queryClient, invalidateEffectivePermissions]);
+
+  const { mutateAsync: createUserMutation, isPending: creating } = useMutation({
+    mutationFn: (userData: CreateUserAccountRequest) => UserService.createUser(userData),
+    onSuccess: invalidateUsers,
+  });
+
+  const { mutateAsync: updateUserMutation, isPending: updating } = useMutation({
+    mutationFn: ({ id, userData }: { id: string; userData: UpdateUserAccountRequest }) => UserService.updateUser(id, userData),
+    onSuccess: invalidateUsers,
+  });
+
+  const { mutateAsync: deleteUserMutation, isPending: deleting } = useMutation({
+    mutationFn: (id: string) => UserService.deleteUser(id),
+    onSuccess: invalidateUsers,
+  });
+
+  // O novo status aparece na hora; em caso de erro a listagem volta ao estado anterior
+  const { mutateAsync: toggleStatusMutation } = useMutation({
+    mutationFn: (user: UserAccount) => UserService.toggleUserStatus(user),
+    onMutate: (user: UserAccount) => applyOptimisticUpdate<InfiniteData<UsersPage>>(queryClient, USER_QUERY_KEYS.lists(), usersData => ({
+      ...usersData,
+      pages: usersData.pages.map(usersPage => ({
+        ...usersPage,
+        items: usersPage.items.map(u => (u.id === user.id ? { ...u, status: toggledStatus(user) } : u)),
+      })),
+    })),
+    onError: (_err, _user, snapshot) => rollbackOptimisticUpdate(queryClient, snapshot),
+    onSettled: invalidateUsers,
+  });
+
+  const { mutateAsync: assignAccessGroupsMutation, isPending: assigningGroups } = useMutation({
+    mutationFn: ({ userId, accessGroupIds }: { userId: string; accessGroupIds: string[] }) =>
+      UserService.assignUserAccessGroups(userId, accessGroupIds),
+    onSuccess: (_data, { userId }) => invalidateUserAccessGroups(userId),
+  });
+
+  const { mutateAsync: revokeAccessGroupMutation, isPending: revokingGroup } = useMutation({
+    mutationFn: ({ userId, groupId }: { userId: string; groupId: string }) =>
+      UserService.revokeUserAccessGroup(userId, groupId),
+    onSuccess: (_data, { userId }) => invalidateUserAccessGroups(userId),
+  });
+
+  const { mutateAsync: forgotPasswordMutation, isPending: sendingRecovery } = useMutation({
+    mutationFn: (email: string) => UserService.forgotPassword(email),
+  });
+
+  const { mutateAsync: resetPasswordMutation, isPending: resettingPassword } = useMutation({
+    mutationFn: ({ email, token, newPassword }: { email: string; token: string; newPassword: string }) =>
+      UserService.resetPassword(email, token, newPassword),
+  });
+
+  const fetchingAccessGroups = useIsFetching({ queryKey: USER_QUERY_KEYS.accessGroupLists() }) > 0;
 
   /**
    * Cria um novo usuário
    */
   const createUser = useCallback(async (userData: CreateUserAccountRequest): Promise<UserAccount> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Criando usuário...', { ...userData, password: '[HIDDEN]' });
       
-      const newUser = await UserService.createUser(userData);
+      const newUser = await createUserMutation(userData);
       
       console.log('✅ useUsers: Usuário criado:', newUser);
-      
-      // Adiciona o novo usuário à lista local
-      setUsers(prevUsers => [newUser, ...prevUsers]);
-      setTotalItems(prev => prev + 1);
-      
       return newUser;
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao criar usuário:', err);
-      setError(err.message || 'Erro ao criar usuário');
+      setError(getQueryErrorMessage(err, 'Erro ao criar usuário'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [createUserMutation, setError]);
 
   /**
    * Atualiza um usuário existente
    */
   const updateUser = useCallback(async (id: string, userData: UpdateUserAccountRequest): Promise<UserAccount> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Atualizando usuário:', id, userData);
       
-      const updatedUser = await UserService.updateUser(id, userData);
+      const updatedUser = await updateUserMutation({ id, userData });
       
       console.log('✅ useUsers: Usuário atualizado:', updatedUser);
-      
-      // Atualiza o usuário na lista local
-      setUsers(prevUsers => 
-        prevUsers.map(user => user.id === id ? updatedUser : user)
-      );
-      
       return updatedUser;
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao atualizar usuário:', err);
-      setError(err.message || 'Erro ao atualizar usuário');
+      setError(getQueryErrorMessage(err, 'Erro ao atualizar usuário'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [updateUserMutation, setError]);
 
   /**
    * Remove um usuário
    */
   const deleteUser = useCallback(async (id: string): Promise<void> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Removendo usuário:', id);
       
-      await UserService.deleteUser(id);
+      await deleteUserMutation(id);
       
       console.log('✅ useUsers: Usuário removido com sucesso');
       
-      // Remove o usuário da lista local
-      setUsers(prevUsers => prevUsers.filter(user => user.id !== id));
-      setTotalItems(prev => prev - 1);
-      
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao remover usuário:', err);
-      setError(err.message || 'Erro ao remover usuário');
+      setError(getQueryErrorMessage(err, 'Erro ao remover usuário'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [deleteUserMutation, setError]);
 
   /**
    * Alterna status ativo/inativo do usuário
    */
   const toggleStatus = useCallback(async (user: UserAccount): Promise<UserAccount> => {
-    setLoading(true);
     setError(null);
 
     try {
-      console.log('🔄 useUsers: Alterando status do usuário:', user.id, 'para:', user.status === 'Active' ? 'Inactive' : 'Active');
+      console.log('🔄 useUsers: Alterando status do usuário:', user.id, 'para:', toggledStatus(user));
       
-      const updatedUser = await UserService.toggleUserStatus(user);
+      const updatedUser = await toggleStatusMutation(user);
       
       console.log('✅ useUsers: Status alterado:', updatedUser);
-      
-      // Atualiza o usuário na lista local
-      setUsers(prevUsers => 
-        prevUsers.map(u => u.id === user.id ? updatedUser : u)
-      );
-      
       return updatedUser;
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao alterar status:', err);
-      setError(err.message || 'Erro ao alterar status do usuário');
+      setError(getQueryErrorMessage(err, 'Erro ao alterar status do usuário'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [toggleStatusMutation, setError]);
 
   /**
    * Recarrega a lista atual
    */
   const refetch = useCallback(async () => {
-    await loadUsers(currentPage);
-  }, [loadUsers, currentPage]);
+    await refetchUsers();
+  }, [refetchUsers]);
 
   // ========== VALIDAÇÕES ==========
 
@@ -248,47 +352,41 @@ export const useUsers = (options: UseUsersOptions = {}): UseUsersResult => {
    * Inicia fluxo de esqueci a senha
    */
   const forgotPassword = useCallback(async (email: string): Promise<void> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Iniciando fluxo esqueci senha:', email);
       
-      await UserService.forgotPassword(email);
+      await forgotPasswordMutation(email);
       
       console.log('✅ useUsers: Email de recuperação enviado');
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao enviar email de recuperação:', err);
-      setError(err.message || 'Erro ao enviar email de recuperação');
+      setError(getQueryErrorMessage(err, 'Erro ao enviar email de recuperação'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [forgotPasswordMutation, setError]);
 
   /**
    * Reseta senha usando token
    */
   const resetPassword = useCallback(async (email: string, token: string, newPassword: string): Promise<void> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Resetando senha:', email);
       
-      await UserService.resetPassword(email, token, newPassword);
+      await resetPasswordMutation({ email, token, newPassword });
       
       console.log('✅ useUsers: Senha resetada com sucesso');
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao resetar senha:', err);
-      setError(err.message || 'Erro ao resetar senha');
+      setError(getQueryErrorMessage(err, 'Erro ao resetar senha'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [resetPasswordMutation, setError]);
 
   // ========== GERENCIAMENTO DE GRUPOS ==========
 
@@ -296,96 +394,88 @@ export const useUsers = (options: UseUsersOptions = {}): UseUsersResult => {
    * Lista grupos de acesso de um usuário
    */
   const getUserAccessGroups = useCallback(async (userId: string): Promise<AccessGroup[]> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Buscando grupos do usuário:', userId);
       
-      const groups = await UserService.getUserAccessGroups(userId);
+      const groups = await queryClient.fetchQuery({
+        queryKey: USER_QUERY_KEYS.accessGroups(userId),
+        queryFn: () => UserService.getUserAccessGroups(userId),
+      });
       
       console.log('✅ useUsers: Grupos encontrados:', groups.length);
       return groups;
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao buscar grupos:', err);
-      setError(err.message || 'Erro ao buscar grupos do usuário');
+      setError(getQueryErrorMessage(err, 'Erro ao buscar grupos do usuário'));
       return [];
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [queryClient, setError]);
 
   /**
    * Atribui grupos de acesso a um usuário
    */
   const assignUserAccessGroups = useCallback(async (userId: string, accessGroupIds: string[]): Promise<void> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Atribuindo grupos:', userId, accessGroupIds);
       
-      await UserService.assignUserAccessGroups(userId, accessGroupIds);
+      await assignAccessGroupsMutation({ userId, accessGroupIds });
       
       console.log('✅ useUsers: Grupos atribuídos com sucesso');
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao atribuir grupos:', err);
-      setError(err.message || 'Erro ao atribuir grupos');
+      setError(getQueryErrorMessage(err, 'Erro ao atribuir grupos'));
       throw err;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [assignAccessGroupsMutation, setError]);
 
   /**
    * Remove um grupo de acesso de um usuário
    */
   const revokeUserAccessGroup = useCallback(async (userId: string, groupId: string): Promise<void> => {
-    setLoading(true);
     setError(null);
 
     try {
       console.log('🔄 useUsers: Removendo grupo:', userId, groupId);
       
-      await UserService.revokeUserAccessGroup(userId, groupId);
+      await revokeAccessGroupMutation({ userId, groupId });
       
       console.log('✅ useUsers: Grupo removido com sucesso');
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ useUsers: Erro ao remover grupo:', err);
-      setError(err.message || 'Erro ao remover grupo');
+      setError(getQueryErrorMessage(err, 'Erro ao remover grupo'));
       throw err;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  // ========== EFEITOS ==========
-
-  /**
-   * Carregamento automático na inicialização
-   */
-  useEffect(() => {
-    if (autoLoad) {
-      loadUsers(1);
     }
-  }, [autoLoad, loadUsers]);
+  }, [revokeAccessGroupMutation, setError]);
 
   // ========== RETURN ==========
 
   return {
     // Estado
     users,
-    loading,
+    loading: (isFetching && !isFetchingNextPage) || creating || updating || deleting
+      || assigningGroups || revokingGroup || fetchingAccessGroups || sendingRecovery || resettingPassword,
     error,
-    totalItems,
+    totalItems: lastPage?.total ?? 0,
     currentPage,
-    totalPages,
+    totalPages: lastPage?.totalPages ?? 0,
+    pageSize,
+    listQuery,
+    loadingMore: isFetchingNextPage,
+    hasMore: hasNextPage,
 
     // Ações
     loadUsers,
+    loadMoreUsers,
+    setPageSize,
+    setListQuery,
+    fetchAllMatching,
     createUser,
     updateUser,
     deleteUser,
@@ -405,4 +495,4 @@ export const useUsers = (options: UseUsersOptions = {}): UseUsersResult => {
     forgotPassword,
     resetPassword,
   };
-};
\ No newline at end of file
+};
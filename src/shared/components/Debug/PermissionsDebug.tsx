@@ -1,12 +1,14 @@
 import React from 'react';
-import { Box, Typography, Chip, Paper } from '@mui/material';
+import { Box, Typography, Chip, Paper, Tooltip } from '@mui/material';
 import { usePermissions, usePermissionStore } from '../../stores/permission.store';
-import { ModuleKey } from '../../types/permission.types';
-import type { OperationType } from '../../types/permission.types';
+import { BUILT_IN_OPERATIONS, ModuleKey } from '../../types/permission.types';
+import type { OperationCode } from '../../types/permission.types';
+import { describePermissionDecision } from '../../utils/permission-decision';
 
 export const PermissionsDebug: React.FC = () => {
-  const { getAccessibleModules, getModuleOperations, hasAccess } = usePermissions();
+  const { getAccessibleModules, getModuleOperations, hasAccess, explain } = usePermissions();
   const permissions = usePermissionStore(state => state.permissions);
+  const precedence = usePermissionStore(state => state.precedence);
   
   // Só mostrar em desenvolvimento
   if (import.meta.env.MODE !== 'development') {
@@ -42,6 +44,10 @@ export const PermissionsDebug: React.FC = () => {
           <strong>User:</strong> {permissions.userId.slice(0, 8)}...
         </Typography>
       )}
+
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        <strong>Precedência:</strong> {precedence}
+      </Typography>
       
       <Typography variant="subtitle2" sx={{ mb: 1 }}>
         Módulos Acessíveis:
@@ -56,8 +62,12 @@ export const PermissionsDebug: React.FC = () => {
           {Object.values(ModuleKey).map((moduleKey: string) => {
             const operations = getModuleOperations(moduleKey);
             const hasModule = hasAccess(moduleKey);
+            // Operações padrão removidas por alguma negação
+            const deniedOperations = BUILT_IN_OPERATIONS.filter(
+              operation => explain(moduleKey, operation).reason === 'deny'
+            );
             
-            if (!hasModule) return null;
+            if (!hasModule && deniedOperations.length === 0) return null;
             
             return (
               <Box key={moduleKey}>
@@ -65,14 +75,26 @@ export const PermissionsDebug: React.FC = () => {
                   {moduleKey}:
                 </Typography>
                 <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
-                  {operations.map((operation: OperationType) => (
-                    <Chip
-                      key={operation}
-                      label={operation}
-                      size="small"
-                      color="primary"
-                      variant="outlined"
-                    />
+                  {operations.map((operation: OperationCode) => (
+                    <Tooltip key={operation} title={describePermissionDecision(explain(moduleKey, operation))}>
+                      <Chip
+                        label={operation}
+                        size="small"
+                        color="primary"
+                        variant="outlined"
+                      />
+                    </Tooltip>
+                  ))}
+                  {deniedOperations.map(operation => (
+                    <Tooltip key={operation} title={describePermissionDecision(explain(moduleKey, operation))}>
+                      <Chip
+                        label={operation}
+                        size="small"
+                        color="error"
+                        variant="outlined"
+                        sx={{ textDecoration: 'line-through' }}
+                      />
+                    </Tooltip>
                   ))}
                 </Box>
               </Box>
@@ -1,45 +1,51 @@
 import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { Lock as LockIcon } from '@mui/icons-material';
 import { usePermissions } from '../../stores/permission.store';
-import type { OperationType } from '../../types/permission.types';
+import type { OperationCode, PermissionExpression } from '../../types/permission.types';
 
-interface ProtectedRouteProps {
-  moduleKey: string;
-  operation?: OperationType;
+interface PermissionGuardProps {
+  // Verificação simples de módulo/operação
+  moduleKey?: string;
+  operation?: OperationCode;
+  // Expressão combinada (ex: 'ROLE_MODULE:UPDATE && PERMISSION_MODULE:SELECT')
+  // Quando informada junto com moduleKey, ambas precisam ser satisfeitas
+  permission?: PermissionExpression;
   children: React.ReactNode;
   fallback?: React.ReactNode;
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
-  moduleKey,
-  operation,
+/**
+ * Resolve moduleKey/operation e a expressão de permissão em uma única decisão
+ * Sem nenhuma das duas o conteúdo é liberado
+ */
+const useGuard = ({ moduleKey, operation, permission }: Pick<PermissionGuardProps, 'moduleKey' | 'operation' | 'permission'>) => {
+  const { hasAccess, satisfies } = usePermissions();
+
+  if (moduleKey && !hasAccess(moduleKey, operation)) return false;
+  if (permission !== undefined && !satisfies(permission)) return false;
+
+  return true;
+};
+
+export const ProtectedRoute: React.FC<PermissionGuardProps> = ({
   children,
-  fallback = null
+  fallback = null,
+  ...guard
 }) => {
-  const { hasAccess } = usePermissions();
-
-  if (!hasAccess(moduleKey, operation)) {
+  if (!useGuard(guard)) {
     return <>{fallback}</>;
   }
 
   return <>{children}</>;
 };
 
-interface ProtectedComponentProps {
-  moduleKey: string;
-  operation: OperationType;
-  children: React.ReactNode;
-  fallback?: React.ReactNode;
-}
-
-export const ProtectedComponent: React.FC<ProtectedComponentProps> = ({
-  moduleKey,
-  operation,
+export const ProtectedComponent: React.FC<PermissionGuardProps> = ({
   children,
-  fallback = null
+  fallback = null,
+  ...guard
 }) => {
-  const { hasAccess } = usePermissions();
-
-  if (!hasAccess(moduleKey, operation)) {
+  if (!useGuard(guard)) {
     return <>{fallback}</>;
   }
 
@@ -47,14 +53,28 @@ export const ProtectedComponent: React.FC<ProtectedComponentProps> = ({
 };
 
 // Componente de fallback padrão para acesso negado
-export const AccessDenied: React.FC<{ message?: string }> = ({ 
-  message = "Você não tem permissão para acessar este recurso." 
+export const AccessDenied: React.FC<{ message?: string; action?: React.ReactNode }> = ({ 
+  message = "Você não tem permissão para acessar este recurso.",
+  action,
 }) => (
-  <div className="flex items-center justify-center min-h-[200px] p-8">
-    <div className="text-center">
-      <div className="text-6xl mb-4">🔒</div>
-      <h2 className="text-xl font-semibold text-gray-700 mb-2">Acesso Negado</h2>
-      <p className="text-gray-500">{message}</p>
-    </div>
-  </div>
-);
\ No newline at end of file
+  <Box
+    sx={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: 200,
+      p: 4,
+    }}
+  >
+    <Box sx={{ textAlign: 'center' }}>
+      <LockIcon sx={{ fontSize: 64, color: 'text.disabled', mb: 2 }} />
+      <Typography variant="h6" fontWeight={600} gutterBottom>
+        Acesso Negado
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        {message}
+      </Typography>
+      {action && <Box sx={{ mt: 3 }}>{action}</Box>}
+    </Box>
+  </Box>
+);
@@ -1,3 +1,4 @@
+import { useEffect, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
 import {
   Paper,
@@ -8,9 +9,35 @@ import {
   TableHead,
   TableRow,
   TablePagination,
+  TableSortLabel,
   Box,
-  Typography
+  Typography,
+  Checkbox,
+  TextField,
+  MenuItem,
+  Stack,
+  Button,
+  LinearProgress,
+  Toolbar,
+  CircularProgress,
 } from '@mui/material';
+import type { SxProps, Theme } from '@mui/material';
+import type { ColumnFilterValue, ColumnFilters, DateRangeFilter, SortDirection } from '../../types/api.types';
+import type { TableColumnLayout } from '../../types/table-view.types';
+import { EMPTY_SELECTION, getSelectedCount, isRowSelected } from '../../utils/list-query.utils';
+import type { RowSelection } from '../../utils/list-query.utils';
+import { applyColumnLayout, getRowHeightForDensity } from '../../utils/table-view.utils';
+import { useVirtualRows } from '../../hooks/use-virtual-rows';
+
+const TEXT_FILTER_DEBOUNCE_MS = 400;
+const DEFAULT_ROW_HEIGHT = 53;
+
+// Filtro exibido no cabeçalho da coluna
+export type DataTableColumnFilter =
+  | { type: 'text'; placeholder?: string }
+  | { type: 'enum'; options: { value: string; label: string }[] }
+  | { type: 'boolean'; trueLabel?: string; falseLabel?: string }
+  | { type: 'dateRange' };
 
 export interface DataTableColumn<T = any> {
   id: string;
@@ -18,6 +45,17 @@ export interface DataTableColumn<T = any> {
   minWidth?: number;
   align?: 'left' | 'center' | 'right';
   format?: (value: any, row: T) => ReactNode;
+  // Ordenação no servidor; sortKey é o campo enviado em sortBy (padrão: id)
+  sortable?: boolean;
+  sortKey?: string;
+  // Filtro por coluna; filterKey é o campo enviado na query (padrão: id)
+  filter?: DataTableColumnFilter;
+  filterKey?: string;
+}
+
+export interface DataTableSort {
+  sortBy?: string;
+  sortDirection?: SortDirection;
 }
 
 export interface DataTableProps<T = any> {
@@ -25,6 +63,10 @@ export interface DataTableProps<T = any> {
   data: T[];
   emptyMessage?: string;
   maxHeight?: number;
+  loading?: boolean;
+  // Chave estável da linha (padrão: campo id)
+  rowKey?: keyof T | ((row: T) => string);
+  rowSx?: (row: T) => SxProps<Theme>;
   // Propriedades de paginação opcionais
   page?: number;
   rowsPerPage?: number;
@@ -33,66 +75,428 @@ export interface DataTableProps<T = any> {
   onRowsPerPageChange?: (event: React.ChangeEvent<HTMLInputElement>) => void;
   rowsPerPageOptions?: number[];
   showPagination?: boolean;
+  // Ordenação no servidor
+  sortBy?: string;
+  sortDirection?: SortDirection;
+  onSortChange?: (sort: DataTableSort) => void;
+  // Filtros por coluna
+  filters?: ColumnFilters;
+  onFiltersChange?: (filters: ColumnFilters) => void;
+  // Seleção de linhas (com modo "todas as páginas")
+  selectable?: boolean;
+  selection?: RowSelection;
+  onSelectionChange?: (selection: RowSelection) => void;
+  selectionActions?: ReactNode;
+  // Renderização virtualizada para listas grandes (altura de linha fixa)
+  virtualized?: boolean;
+  // Altura na densidade padrão; na compacta é reduzida automaticamente
+  rowHeight?: number;
+  // Carregamento incremental: chamado ao rolar perto do fim das linhas carregadas
+  onEndReached?: () => void;
+  loadingMore?: boolean;
+  // Visualização salva: ordem e visibilidade das colunas e densidade das linhas
+  layout?: Partial<TableColumnLayout>;
 }
 
+const getRowKeyResolver = <T extends Record<string, unknown>>(rowKey: DataTableProps<T>['rowKey']) =>
+  (row: T, index: number): string => {
+    if (typeof rowKey === 'function') return rowKey(row);
+    const value = row[(rowKey ?? 'id') as keyof T];
+    // Sem chave no registro a posição é o último recurso
+    return value === undefined || value === null ? `row-${index}` : String(value);
+  };
+
+/**
+ * Campo de texto com debounce - evita uma requisição por tecla digitada
+ */
+const TextFilterInput = ({ value, placeholder, onChange }: {
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}) => {
+  const [draft, setDraft] = useState(value);
+
+  // onChange costuma ser recriado a cada render do pai; o debounce depende só do texto
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // Acompanha alterações externas (ex: limpar filtros)
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (draft === value) return;
+    const timeout = setTimeout(() => onChangeRef.current(draft), TEXT_FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, value]);
+
+  return (
+    <TextField
+      size="small"
+      variant="standard"
+      fullWidth
+      placeholder={placeholder ?? 'Filtrar...'}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+    />
+  );
+};
+
+const ColumnFilterInput = ({ filter, value, onChange }: {
+  filter: DataTableColumnFilter;
+  value: ColumnFilterValue | undefined;
+  onChange: (value: ColumnFilterValue | undefined) => void;
+}) => {
+  switch (filter.type) {
+    case 'text':
+      return (
+        <TextFilterInput
+          value={typeof value === 'string' ? value : ''}
+          placeholder={filter.placeholder}
+          onChange={(text) => onChange(text || undefined)}
+        />
+      );
+
+    case 'enum':
+      return (
+        <TextField
+          select
+          size="small"
+          variant="standard"
+          fullWidth
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          SelectProps={{ displayEmpty: true }}
+        >
+          <MenuItem value="">Todos</MenuItem>
+          {filter.options.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+      );
+
+    case 'boolean':
+      return (
+        <TextField
+          select
+          size="small"
+          variant="standard"
+          fullWidth
+          value={typeof value === 'boolean' ? String(value) : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+          SelectProps={{ displayEmpty: true }}
+        >
+          <MenuItem value="">Todos</MenuItem>
+          <MenuItem value="true">{filter.trueLabel ?? 'Sim'}</MenuItem>
+          <MenuItem value="false">{filter.falseLabel ?? 'Não'}</MenuItem>
+        </TextField>
+      );
+
+    case 'dateRange': {
+      const range: DateRangeFilter = typeof value === 'object' ? value : {};
+      const update = (changes: DateRangeFilter) => {
+        const next = { ...range, ...changes };
+        onChange(next.from || next.to ? next : undefined);
+      };
+
+      return (
+        <Stack direction="row" spacing={0.5}>
+          <TextField
+            type="date"
+            size="small"
+            variant="standard"
+            value={range.from ?? ''}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+            inputProps={{ 'aria-label': 'De', max: range.to }}
+          />
+          <TextField
+            type="date"
+            size="small"
+            variant="standard"
+            value={range.to ?? ''}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+            inputProps={{ 'aria-label': 'Até', min: range.from }}
+          />
+        </Stack>
+      );
+    }
+  }
+};
+
 /**
  * Componente de tabela reutilizável
- * Suporte a formatação customizada de colunas e paginação opcional
+ *
+ * Features:
+ * - Formatação customizada de colunas e paginação opcional
+ * - Ordenação no servidor pelos cabeçalhos (sortBy/sortDirection)
+ * - Filtros por coluna: texto, enum, booleano e intervalo de datas
+ * - Seleção de linhas com opção de selecionar todas as páginas
+ * - Chaves de linha estáveis (rowKey)
+ * - Modo virtualizado com carregamento incremental para listas grandes
+ * - Ordem, visibilidade das colunas e densidade definidas pela visualização (layout)
  */
 export const DataTable = <T extends Record<string, any>>({
   columns,
   data,
   emptyMessage = 'Nenhum dado encontrado',
   maxHeight = 440,
+  loading = false,
+  rowKey,
+  rowSx,
   page = 0,
   rowsPerPage = 10,
   totalCount,
   onPageChange,
   onRowsPerPageChange,
   rowsPerPageOptions = [5, 10, 25, 50],
-  showPagination = false
+  showPagination = false,
+  sortBy,
+  sortDirection = 'asc',
+  onSortChange,
+  filters = {},
+  onFiltersChange,
+  selectable = false,
+  selection = EMPTY_SELECTION,
+  onSelectionChange,
+  selectionActions,
+  virtualized = false,
+  rowHeight = DEFAULT_ROW_HEIGHT,
+  onEndReached,
+  loadingMore = false,
+  layout,
 }: DataTableProps<T>) => {
+  const visibleColumns = applyColumnLayout(columns, layout);
+  const densityRowHeight = getRowHeightForDensity(rowHeight, layout?.density);
   const hasData = data.length > 0;
   const actualTotalCount = totalCount ?? data.length;
+  const getKey = getRowKeyResolver<T>(rowKey);
+  const pageKeys = data.map((row, index) => getKey(row, index));
+
+  const hasFilters = !!onFiltersChange && visibleColumns.some(column => column.filter);
+  const canSelect = selectable && !!onSelectionChange;
+  const selectedCount = getSelectedCount(selection, actualTotalCount);
+  const selectedOnPage = pageKeys.filter(key => isRowSelected(selection, key)).length;
+  const allOnPageSelected = hasData && selectedOnPage === pageKeys.length;
+  const columnCount = visibleColumns.length + (canSelect ? 1 : 0);
+
+  const virtualRows = useVirtualRows({
+    count: data.length,
+    rowHeight: densityRowHeight,
+    viewportHeight: maxHeight,
+    enabled: virtualized,
+    onEndReached: virtualized ? onEndReached : undefined,
+  });
+  const visibleRows = data.slice(virtualRows.startIndex, virtualRows.endIndex);
+
+  // Ciclo de ordenação: crescente → decrescente → sem ordenação
+  const handleSort = (column: DataTableColumn<T>) => {
+    if (!onSortChange) return;
+    const key = column.sortKey ?? column.id;
+
+    if (sortBy !== key) {
+      onSortChange({ sortBy: key, sortDirection: 'asc' });
+    } else if (sortDirection === 'asc') {
+      onSortChange({ sortBy: key, sortDirection: 'desc' });
+    } else {
+      onSortChange({ sortBy: undefined, sortDirection: undefined });
+    }
+  };
+
+  const handleFilterChange = (column: DataTableColumn<T>, value: ColumnFilterValue | undefined) => {
+    if (!onFiltersChange) return;
+    const key = column.filterKey ?? column.id;
+    const rest = Object.fromEntries(Object.entries(filters).filter(([filterKey]) => filterKey !== key));
+    onFiltersChange(value === undefined ? rest : { ...rest, [key]: value });
+  };
+
+  const setRowSelected = (key: string, selected: boolean) => {
+    if (!onSelectionChange) return;
+
+    if (selection.mode === 'all') {
+      const excludedKeys = selection.excludedKeys.filter(item => item !== key);
+      onSelectionChange({ mode: 'all', excludedKeys: selected ? excludedKeys : [...excludedKeys, key] });
+    } else {
+      const keys = selection.keys.filter(item => item !== key);
+      onSelectionChange({ mode: 'include', keys: selected ? [...keys, key] : keys });
+    }
+  };
+
+  const handleSelectPage = (selected: boolean) => {
+    if (!onSelectionChange) return;
+
+    if (selection.mode === 'all') {
+      const excludedKeys = selection.excludedKeys.filter(key => !pageKeys.includes(key));
+      onSelectionChange({ mode: 'all', excludedKeys: selected ? excludedKeys : [...excludedKeys, ...pageKeys] });
+    } else {
+      const keys = selection.keys.filter(key => !pageKeys.includes(key));
+      onSelectionChange({ mode: 'include', keys: selected ? [...keys, ...pageKeys] : keys });
+    }
+  };
+
+  const renderHeaderCell = (column: DataTableColumn<T>) => {
+    const sortKey = column.sortKey ?? column.id;
+    const active = sortBy === sortKey;
+    const filterValue = filters[column.filterKey ?? column.id];
+
+    return (
+      <TableCell
+        key={column.id}
+        align={column.align || 'left'}
+        style={{ minWidth: column.minWidth }}
+        sx={{ fontWeight: 'bold', verticalAlign: 'top' }}
+        sortDirection={active ? sortDirection : false}
+      >
+        {column.sortable && onSortChange ? (
+          <TableSortLabel
+            active={active}
+            direction={active ? sortDirection : 'asc'}
+            onClick={() => handleSort(column)}
+          >
+            {column.label}
+          </TableSortLabel>
+        ) : (
+          column.label
+        )}
+
+        {hasFilters && column.filter && (
+          <Box sx={{ mt: 0.5, fontWeight: 'normal' }}>
+            <ColumnFilterInput
+              filter={column.filter}
+              value={filterValue}
+              onChange={(value) => handleFilterChange(column, value)}
+            />
+          </Box>
+        )}
+      </TableCell>
+    );
+  };
 
   return (
     <Paper sx={{ width: '100%', overflow: 'hidden' }}>
-      <TableContainer sx={{ maxHeight }}>
-        <Table stickyHeader>
+      {canSelect && selectedCount > 0 && (
+        <Toolbar
+          variant="dense"
+          sx={{ gap: 2, bgcolor: 'action.selected', flexWrap: 'wrap' }}
+        >
+          <Typography variant="subtitle2" sx={{ flex: 1 }}>
+            {selectedCount} selecionado(s)
+          </Typography>
+          {selectionActions}
+          <Button size="small" onClick={() => onSelectionChange?.(EMPTY_SELECTION)}>
+            Limpar seleção
+          </Button>
+        </Toolbar>
+      )}
+
+      {/* Seleção de todas as páginas */}
+      {canSelect && allOnPageSelected && actualTotalCount > data.length && (
+        <Box sx={{ px: 2, py: 1, textAlign: 'center', bgcolor: 'action.hover' }}>
+          {selection.mode === 'all' ? (
+            <Typography variant="body2">
+              Todos os {selectedCount} registros estão selecionados.{' '}
+              <Button size="small" onClick={() => onSelectionChange?.(EMPTY_SELECTION)}>
+                Limpar seleção
+              </Button>
+            </Typography>
+          ) : (
+            <Typography variant="body2">
+              Os {data.length} registros desta página estão selecionados.{' '}
+              <Button size="small" onClick={() => onSelectionChange?.({ mode: 'all', excludedKeys: [] })}>
+                Selecionar todos os {actualTotalCount}
+              </Button>
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {loading && <LinearProgress />}
+
+      <TableContainer
+        ref={virtualized ? virtualRows.containerRef : undefined}
+        onScroll={virtualized ? virtualRows.onScroll : undefined}
+        sx={{ maxHeight }}
+      >
+        <Table stickyHeader size={layout?.density === 'compact' ? 'small' : 'medium'}>
           <TableHead>
             <TableRow>
-              {columns.map((column) => (
-                <TableCell
-                  key={column.id}
-                  align={column.align || 'left'}
-                  style={{ minWidth: column.minWidth }}
-                  sx={{ fontWeight: 'bold' }}
-                >
-                  {column.label}
+              {canSelect && (
+                <TableCell padding="checkbox" sx={{ verticalAlign: 'top' }}>
+                  <Checkbox
+                    indeterminate={selectedOnPage > 0 && !allOnPageSelected}
+                    checked={allOnPageSelected}
+                    disabled={!hasData}
+                    onChange={(e) => handleSelectPage(e.target.checked)}
+                    inputProps={{ 'aria-label': 'Selecionar todos desta página' }}
+                  />
                 </TableCell>
-              ))}
+              )}
+              {visibleColumns.map(renderHeaderCell)}
             </TableRow>
           </TableHead>
           <TableBody>
             {hasData ? (
-              data.map((row, index) => (
-                <TableRow hover key={index}>
-                  {columns.map((column) => {
-                    const value = row[column.id];
-                    return (
-                      <TableCell key={column.id} align={column.align || 'left'}>
-                        {column.format ? column.format(value, row) : value}
-                      </TableCell>
-                    );
-                  })}
-                </TableRow>
-              ))
+              <>
+                {virtualRows.offsetTop > 0 && (
+                  <TableRow aria-hidden sx={{ height: virtualRows.offsetTop }}>
+                    <TableCell colSpan={columnCount} sx={{ p: 0, border: 0 }} />
+                  </TableRow>
+                )}
+                {visibleRows.map((row, visibleIndex) => {
+                  const key = pageKeys[virtualRows.startIndex + visibleIndex];
+                  const selected = canSelect && isRowSelected(selection, key);
+
+                  return (
+                    <TableRow
+                      hover
+                      key={key}
+                      selected={selected}
+                      sx={[
+                        virtualized && { height: densityRowHeight },
+                        ...(rowSx ? [rowSx(row)].flat() : []),
+                      ]}
+                    >
+                      {canSelect && (
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            checked={selected}
+                            onChange={(e) => setRowSelected(key, e.target.checked)}
+                            inputProps={{ 'aria-label': 'Selecionar linha' }}
+                          />
+                        </TableCell>
+                      )}
+                      {visibleColumns.map((column) => {
+                        const value = row[column.id];
+                        return (
+                          <TableCell key={column.id} align={column.align || 'left'}>
+                            {column.format ? column.format(value, row) : value}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  );
+                })}
+                {virtualRows.offsetBottom > 0 && (
+                  <TableRow aria-hidden sx={{ height: virtualRows.offsetBottom }}>
+                    <TableCell colSpan={columnCount} sx={{ p: 0, border: 0 }} />
+                  </TableRow>
+                )}
+                {loadingMore && (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} align="center">
+                      <CircularProgress size={20} />
+                    </TableCell>
+                  </TableRow>
+                )}
+              </>
             ) : (
               <TableRow>
-                <TableCell colSpan={columns.length}>
+                <TableCell colSpan={columnCount}>
                   <Box sx={{ p: 4, textAlign: 'center' }}>
                     <Typography color="text.secondary">
-                      {emptyMessage}
+                      {loading ? 'Carregando...' : emptyMessage}
                     </Typography>
                   </Box>
                 </TableCell>
@@ -101,7 +505,7 @@ export const DataTable = <T extends Record<string, any>>({
           </TableBody>
         </Table>
       </TableContainer>
-      
+
       {showPagination && onPageChange && onRowsPerPageChange && (
         <TablePagination
           rowsPerPageOptions={rowsPerPageOptions}
@@ -112,11 +516,11 @@ export const DataTable = <T extends Record<string, any>>({
           onPageChange={onPageChange}
           onRowsPerPageChange={onRowsPerPageChange}
           labelRowsPerPage="Linhas por página:"
-          labelDisplayedRows={({ from, to, count }) => 
+          labelDisplayedRows={({ from, to, count }) =>
             `${from}–${to} de ${count !== -1 ? count : `mais de ${to}`}`
           }
         />
       )}
     </Paper>
   );
-};
\ No newline at end of file
+};
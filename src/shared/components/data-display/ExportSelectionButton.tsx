@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Button, CircularProgress } from '@mui/material';
+import { FileDownload as DownloadIcon } from '@mui/icons-material';
+import { exportToCsv, resolveSelectedRows } from '../../utils';
+import type { ExportRows, RowSelection } from '../../utils';
+
+export interface ExportSelectionButtonProps<T> {
+  selection: RowSelection;
+  // Registros da página atual
+  rows: T[];
+  getKey: (row: T) => string;
+  // Busca todos os registros que atendem aos filtros (seleção de todas as páginas)
+  fetchAll: () => Promise<T[]>;
+  toExportRows: (rows: T[]) => ExportRows;
+  filename: string;
+  label?: string;
+}
+
+/**
+ * Ação da barra de seleção do DataTable que exporta os registros selecionados em CSV
+ *
+ * Features:
+ * - Resolve a seleção da página atual sem novas requisições
+ * - Percorre todas as páginas quando "selecionar todos" está ativo
+ */
+export const ExportSelectionButton = <T,>({
+  selection,
+  rows,
+  getKey,
+  fetchAll,
+  toExportRows,
+  filename,
+  label = 'Exportar selecionados (CSV)',
+}: ExportSelectionButtonProps<T>) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const selectedRows = await resolveSelectedRows(selection, rows, getKey, fetchAll);
+      exportToCsv(filename, toExportRows(selectedRows));
+      console.log('📤 ExportSelectionButton: Registros exportados', selectedRows.length);
+    } catch (error) {
+      console.error('❌ ExportSelectionButton: Erro ao exportar seleção:', error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      size="small"
+      variant="outlined"
+      startIcon={exporting ? <CircularProgress size={16} /> : <DownloadIcon />}
+      disabled={exporting}
+      onClick={handleExport}
+    >
+      {label}
+    </Button>
+  );
+};
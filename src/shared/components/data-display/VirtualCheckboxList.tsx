@@ -0,0 +1,106 @@
+import type { ReactNode } from 'react';
+import {
+  Box,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  Typography,
+} from '@mui/material';
+import { useVirtualRows } from '../../hooks/use-virtual-rows';
+
+export interface VirtualCheckboxListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderLabel: (item: T) => ReactNode;
+  isChecked: (item: T) => boolean;
+  onToggle: (item: T) => void;
+  isDisabled?: (item: T) => boolean;
+  height?: number;
+  rowHeight?: number;
+  loading?: boolean;
+  // Carregamento incremental ao rolar até o fim dos itens carregados
+  onEndReached?: () => void;
+  loadingMore?: boolean;
+  emptyMessage?: string;
+}
+
+/**
+ * Lista de checkboxes virtualizada para dialogs de atribuição
+ *
+ * Features:
+ * - Renderiza apenas os itens visíveis (altura de linha fixa)
+ * - Carregamento incremental via onEndReached
+ * - Estados de loading e lista vazia
+ */
+export const VirtualCheckboxList = <T,>({
+  items,
+  getKey,
+  renderLabel,
+  isChecked,
+  onToggle,
+  isDisabled,
+  height = 360,
+  rowHeight = 56,
+  loading = false,
+  onEndReached,
+  loadingMore = false,
+  emptyMessage = 'Nenhum item encontrado',
+}: VirtualCheckboxListProps<T>) => {
+  const virtualRows = useVirtualRows({
+    count: items.length,
+    rowHeight,
+    viewportHeight: height,
+    onEndReached,
+  });
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <Typography color="text.secondary" sx={{ fontStyle: 'italic', textAlign: 'center', p: 2 }}>
+        {emptyMessage}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box
+      ref={virtualRows.containerRef}
+      onScroll={virtualRows.onScroll}
+      sx={{ height, overflowY: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}
+    >
+      <Box sx={{ pt: `${virtualRows.offsetTop}px`, pb: `${virtualRows.offsetBottom}px` }}>
+        {items.slice(virtualRows.startIndex, virtualRows.endIndex).map(item => (
+          <Box
+            key={getKey(item)}
+            sx={{ height: rowHeight, display: 'flex', alignItems: 'center', px: 1.5, overflow: 'hidden' }}
+          >
+            <FormControlLabel
+              sx={{ m: 0, width: '100%', minWidth: 0 }}
+              control={
+                <Checkbox
+                  checked={isChecked(item)}
+                  onChange={() => onToggle(item)}
+                  disabled={isDisabled?.(item)}
+                />
+              }
+              label={renderLabel(item)}
+            />
+          </Box>
+        ))}
+      </Box>
+
+      {loadingMore && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+          <CircularProgress size={20} />
+        </Box>
+      )}
+    </Box>
+  );
+};
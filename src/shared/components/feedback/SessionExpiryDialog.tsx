@@ -0,0 +1,63 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+} from '@mui/material';
+import { AccessTime as AccessTimeIcon } from '@mui/icons-material';
+
+export interface SessionExpiryDialogProps {
+  open: boolean;
+  secondsRemaining: number;
+  // false = a sessão atingiu o tempo de vida máximo e não pode ser estendida
+  canExtend?: boolean;
+  onStaySignedIn: () => void;
+  onDismiss?: () => void;
+  onSignOut: () => void;
+}
+
+/**
+ * Aviso de sessão prestes a expirar
+ * Permite estender a sessão sem perder o trabalho em andamento
+ * Quando a sessão não pode mais ser estendida, informa o usuário e permite continuar até o fim
+ */
+export const SessionExpiryDialog = ({
+  open,
+  secondsRemaining,
+  canExtend = true,
+  onStaySignedIn,
+  onDismiss,
+  onSignOut,
+}: SessionExpiryDialogProps) => {
+  return (
+    <Dialog open={open} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <AccessTimeIcon color="warning" />
+        Sessão expirando
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          {canExtend
+            ? `Sua sessão expira em ${secondsRemaining} segundos. Deseja continuar conectado?`
+            : `Sua sessão atingiu o tempo máximo e não pode ser estendida. Ela expira em ${secondsRemaining} segundos - salve seu trabalho e entre novamente.`}
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onSignOut} color="inherit">
+          Sair
+        </Button>
+        {canExtend ? (
+          <Button onClick={onStaySignedIn} variant="contained" autoFocus>
+            Continuar conectado
+          </Button>
+        ) : (
+          <Button onClick={onDismiss} variant="contained" autoFocus>
+            Continuar até expirar
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
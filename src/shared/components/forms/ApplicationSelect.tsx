@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Autocomplete,
+  TextField,
+  CircularProgress,
+  Box,
+  Typography,
+} from '@mui/material';
+import { ApplicationService } from '../../services';
+import type { Application } from '../../types';
+
+export interface ApplicationSelectProps {
+  value?: string;
+  onChange: (applicationId: string | undefined) => void;
+  label?: string;
+  placeholder?: string;
+  helperText?: string;
+  error?: boolean;
+  disabled?: boolean;
+  size?: 'small' | 'medium';
+  fullWidth?: boolean;
+  /**
+   * Lista apenas aplicações ativas (a aplicação já selecionada continua visível)
+   */
+  activeOnly?: boolean;
+}
+
+/**
+ * Seletor de aplicação com busca por nome ou código
+ * Usado nos formulários de módulos/roles e como filtro nas listagens
+ */
+export const ApplicationSelect = ({
+  value,
+  onChange,
+  label = 'Aplicação',
+  placeholder = 'Selecione uma aplicação',
+  helperText,
+  error = false,
+  disabled = false,
+  size = 'medium',
+  fullWidth = true,
+  activeOnly = false,
+}: ApplicationSelectProps) => {
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadApplications = async () => {
+      try {
+        const items = await ApplicationService.getAllApplications();
+        if (!cancelled) {
+          setApplications(items);
+        }
+      } catch (err) {
+        console.error('❌ ApplicationSelect: Erro ao carregar aplicações:', err);
+        if (!cancelled) {
+          setLoadError('Não foi possível carregar as aplicações');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadApplications();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const options = useMemo(
+    () => applications.filter(application => !activeOnly || application.isActive || application.id === value),
+    [applications, activeOnly, value]
+  );
+
+  const selected = options.find(application => application.id === value) ?? null;
+
+  return (
+    <Autocomplete
+      options={options}
+      value={selected}
+      onChange={(_, application) => onChange(application?.id)}
+      getOptionLabel={(application) => application.code ? `${application.name} (${application.code})` : application.name}
+      isOptionEqualToValue={(option, current) => option.id === current.id}
+      loading={loading}
+      disabled={disabled}
+      size={size}
+      fullWidth={fullWidth}
+      noOptionsText="Nenhuma aplicação encontrada"
+      loadingText="Carregando aplicações..."
+      renderOption={(props, application) => (
+        <Box component="li" {...props} key={application.id}>
+          <Box>
+            <Typography variant="body2">
+              {application.name}
+              {!application.isActive && (
+                <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                  (inativa)
+                </Typography>
+              )}
+            </Typography>
+            {application.code && (
+              <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                {application.code}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      )}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          placeholder={placeholder}
+          error={error || Boolean(loadError)}
+          helperText={loadError || helperText}
+          InputProps={{
+            ...params.InputProps,
+            endAdornment: (
+              <>
+                {loading && <CircularProgress color="inherit" size={18} />}
+                {params.InputProps.endAdornment}
+              </>
+            ),
+          }}
+        />
+      )}
+    />
+  );
+};
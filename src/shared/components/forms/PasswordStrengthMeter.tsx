@@ -0,0 +1,54 @@
+import { Box, LinearProgress, Typography, Stack } from '@mui/material';
+import {
+  CheckCircle as MetIcon,
+  RadioButtonUnchecked as UnmetIcon,
+} from '@mui/icons-material';
+import { getPasswordStrength, PASSWORD_REQUIREMENTS } from '../../validators';
+
+export interface PasswordStrengthMeterProps {
+  password: string;
+  showRequirements?: boolean;
+}
+
+/**
+ * Medidor visual de força de senha com checklist de requisitos
+ */
+export const PasswordStrengthMeter = ({ password, showRequirements = true }: PasswordStrengthMeterProps) => {
+  const strength = getPasswordStrength(password);
+
+  return (
+    <Box aria-live="polite">
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <LinearProgress
+          variant="determinate"
+          value={password ? Math.max(10, strength.score * 25) : 0}
+          color={strength.color}
+          sx={{ flex: 1, height: 6, borderRadius: 3 }}
+          aria-label="Força da senha"
+        />
+        <Typography variant="caption" color={`${strength.color}.main`} sx={{ minWidth: 72, textAlign: 'right' }}>
+          {strength.label}
+        </Typography>
+      </Box>
+
+      {showRequirements && (
+        <Stack direction="row" flexWrap="wrap" useFlexGap spacing={1.5} sx={{ mt: 1 }}>
+          {PASSWORD_REQUIREMENTS.map(requirement => {
+            const met = !strength.unmetRequirements.includes(requirement.id);
+
+            return (
+              <Box key={requirement.id} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                {met
+                  ? <MetIcon sx={{ fontSize: 14 }} color="success" />
+                  : <UnmetIcon sx={{ fontSize: 14 }} color="disabled" />}
+                <Typography variant="caption" color={met ? 'text.primary' : 'text.secondary'}>
+                  {requirement.label}
+                </Typography>
+              </Box>
+            );
+          })}
+        </Stack>
+      )}
+    </Box>
+  );
+};
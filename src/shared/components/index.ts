@@ -2,22 +2,31 @@
 
 // Layout Components
 export * from './layout/PageHeader';
+export * from './layout/AppBreadcrumbs';
 export * from './layout/ResponsiveContainer';
 export * from './layout/ResponsiveGrid';
 export * from './layout/MainLayout';
 export * from './layout/AppHeader';
 export * from './layout/Sidebar';
+export * from './layout/TenantSwitcher';
 
 // Feedback Components
 export * from './feedback/LoadingSpinner';
 export * from './feedback/ErrorDisplay';
+export * from './feedback/SessionExpiryDialog';
 
 // Data Display Components
 export * from './data-display/DataTable';
+export * from './data-display/ExportSelectionButton';
+export * from './data-display/VirtualCheckboxList';
 
 // Common Components
 export * from './common/Pagination';
 
+// Form Components
+export * from './forms/ApplicationSelect';
+export * from './forms/PasswordStrengthMeter';
+
 // UI Components
 export * from './ui/ActionButtons';
 export * from './ui/StatusChip';
@@ -0,0 +1,60 @@
+import { Link as RouterLink, useLocation } from 'react-router-dom';
+import { Breadcrumbs, Link, Typography } from '@mui/material';
+import { NavigateNext as NavigateNextIcon } from '@mui/icons-material';
+import { useNavigation } from '../../hooks/use-navigation';
+import { ROUTES } from '../../constants';
+
+/**
+ * Breadcrumbs da rota atual, derivados do modelo único de navegação
+ * Não renderiza nada quando a rota não faz parte da navegação
+ */
+export const AppBreadcrumbs = () => {
+  const location = useLocation();
+  const { getBreadcrumbs } = useNavigation();
+
+  const trail = getBreadcrumbs(location.pathname);
+
+  // Dashboard é a raiz - só faz sentido exibir a partir do segundo nível
+  if (trail.length === 0 || trail[trail.length - 1].path === ROUTES.DASHBOARD) {
+    return null;
+  }
+
+  const items = [{ id: 'dashboard', title: 'Dashboard', path: ROUTES.DASHBOARD as string }, ...trail];
+
+  return (
+    <Breadcrumbs
+      separator={<NavigateNextIcon fontSize="small" />}
+      aria-label="breadcrumb"
+      sx={{ mb: 1, fontSize: '0.875rem' }}
+    >
+      {items.map((item, index) => {
+        const isLast = index === items.length - 1;
+
+        if (isLast || !item.path) {
+          return (
+            <Typography
+              key={item.id}
+              variant="body2"
+              color={isLast ? 'text.primary' : 'text.secondary'}
+            >
+              {item.title}
+            </Typography>
+          );
+        }
+
+        return (
+          <Link
+            key={item.id}
+            component={RouterLink}
+            to={item.path}
+            underline="hover"
+            color="inherit"
+            variant="body2"
+          >
+            {item.title}
+          </Link>
+        );
+      })}
+    </Breadcrumbs>
+  );
+};
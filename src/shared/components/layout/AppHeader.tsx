@@ -15,11 +15,13 @@ import {
   Menu as MenuIcon,
   AccountCircle,
   Logout as LogoutIcon,
-  Settings as SettingsIcon,
 } from '@mui/icons-material';
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../stores';
+import { ROUTES } from '../../constants';
 import { layout } from '../../theme';
+import { TenantSwitcher } from './TenantSwitcher';
 
 export interface AppHeaderProps {
   open: boolean;
@@ -33,6 +35,7 @@ export const AppHeader = ({ open, onMenuClick }: AppHeaderProps) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('lg'));
   const { user, logout } = useAuthStore();
+  const navigate = useNavigate();
   
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const isMenuOpen = Boolean(anchorEl);
@@ -50,9 +53,8 @@ export const AppHeader = ({ open, onMenuClick }: AppHeaderProps) => {
     handleMenuClose();
   };
 
-  const handleSettings = () => {
-    // TODO: Navegar para configurações
-    console.log('🔧 Abrir configurações');
+  const handleProfile = () => {
+    navigate(ROUTES.PROFILE);
     handleMenuClose();
   };
 
@@ -96,6 +98,11 @@ export const AppHeader = ({ open, onMenuClick }: AppHeaderProps) => {
           Sistema de Controle de Acesso
         </Typography>
 
+        {/* Tenant ativo */}
+        <Box sx={{ display: { xs: 'none', md: 'block' }, mr: 2 }}>
+          <TenantSwitcher />
+        </Box>
+
         {/* User Menu */}
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           {/* User Info */}
@@ -161,9 +168,9 @@ export const AppHeader = ({ open, onMenuClick }: AppHeaderProps) => {
           
           <Divider sx={{ display: { sm: 'none' } }} />
 
-          <MenuItem onClick={handleSettings}>
-            <SettingsIcon fontSize="small" />
-            Configurações
+          <MenuItem onClick={handleProfile}>
+            <AccountCircle fontSize="small" />
+            Meu Perfil
           </MenuItem>
           
           <Divider />
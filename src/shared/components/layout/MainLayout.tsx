@@ -9,6 +9,7 @@ import {
 import { AppHeader } from './AppHeader';
 import { Sidebar } from './Sidebar';
 import { layout } from '../../theme';
+import { useAuthStore } from '../../stores';
 
 export interface MainLayoutProps {
   children: ReactNode;
@@ -23,6 +24,7 @@ export const MainLayout = ({ children }: MainLayoutProps) => {
   const isMobile = useMediaQuery(theme.breakpoints.down('lg'));
   
   const [sidebarOpen, setSidebarOpen] = useState(!isMobile);
+  const tenantId = useAuthStore(state => state.user?.tenant.id);
 
   const handleSidebarToggle = () => {
     setSidebarOpen(!sidebarOpen);
@@ -72,8 +74,8 @@ export const MainLayout = ({ children }: MainLayoutProps) => {
         {/* Toolbar spacer */}
         <Toolbar sx={{ minHeight: `${layout.headerHeight}px !important` }} />
         
-        {/* Content */}
-        <Box sx={{ flex: 1, overflow: 'auto' }}>
+        {/* Content - remonta a página ao trocar de tenant para recarregar os dados */}
+        <Box key={tenantId} sx={{ flex: 1, overflow: 'auto' }}>
           {children}
         </Box>
       </Box>
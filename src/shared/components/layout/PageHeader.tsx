@@ -1,5 +1,6 @@
 import type { ReactNode } from 'react';
 import { Box, Typography, Button, Stack } from '@mui/material';
+import { AppBreadcrumbs } from './AppBreadcrumbs';
 
 export interface PageHeaderProps {
   title: string;
@@ -13,21 +14,26 @@ export interface PageHeaderProps {
     color?: 'primary' | 'secondary' | 'error' | 'warning' | 'info' | 'success';
   };
   children?: ReactNode;
+  // Oculta os breadcrumbs derivados da navegação
+  hideBreadcrumbs?: boolean;
 }
 
 /**
  * Componente padrão para cabeçalhos de páginas responsivos
- * Inclui título, subtítulo opcional e botão de ação
+ * Inclui breadcrumbs, título, subtítulo opcional e botão de ação
  */
 export const PageHeader = ({ 
   title, 
   subtitle, 
   icon, 
   actionButton, 
-  children 
+  children,
+  hideBreadcrumbs = false,
 }: PageHeaderProps) => {
   return (
     <Box sx={{ mb: { xs: 2, sm: 3 } }}>
+      {!hideBreadcrumbs && <AppBreadcrumbs />}
+
       <Stack
         direction={{ xs: 'column', sm: 'row' }}
         spacing={{ xs: 2, sm: 0 }}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import {
   Drawer,
   List,
@@ -8,6 +8,7 @@ import {
   ListItemText,
   Collapse,
   Box,
+  Chip,
   Typography,
   Divider,
   IconButton,
@@ -15,20 +16,14 @@ import {
   useMediaQuery,
 } from '@mui/material';
 import {
-  Group as GroupIcon,
-  Security as SecurityIcon,
-  Person as PersonIcon,
-  Settings as SettingsIcon,
-  Dashboard as DashboardIcon,
-  PlayArrow as OperationIcon,
-  AdminPanelSettings as RoleIcon,
   ExpandLess,
   ExpandMore,
   ChevronLeft as ChevronLeftIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { usePermissions, usePermissionStore } from '../../stores/permission.store';
-import { ModuleKey } from '../../types/permission.types';
+import { useNavigation } from '../../hooks/use-navigation';
+import { isExternalPath } from '../../utils/navigation.utils';
+import type { NavigationItem } from '../../types/navigation.types';
 import { layout } from '../../theme';
 
 export interface SidebarProps {
@@ -37,176 +32,21 @@ export interface SidebarProps {
   onToggle: () => void;
 }
 
-interface MenuSection {
-  id: string;
-  title: string;
-  icon: React.ReactNode;
-  path?: string;
-  children?: MenuItem[];
-  moduleKey?: string; // Chave do módulo para verificar permissão
-  operation?: string; // Operação necessária (padrão: SELECT)
-}
-
-interface MenuItem {
-  id: string;
-  title: string;
-  icon: React.ReactNode;
-  path: string;
-  badge?: string;
-  moduleKey?: string; // Chave do módulo para verificar permissão
-  operation?: string; // Operação necessária (padrão: SELECT)
-}
-
 /**
  * Sidebar de navegação com módulos do Access Control
  * Suporte a seções expansíveis e navegação responsiva
+ * Itens vêm do modelo único de navegação (navigationConfig), já filtrados por permissão
  */
 export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
   const navigate = useNavigate();
   const location = useLocation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('lg'));
-  const { hasAccess } = usePermissions();
-  const permissions = usePermissionStore(state => state.permissions);
+  const { isReady, menuItems } = useNavigation();
 
   const [expandedSections, setExpandedSections] = useState<string[]>(['access-control']);
 
-  // Definição dos módulos e seções com permissões
-  const menuSections: MenuSection[] = [
-    {
-      id: 'dashboard',
-      title: 'Dashboard',
-      icon: <DashboardIcon />,
-      path: '/dashboard',
-      // Dashboard não precisa de permissão específica - sempre visível
-    },
-    {
-      id: 'access-control',
-      title: 'Controle de Acesso',
-      icon: <SecurityIcon />,
-      children: [
-        {
-          id: 'access-groups',
-          title: 'Grupos de Acesso',
-          icon: <GroupIcon />,
-          path: '/access-groups',
-          moduleKey: ModuleKey.ACCESS_GROUP,
-          operation: 'SELECT',
-        },
-        {
-          id: 'group-types',
-          title: 'Tipos de Grupo',
-          icon: <GroupIcon />,
-          path: '/group-types',
-          moduleKey: ModuleKey.GROUP_TYPE,
-          operation: 'SELECT',
-        },
-        {
-          id: 'modules',
-          title: 'Módulos',
-          icon: <SecurityIcon />,
-          path: '/modules',
-          moduleKey: ModuleKey.MODULES,
-          operation: 'SELECT',
-        },
-        {
-          id: 'operations',
-          title: 'Operações',
-          icon: <OperationIcon />,
-          path: '/operations',
-          moduleKey: ModuleKey.OPERATION_MODULE,
-          operation: 'SELECT',
-        },
-        {
-          id: 'roles',
-          title: 'Papéis',
-          icon: <RoleIcon />,
-          path: '/roles',
-          moduleKey: ModuleKey.ROLE_MODULE,
-          operation: 'SELECT',
-        },
-        {
-          id: 'permissions',
-          title: 'Permissões',
-          icon: <SecurityIcon />,
-          path: '/permissions',
-          moduleKey: ModuleKey.PERMISSION_MODULE,
-          operation: 'SELECT',
-        },
-        {
-          id: 'users',
-          title: 'Usuários',
-          icon: <PersonIcon />,
-          path: '/users',
-          moduleKey: ModuleKey.USER_MODULE,
-          operation: 'SELECT',
-        },
-
-      ],
-    },
-    {
-      id: 'settings',
-      title: 'Configurações',
-      icon: <SettingsIcon />,
-      children: [
-        {
-          id: 'system',
-          title: 'Sistema',
-          icon: <SettingsIcon />,
-          path: '/settings/system',
-          badge: 'Em breve',
-          // Configurações não precisam de permissão específica por enquanto
-        },
-        {
-          id: 'profile',
-          title: 'Perfil',
-          icon: <PersonIcon />,
-          path: '/settings/profile',
-          badge: 'Em breve',
-          // Perfil sempre visível para usuário logado
-        },
-      ],
-    },
-  ];
-
-  // Função para verificar se um item tem permissão
-  const hasPermissionForItem = (item: MenuItem | MenuSection): boolean => {
-    if (!item.moduleKey) return true; // Se não tem moduleKey, sempre visível
-    const operation = item.operation || 'SELECT';
-    return hasAccess(item.moduleKey, operation as any);
-  };
-
-  // Filtrar itens do menu baseado nas permissões
-  const filteredMenuSections = useMemo(() => {
-    // Se as permissões ainda não foram carregadas, retorna menu vazio
-    if (!permissions) {
-      return [];
-    }
-
-    return menuSections
-      .map(section => {
-        // Se a seção tem filhos, filtra os filhos primeiro
-        if (section.children) {
-          const filteredChildren = section.children.filter(hasPermissionForItem);
-          
-          // Se não sobrou nenhum filho com permissão, esconde a seção inteira
-          if (filteredChildren.length === 0) {
-            return null;
-          }
-          
-          return {
-            ...section,
-            children: filteredChildren
-          };
-        }
-        
-        // Para seções sem filhos, verifica a permissão da própria seção
-        return hasPermissionForItem(section) ? section : null;
-      })
-      .filter((section): section is MenuSection => section !== null);
-  }, [permissions, hasAccess]);
-
-  const handleSectionClick = (section: MenuSection) => {
+  const handleSectionClick = (section: NavigationItem) => {
     if (section.path) {
       navigate(section.path);
       if (isMobile) onClose();
@@ -219,18 +59,23 @@ export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
     }
   };
 
-  const handleItemClick = (item: MenuItem) => {
-    if (!item.badge) {
+  const handleItemClick = (item: NavigationItem) => {
+    if (!item.path || item.disabled) return;
+
+    // Módulos do catálogo podem apontar para outra aplicação
+    if (isExternalPath(item.path)) {
+      window.open(item.path, '_blank', 'noopener,noreferrer');
+    } else {
       navigate(item.path);
-      if (isMobile) onClose();
     }
+    if (isMobile) onClose();
   };
 
-  const isActiveItem = (path: string) => {
+  const isActiveItem = (path?: string) => {
     return location.pathname === path;
   };
 
-  const isActiveSection = (section: MenuSection) => {
+  const isActiveSection = (section: NavigationItem) => {
     if (section.path) return isActiveItem(section.path);
     return section.children?.some(item => isActiveItem(item.path)) || false;
   };
@@ -260,7 +105,7 @@ export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
 
       {/* Navigation Menu */}
       <Box sx={{ flex: 1, overflow: 'auto' }}>
-        {!permissions ? (
+        {!isReady ? (
           // Mostra loading enquanto as permissões não carregam
           <Box sx={{ p: 2, textAlign: 'center' }}>
             <Typography variant="body2" color="text.secondary">
@@ -269,7 +114,7 @@ export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
           </Box>
         ) : (
           <List sx={{ py: 1 }}>
-            {filteredMenuSections.map((section, sectionIndex) => (
+            {menuItems.map((section, sectionIndex) => (
             <Box key={section.id}>
               {sectionIndex > 0 && <Divider sx={{ my: 1 }} />}
               
@@ -294,7 +139,7 @@ export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
                   }}
                 >
                   <ListItemIcon sx={{ minWidth: 40 }}>
-                    {section.icon}
+                    {section.icon && <section.icon />}
                   </ListItemIcon>
                   <ListItemText
                     primary={section.title}
@@ -322,7 +167,7 @@ export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
                         <ListItemButton
                           onClick={() => handleItemClick(item)}
                           selected={isActiveItem(item.path)}
-                          disabled={!!item.badge}
+                          disabled={item.disabled}
                           sx={{
                             pl: 4,
                             mx: 1,
@@ -331,13 +176,10 @@ export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
                               backgroundColor: 'primary.light',
                               color: 'primary.contrastText',
                             },
-                            '&.Mui-disabled': {
-                              opacity: 0.6,
-                            },
                           }}
                         >
                           <ListItemIcon sx={{ minWidth: 36 }}>
-                            {item.icon}
+                            {item.icon && <item.icon />}
                           </ListItemIcon>
                           <ListItemText
                             primary={item.title}
@@ -347,19 +189,12 @@ export const Sidebar = ({ open, onClose, onToggle }: SidebarProps) => {
                             }}
                           />
                           {item.badge && (
-                            <Typography
-                              variant="caption"
-                              sx={{
-                                bgcolor: 'warning.light',
-                                color: 'warning.contrastText',
-                                px: 1,
-                                py: 0.25,
-                                borderRadius: 1,
-                                fontSize: '0.7rem',
-                              }}
-                            >
-                              {item.badge}
-                            </Typography>
+                            <Chip
+                              label={item.badge.label}
+                              color={item.badge.color ?? 'warning'}
+                              size="small"
+                              sx={{ height: 20, fontSize: '0.7rem' }}
+                            />
                           )}
                         </ListItemButton>
                       </ListItem>
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  CircularProgress,
+  Typography,
+  Box,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import {
+  Business as TenantIcon,
+  Check as CheckIcon,
+  ExpandMore as ExpandMoreIcon,
+} from '@mui/icons-material';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '../../stores';
+import type { AuthTenant } from '../../types';
+
+/**
+ * Seletor do tenant ativo para usuários que administram vários tenants
+ * A troca recarrega as permissões e invalida todo o cache do React Query
+ * Se a troca falhar, o tenant atual é mantido e o usuário é avisado
+ */
+export const TenantSwitcher = () => {
+  const queryClient = useQueryClient();
+  const { user, availableTenants, loadAvailableTenants, switchTenant } = useAuthStore();
+
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [loadingTenants, setLoadingTenants] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const handleOpen = async (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+    setError(null);
+    setLoadingTenants(true);
+
+    try {
+      await loadAvailableTenants();
+    } catch (err) {
+      console.error('Erro ao carregar tenants disponíveis:', err);
+      setError('Não foi possível carregar os tenants');
+    } finally {
+      setLoadingTenants(false);
+    }
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+  };
+
+  const handleSelect = async (tenant: AuthTenant) => {
+    handleClose();
+    if (tenant.id === user.tenant.id) return;
+
+    setSwitching(true);
+    setSwitchError(null);
+    try {
+      await switchTenant(tenant);
+      // Descarta os dados do tenant anterior (as chaves das listagens não incluem o tenant)
+      // e recarrega as consultas em uso; invalidar manteria as listagens antigas na tela até o refetch
+      await queryClient.resetQueries();
+    } catch (err) {
+      console.error('Erro ao trocar de tenant:', err);
+      const message = (err as { message?: string })?.message;
+      setSwitchError(`Não foi possível trocar para ${tenant.name}${message ? `: ${message}` : ''}. Você continua em ${user.tenant.name}.`);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        color="inherit"
+        onClick={handleOpen}
+        disabled={switching}
+        startIcon={switching ? <CircularProgress size={16} /> : <TenantIcon />}
+        endIcon={<ExpandMoreIcon />}
+        aria-controls="tenant-menu"
+        aria-haspopup="true"
+        sx={{ textTransform: 'none', maxWidth: 240 }}
+      >
+        <Typography variant="body2" noWrap>
+          {user.tenant.name}
+        </Typography>
+      </Button>
+
+      <Menu
+        id="tenant-menu"
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleClose}
+        transformOrigin={{ horizontal: 'right', vertical: 'top' }}
+        anchorOrigin={{ horizontal: 'right', vertical: 'bottom' }}
+        PaperProps={{ elevation: 3, sx: { mt: 1, minWidth: 240 } }}
+      >
+        {loadingTenants && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {!loadingTenants && error && (
+          <MenuItem disabled>
+            <Typography variant="body2" color="error">
+              {error}
+            </Typography>
+          </MenuItem>
+        )}
+
+        {!loadingTenants && !error && availableTenants.map(tenant => {
+          const isActive = tenant.id === user.tenant.id;
+
+          return (
+            <MenuItem
+              key={tenant.id}
+              selected={isActive}
+              onClick={() => handleSelect(tenant)}
+            >
+              <ListItemIcon>
+                {isActive && <CheckIcon fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText primary={tenant.name} secondary={tenant.customDomain || tenant.slug} />
+            </MenuItem>
+          );
+        })}
+      </Menu>
+
+      <Snackbar
+        open={!!switchError}
+        autoHideDuration={6000}
+        onClose={() => setSwitchError(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="error" variant="filled" onClose={() => setSwitchError(null)} sx={{ width: '100%' }}>
+          {switchError}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
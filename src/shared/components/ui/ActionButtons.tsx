@@ -1,5 +1,7 @@
 import type { ReactNode } from 'react';
 import { Box, IconButton, Tooltip } from '@mui/material';
+import { usePermissions } from '../../stores/permission.store';
+import type { PermissionExpression } from '../../types/permission.types';
 
 export interface ActionButton {
   icon: ReactNode;
@@ -7,6 +9,10 @@ export interface ActionButton {
   onClick: () => void;
   color?: 'default' | 'primary' | 'secondary' | 'error' | 'warning' | 'info' | 'success';
   disabled?: boolean;
+  // Expressão exigida para a ação (ex: 'ROLE_MODULE:UPDATE && PERMISSION_MODULE:SELECT')
+  permission?: PermissionExpression;
+  // Sem permissão: oculta o botão (padrão) ou apenas desabilita
+  whenDenied?: 'hide' | 'disable';
 }
 
 export interface ActionButtonsProps {
@@ -18,28 +24,42 @@ export interface ActionButtonsProps {
 /**
  * Componente para grupos de botões de ação
  * Usado em listas, tabelas e cards
+ *
+ * Features:
+ * - Cada ação pode exigir uma expressão de permissão
+ * - Ações negadas são ocultadas ou desabilitadas (whenDenied)
  */
 export const ActionButtons = ({ 
   actions, 
   size = 'small',
   spacing = 1 
 }: ActionButtonsProps) => {
+  const { satisfies } = usePermissions();
+
   return (
     <Box sx={{ display: 'flex', gap: spacing }}>
-      {actions.map((action, index) => (
-        <Tooltip key={index} title={action.tooltip}>
-          <span>
-            <IconButton
-              size={size}
-              color={action.color || 'default'}
-              onClick={action.onClick}
-              disabled={action.disabled}
-            >
-              {action.icon}
-            </IconButton>
-          </span>
-        </Tooltip>
-      ))}
+      {actions.map((action, index) => {
+        const allowed = action.permission === undefined || satisfies(action.permission);
+
+        if (!allowed && action.whenDenied !== 'disable') {
+          return null;
+        }
+
+        return (
+          <Tooltip key={index} title={allowed ? action.tooltip : `${action.tooltip} (sem permissão)`}>
+            <span>
+              <IconButton
+                size={size}
+                color={action.color || 'default'}
+                onClick={action.onClick}
+                disabled={action.disabled || !allowed}
+              >
+                {action.icon}
+              </IconButton>
+            </span>
+          </Tooltip>
+        );
+      })}
     </Box>
   );
 };
\ No newline at end of file
@@ -12,9 +12,12 @@ import {
   Add as AddIcon,
   Search as SearchIcon,
 } from '@mui/icons-material';
+import type { UseTableViewsResult } from '../../hooks/use-table-views';
+import { TableViewMenu } from './TableViewMenu';
 
 export interface PageToolbarProps {
-  title: string;
+  // Opcional quando a página já exibe o título no cabeçalho
+  title?: string;
   onAdd?: () => void;
   addLabel?: string;
   searchValue?: string;
@@ -22,11 +25,13 @@ export interface PageToolbarProps {
   searchPlaceholder?: string;
   children?: ReactNode;
   actions?: ReactNode;
+  // Visualizações salvas da listagem (menu exibido antes das ações)
+  tableViews?: UseTableViewsResult;
 }
 
 /**
  * Toolbar reutilizável para páginas de listagem
- * Com busca e botão de adicionar padronizados
+ * Com busca, menu de visualizações e botão de adicionar padronizados
  */
 export const PageToolbar = ({
   title,
@@ -37,6 +42,7 @@ export const PageToolbar = ({
   searchPlaceholder = 'Buscar...',
   children,
   actions,
+  tableViews,
 }: PageToolbarProps) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -64,16 +70,18 @@ export const PageToolbar = ({
         gap: 2,
         flex: 1,
       }}>
-        <Typography
-          variant={isMobile ? 'h5' : 'h4'}
-          sx={{
-            fontWeight: 600,
-            color: 'text.primary',
-            minWidth: 'fit-content',
-          }}
-        >
-          {title}
-        </Typography>
+        {title && (
+          <Typography
+            variant={isMobile ? 'h5' : 'h4'}
+            sx={{
+              fontWeight: 600,
+              color: 'text.primary',
+              minWidth: 'fit-content',
+            }}
+          >
+            {title}
+          </Typography>
+        )}
 
         {onSearchChange && (
           <TextField
@@ -103,6 +111,7 @@ export const PageToolbar = ({
         alignItems: 'center',
         gap: 1,
       }}>
+        {tableViews && <TableViewMenu views={tableViews} />}
         {actions}
         {children}
         
@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Snackbar,
+  Switch,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import {
+  ArrowDownward as MoveDownIcon,
+  ArrowUpward as MoveUpIcon,
+  Delete as DeleteIcon,
+  Link as LinkIcon,
+  RestartAlt as ResetIcon,
+  Save as SaveIcon,
+  SaveAs as SaveAsIcon,
+  Star as DefaultIcon,
+  StarBorder as NotDefaultIcon,
+  ViewColumn as ColumnsIcon,
+  ViewList as ViewIcon,
+} from '@mui/icons-material';
+import type { UseTableViewsResult } from '../../hooks/use-table-views';
+
+interface TableViewMenuProps {
+  views: UseTableViewsResult;
+}
+
+/**
+ * Dialog de colunas: visibilidade e ordem, aplicadas imediatamente
+ */
+const TableColumnsDialog = ({ open, onClose, views }: TableViewMenuProps & {
+  open: boolean;
+  onClose: () => void;
+}) => {
+  const { columns, layout, setLayout } = views;
+  const labels = new Map(columns.map(column => [column.id, column]));
+  // Colunas novas (fora da ordem salva) aparecem no fim
+  const order = [
+    ...layout.columnOrder.filter(id => labels.has(id)),
+    ...columns.map(column => column.id).filter(id => !layout.columnOrder.includes(id)),
+  ];
+
+  const toggleColumn = (id: string) => {
+    const hidden = layout.hiddenColumns.includes(id)
+      ? layout.hiddenColumns.filter(item => item !== id)
+      : [...layout.hiddenColumns, id];
+    setLayout({ hiddenColumns: hidden });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...order];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setLayout({ columnOrder: next });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Colunas</DialogTitle>
+      <DialogContent dividers sx={{ p: 0 }}>
+        <List dense>
+          {order.map((id, index) => {
+            const column = labels.get(id);
+            if (!column) return null;
+
+            return (
+              <ListItem
+                key={id}
+                secondaryAction={
+                  <Box>
+                    <IconButton size="small" disabled={index === 0} onClick={() => moveColumn(index, -1)}>
+                      <MoveUpIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" disabled={index === order.length - 1} onClick={() => moveColumn(index, 1)}>
+                      <MoveDownIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                }
+              >
+                <ListItemIcon sx={{ minWidth: 40 }}>
+                  <Checkbox
+                    edge="start"
+                    checked={!layout.hiddenColumns.includes(id)}
+                    disabled={column.hideable === false}
+                    onChange={() => toggleColumn(id)}
+                    inputProps={{ 'aria-label': `Exibir ${column.label}` }}
+                  />
+                </ListItemIcon>
+                <ListItemText primary={column.label} />
+              </ListItem>
+            );
+          })}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setLayout({ columnOrder: columns.map(column => column.id), hiddenColumns: [] })}>
+          Restaurar colunas
+        </Button>
+        <Button variant="contained" onClick={onClose}>
+          Fechar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+/**
+ * Menu de visualizações salvas de uma listagem
+ *
+ * Features:
+ * - Aplicar, salvar, atualizar e excluir visualizações
+ * - Visualização padrão da página (estrela)
+ * - Cópia de link com o estado atual
+ * - Colunas (visibilidade e ordem) e densidade das linhas
+ */
+export const TableViewMenu = ({ views }: TableViewMenuProps) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [columnsDialogOpen, setColumnsDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const { activeView, modified, defaultViewId, layout } = views;
+  const closeMenu = () => setAnchorEl(null);
+
+  const handleSave = () => {
+    if (!viewName.trim()) return;
+    const view = views.saveView(viewName);
+    setSaveDialogOpen(false);
+    setViewName('');
+    setFeedback(`Visualização "${view.name}" salva`);
+  };
+
+  const handleCopyLink = async () => {
+    closeMenu();
+    try {
+      await navigator.clipboard.writeText(views.getShareUrl());
+      setFeedback('Link da visualização copiado');
+    } catch (err) {
+      console.error('❌ TableViewMenu: Erro ao copiar link:', err);
+      setFeedback('Não foi possível copiar o link');
+    }
+  };
+
+  const buttonLabel = `${activeView?.name ?? 'Visualização padrão'}${modified ? ' *' : ''}`;
+
+  return (
+    <>
+      <Tooltip title={modified ? 'Visualização com alterações não salvas' : 'Visualizações'}>
+        <Button
+          variant="outlined"
+          startIcon={<ViewIcon />}
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          sx={{ whiteSpace: 'nowrap' }}
+        >
+          {buttonLabel}
+        </Button>
+      </Tooltip>
+
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={closeMenu}>
+        <ListSubheader>Visualizações salvas</ListSubheader>
+        {views.views.length === 0 && (
+          <MenuItem disabled>Nenhuma visualização salva</MenuItem>
+        )}
+        {views.views.map(view => {
+          const isDefault = view.id === defaultViewId;
+          return (
+            <MenuItem
+              key={view.id}
+              selected={view.id === activeView?.id}
+              onClick={() => {
+                views.applyView(view.id);
+                closeMenu();
+              }}
+            >
+              <ListItemText primary={view.name} secondary={isDefault ? 'Padrão da página' : undefined} />
+              <Tooltip title={isDefault ? 'Remover como padrão' : 'Definir como padrão'}>
+                <IconButton
+                  size="small"
+                  edge="end"
+                  sx={{ ml: 2 }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    views.setDefaultView(isDefault ? undefined : view.id);
+                  }}
+                >
+                  {isDefault ? <DefaultIcon fontSize="small" color="warning" /> : <NotDefaultIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+            </MenuItem>
+          );
+        })}
+
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            closeMenu();
+            setSaveDialogOpen(true);
+          }}
+        >
+          <ListItemIcon><SaveAsIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Salvar como nova visualização...</ListItemText>
+        </MenuItem>
+        {activeView && modified && (
+          <MenuItem
+            onClick={() => {
+              views.updateView(activeView.id);
+              closeMenu();
+              setFeedback(`Visualização "${activeView.name}" atualizada`);
+            }}
+          >
+            <ListItemIcon><SaveIcon fontSize="small" /></ListItemIcon>
+            <ListItemText>Atualizar "{activeView.name}"</ListItemText>
+          </MenuItem>
+        )}
+        {activeView && (
+          <MenuItem
+            onClick={() => {
+              views.deleteView(activeView.id);
+              closeMenu();
+            }}
+          >
+            <ListItemIcon><DeleteIcon fontSize="small" color="error" /></ListItemIcon>
+            <ListItemText>Excluir "{activeView.name}"</ListItemText>
+          </MenuItem>
+        )}
+        <MenuItem onClick={handleCopyLink}>
+          <ListItemIcon><LinkIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Copiar link</ListItemText>
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            views.resetView();
+            closeMenu();
+          }}
+        >
+          <ListItemIcon><ResetIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Restaurar padrão</ListItemText>
+        </MenuItem>
+
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            closeMenu();
+            setColumnsDialogOpen(true);
+          }}
+        >
+          <ListItemIcon><ColumnsIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Colunas...</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => views.setLayout({ density: layout.density === 'compact' ? 'standard' : 'compact' })}>
+          <ListItemText>Linhas compactas</ListItemText>
+          <Switch size="small" edge="end" checked={layout.density === 'compact'} tabIndex={-1} />
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Salvar visualização</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Nome"
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+            }}
+            helperText="Guarda colunas, ordenação, filtros, tamanho de página e densidade"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!viewName.trim()}>
+            Salvar
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <TableColumnsDialog
+        open={columnsDialogOpen}
+        onClose={() => setColumnsDialogOpen(false)}
+        views={views}
+      />
+
+      <Snackbar
+        open={!!feedback}
+        autoHideDuration={3000}
+        onClose={() => setFeedback(null)}
+        message={feedback}
+      />
+    </>
+  );
+};
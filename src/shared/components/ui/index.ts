@@ -1,4 +1,6 @@
 // Componentes de UI reutilizáveis
 export * from './ActionButtons';
 export * from './StatusChip';
-export * from './LoadingButton';
\ No newline at end of file
+export * from './LoadingButton';
+export * from './PageToolbar';
+export * from './TableViewMenu';
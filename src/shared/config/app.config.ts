@@ -19,6 +19,20 @@ export interface AppConfig {
   auth: {
     tokenExpiryTime: number;
     refreshTokenExpiryTime: number;
+    renewalMargin: number;
+    sessionWarningTime: number;
+  };
+  tenant: {
+    baseDomain: string;
+  };
+  navigation: {
+    source: 'static' | 'modules';
+  };
+  permissions: {
+    precedence: 'deny-overrides' | 'most-specific';
+  };
+  tableViews: {
+    serverSync: boolean;
   };
 }
 
@@ -41,6 +55,23 @@ export const config: AppConfig = {
   auth: {
     tokenExpiryTime: Number(import.meta.env.VITE_TOKEN_EXPIRY_TIME) || 86400000, // 24h padrão
     refreshTokenExpiryTime: Number(import.meta.env.VITE_REFRESH_TOKEN_EXPIRY_TIME) || 604800000, // 7 dias padrão
+    renewalMargin: Number(import.meta.env.VITE_TOKEN_RENEWAL_MARGIN) || 60000, // renova 1 min antes do exp
+    sessionWarningTime: Number(import.meta.env.VITE_SESSION_WARNING_TIME) || 120000, // avisa 2 min antes do fim da sessão
+  },
+  tenant: {
+    baseDomain: import.meta.env.VITE_TENANT_BASE_DOMAIN || '', // ex: accesscontrol.com → {slug}.accesscontrol.com
+  },
+  navigation: {
+    // 'modules' gera o menu a partir do catálogo de módulos ativos do tenant
+    source: import.meta.env.VITE_MENU_SOURCE === 'modules' ? 'modules' : 'static',
+  },
+  permissions: {
+    // 'most-specific' faz a entrada mais específica vencer; no padrão qualquer negação vence
+    precedence: import.meta.env.VITE_PERMISSION_PRECEDENCE === 'most-specific' ? 'most-specific' : 'deny-overrides',
+  },
+  tableViews: {
+    // Sincroniza as visualizações salvas com a API; sem isso ficam apenas no localStorage
+    serverSync: import.meta.env.VITE_TABLE_VIEWS_SYNC === 'true',
   },
 };
 
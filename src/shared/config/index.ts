@@ -1,3 +1,5 @@
 // Configurações da aplicação
 export * from './app.config';
-export type { AppConfig } from './app.config';
\ No newline at end of file
+export type { AppConfig } from './app.config';
+export * from './navigation.config';
+export * from './navigation-icons';
\ No newline at end of file
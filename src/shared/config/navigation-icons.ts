@@ -0,0 +1,50 @@
+import {
+  Apps as AppsIcon,
+  AdminPanelSettings as AdminIcon,
+  Assessment as ReportIcon,
+  Business as BusinessIcon,
+  Category as CategoryIcon,
+  Dashboard as DashboardIcon,
+  Description as DocumentIcon,
+  Extension as ExtensionIcon,
+  Group as GroupIcon,
+  Inventory as InventoryIcon,
+  Payment as PaymentIcon,
+  Person as PersonIcon,
+  PlayArrow as OperationIcon,
+  Security as SecurityIcon,
+  Settings as SettingsIcon,
+  ShoppingCart as CartIcon,
+} from '@mui/icons-material';
+import type { SvgIconComponent } from '@mui/icons-material';
+
+/**
+ * Ícones disponíveis para módulos do catálogo
+ * O backend guarda apenas o nome (Module.icon); o frontend resolve o componente
+ */
+export const navigationIcons: Readonly<Record<string, SvgIconComponent>> = {
+  apps: AppsIcon,
+  admin: AdminIcon,
+  report: ReportIcon,
+  business: BusinessIcon,
+  category: CategoryIcon,
+  dashboard: DashboardIcon,
+  document: DocumentIcon,
+  group: GroupIcon,
+  inventory: InventoryIcon,
+  payment: PaymentIcon,
+  person: PersonIcon,
+  operation: OperationIcon,
+  security: SecurityIcon,
+  settings: SettingsIcon,
+  cart: CartIcon,
+};
+
+// Ícone usado quando o módulo não define um ícone conhecido
+export const DEFAULT_NAVIGATION_ICON: SvgIconComponent = ExtensionIcon;
+
+/**
+ * Resolve o componente de ícone a partir do nome salvo no módulo
+ */
+export const resolveNavigationIcon = (name?: string): SvgIconComponent =>
+  (name && navigationIcons[name.toLowerCase()]) || DEFAULT_NAVIGATION_ICON;
@@ -0,0 +1,181 @@
+import {
+  Group as GroupIcon,
+  Security as SecurityIcon,
+  Person as PersonIcon,
+  Settings as SettingsIcon,
+  Dashboard as DashboardIcon,
+  PlayArrow as OperationIcon,
+  AdminPanelSettings as RoleIcon,
+  Business as TenantIcon,
+  Apps as ApplicationIcon,
+  BugReport as BugReportIcon,
+  ManageSearch as ExplainIcon,
+  GridOn as MatrixIcon,
+} from '@mui/icons-material';
+import { ROUTES } from '../constants';
+import { ModuleKey } from '../types/permission.types';
+import type { NavigationItem } from '../types/navigation.types';
+
+/**
+ * Modelo único de navegação da aplicação
+ *
+ * Consumido pela Sidebar, DynamicMenu, ações rápidas do dashboard e breadcrumbs.
+ * Itens são filtrados por permissão e escondidos quando a rota não está registrada.
+ */
+export const navigationConfig: readonly NavigationItem[] = [
+  {
+    id: 'dashboard',
+    title: 'Dashboard',
+    icon: DashboardIcon,
+    path: ROUTES.DASHBOARD,
+    order: 0,
+  },
+  {
+    id: 'access-control',
+    title: 'Controle de Acesso',
+    icon: SecurityIcon,
+    order: 10,
+    children: [
+      {
+        id: 'access-groups',
+        title: 'Grupos de Acesso',
+        icon: GroupIcon,
+        path: ROUTES.ACCESS_GROUPS,
+        moduleKey: ModuleKey.ACCESS_GROUP,
+        order: 10,
+        quickAction: { description: 'Gerenciar grupos e tipos de acesso', color: 'primary' },
+      },
+      {
+        id: 'group-types',
+        title: 'Tipos de Grupo',
+        icon: GroupIcon,
+        path: ROUTES.GROUP_TYPES,
+        moduleKey: ModuleKey.GROUP_TYPE,
+        order: 20,
+      },
+      {
+        id: 'modules',
+        title: 'Módulos',
+        icon: SecurityIcon,
+        path: ROUTES.MODULES,
+        moduleKey: ModuleKey.MODULES,
+        order: 30,
+      },
+      {
+        id: 'operations',
+        title: 'Operações',
+        icon: OperationIcon,
+        path: ROUTES.OPERATIONS,
+        moduleKey: ModuleKey.OPERATION_MODULE,
+        order: 40,
+      },
+      {
+        id: 'roles',
+        title: 'Papéis',
+        icon: RoleIcon,
+        path: ROUTES.ROLES,
+        moduleKey: ModuleKey.ROLE_MODULE,
+        order: 50,
+        quickAction: { description: 'Gerenciar papéis e funções', color: 'primary' },
+      },
+      {
+        id: 'permissions',
+        title: 'Permissões',
+        icon: SecurityIcon,
+        path: ROUTES.PERMISSIONS,
+        moduleKey: ModuleKey.PERMISSION_MODULE,
+        order: 60,
+        quickAction: { description: 'Configurar permissões e operações', color: 'success' },
+      },
+      {
+        id: 'permission-explain',
+        title: 'Explicar Permissões',
+        icon: ExplainIcon,
+        path: ROUTES.PERMISSION_EXPLAIN,
+        moduleKey: ModuleKey.PERMISSION_MODULE,
+        order: 65,
+      },
+      {
+        id: 'permission-matrix',
+        title: 'Matriz de Permissões',
+        icon: MatrixIcon,
+        path: ROUTES.PERMISSION_MATRIX,
+        moduleKey: ModuleKey.PERMISSION_MODULE,
+        order: 66,
+      },
+      {
+        id: 'users',
+        title: 'Usuários',
+        icon: PersonIcon,
+        path: ROUTES.USERS,
+        moduleKey: ModuleKey.USER_MODULE,
+        order: 70,
+        quickAction: { description: 'Gerenciar usuários do sistema', color: 'secondary' },
+      },
+      {
+        id: 'tenants',
+        title: 'Tenants',
+        icon: TenantIcon,
+        path: ROUTES.TENANTS,
+        moduleKey: ModuleKey.TENANT_MODULE,
+        order: 80,
+      },
+      {
+        id: 'applications',
+        title: 'Aplicações',
+        icon: ApplicationIcon,
+        path: ROUTES.APPLICATIONS,
+        moduleKey: ModuleKey.APPLICATION_MODULE,
+        order: 90,
+      },
+    ],
+  },
+  {
+    id: 'settings',
+    title: 'Configurações',
+    icon: SettingsIcon,
+    order: 20,
+    children: [
+      {
+        id: 'system',
+        title: 'Sistema',
+        icon: SettingsIcon,
+        path: '/settings/system',
+        order: 10,
+        badge: { label: 'Em breve', color: 'warning' },
+      },
+      {
+        id: 'profile',
+        title: 'Meu Perfil',
+        icon: PersonIcon,
+        path: ROUTES.PROFILE,
+        order: 20,
+        quickAction: { description: 'Dados pessoais, senha e acessos', color: 'warning' },
+      },
+    ],
+  },
+  {
+    id: 'tests',
+    title: 'Testes',
+    icon: BugReportIcon,
+    order: 90,
+    showInMenu: false,
+    children: [
+      {
+        id: 'group-types-test',
+        title: '🧪 Teste Group Types',
+        icon: BugReportIcon,
+        path: ROUTES.GROUP_TYPES_TEST,
+        moduleKey: ModuleKey.GROUP_TYPE,
+        quickAction: { description: 'Testar API de tipos de grupo', color: 'info' },
+      },
+      {
+        id: 'operations-test',
+        title: '🧪 Teste Operations',
+        icon: BugReportIcon,
+        path: ROUTES.OPERATIONS_TEST,
+        moduleKey: ModuleKey.OPERATION_MODULE,
+      },
+    ],
+  },
+];
@@ -11,10 +11,14 @@ export const API_ENDPOINTS = {
   VALIDATE: '/api/auth/validate',
   ME: '/api/auth/me',
   USER_PERMISSIONS: '/api/auth/permissions',
+  MY_TENANTS: '/api/auth/tenants',
   
   // Users
   USERS: '/api/users',
   USER_BY_ID: (id: string) => `/api/users/${id}`,
+  FORGOT_PASSWORD: '/api/users/forgot-password',
+  RESET_PASSWORD: '/api/users/reset-password',
+  USER_CHANGE_PASSWORD: (id: string) => `/api/users/${id}/change-password`,
   
   // Tenants
   TENANTS: '/api/tenants',
@@ -42,8 +46,14 @@ export const API_ENDPOINTS = {
   // Applications
   APPLICATIONS: '/api/applications',
   APPLICATION_BY_ID: (id: string) => `/api/applications/${id}`,
+
+  // Preferências do usuário logado
+  TABLE_VIEWS: (tableId: string) => `/api/users/me/table-views/${tableId}`,
 } as const;
 
+// Header que define o tenant ativo em cada requisição
+export const TENANT_HEADER = 'X-Tenant-Id';
+
 export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
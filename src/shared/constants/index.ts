@@ -1,3 +1,4 @@
 // Constantes da aplicação
 export * from './api.constants';
-export * from './routes.constants';
\ No newline at end of file
+export * from './routes.constants';
+export * from './query-keys.constants';
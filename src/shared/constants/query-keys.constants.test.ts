@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import type { QueryKey } from '@tanstack/react-query';
+import {
+  EFFECTIVE_PERMISSION_QUERY_KEYS,
+  MODULE_CATALOG_QUERY_KEYS,
+  PERMISSION_QUERY_KEYS,
+  ROLE_QUERY_KEYS,
+  USER_QUERY_KEYS,
+} from './query-keys.constants';
+
+const listParams = { page: 1, pageSize: 10, search: '', listQuery: {} };
+
+// Invalida o prefixo e devolve quais chaves em cache foram marcadas como desatualizadas
+const invalidatedBy = async (prefix: QueryKey, keys: QueryKey[]) => {
+  const queryClient = new QueryClient();
+  keys.forEach(key => queryClient.setQueryData(key, 'cache'));
+
+  await queryClient.invalidateQueries({ queryKey: prefix, refetchType: 'none' });
+
+  return keys.filter(key => queryClient.getQueryState(key)?.isInvalidated);
+};
+
+describe('query keys', () => {
+  it('gera chaves distintas por página, busca, ordenação e filtros', () => {
+    expect(USER_QUERY_KEYS.list(listParams)).toEqual(['users', 'list', listParams]);
+    expect(USER_QUERY_KEYS.list({ ...listParams, page: 2 })).not.toEqual(USER_QUERY_KEYS.list(listParams));
+    expect(ROLE_QUERY_KEYS.list({ ...listParams, applicationId: 'app-1' })).toEqual([
+      'roles', 'list', { ...listParams, applicationId: 'app-1' },
+    ]);
+  });
+
+  it('invalida todas as páginas de uma listagem sem tocar nas relações', async () => {
+    const firstPage = ROLE_QUERY_KEYS.list(listParams);
+    const secondPage = ROLE_QUERY_KEYS.list({ ...listParams, page: 2 });
+    const permissions = ROLE_QUERY_KEYS.permissions('role-1');
+    const userList = USER_QUERY_KEYS.list(listParams);
+
+    expect(await invalidatedBy(ROLE_QUERY_KEYS.lists(), [firstPage, secondPage, permissions, userList]))
+      .toEqual([firstPage, secondPage]);
+  });
+
+  it('invalida apenas as relações do registro alterado', async () => {
+    const roleOne = ROLE_QUERY_KEYS.accessGroups('role-1');
+    const roleTwo = ROLE_QUERY_KEYS.accessGroups('role-2');
+
+    expect(await invalidatedBy(ROLE_QUERY_KEYS.accessGroups('role-1'), [roleOne, roleTwo])).toEqual([roleOne]);
+  });
+
+  it('agrupa matriz e explicações sob as permissões efetivas', async () => {
+    const matrix = EFFECTIVE_PERMISSION_QUERY_KEYS.matrix();
+    const explanation = EFFECTIVE_PERMISSION_QUERY_KEYS.explanation('user-1', 'ROLE_MODULE', 'UPDATE');
+    const permissionList = PERMISSION_QUERY_KEYS.list(listParams);
+
+    expect(await invalidatedBy(EFFECTIVE_PERMISSION_QUERY_KEYS.all, [matrix, explanation, permissionList]))
+      .toEqual([matrix, explanation]);
+  });
+
+  it('separa o catálogo da sessão por usuário e tenant', () => {
+    expect(MODULE_CATALOG_QUERY_KEYS.list('user-1', 'tenant-a'))
+      .not.toEqual(MODULE_CATALOG_QUERY_KEYS.list('user-1', 'tenant-b'));
+  });
+});
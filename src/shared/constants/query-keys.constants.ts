@@ -0,0 +1,90 @@
+import type { ListQuery, OperationCode } from '../types';
+
+// Parâmetros de uma listagem paginada que fazem parte da chave do cache
+// Página, tamanho, busca, ordenação e filtros (ex: ListState da query string) geram entradas distintas
+export interface ListQueryKeyParams {
+  page: number;
+  pageSize: number;
+  search?: string;
+  listQuery: ListQuery;
+}
+
+// Query keys para cache management (React Query)
+// Hierarquia: entidade → listagens/detalhes → parâmetros; invalidar um prefixo invalida tudo abaixo dele
+
+export const USER_QUERY_KEYS = {
+  all: ['users'] as const,
+  lists: () => [...USER_QUERY_KEYS.all, 'list'] as const,
+  list: (params: ListQueryKeyParams) => [...USER_QUERY_KEYS.lists(), params] as const,
+  accessGroupLists: () => [...USER_QUERY_KEYS.all, 'access-groups'] as const,
+  accessGroups: (userId: string) => [...USER_QUERY_KEYS.accessGroupLists(), userId] as const,
+} as const;
+
+export const ROLE_QUERY_KEYS = {
+  all: ['roles'] as const,
+  lists: () => [...ROLE_QUERY_KEYS.all, 'list'] as const,
+  list: (params: ListQueryKeyParams & { applicationId?: string }) => [...ROLE_QUERY_KEYS.lists(), params] as const,
+  permissionLists: () => [...ROLE_QUERY_KEYS.all, 'permissions'] as const,
+  permissions: (roleId: string) => [...ROLE_QUERY_KEYS.permissionLists(), roleId] as const,
+  accessGroupLists: () => [...ROLE_QUERY_KEYS.all, 'access-groups'] as const,
+  accessGroups: (roleId: string) => [...ROLE_QUERY_KEYS.accessGroupLists(), roleId] as const,
+} as const;
+
+export const MODULE_QUERY_KEYS = {
+  all: ['modules'] as const,
+  lists: () => [...MODULE_QUERY_KEYS.all, 'list'] as const,
+  list: (params: ListQueryKeyParams & { applicationId?: string }) => [...MODULE_QUERY_KEYS.lists(), params] as const,
+} as const;
+
+export const PERMISSION_QUERY_KEYS = {
+  all: ['permissions'] as const,
+  lists: () => [...PERMISSION_QUERY_KEYS.all, 'list'] as const,
+  list: (params: ListQueryKeyParams & { moduleId?: string; roleId?: string }) =>
+    [...PERMISSION_QUERY_KEYS.lists(), params] as const,
+} as const;
+
+export const OPERATION_QUERY_KEYS = {
+  all: ['operations'] as const,
+  lists: () => [...OPERATION_QUERY_KEYS.all, 'list'] as const,
+  list: (params: Omit<ListQueryKeyParams, 'listQuery'>) => [...OPERATION_QUERY_KEYS.lists(), params] as const,
+} as const;
+
+export const PERMISSION_OPERATION_QUERY_KEYS = {
+  all: ['permission-operations'] as const,
+  lists: () => [...PERMISSION_OPERATION_QUERY_KEYS.all, 'list'] as const,
+  list: (params: Omit<ListQueryKeyParams, 'listQuery'> & { permissionId?: string; operationId?: string }) =>
+    [...PERMISSION_OPERATION_QUERY_KEYS.lists(), params] as const,
+  byPermission: (permissionId: string) => [...PERMISSION_OPERATION_QUERY_KEYS.all, 'permission', permissionId] as const,
+  byOperation: (operationId: string) => [...PERMISSION_OPERATION_QUERY_KEYS.all, 'operation', operationId] as const,
+} as const;
+
+// Permissões efetivas calculadas a partir de grupos, roles, permissões e operações (matriz e explicação)
+// Qualquer alteração nessas entidades invalida o prefixo inteiro
+export const EFFECTIVE_PERMISSION_QUERY_KEYS = {
+  all: ['effective-permissions'] as const,
+  matrix: () => [...EFFECTIVE_PERMISSION_QUERY_KEYS.all, 'matrix'] as const,
+  explanations: () => [...EFFECTIVE_PERMISSION_QUERY_KEYS.all, 'explanation'] as const,
+  explanation: (userId: string, moduleKey: string, operation: OperationCode) =>
+    [...EFFECTIVE_PERMISSION_QUERY_KEYS.explanations(), userId, moduleKey, operation] as const,
+} as const;
+
+// Catálogos da sessão (menu, registro de chaves e verificações de permissão) - por usuário e tenant
+export const MODULE_CATALOG_QUERY_KEYS = {
+  all: ['module-catalog'] as const,
+  list: (userId?: string, tenantId?: string) =>
+    [...MODULE_CATALOG_QUERY_KEYS.all, userId, tenantId] as const,
+} as const;
+
+export const OPERATION_CATALOG_QUERY_KEYS = {
+  all: ['operation-catalog'] as const,
+  list: (userId?: string, tenantId?: string) =>
+    [...OPERATION_CATALOG_QUERY_KEYS.all, userId, tenantId] as const,
+} as const;
+
+export const GROUP_TYPE_QUERY_KEYS = {
+  all: ['group-types'] as const,
+  lists: () => [...GROUP_TYPE_QUERY_KEYS.all, 'list'] as const,
+  list: () => [...GROUP_TYPE_QUERY_KEYS.lists()] as const,
+  details: () => [...GROUP_TYPE_QUERY_KEYS.all, 'detail'] as const,
+  detail: (id: string) => [...GROUP_TYPE_QUERY_KEYS.details(), id] as const,
+} as const;
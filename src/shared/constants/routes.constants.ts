@@ -2,11 +2,14 @@
 export const ROUTES = {
   HOME: '/',
   LOGIN: '/login',
+  FORGOT_PASSWORD: '/forgot-password',
+  RESET_PASSWORD: '/reset-password',
   DASHBOARD: '/dashboard',
   
   // Test/Debug
   GROUP_TYPES_TEST: '/group-types-test',
   OPERATIONS_TEST: '/operations-test',
+  LARGE_LIST_BENCHMARK: '/dev/large-list-benchmark',
   
   // Users
   USERS: '/users',
@@ -37,6 +40,8 @@ export const ROUTES = {
   PERMISSION_CREATE: '/permissions/create',
   PERMISSION_EDIT: (id: string) => `/permissions/${id}/edit`,
   PERMISSION_DETAIL: (id: string) => `/permissions/${id}`,
+  PERMISSION_EXPLAIN: '/permissions/explain',
+  PERMISSION_MATRIX: '/permissions/matrix',
   
   // Modules
   MODULES: '/modules',
@@ -50,6 +55,18 @@ export const ROUTES = {
   OPERATION_EDIT: (id: string) => `/operations/${id}/edit`,
   OPERATION_DETAIL: (id: string) => `/operations/${id}`,
   
+  // Tenants
+  TENANTS: '/tenants',
+  TENANT_CREATE: '/tenants/create',
+  TENANT_EDIT: (id: string) => `/tenants/${id}/edit`,
+  TENANT_DETAIL: (id: string) => `/tenants/${id}`,
+  
+  // Applications
+  APPLICATIONS: '/applications',
+  APPLICATION_CREATE: '/applications/create',
+  APPLICATION_EDIT: (id: string) => `/applications/${id}/edit`,
+  APPLICATION_DETAIL: (id: string) => `/applications/${id}`,
+  
   // Settings
   SETTINGS: '/settings',
   PROFILE: '/profile',
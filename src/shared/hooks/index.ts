@@ -1,4 +1,16 @@
 // Hooks personalizados da aplicação
 export * from './use-auth';
+export * from './use-session-scheduler';
+export * from './use-session-sync';
 export * from './use-access-groups';
-export * from './use-group-types';
\ No newline at end of file
+export * from './use-group-types';
+export * from './use-navigation';
+export * from './use-module-catalog';
+export * from './use-module-registry-sync';
+export * from './use-operation-catalog';
+export * from './use-virtual-rows';
+export * from './use-incremental-list';
+export * from './use-table-views';
+export * from './use-list-url-state';
+export * from './use-query-error';
+export * from './use-effective-permissions-invalidation';
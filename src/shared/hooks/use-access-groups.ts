@@ -1,15 +1,26 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { 
   AccessGroup,
   CreateAccessGroupRequest, 
-  UpdateAccessGroupRequest
+  UpdateAccessGroupRequest,
+  ListQuery,
+  ListState
 } from '../types';
 import { AccessGroupService } from '../services';
 import { logger } from '../config';
+import { fetchAllPages } from '../utils';
+import { useIncrementalList } from './use-incremental-list';
+import type { UseIncrementalListResult } from './use-incremental-list';
+
+// Dialogs de atribuição buscam os grupos aos poucos em vez da coleção inteira
+const ASSIGNMENT_PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 400;
 
 interface UseAccessGroupsOptions {
   autoLoad?: boolean;
   pageSize?: number;
+  // Página, tamanho, busca, ordenação e filtros controlados pela página (ex: useListUrlState)
+  listState?: ListState;
 }
 
 interface AccessGroupsState {
@@ -30,20 +41,23 @@ interface AccessGroupsActions {
   refreshData: () => Promise<void>;
   clearError: () => void;
   setPageSize: (pageSize: number) => void;
+  setListQuery: (query: ListQuery) => void;
+  fetchAllMatching: () => Promise<AccessGroup[]>;
 }
 
 export interface UseAccessGroupsResult extends AccessGroupsState, AccessGroupsActions {
   data: AccessGroup[]; // Alias para compatibilidade com a página
   isLoading: boolean; // Alias para compatibilidade com a página
+  listQuery: ListQuery;
 }
 
 /**
  * Hook personalizado para gerenciar estado e operações de Access Groups
  * Centraliza lógica de negócio e integração com API
+ * O estado da listagem pode ser controlado pela página (query string) ou interno
  */
 export const useAccessGroups = (options: UseAccessGroupsOptions = {}): UseAccessGroupsResult => {
-  const { autoLoad = true, pageSize = 10 } = options;
-  const hasLoadedRef = useRef(false);
+  const { autoLoad = true, pageSize: initialPageSize = 10, listState } = options;
 
   const [state, setState] = useState<AccessGroupsState>({
     accessGroups: [],
@@ -52,21 +66,29 @@ export const useAccessGroups = (options: UseAccessGroupsOptions = {}): UseAccess
     totalCount: 0,
     currentPage: 1,
     totalPages: 0,
-    pageSize,
+    pageSize: initialPageSize,
   });
+  const [localListQuery, setListQuery] = useState<ListQuery>({});
+
+  // Estado controlado pela página tem precedência sobre o interno
+  const pageSize = listState?.pageSize ?? state.pageSize;
+  const listQuery = listState?.listQuery ?? localListQuery;
+  const listSearch = listState?.search.trim() || undefined;
+  const requestedPage = listState?.page ?? 1;
 
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
   }, []);
 
-  const loadAccessGroups = useCallback(async (page = 1, search?: string) => {
+  const loadAccessGroups = useCallback(async (page = 1, search = listSearch) => {
     setState(prev => ({ ...prev, loading: true, error: null }));
     
     try {
       const params = {
         page,
-        limit: state.pageSize,
+        limit: pageSize,
         ...(search && { search }),
+        ...listQuery,
       };
 
       const response = await AccessGroupService.getAccessGroups(params);
@@ -90,7 +112,15 @@ export const useAccessGroups = (options: UseAccessGroupsOptions = {}): UseAccess
       }));
       logger.error('❌ Erro ao carregar grupos de acesso:', error);
     }
-  }, [state.pageSize]);
+  }, [pageSize, listSearch, listQuery]);
+
+  /**
+   * Busca todos os grupos que atendem aos filtros atuais (ex: seleção de todas as páginas)
+   */
+  const fetchAllMatching = useCallback(() => fetchAllPages(async (page, limit) => {
+    const response = await AccessGroupService.getAccessGroups({ page, limit, search: listSearch, ...listQuery });
+    return { items: response.items, totalPages: response.totalPages };
+  }), [listSearch, listQuery]);
 
   const setPageSize = useCallback((newPageSize: number) => {
     setState(prev => ({
@@ -197,18 +227,19 @@ export const useAccessGroups = (options: UseAccessGroupsOptions = {}): UseAccess
     await loadAccessGroups(state.currentPage);
   }, [loadAccessGroups, state.currentPage]);
 
-  // Auto load on mount
+  // Carregamento automático na inicialização e ao mudar página, busca, ordenação, filtros ou tamanho da página
   useEffect(() => {
-    if (autoLoad && !hasLoadedRef.current) {
-      hasLoadedRef.current = true;
-      loadAccessGroups();
+    if (autoLoad) {
+      loadAccessGroups(requestedPage);
     }
-  }, [autoLoad, loadAccessGroups]);
+  }, [autoLoad, loadAccessGroups, requestedPage]);
 
   return {
     ...state,
+    pageSize,
     data: state.accessGroups, // Alias para compatibilidade
     isLoading: state.loading, // Alias para compatibilidade
+    listQuery,
     loadAccessGroups,
     createAccessGroup,
     updateAccessGroup,
@@ -216,5 +247,39 @@ export const useAccessGroups = (options: UseAccessGroupsOptions = {}): UseAccess
     refreshData,
     clearError,
     setPageSize,
+    setListQuery,
+    fetchAllMatching,
   };
-};
\ No newline at end of file
+};
+
+export interface UseAccessGroupOptionsResult extends UseIncrementalListResult<AccessGroup> {
+  search: string;
+  setSearch: (search: string) => void;
+}
+
+/**
+ * Grupos de acesso para dialogs de atribuição (ex: usuário → grupos, role → grupos)
+ * Busca no servidor com debounce e carregamento incremental para tenants com muitos grupos
+ */
+export const useAccessGroupOptions = ({ enabled = true }: { enabled?: boolean } = {}): UseAccessGroupOptionsResult => {
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const fetchPage = useCallback(async (page: number, limit: number) => {
+    const response = await AccessGroupService.getAccessGroups({
+      page,
+      limit,
+      ...(appliedSearch && { search: appliedSearch }),
+    });
+    return { items: response.items || [], total: response.total, totalPages: response.totalPages };
+  }, [appliedSearch]);
+
+  const list = useIncrementalList({ fetchPage, pageSize: ASSIGNMENT_PAGE_SIZE, enabled });
+
+  return { ...list, search, setSearch };
+};
@@ -2,7 +2,7 @@ import { useCallback } from 'react';
 import { useAuthStore } from '../stores';
 import { usePermissions } from '../stores/permission.store';
 import type { LoginRequest } from '../types';
-import type { OperationType } from '../types/permission.types';
+import type { OperationCode } from '../types/permission.types';
 
 /**
  * Hook personalizado para gerenciar autenticação
@@ -26,7 +26,8 @@ export const useAuth = () => {
     canRead,
     canUpdate,
     canDelete,
-    getAccessibleModules
+    getAccessibleModules,
+    satisfies
   } = usePermissions();
 
   const login = useCallback(
@@ -47,14 +48,14 @@ export const useAuth = () => {
 
   // Métodos de permissão usando o novo sistema
   const hasModuleAccess = useCallback(
-    (moduleKey: string, operation?: OperationType): boolean => {
+    (moduleKey: string, operation?: OperationCode): boolean => {
       return hasAccess(moduleKey, operation);
     },
     [hasAccess]
   );
 
   const canPerformOperation = useCallback(
-    (moduleKey: string, operation: OperationType): boolean => {
+    (moduleKey: string, operation: OperationCode): boolean => {
       return hasAccess(moduleKey, operation);
     },
     [hasAccess]
@@ -108,6 +109,10 @@ export const useAuth = () => {
     // Novos métodos de permissão baseados em módulos
     hasModuleAccess,
     canPerformOperation,
+    // Operações padrão ou customizadas (ex: can('USER_MODULE', 'EXPORT'))
+    can: canPerformOperation,
+    // Expressões combinadas (ex: satisfies('ROLE_MODULE:UPDATE && PERMISSION_MODULE:SELECT'))
+    satisfies,
     canCreate: (moduleKey: string) => canCreate(moduleKey),
     canRead: (moduleKey: string) => canRead(moduleKey),
     canUpdate: (moduleKey: string) => canUpdate(moduleKey),
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '../stores/auth.store';
+import { EFFECTIVE_PERMISSION_QUERY_KEYS } from '../constants/query-keys.constants';
+
+/**
+ * Invalidação usada pelas mutations que mudam permissões efetivas
+ * (roles, grupos, permissões, operações e as associações entre eles)
+ *
+ * Features:
+ * - Invalida a matriz e as explicações de permissões em cache
+ * - Recarrega as permissões da sessão, pois o próprio usuário logado pode ter sido afetado
+ * - O recarregamento emite 'permissions-updated', atualizando as demais abas
+ * - Falha ao recarregar a sessão não é tratada como falha da alteração já salva
+ */
+export const useEffectivePermissionsInvalidation = (): (() => Promise<void>) => {
+  const queryClient = useQueryClient();
+  const reloadPermissions = useAuthStore(state => state.reloadPermissions);
+
+  return useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: EFFECTIVE_PERMISSION_QUERY_KEYS.all });
+
+    try {
+      await reloadPermissions();
+    } catch (error) {
+      console.warn('⚠️ Permissões: alteração salva, mas a sessão não foi recarregada', error);
+    }
+  }, [queryClient, reloadPermissions]);
+};
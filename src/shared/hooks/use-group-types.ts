@@ -3,15 +3,7 @@ import type {
   CreateGroupTypeRequest, 
   UpdateGroupTypeRequest 
 } from '../types';
-
-// Query keys para cache management
-export const GROUP_TYPE_QUERY_KEYS = {
-  all: ['group-types'] as const,
-  lists: () => [...GROUP_TYPE_QUERY_KEYS.all, 'list'] as const,
-  list: () => [...GROUP_TYPE_QUERY_KEYS.lists()] as const,
-  details: () => [...GROUP_TYPE_QUERY_KEYS.all, 'detail'] as const,
-  detail: (id: string) => [...GROUP_TYPE_QUERY_KEYS.details(), id] as const,
-} as const;
+import { GROUP_TYPE_QUERY_KEYS } from '../constants/query-keys.constants';
 
 /**
  * Hook para buscar todos os group types
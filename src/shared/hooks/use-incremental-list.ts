@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface IncrementalPage<T> {
+  items: T[];
+  total: number;
+  totalPages: number;
+}
+
+interface UseIncrementalListOptions<T> {
+  // Busca uma página; mudar a identidade da função recarrega a lista (memorize com useCallback)
+  fetchPage: (page: number, limit: number) => Promise<IncrementalPage<T>>;
+  pageSize?: number;
+  enabled?: boolean;
+}
+
+export interface UseIncrementalListResult<T> {
+  items: T[];
+  total: number;
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: string | null;
+  loadMore: () => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+/**
+ * Hook de carregamento incremental (rolagem infinita) sobre uma listagem paginada
+ *
+ * Features:
+ * - Primeira página carregada ao habilitar ou ao trocar fetchPage
+ * - loadMore acrescenta a próxima página, ignorando chamadas concorrentes
+ * - Respostas de buscas anteriores são descartadas
+ */
+export const useIncrementalList = <T,>({
+  fetchPage,
+  pageSize = 50,
+  enabled = true,
+}: UseIncrementalListOptions<T>): UseIncrementalListResult<T> => {
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    loadingMoreRef.current = false;
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+
+    try {
+      const response = await fetchPage(1, pageSize);
+      if (requestId !== requestIdRef.current) return;
+
+      setItems(response.items);
+      setTotal(response.total);
+      setTotalPages(response.totalPages);
+      setPage(1);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('❌ useIncrementalList: Erro ao carregar lista:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao carregar lista');
+      setItems([]);
+      setTotal(0);
+      setTotalPages(0);
+      setPage(0);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [fetchPage, pageSize]);
+
+  const hasMore = page > 0 && page < totalPages;
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loading || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const response = await fetchPage(page + 1, pageSize);
+      if (requestId !== requestIdRef.current) return;
+
+      setItems(prev => [...prev, ...response.items]);
+      setTotal(response.total);
+      setTotalPages(response.totalPages);
+      setPage(page + 1);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('❌ useIncrementalList: Erro ao carregar mais itens:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao carregar mais itens');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [fetchPage, pageSize, page, hasMore, loading]);
+
+  useEffect(() => {
+    if (enabled) {
+      reload();
+    } else {
+      // Invalida respostas pendentes ao desabilitar (ex: dialog fechado)
+      requestIdRef.current++;
+    }
+  }, [enabled, reload]);
+
+  return { items, total, loading, loadingMore, hasMore, error, loadMore, reload };
+};
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { ColumnFilterTypes, ListQuery, ListState } from '../types/api.types';
+import { TABLE_VIEW_URL_PARAM } from '../utils/table-view.utils';
+import { hasListStateParams, readListState, writeListState } from '../utils/list-url-state.utils';
+
+const SEARCH_DEBOUNCE_MS = 400;
+const NO_FILTER_TYPES: ColumnFilterTypes = {};
+
+interface UseListUrlStateOptions {
+  defaultPageSize?: number;
+  // Tipo dos filtros por campo (ex: { isActive: 'boolean', createdAt: 'dateRange' }) - constante fora do componente
+  filterTypes?: ColumnFilterTypes;
+}
+
+interface ListUrlUpdateOptions {
+  // Substitui a entrada atual do histórico em vez de criar uma nova
+  replace?: boolean;
+}
+
+export interface UseListUrlStateResult {
+  state: ListState;
+  // A URL define algum parâmetro da listagem (ex: página recarregada ou link copiado)
+  hasUrlState: boolean;
+  // Valor do campo de busca - gravado na URL após o usuário parar de digitar
+  searchInput: string;
+  setSearchInput: (value: string) => void;
+  setPage: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+  setSearch: (search: string) => void;
+  setListQuery: (query: ListQuery) => void;
+  update: (changes: Partial<ListState>, options?: ListUrlUpdateOptions) => void;
+}
+
+/**
+ * Estado de uma listagem sincronizado com a query string
+ *
+ * Features:
+ * - Página, tamanho da página, busca, ordenação e filtros lidos da URL (recarregar ou compartilhar mantém a listagem)
+ * - Cada mudança cria uma entrada no histórico: voltar/avançar do navegador percorre os estados da listagem
+ * - Busca com debounce, substituindo a entrada atual (digitação não enche o histórico)
+ * - Mudanças de tamanho, busca, ordenação ou filtros voltam para a primeira página
+ * - Demais query params da página são preservados
+ */
+export const useListUrlState = (options: UseListUrlStateOptions = {}): UseListUrlStateResult => {
+  const { defaultPageSize = 10, filterTypes = NO_FILTER_TYPES } = options;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const parsed = useMemo(
+    () => readListState(searchParams, defaultPageSize, filterTypes),
+    [searchParams, defaultPageSize, filterTypes]
+  );
+  // Mantém a mesma referência de ordenação/filtros enquanto não mudam (só a página mudou, por exemplo)
+  const listQueryKey = JSON.stringify(parsed.listQuery);
+  const listQuery = useMemo<ListQuery>(() => JSON.parse(listQueryKey), [listQueryKey]);
+  const state = useMemo<ListState>(() => ({
+    page: parsed.page,
+    pageSize: parsed.pageSize,
+    search: parsed.search,
+    listQuery,
+  }), [parsed.page, parsed.pageSize, parsed.search, listQuery]);
+  const hasUrlState = useMemo(() => hasListStateParams(searchParams), [searchParams]);
+
+  // Várias atualizações no mesmo evento (ex: visualização aplicada) partem da última URL gravada
+  const latestParamsRef = useRef(searchParams);
+  useEffect(() => {
+    latestParamsRef.current = searchParams;
+  }, [searchParams]);
+
+  const update = useCallback((changes: Partial<ListState>, updateOptions: ListUrlUpdateOptions = {}) => {
+    const current = readListState(latestParamsRef.current, defaultPageSize, filterTypes);
+    const next = writeListState(latestParamsRef.current, { ...current, ...changes }, defaultPageSize);
+    // O link de visualização compartilhada é consumido ao abrir a página
+    next.delete(TABLE_VIEW_URL_PARAM);
+
+    if (next.toString() === latestParamsRef.current.toString()) return;
+
+    latestParamsRef.current = next;
+    setSearchParams(next, { replace: updateOptions.replace });
+  }, [defaultPageSize, filterTypes, setSearchParams]);
+
+  const setPage = useCallback((page: number) => {
+    update({ page });
+  }, [update]);
+
+  const setPageSize = useCallback((pageSize: number) => {
+    update({ pageSize, page: 1 });
+  }, [update]);
+
+  const setSearch = useCallback((search: string) => {
+    // Mesma busca (ex: espaços ao digitar) mantém a página atual
+    const current = readListState(latestParamsRef.current, defaultPageSize);
+    if (search.trim() === current.search.trim()) return;
+    update({ search, page: 1 }, { replace: true });
+  }, [defaultPageSize, update]);
+
+  const setListQuery = useCallback((listQuery: ListQuery) => {
+    update({ listQuery, page: 1 });
+  }, [update]);
+
+  const [searchInput, setSearchInput] = useState(state.search);
+
+  // Busca alterada fora do campo (voltar/avançar, visualização aplicada)
+  useEffect(() => {
+    setSearchInput(state.search);
+  }, [state.search]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, setSearch]);
+
+  return {
+    state,
+    hasUrlState,
+    searchInput,
+    setSearchInput,
+    setPage,
+    setPageSize,
+    setSearch,
+    setListQuery,
+    update,
+  };
+};
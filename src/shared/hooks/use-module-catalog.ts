@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { ModuleService } from '../services/module.service';
+import { useAuthStore } from '../stores/auth.store';
+import { MODULE_CATALOG_QUERY_KEYS } from '../constants/query-keys.constants';
+
+/**
+ * Catálogo de módulos ativos do tenant
+ * Compartilhado pelo menu dinâmico e pelo registro de chaves de módulo através do cache
+ */
+export const useModuleCatalog = (enabled = true) => {
+  const userId = useAuthStore(state => state.user?.id);
+  const tenantId = useAuthStore(state => state.user?.tenant?.id);
+
+  return useQuery({
+    queryKey: MODULE_CATALOG_QUERY_KEYS.list(userId, tenantId),
+    queryFn: () => ModuleService.getActiveModules(),
+    enabled: enabled && Boolean(userId),
+    staleTime: 5 * 60 * 1000,
+  });
+};
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { usePermissionStore } from '../stores/permission.store';
+import { useModuleRegistryStore } from '../stores/module-registry.store';
+import { useModuleCatalog } from './use-module-catalog';
+
+/**
+ * Mantém o registro de chaves de módulo em dia com a sessão
+ * - Semeia com o catálogo de módulos ativos (quando o usuário pode listá-los)
+ * - Valida as chaves das permissões do usuário contra o catálogo
+ * - Volta às chaves estáticas no logout
+ * Deve ser usado uma única vez, no AuthProvider
+ */
+export const useModuleRegistrySync = () => {
+  const permissions = usePermissionStore(state => state.permissions);
+  const { seedFromCatalog, syncWithPermissions, reset } = useModuleRegistryStore();
+  const catalog = useModuleCatalog(Boolean(permissions));
+
+  useEffect(() => {
+    if (catalog.data) {
+      seedFromCatalog(catalog.data);
+    }
+  }, [catalog.data, seedFromCatalog]);
+
+  useEffect(() => {
+    if (catalog.error) {
+      // Sem acesso ao catálogo o registro segue com as chaves estáticas e das permissões
+      console.warn('⚠️ ModuleRegistry: Catálogo de módulos indisponível', catalog.error);
+    }
+  }, [catalog.error]);
+
+  useEffect(() => {
+    if (!permissions) {
+      reset();
+      return;
+    }
+    syncWithPermissions(permissions);
+  }, [permissions, catalog.data, syncWithPermissions, reset]);
+};
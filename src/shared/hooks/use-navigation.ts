@@ -0,0 +1,94 @@
+import { createContext, useCallback, useContext, useEffect, useMemo } from 'react';
+import { usePermissionStore } from '../stores/permission.store';
+import { navigationConfig } from '../config/navigation.config';
+import { config } from '../config/app.config';
+import { useModuleCatalog } from './use-module-catalog';
+import {
+  filterNavigation,
+  flattenNavigation,
+  findBreadcrumbTrail,
+  withoutModuleItems,
+  buildModuleNavigation,
+} from '../utils/navigation.utils';
+import type { NavigationItem, BreadcrumbItem } from '../types/navigation.types';
+
+/**
+ * Paths das rotas registradas na aplicação
+ * Fornecido pelo NavigationProvider a partir do registro de rotas; null = sem filtro por rota
+ */
+export const RegisteredRoutesContext = createContext<ReadonlySet<string> | null>(null);
+
+const isCatalogMode = config.navigation.source === 'modules';
+
+/**
+ * Hook do modelo único de navegação
+ *
+ * Features:
+ * - Menu filtrado por permissão (imutável, ordenado por `order`)
+ * - Esconde itens cuja rota não está registrada (módulos do catálogo sem tela aparecem desabilitados)
+ * - Ações rápidas do dashboard e breadcrumbs derivados do mesmo modelo
+ * - Modo catálogo (VITE_MENU_SOURCE=modules): menu gerado dos módulos ativos do tenant
+ */
+export const useNavigation = () => {
+  const permissions = usePermissionStore(state => state.permissions);
+  const canPerformOperation = usePermissionStore(state => state.canPerformOperation);
+  const registeredRoutes = useContext(RegisteredRoutesContext);
+
+  // Catálogo de módulos - compartilhado entre Sidebar, DynamicMenu e breadcrumbs pelo cache
+  const modulesQuery = useModuleCatalog(isCatalogMode && Boolean(permissions));
+
+  useEffect(() => {
+    if (modulesQuery.error) {
+      console.warn('⚠️ useNavigation: Falha ao carregar catálogo de módulos, usando menu estático', modulesQuery.error);
+    }
+  }, [modulesQuery.error]);
+
+  const isRouteRegistered = useMemo(
+    () => (registeredRoutes ? (path: string) => registeredRoutes.has(path) : undefined),
+    [registeredRoutes]
+  );
+
+  // Sem catálogo (modo estático ou falha ao carregar) usa a configuração do frontend
+  const navigationTree = useMemo(() => {
+    if (!isCatalogMode || !modulesQuery.data) return navigationConfig;
+    return [
+      ...withoutModuleItems(navigationConfig),
+      ...buildModuleNavigation(modulesQuery.data, { isRouteRegistered }),
+    ];
+  }, [modulesQuery.data, isRouteRegistered]);
+
+  const filterOptions = useMemo(() => ({
+    canAccess: canPerformOperation,
+    isRouteRegistered,
+  }), [canPerformOperation, isRouteRegistered]);
+
+  // Itens exibidos nos menus (Sidebar e DynamicMenu)
+  const menuItems = useMemo<NavigationItem[]>(() => {
+    if (!permissions) return [];
+    return filterNavigation(navigationTree, filterOptions);
+  }, [permissions, filterOptions, navigationTree]);
+
+  // Cards de ação rápida do dashboard
+  const quickActions = useMemo<NavigationItem[]>(() => {
+    if (!permissions) return [];
+    return flattenNavigation(
+      filterNavigation(navigationConfig, { ...filterOptions, includeHidden: true })
+    ).filter(item => item.quickAction);
+  }, [permissions, filterOptions]);
+
+  // O usuário já está na página, então o caminho não depende de permissão
+  const getBreadcrumbs = useCallback(
+    (pathname: string): BreadcrumbItem[] => {
+      const trail = findBreadcrumbTrail(navigationTree, pathname);
+      return trail.length > 0 ? trail : findBreadcrumbTrail(navigationConfig, pathname);
+    },
+    [navigationTree]
+  );
+
+  return {
+    isReady: Boolean(permissions) && !(isCatalogMode && modulesQuery.isLoading),
+    menuItems,
+    quickActions,
+    getBreadcrumbs,
+  };
+};
@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { OperationService } from '../services/operation.service';
+import { useAuthStore } from '../stores/auth.store';
+import { usePermissionStore } from '../stores/permission.store';
+import { OPERATION_CATALOG_QUERY_KEYS } from '../constants/query-keys.constants';
+
+/**
+ * Catálogo de operações ativas (padrão e customizadas, ex: EXPORT, APPROVE)
+ */
+export const useOperationCatalog = (enabled = true) => {
+  const userId = useAuthStore(state => state.user?.id);
+  const tenantId = useAuthStore(state => state.user?.tenant?.id);
+
+  return useQuery({
+    queryKey: OPERATION_CATALOG_QUERY_KEYS.list(userId, tenantId),
+    queryFn: () => OperationService.getActiveOperations(),
+    enabled: enabled && Boolean(userId),
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+/**
+ * Publica no permission store os códigos de operação cadastrados
+ * Permite verificar operações customizadas com can(moduleKey, opCode)
+ * Deve ser usado uma única vez, no AuthProvider
+ */
+export const useOperationCatalogSync = () => {
+  const hasPermissions = usePermissionStore(state => Boolean(state.permissions));
+  const setOperationCodes = usePermissionStore(state => state.setOperationCodes);
+  const catalog = useOperationCatalog(hasPermissions);
+
+  useEffect(() => {
+    if (catalog.data) {
+      setOperationCodes(
+        catalog.data
+          .map(operation => operation.value || operation.code || '')
+          .filter(Boolean)
+      );
+    }
+  }, [catalog.data, setOperationCodes]);
+
+  useEffect(() => {
+    if (catalog.error) {
+      // Sem acesso ao catálogo, as verificações seguem funcionando - só não há aviso de operação desconhecida
+      console.warn('⚠️ Permissões: Catálogo de operações indisponível', catalog.error);
+    }
+  }, [catalog.error]);
+};
@@ -0,0 +1,30 @@
+import { useCallback, useState } from 'react';
+import { getQueryErrorMessage } from '../utils/query-cache.utils';
+
+export interface UseQueryErrorResult {
+  error: string | null;
+  setError: (error: string | null) => void;
+  clearError: () => void;
+}
+
+/**
+ * Mensagem de erro dos hooks de listagem sobre React Query
+ *
+ * Features:
+ * - Erro da última ação (setError) ou, na falta dele, o erro da busca
+ * - clearError dispensa os dois; uma nova busca com falha volta a exibir o erro
+ */
+export const useQueryError = (queryError: unknown, fallback: string): UseQueryErrorResult => {
+  const [actionError, setError] = useState<string | null>(null);
+  const [dismissedError, setDismissedError] = useState<unknown>(null);
+
+  const error = actionError
+    ?? (queryError && queryError !== dismissedError ? getQueryErrorMessage(queryError, fallback) : null);
+
+  const clearError = useCallback(() => {
+    setError(null);
+    setDismissedError(queryError);
+  }, [queryError]);
+
+  return { error, setError, clearError };
+};
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuthStore } from '../stores';
+import { config } from '../config';
+import { getTokenExpiration, getRefreshTokenExpiration } from '../utils/auth-storage';
+
+// setTimeout não aceita atrasos maiores que 2^31 - 1 ms (~24,8 dias)
+const MAX_TIMEOUT = 2147483647;
+
+const isPageVisible = () => document.visibilityState !== 'hidden';
+
+const schedule = (callback: () => void, at: number) =>
+  window.setTimeout(callback, Math.min(Math.max(at - Date.now(), 0), MAX_TIMEOUT));
+
+/**
+ * Agenda a renovação proativa da sessão
+ * - Renova o access token `config.auth.renewalMargin` ms antes do `exp`
+ * - Exibe aviso quando o refresh token está a `config.auth.sessionWarningTime` ms do fim
+ * - "Continuar conectado" só fecha o aviso quando a renovação traz um refresh token novo;
+ *   sem rotação a sessão atingiu o tempo de vida absoluto e o aviso informa que não pode ser estendida
+ * - Fica pausado enquanto a aba está oculta e reagenda ao voltar
+ * Deve ser usado uma única vez, no AuthProvider
+ */
+export const useSessionScheduler = () => {
+  const { isAuthenticated, token, refreshToken, logout } = useAuthStore();
+  const [isVisible, setIsVisible] = useState(isPageVisible);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [secondsRemaining, setSecondsRemaining] = useState(0);
+  const [canExtend, setCanExtend] = useState(true);
+  const [isWarningDismissed, setIsWarningDismissed] = useState(false);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsVisible(isPageVisible());
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Renovação do access token antes do exp
+  useEffect(() => {
+    if (!isAuthenticated || !token || !isVisible) return;
+
+    const expiresAt = getTokenExpiration();
+    if (!expiresAt) return;
+
+    const timer = schedule(() => {
+      refreshToken().catch(error => {
+        console.warn('⚠️ Sessão: renovação proativa falhou', error);
+      });
+    }, expiresAt - config.auth.renewalMargin);
+
+    return () => window.clearTimeout(timer);
+  }, [isAuthenticated, token, isVisible, refreshToken]);
+
+  // Aviso de fim da sessão (refresh token perto de expirar)
+  useEffect(() => {
+    if (!isAuthenticated || !isVisible) {
+      setSessionExpiresAt(null);
+      return;
+    }
+
+    // Sem refresh token (ex: logout em outra aba) não há prazo a exibir
+    const expiresAt = getRefreshTokenExpiration();
+    if (!expiresAt) {
+      setSessionExpiresAt(null);
+      return;
+    }
+
+    // Prazo diferente (sessão renovada em outra aba) fecha o aviso antigo até o novo horário
+    setSessionExpiresAt(current => (current === expiresAt ? current : null));
+
+    const timer = schedule(
+      () => setSessionExpiresAt(expiresAt),
+      expiresAt - config.auth.sessionWarningTime
+    );
+
+    return () => window.clearTimeout(timer);
+  }, [isAuthenticated, token, isVisible]);
+
+  // Contagem regressiva enquanto o aviso está aberto
+  useEffect(() => {
+    if (!sessionExpiresAt) return;
+
+    const tick = () => {
+      const remaining = Math.max(Math.ceil((sessionExpiresAt - Date.now()) / 1000), 0);
+      setSecondsRemaining(remaining);
+
+      if (remaining === 0) {
+        setSessionExpiresAt(null);
+        logout();
+      }
+    };
+
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [sessionExpiresAt, logout]);
+
+  const staySignedIn = useCallback(async () => {
+    const previousExpiresAt = getRefreshTokenExpiration();
+
+    try {
+      await refreshToken();
+    } catch (error) {
+      // refreshToken() já faz logout quando falha
+      console.warn('⚠️ Sessão: não foi possível estender a sessão', error);
+      setSessionExpiresAt(null);
+      return;
+    }
+
+    const nextExpiresAt = getRefreshTokenExpiration();
+    if (previousExpiresAt && nextExpiresAt && nextExpiresAt <= previousExpiresAt) {
+      console.warn('⚠️ Sessão: refresh token não foi renovado - a sessão não pode ser estendida');
+      setCanExtend(false);
+      return;
+    }
+
+    setSessionExpiresAt(null);
+  }, [refreshToken]);
+
+  // Fecha o aviso sem estender; a sessão termina no fim da contagem
+  const dismissWarning = useCallback(() => {
+    setIsWarningDismissed(true);
+  }, []);
+
+  const signOut = useCallback(() => {
+    setSessionExpiresAt(null);
+    logout();
+  }, [logout]);
+
+  // Novo prazo (ou fim do aviso) volta ao estado inicial do aviso
+  useEffect(() => {
+    setCanExtend(true);
+    setIsWarningDismissed(false);
+  }, [sessionExpiresAt]);
+
+  return {
+    isWarningVisible: sessionExpiresAt !== null && !isWarningDismissed,
+    secondsRemaining,
+    canExtend,
+    staySignedIn,
+    dismissWarning,
+    signOut,
+  };
+};
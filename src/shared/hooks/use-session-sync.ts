@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '../stores';
+import { subscribeSessionEvents } from '../utils/session-sync';
+
+/**
+ * Aplica nesta aba os eventos de sessão emitidos pelas outras abas
+ * - logout: encerra a sessão local (as rotas protegidas redirecionam para o login)
+ * - login, token renovado, troca de tenant e permissões: relê a sessão do localStorage
+ * - troca de tenant: reinicia o cache do React Query (as listagens não mostram dados do tenant anterior)
+ * - permissões: invalida o cache do React Query
+ * Também descarta o cache do React Query quando a sessão desta aba termina (logout ou sessão expirada),
+ * para que o próximo usuário não veja listagens do anterior
+ * Deve ser usado uma única vez, no AuthProvider
+ */
+export const useSessionSync = () => {
+  const queryClient = useQueryClient();
+  const { clearSession, syncFromStorage, isAuthenticated } = useAuthStore();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      queryClient.clear();
+    }
+  }, [isAuthenticated, queryClient]);
+
+  useEffect(() => {
+    return subscribeSessionEvents(event => {
+      switch (event.type) {
+        case 'logout':
+          clearSession();
+          queryClient.clear();
+          break;
+        case 'login':
+        case 'token-refreshed':
+          syncFromStorage();
+          break;
+        case 'tenant-switched':
+          syncFromStorage();
+          queryClient.resetQueries();
+          break;
+        case 'permissions-updated':
+          syncFromStorage();
+          queryClient.invalidateQueries();
+          break;
+      }
+    });
+  }, [clearSession, syncFromStorage, queryClient]);
+};
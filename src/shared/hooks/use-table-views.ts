@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { TableViewService } from '../services/table-view.service';
+import { useAuthStore } from '../stores/auth.store';
+import type { ListQuery } from '../types/api.types';
+import type {
+  TableColumnLayout,
+  TableView,
+  TableViewColumn,
+  TableViewPreferences,
+  TableViewState,
+} from '../types/table-view.types';
+import {
+  TABLE_VIEW_URL_PARAM,
+  createDefaultTableViewState,
+  decodeTableViewState,
+  encodeTableViewState,
+  isSameTableViewState,
+  normalizeTableViewState,
+} from '../utils/table-view.utils';
+
+// Parte da visualização controlada pela página (hook de dados)
+export interface TableViewQuery {
+  listQuery: ListQuery;
+  pageSize: number;
+}
+
+// Origem da aplicação: link compartilhado e visualização padrão são aplicados ao abrir a página
+export type TableViewApplySource = 'shared' | 'default' | 'user';
+
+interface UseTableViewsOptions extends TableViewQuery {
+  // Identificador da listagem (ex: 'users') - separa as visualizações de cada página
+  tableId: string;
+  // Colunas configuráveis na ordem padrão (constante do módulo)
+  columns: TableViewColumn[];
+  // Aplica ordenação, filtros e tamanho de página de uma visualização
+  onApply: (query: TableViewQuery, source: TableViewApplySource) => void;
+  defaultPageSize?: number;
+}
+
+export interface UseTableViewsResult {
+  columns: TableViewColumn[];
+  layout: TableColumnLayout;
+  views: TableView[];
+  activeView: TableView | null;
+  defaultViewId?: string;
+  // Estado atual difere da visualização ativa
+  modified: boolean;
+  setLayout: (changes: Partial<TableColumnLayout>) => void;
+  applyView: (viewId: string) => void;
+  saveView: (name: string) => TableView;
+  updateView: (viewId: string) => void;
+  deleteView: (viewId: string) => void;
+  setDefaultView: (viewId: string | undefined) => void;
+  resetView: () => void;
+  getShareUrl: () => string;
+}
+
+const EMPTY_PREFERENCES: TableViewPreferences = { views: [], updatedAt: new Date(0).toISOString() };
+
+const toLayout = (state: TableViewState): TableColumnLayout => ({
+  columnOrder: state.columnOrder,
+  hiddenColumns: state.hiddenColumns,
+  density: state.density,
+});
+
+const toQuery = (state: TableViewState): TableViewQuery => ({
+  listQuery: { sortBy: state.sortBy, sortDirection: state.sortDirection, filters: state.filters },
+  pageSize: state.pageSize,
+});
+
+const createViewId = () => `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Visualizações salvas de uma listagem
+ *
+ * Features:
+ * - Guarda ordem e visibilidade das colunas, ordenação, filtros, tamanho de página e densidade
+ * - Persistência por usuário (localStorage, sincronização opcional com a API)
+ * - Visualização padrão aplicada ao abrir a página
+ * - Links compartilháveis (?view=...) aplicados ao abrir e removidos da URL em seguida
+ */
+export const useTableViews = ({
+  tableId,
+  columns,
+  listQuery,
+  pageSize,
+  onApply,
+  defaultPageSize,
+}: UseTableViewsOptions): UseTableViewsResult => {
+  const userId = useAuthStore(state => state.user?.id);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Link compartilhado presente ao abrir a página
+  const sharedParamRef = useRef(searchParams.get(TABLE_VIEW_URL_PARAM));
+  const fallbackPageSize = useRef(defaultPageSize ?? pageSize).current;
+
+  const fallbackState = useMemo(
+    () => createDefaultTableViewState(columns, fallbackPageSize),
+    [columns, fallbackPageSize]
+  );
+
+  const [preferences, setPreferences] = useState<TableViewPreferences>(EMPTY_PREFERENCES);
+  const [layout, setLayoutState] = useState<TableColumnLayout>(() => toLayout(fallbackState));
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const initializedRef = useRef<string | null>(null);
+
+  // onApply costuma ser recriado a cada render da página
+  const onApplyRef = useRef(onApply);
+  useEffect(() => {
+    onApplyRef.current = onApply;
+  }, [onApply]);
+
+  const applyState = useCallback((state: TableViewState, source: TableViewApplySource) => {
+    setLayoutState(toLayout(state));
+    onApplyRef.current(toQuery(state), source);
+  }, []);
+
+  const currentState = useMemo<TableViewState>(() => ({
+    ...layout,
+    sortBy: listQuery.sortBy,
+    sortDirection: listQuery.sortBy ? listQuery.sortDirection : undefined,
+    filters: listQuery.filters ?? {},
+    pageSize,
+  }), [layout, listQuery, pageSize]);
+
+  // Carrega as visualizações e aplica o link compartilhado ou a visualização padrão
+  useEffect(() => {
+    if (!userId) return;
+    const initKey = `${userId}:${tableId}`;
+    let cancelled = false;
+
+    TableViewService.load(userId, tableId).then(loaded => {
+      if (cancelled) return;
+      setPreferences(loaded);
+
+      if (initializedRef.current === initKey) return;
+      initializedRef.current = initKey;
+
+      const shared = sharedParamRef.current;
+      const sharedState = shared ? decodeTableViewState(shared, fallbackState) : null;
+
+      // Remove o link antes de aplicar: a página pode gravar a listagem na URL em seguida
+      if (shared) {
+        sharedParamRef.current = null;
+        setSearchParams(prev => {
+          const next = new URLSearchParams(prev);
+          next.delete(TABLE_VIEW_URL_PARAM);
+          return next;
+        }, { replace: true });
+      }
+
+      if (sharedState) {
+        console.log('🔗 useTableViews: Aplicando visualização compartilhada:', tableId);
+        applyState(sharedState, 'shared');
+        setActiveViewId(null);
+      } else {
+        const defaultView = loaded.views.find(view => view.id === loaded.defaultViewId);
+        if (defaultView) {
+          applyState(normalizeTableViewState(defaultView.state, fallbackState), 'default');
+          setActiveViewId(defaultView.id);
+        }
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, tableId, fallbackState, applyState, setSearchParams]);
+
+  const persist = useCallback((changes: Partial<Omit<TableViewPreferences, 'updatedAt'>>) => {
+    const next = { ...preferences, ...changes, updatedAt: new Date().toISOString() };
+    setPreferences(next);
+    if (userId) TableViewService.save(userId, tableId, next);
+  }, [preferences, userId, tableId]);
+
+  const setLayout = useCallback((changes: Partial<TableColumnLayout>) => {
+    setLayoutState(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const applyView = useCallback((viewId: string) => {
+    const view = preferences.views.find(item => item.id === viewId);
+    if (!view) return;
+    applyState(normalizeTableViewState(view.state, fallbackState), 'user');
+    setActiveViewId(view.id);
+  }, [preferences.views, applyState, fallbackState]);
+
+  const saveView = useCallback((name: string): TableView => {
+    const now = new Date().toISOString();
+    const view: TableView = { id: createViewId(), name: name.trim(), state: currentState, createdAt: now, updatedAt: now };
+    persist({ views: [...preferences.views, view] });
+    setActiveViewId(view.id);
+    return view;
+  }, [currentState, preferences.views, persist]);
+
+  const updateView = useCallback((viewId: string) => {
+    const now = new Date().toISOString();
+    persist({
+      views: preferences.views.map(view => view.id === viewId ? { ...view, state: currentState, updatedAt: now } : view),
+    });
+  }, [currentState, preferences.views, persist]);
+
+  const deleteView = useCallback((viewId: string) => {
+    persist({
+      views: preferences.views.filter(view => view.id !== viewId),
+      defaultViewId: preferences.defaultViewId === viewId ? undefined : preferences.defaultViewId,
+    });
+    setActiveViewId(prev => prev === viewId ? null : prev);
+  }, [preferences, persist]);
+
+  const setDefaultView = useCallback((viewId: string | undefined) => {
+    persist({ defaultViewId: viewId });
+  }, [persist]);
+
+  const resetView = useCallback(() => {
+    applyState(fallbackState, 'user');
+    setActiveViewId(null);
+  }, [applyState, fallbackState]);
+
+  const getShareUrl = useCallback(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set(TABLE_VIEW_URL_PARAM, encodeTableViewState(currentState));
+    return url.toString();
+  }, [currentState]);
+
+  const activeView = preferences.views.find(view => view.id === activeViewId) ?? null;
+  const modified = activeView
+    ? !isSameTableViewState(normalizeTableViewState(activeView.state, fallbackState), currentState)
+    : !isSameTableViewState(fallbackState, currentState);
+
+  return {
+    columns,
+    layout,
+    views: preferences.views,
+    activeView,
+    defaultViewId: preferences.defaultViewId,
+    modified,
+    setLayout,
+    applyView,
+    saveView,
+    updateView,
+    deleteView,
+    setDefaultView,
+    resetView,
+    getShareUrl,
+  };
+};
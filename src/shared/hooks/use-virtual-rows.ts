@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UIEvent } from 'react';
+import { getVirtualRange } from '../utils/virtual-list.utils';
+import type { VirtualRange } from '../utils/virtual-list.utils';
+
+interface UseVirtualRowsOptions {
+  count: number;
+  rowHeight: number;
+  // Altura usada até o container ser medido
+  viewportHeight: number;
+  overscan?: number;
+  enabled?: boolean;
+  // Chamado uma vez por tamanho de lista quando a rolagem se aproxima do fim
+  onEndReached?: () => void;
+  endReachedThreshold?: number;
+}
+
+export interface UseVirtualRowsResult extends VirtualRange {
+  containerRef: (element: HTMLElement | null) => void;
+  onScroll: (event: UIEvent<HTMLElement>) => void;
+}
+
+/**
+ * Hook de virtualização de linhas com altura fixa
+ *
+ * Features:
+ * - Renderiza apenas as linhas visíveis (mais overscan)
+ * - Mede o container com ResizeObserver
+ * - Dispara onEndReached para carregamento incremental
+ */
+export const useVirtualRows = ({
+  count,
+  rowHeight,
+  viewportHeight: initialViewportHeight,
+  overscan,
+  enabled = true,
+  onEndReached,
+  endReachedThreshold = 20,
+}: UseVirtualRowsOptions): UseVirtualRowsResult => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(initialViewportHeight);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const endReachedCountRef = useRef<number | null>(null);
+
+  const containerRef = useCallback((element: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    observerRef.current = new ResizeObserver(([entry]) => {
+      if (entry.contentRect.height > 0) setViewportHeight(entry.contentRect.height);
+    });
+    observerRef.current.observe(element);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const range = enabled
+    ? getVirtualRange(count, rowHeight, scrollTop, viewportHeight, overscan)
+    : { startIndex: 0, endIndex: count, offsetTop: 0, offsetBottom: 0 };
+
+  const nearEnd = count > 0 && range.endIndex >= count - endReachedThreshold;
+
+  useEffect(() => {
+    if (!nearEnd || !onEndReached || endReachedCountRef.current === count) return;
+    endReachedCountRef.current = count;
+    onEndReached();
+  }, [nearEnd, count, onEndReached]);
+
+  return { ...range, containerRef, onScroll };
+};
@@ -2,12 +2,13 @@ import type {
   AccessGroup, 
   CreateAccessGroupRequest, 
   UpdateAccessGroupRequest,
-  AccessGroupApiResponse
+  AccessGroupApiResponse,
+  ListQuery
 } from '../types';
-import { httpClient } from '../utils';
+import { httpClient, toListQueryParams } from '../utils';
 import { API_ENDPOINTS } from '../constants';
 
-interface GetAccessGroupsParams {
+interface GetAccessGroupsParams extends ListQuery {
   page?: number;
   limit?: number;
   search?: string;
@@ -26,7 +27,7 @@ export class AccessGroupService {
    */
   static async getAccessGroups(params: GetAccessGroupsParams = {}): Promise<AccessGroupApiResponse<AccessGroup>> {
     try {
-      const { page = 1, limit = 10, search } = params;
+      const { page = 1, limit = 10, search, ...listQuery } = params;
       
       console.log('🔄 AccessGroupService: Buscando grupos via API paginada...', params);
       
@@ -34,6 +35,7 @@ export class AccessGroupService {
         page: page.toString(),
         limit: limit.toString(),
         ...(search && { search }),
+        ...toListQueryParams(listQuery),
       });
       
       const url = `${API_ENDPOINTS.ACCESS_GROUPS}?${searchParams}`;
@@ -0,0 +1,111 @@
+import type {
+  ApiError,
+  Application,
+  CreateApplicationRequest,
+  UpdateApplicationRequest
+} from '../types';
+import { httpClient } from '../utils';
+import { API_ENDPOINTS } from '../constants';
+
+interface GetApplicationsParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+}
+
+interface ApplicationsApiResponse {
+  items: Application[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const emptyApplicationsResponse = (): ApplicationsApiResponse => ({
+  items: [],
+  page: 1,
+  limit: 10,
+  total: 0,
+  totalPages: 0
+});
+
+export class ApplicationService {
+  static async getApplications(params: GetApplicationsParams = {}): Promise<ApplicationsApiResponse> {
+    try {
+      const { page = 1, limit = 10, search } = params;
+
+      const searchParams = new URLSearchParams({
+        page: page.toString(),
+        limit: limit.toString(),
+        ...(search && { search }),
+      });
+
+      const url = `${API_ENDPOINTS.APPLICATIONS}?${searchParams}`;
+      const response = await httpClient.get<ApplicationsApiResponse>(url);
+
+      if (!response.succeeded) {
+        throw new Error(response.errors?.join(', ') || 'API retornou succeeded=false');
+      }
+
+      return response.data || emptyApplicationsResponse();
+
+    } catch (error) {
+      if ((error as ApiError).status === 404) {
+        return emptyApplicationsResponse();
+      }
+      throw error;
+    }
+  }
+
+  static async getAllApplications(): Promise<Application[]> {
+    const response = await this.getApplications({ page: 1, limit: 1000 });
+    return response.items || [];
+  }
+
+  static async getApplicationById(id: string): Promise<Application> {
+    const response = await httpClient.get<Application>(API_ENDPOINTS.APPLICATION_BY_ID(id));
+
+    if (!response.succeeded || !response.data) {
+      throw new Error(response.errors?.join(', ') || 'Aplicação não encontrada');
+    }
+
+    return response.data;
+  }
+
+  static async createApplication(application: CreateApplicationRequest): Promise<Application> {
+    const response = await httpClient.post<Application>(API_ENDPOINTS.APPLICATIONS, application);
+
+    if (!response.succeeded || !response.data) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao criar aplicação');
+    }
+
+    return response.data;
+  }
+
+  static async updateApplication(id: string, application: UpdateApplicationRequest): Promise<Application> {
+    const response = await httpClient.put<Application>(API_ENDPOINTS.APPLICATION_BY_ID(id), application);
+
+    if (!response.succeeded || !response.data) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao atualizar aplicação');
+    }
+
+    return response.data;
+  }
+
+  static async deleteApplication(id: string): Promise<void> {
+    const response = await httpClient.delete(API_ENDPOINTS.APPLICATION_BY_ID(id));
+
+    if (!response.succeeded) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao remover aplicação');
+    }
+  }
+
+  static async toggleApplicationStatus(application: Application): Promise<Application> {
+    return this.updateApplication(application.id, {
+      name: application.name,
+      description: application.description,
+      code: application.code,
+      isActive: !application.isActive
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { CepService, createFixtureCepProvider, viaCepProvider } from './cep.service';
+import type { CepAddress } from './cep.service';
+
+const paulista: CepAddress = {
+  zipCode: '01310100',
+  street: 'Avenida Paulista',
+  neighborhood: 'Bela Vista',
+  city: 'São Paulo',
+  state: 'SP',
+};
+
+describe('CepService com fixture', () => {
+  afterEach(() => {
+    CepService.setProvider(viaCepProvider);
+  });
+
+  it('encontra o endereço com ou sem máscara no CEP e no fixture', async () => {
+    CepService.setProvider(createFixtureCepProvider({ '01310-100': paulista }));
+
+    await expect(CepService.lookup('01310-100')).resolves.toEqual(paulista);
+    await expect(CepService.lookup('01310100')).resolves.toEqual(paulista);
+  });
+
+  it('retorna null para CEP inexistente', async () => {
+    CepService.setProvider(createFixtureCepProvider({ '01310100': paulista }));
+
+    await expect(CepService.lookup('99999-999')).resolves.toBeNull();
+  });
+
+  it('rejeita CEP incompleto sem consultar o provedor', async () => {
+    let called = false;
+    CepService.setProvider({
+      lookup: async () => {
+        called = true;
+        return null;
+      },
+    });
+
+    await expect(CepService.lookup('0131')).rejects.toThrow('CEP deve ter 8 dígitos');
+    expect(called).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { onlyDigits, isValidCep } from '../validators';
+
+/**
+ * Endereço retornado pela consulta de CEP
+ */
+export interface CepAddress {
+  zipCode: string;
+  street: string;
+  complement?: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
+
+/**
+ * Provedor de consulta de CEP
+ * Retorna null quando o CEP não existe
+ */
+export interface CepProvider {
+  lookup(cep: string): Promise<CepAddress | null>;
+}
+
+interface ViaCepResponse {
+  cep: string;
+  logradouro: string;
+  complemento: string;
+  bairro: string;
+  localidade: string;
+  uf: string;
+  erro?: boolean | string;
+}
+
+/**
+ * Provedor padrão usando a API pública do ViaCEP
+ * Usa fetch direto para não enviar o token da API de Access Control a terceiros
+ */
+export const viaCepProvider: CepProvider = {
+  async lookup(cep: string) {
+    const response = await fetch(`https://viacep.com.br/ws/${cep}/json/`);
+
+    if (!response.ok) {
+      throw new Error('Falha ao consultar o CEP');
+    }
+
+    const data: ViaCepResponse = await response.json();
+    if (data.erro) return null;
+
+    return {
+      zipCode: onlyDigits(data.cep),
+      street: data.logradouro,
+      complement: data.complemento || undefined,
+      neighborhood: data.bairro,
+      city: data.localidade,
+      state: data.uf,
+    };
+  },
+};
+
+/**
+ * Provedor em memória, para testes e desenvolvimento offline
+ * As chaves do fixture podem vir com ou sem máscara
+ */
+export const createFixtureCepProvider = (fixtures: Record<string, CepAddress>): CepProvider => {
+  const addresses = new Map(
+    Object.entries(fixtures).map(([cep, address]) => [onlyDigits(cep), address])
+  );
+
+  return {
+    async lookup(cep: string) {
+      return addresses.get(cep) ?? null;
+    },
+  };
+};
+
+export class CepService {
+  private static provider: CepProvider = viaCepProvider;
+
+  /**
+   * Substitui o provedor de consulta (ex: fixture local em testes)
+   */
+  static setProvider(provider: CepProvider): void {
+    this.provider = provider;
+  }
+
+  static async lookup(cep: string): Promise<CepAddress | null> {
+    if (!isValidCep(cep)) {
+      throw new Error('CEP deve ter 8 dígitos');
+    }
+
+    return this.provider.lookup(onlyDigits(cep));
+  }
+}
@@ -5,5 +5,12 @@ export { ModuleService } from './module.service';
 export { OperationService } from './operation.service';
 export { PermissionService } from './permission.service';
 export { PermissionOperationService } from './permission-operation.service';
+export { PermissionExplainService } from './permission-explain.service';
+export { PermissionMatrixService } from './permission-matrix.service';
 export { RoleService } from './role.service';
-export { UserService } from './user.service';
\ No newline at end of file
+export { UserService } from './user.service';
+export { TenantService } from './tenant.service';
+export { ApplicationService } from './application.service';
+export { TableViewService } from './table-view.service';
+export { CepService, viaCepProvider, createFixtureCepProvider } from './cep.service';
+export type { CepAddress, CepProvider } from './cep.service';
\ No newline at end of file
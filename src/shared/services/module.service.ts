@@ -1,23 +1,27 @@
-import type { PaginatedResponse, AccessGroupApiResponse } from '../types';
+import type { PaginatedResponse, AccessGroupApiResponse, ColumnFilters } from '../types';
 import type { Module, CreateModuleRequest, UpdateModuleRequest } from '../types/permission.types';
 import { httpClient } from '../utils/http-client';
+import { toFilterParams } from '../utils/list-query.utils';
 
 interface QueryParams {
   page?: number;
   limit?: number;
   search?: string;
   isActive?: boolean;
+  applicationId?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  filters?: ColumnFilters;
 }
 
 export class ModuleService {
   private static readonly BASE_URL = '/api/modules';
 
   static async getModules(params?: QueryParams): Promise<PaginatedResponse<Module>> {
+    const { filters, ...query } = params ?? {};
     const response = await httpClient.get<AccessGroupApiResponse<Module>>(
       this.BASE_URL,
-      { params }
+      { params: { ...query, ...toFilterParams(filters) } }
     );
         
     const responseData = response.data;
@@ -34,6 +38,14 @@ export class ModuleService {
     };
   }
 
+  /**
+   * Busca todos os módulos ativos do tenant (catálogo usado pelo menu dinâmico)
+   */
+  static async getActiveModules(): Promise<Module[]> {
+    const response = await this.getModules({ isActive: true, limit: 1000 });
+    return response.data.filter(module => module.isActive);
+  }
+
   static async getModuleById(id: string): Promise<Module> {
     const response = await httpClient.get<Module>(`${this.BASE_URL}/${id}`);
     return response.data;
@@ -98,6 +110,8 @@ export class ModuleService {
       code: module.code,
       applicationId: module.applicationId,
       moduleTypeId: module.moduleTypeId,
+      icon: module.icon,
+      displayOrder: module.displayOrder,
       isActive: !module.isActive
     });
     
@@ -98,6 +98,14 @@ export class OperationService {
     };
   }
 
+  /**
+   * Lista as operações ativas (catálogo de códigos usado pelas verificações de permissão)
+   */
+  static async getActiveOperations(): Promise<Operation[]> {
+    const response = await this.getOperations({ limit: 1000 });
+    return response.data.filter(operation => operation.isActive);
+  }
+
   /**
    * Busca uma operação específica por ID
    */
@@ -0,0 +1,255 @@
+import type {
+  AccessGroup,
+  AccessGroupPermission,
+  ExplainNode,
+  ExplainNodeStatus,
+  OperationCode,
+  Permission,
+  PermissionExplanation,
+  PermissionOperation,
+  Role,
+  UserPermissions,
+} from '../types';
+import { config } from '../config/app.config';
+import { decidePermission, matchesModuleKey, matchesOperation, normalizeOperation } from '../utils/permission-decision';
+import { mapInBatches } from '../utils/list-query.utils';
+import { AccessGroupService } from './access-group.service';
+import { ModuleService } from './module.service';
+import { PermissionOperationService } from './permission-operation.service';
+import { RoleService } from './role.service';
+import { UserService } from './user.service';
+
+interface RolePath {
+  role: Role;
+  permissions: { permission: Permission; operations: PermissionOperation[] }[];
+}
+
+interface GroupPath {
+  group: AccessGroup;
+  roles: RolePath[];
+}
+
+const node = (
+  id: string,
+  type: ExplainNode['type'],
+  label: string,
+  status: ExplainNodeStatus,
+  children: ExplainNode[] = [],
+  description?: string
+): ExplainNode => ({
+  id,
+  type,
+  label,
+  description,
+  status,
+  contributes: status === 'grant' || status === 'deny',
+  decisive: false,
+  children,
+});
+
+// O status do pai segue o dos filhos: negação > concessão > sem relação
+const statusFromChildren = (children: ExplainNode[]): ExplainNodeStatus => {
+  if (children.some(child => child.status === 'deny')) return 'deny';
+  if (children.some(child => child.status === 'grant')) return 'grant';
+  return 'no-match';
+};
+
+// Um ancestral inativo interrompe todo o caminho abaixo dele
+const deactivate = (current: ExplainNode): ExplainNode => ({
+  ...current,
+  status: current.status === 'no-match' ? 'no-match' : 'inactive',
+  contributes: false,
+  children: current.children.map(deactivate),
+});
+
+// Marca como decisivo o caminho até o nó com o id informado (e seus filhos que contribuem)
+const markDecisive = (current: ExplainNode, targetId: string): boolean => {
+  if (current.id === targetId) {
+    current.decisive = true;
+    current.children.filter(child => child.contributes).forEach(child => { child.decisive = true; });
+    return true;
+  }
+
+  const found = current.children.some(child => markDecisive(child, targetId));
+  if (found) current.decisive = true;
+  return found;
+};
+
+const countPaths = (current: ExplainNode, status: 'grant' | 'deny'): number =>
+  current.type === 'operation'
+    ? Number(current.status === status)
+    : current.children.reduce((total, child) => total + countPaths(child, status), 0);
+
+/**
+ * Serviço que explica as permissões efetivas de um usuário
+ *
+ * Percorre usuário → grupos de acesso → roles → permissões → operações usando
+ * os serviços de cada entidade e decide com a mesma precedência do frontend
+ * (decidePermission), com as mesmas regras de curinga ('*') para módulo e operação.
+ * Útil para o suporte responder "por que o usuário pode/não pode X?". Uma relação que
+ * não pôde ser carregada interrompe a explicação, em vez de esconder um caminho.
+ */
+export class PermissionExplainService {
+  /**
+   * Monta a árvore completa de concessões/negações para userId + moduleKey + operação
+   */
+  static async explain(userId: string, moduleKey: string, operation: OperationCode): Promise<PermissionExplanation> {
+    const code = normalizeOperation(operation);
+    console.log('🔎 PermissionExplainService: Explicando', { userId, moduleKey, operation: code });
+
+    const [user, userGroups, roles, modulesResponse] = await Promise.all([
+      UserService.getUserById(userId),
+      UserService.getUserAccessGroups(userId),
+      RoleService.getAllRoles(),
+      ModuleService.getModules({ limit: 1000 }),
+    ]);
+
+    // Módulo verificado e módulos curinga ('*'), que também se aplicam a ele
+    const modules = modulesResponse.data.filter(module => module.key && matchesModuleKey(module.key, moduleKey));
+    const modulesById = new Map(modules.map(module => [module.id, module]));
+    const inactiveModuleIds = new Set(modules.filter(module => !module.isActive).map(module => module.id));
+
+    // Detalhes atualizados dos grupos (a relação usuário-grupo pode vir resumida)
+    // Sem os detalhes o status do grupo é desconhecido: a falha interrompe a explicação
+    const groups = await mapInBatches(userGroups, group => AccessGroupService.getAccessGroupById(group.id));
+    const groupIds = new Set(groups.map(group => group.id));
+
+    // A API não expõe grupo → roles, então a relação é lida a partir de cada role, em lotes;
+    // sem grupos o usuário não tem roles e nenhuma relação precisa ser consultada
+    const roleGroups = groupIds.size === 0 ? [] : await mapInBatches(roles, async role => ({
+      role,
+      groupIds: (role.accessGroups ?? await RoleService.getAccessGroupsByRole(role.id))
+        .map(group => group.id)
+        .filter(id => groupIds.has(id)),
+    }));
+    const userRoles = roleGroups.filter(entry => entry.groupIds.length > 0);
+
+    // Permissões do módulo verificado em cada role, com as relações permissão-operação
+    const rolePaths = new Map<string, RolePath>(
+      await mapInBatches(userRoles, async ({ role }): Promise<[string, RolePath]> => {
+        const permissions = (await RoleService.getPermissionsByRole(role.id))
+          .filter(permission => permission.moduleId && modulesById.has(permission.moduleId));
+
+        return [role.id, {
+          role,
+          permissions: await Promise.all(
+            permissions.map(async permission => ({
+              permission,
+              operations: await PermissionOperationService.getByPermissionId(permission.id),
+            }))
+          ),
+        }];
+      })
+    );
+
+    const groupPaths: GroupPath[] = groups.map(group => ({
+      group,
+      roles: userRoles
+        .filter(entry => entry.groupIds.includes(group.id))
+        .map(entry => rolePaths.get(entry.role.id))
+        .filter((path): path is RolePath => !!path),
+    }));
+
+    // Mesma estrutura da sessão, para decidir com a precedência configurada
+    const permissions: UserPermissions = {
+      userId,
+      accessGroups: groupPaths
+        .filter(({ group }) => group.isActive)
+        .map((path): AccessGroupPermission => ({
+          id: path.group.id,
+          code: path.group.code || path.group.name,
+          roles: path.roles
+            .filter(({ role }) => role.isActive)
+            .map(({ role, permissions: rolePermissions }) => ({
+              id: role.id,
+              code: role.code || role.name,
+              modules: rolePermissions
+                .filter(({ permission }) => permission.isActive && !inactiveModuleIds.has(permission.moduleId ?? ''))
+                .map(({ permission, operations }) => ({
+                  id: permission.id,
+                  key: modulesById.get(permission.moduleId ?? '')?.key ?? moduleKey,
+                  operations: operations.filter(op => op.isActive).map(op => normalizeOperation(op.operationCode)),
+                  conditions: permission.conditions,
+                  effect: permission.effect,
+                })),
+            })),
+        })),
+    };
+
+    const decision = decidePermission(permissions, moduleKey, code, {
+      precedence: config.permissions.precedence,
+    });
+
+    const root = node(
+      userId,
+      'user',
+      user.fullName || user.username,
+      'no-match',
+      groupPaths.map(({ group, roles: groupRoles }) => {
+        const roleNodes = groupRoles.map(({ role, permissions: rolePermissions }) => {
+          const permissionNodes = rolePermissions.map(({ permission, operations }) => {
+            const permissionActive = permission.isActive && !inactiveModuleIds.has(permission.moduleId ?? '');
+            const effectStatus: ExplainNodeStatus = permission.effect === 'deny' ? 'deny' : 'grant';
+
+            const operationNodes = operations.map(op => {
+              const matches = matchesOperation(op.operationCode, code);
+              const status: ExplainNodeStatus = !matches
+                ? 'no-match'
+                : op.isActive && permissionActive ? effectStatus : 'inactive';
+              return node(`${group.id}/${role.id}/${permission.id}/${op.id}`, 'operation', op.operationCode, status, [], op.operationName);
+            });
+
+            return node(
+              `${group.id}/${role.id}/${permission.id}`,
+              'permission',
+              permission.name,
+              permissionActive ? statusFromChildren(operationNodes) : 'inactive',
+              operationNodes,
+              permission.effect === 'deny' ? 'Negação' : permission.moduleName
+            );
+          });
+
+          return node(
+            `${group.id}/${role.id}`,
+            'role',
+            role.name,
+            role.isActive ? statusFromChildren(permissionNodes) : 'inactive',
+            role.isActive ? permissionNodes : permissionNodes.map(deactivate),
+            role.code
+          );
+        });
+
+        return node(
+          group.id,
+          'access-group',
+          group.name,
+          group.isActive ? statusFromChildren(roleNodes) : 'inactive',
+          group.isActive ? roleNodes : roleNodes.map(deactivate),
+          group.code
+        );
+      }),
+      user.email
+    );
+
+    root.status = statusFromChildren(root.children);
+    root.contributes = root.status !== 'no-match';
+
+    if (decision.decidedBy) {
+      const { accessGroupId, roleId, modulePermissionId } = decision.decidedBy;
+      markDecisive(root, `${accessGroupId}/${roleId}/${modulePermissionId}`);
+    }
+
+    const explanation: PermissionExplanation = {
+      userId,
+      moduleKey,
+      operation: code,
+      decision,
+      root,
+      grantPaths: countPaths(root, 'grant'),
+      denyPaths: countPaths(root, 'deny'),
+    };
+
+    console.log('✅ PermissionExplainService: Decisão', decision.reason, explanation);
+    return explanation;
+  }
+}
@@ -0,0 +1,187 @@
+import { PERMISSION_WILDCARD, PRIVILEGED_PERMISSIONS } from '../types';
+import type {
+  AccessGroup,
+  AccessGroupPermission,
+  Module,
+  Permission,
+  PermissionMatrix,
+  PermissionMatrixCell,
+  PermissionMatrixColumn,
+  PermissionMatrixRow,
+  Role,
+  UserAccount,
+  UserPermissions,
+} from '../types';
+import { config } from '../config/app.config';
+import { decidePermission, normalizeOperation } from '../utils/permission-decision';
+import { hasPermissionConditions } from '../utils/permission-conditions';
+import { fetchAllPages, mapInBatches } from '../utils/list-query.utils';
+import { AccessGroupService } from './access-group.service';
+import { GroupTypeService } from './group-type.service';
+import { ModuleService } from './module.service';
+import { PermissionOperationService } from './permission-operation.service';
+import { RoleService } from './role.service';
+import { UserService } from './user.service';
+
+interface RoleEntry {
+  role: Role;
+  groupIds: string[];
+  permissions: { permission: Permission; module: Module; operations: string[] }[];
+}
+
+const columnId = (moduleKey: string, operation: string) => `${moduleKey}:${operation}`;
+
+const isPrivileged = (moduleKey: string, operation: string) =>
+  PRIVILEGED_PERMISSIONS.some(entry => entry.moduleKey === moduleKey && entry.operation === operation);
+
+/**
+ * Serviço da matriz de permissões efetivas de todos os usuários do tenant
+ *
+ * Percorre usuário → grupos de acesso → roles → permissões → operações com os
+ * serviços existentes e decide cada célula com decidePermission, respeitando
+ * negações e a precedência configurada.
+ * Qualquer requisição com falha interrompe a montagem: uma relação não carregada
+ * apareceria como "sem acesso", um dado errado com aparência de válido.
+ */
+export class PermissionMatrixService {
+  /**
+   * Busca todos os usuários do tenant percorrendo a listagem paginada
+   */
+  private static getAllUsers(): Promise<UserAccount[]> {
+    return fetchAllPages(async (page, limit) => {
+      const response = await UserService.getUsers({ page, limit });
+      return { items: response.items || [], totalPages: response.totalPages };
+    });
+  }
+
+  /**
+   * Monta a matriz usuários × módulo:operação
+   */
+  static async getMatrix(): Promise<PermissionMatrix> {
+    console.log('🔄 PermissionMatrixService: Montando matriz de permissões...');
+
+    const [users, accessGroups, roles, modulesResponse, groupTypesResponse] = await Promise.all([
+      this.getAllUsers(),
+      AccessGroupService.getAllAccessGroups(),
+      RoleService.getAllRoles(),
+      ModuleService.getModules({ limit: 1000 }),
+      GroupTypeService.getGroupTypes({ limit: 1000 }),
+    ]);
+
+    const modulesById = new Map(modulesResponse.data.filter(module => module.key).map(module => [module.id, module]));
+    const groupsById = new Map(accessGroups.map(group => [group.id, group]));
+
+    // Role → grupos e permissões (com operações ativas) de módulos ativos
+    const roleEntries: RoleEntry[] = await mapInBatches(roles, async role => {
+      const [roleGroups, rolePermissions] = await Promise.all([
+        role.accessGroups ?? RoleService.getAccessGroupsByRole(role.id),
+        RoleService.getPermissionsByRole(role.id),
+      ]);
+
+      const permissions = await Promise.all(
+        rolePermissions
+          .filter(permission => permission.isActive && permission.moduleId && modulesById.get(permission.moduleId)?.isActive)
+          .map(async permission => ({
+            permission,
+            module: modulesById.get(permission.moduleId!)!,
+            operations: (await PermissionOperationService.getByPermissionId(permission.id))
+              .filter(op => op.isActive)
+              .map(op => normalizeOperation(op.operationCode)),
+          }))
+      );
+
+      return { role, groupIds: roleGroups.map(group => group.id), permissions };
+    });
+
+    const conditionalPermissionIds = new Set(
+      roleEntries.flatMap(entry => entry.permissions)
+        .filter(({ permission }) => hasPermissionConditions(permission.conditions))
+        .map(({ permission }) => permission.id)
+    );
+
+    // Colunas: operações concedidas ou negadas em algum role, mais as privilegiadas
+    const columnsById = new Map<string, PermissionMatrixColumn>();
+    const addColumn = (moduleKey: string, moduleName: string, operation: string) => {
+      const id = columnId(moduleKey, operation);
+      if (moduleKey === PERMISSION_WILDCARD || operation === PERMISSION_WILDCARD || columnsById.has(id)) return;
+      columnsById.set(id, { id, moduleKey, moduleName, operation, privileged: isPrivileged(moduleKey, operation) });
+    };
+
+    roleEntries.forEach(entry =>
+      entry.permissions.forEach(({ module, operations }) =>
+        operations.forEach(operation => addColumn(module.key!, module.name, operation))
+      )
+    );
+    PRIVILEGED_PERMISSIONS.forEach(({ moduleKey, operation }) => {
+      const module = modulesResponse.data.find(item => item.key === moduleKey);
+      addColumn(moduleKey, module?.name ?? moduleKey, operation);
+    });
+
+    const columns = [...columnsById.values()].sort((a, b) =>
+      a.moduleName.localeCompare(b.moduleName) || a.operation.localeCompare(b.operation)
+    );
+
+    const rows: PermissionMatrixRow[] = await mapInBatches(users, async user => {
+      const userGroups: AccessGroup[] = await UserService.getUserAccessGroups(user.id);
+      // A relação usuário-grupo pode vir resumida; completa com a listagem de grupos
+      const groups = userGroups.map(group => groupsById.get(group.id) ?? group);
+      const activeGroups = groups.filter(group => group.isActive);
+      const userRoles = roleEntries.filter(entry => entry.groupIds.some(id => groups.some(group => group.id === id)));
+
+      const permissions: UserPermissions = {
+        userId: user.id,
+        accessGroups: activeGroups.map((group): AccessGroupPermission => ({
+          id: group.id,
+          code: group.code || group.name,
+          roles: roleEntries
+            .filter(entry => entry.role.isActive && entry.groupIds.includes(group.id))
+            .map(entry => ({
+              id: entry.role.id,
+              code: entry.role.code || entry.role.name,
+              modules: entry.permissions.map(({ permission, module, operations }) => ({
+                id: permission.id,
+                key: module.key!,
+                operations,
+                conditions: permission.conditions,
+                effect: permission.effect,
+              })),
+            })),
+        })),
+      };
+
+      const cells: Record<string, PermissionMatrixCell> = {};
+      columns.forEach(column => {
+        const decision = decidePermission(permissions, column.moduleKey, column.operation, {
+          precedence: config.permissions.precedence,
+        });
+        if (!decision.decidedBy) return;
+
+        cells[column.id] = {
+          allowed: decision.allowed,
+          reason: decision.reason,
+          decidedBy: `${decision.decidedBy.accessGroupCode} › ${decision.decidedBy.roleCode}`,
+          conditional: decision.allowed && conditionalPermissionIds.has(decision.decidedBy.modulePermissionId),
+        };
+      });
+
+      return {
+        user,
+        accessGroupIds: groups.map(group => group.id),
+        roleIds: userRoles.map(entry => entry.role.id),
+        groupTypeIds: groups.map(group => group.groupTypeId).filter((id): id is string => !!id),
+        cells,
+      };
+    });
+
+    console.log('✅ PermissionMatrixService: Matriz montada', { users: rows.length, columns: columns.length });
+
+    return {
+      columns,
+      rows,
+      accessGroups,
+      roles,
+      groupTypes: groupTypesResponse.data,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -1,6 +1,7 @@
-import type { PaginatedResponse } from '../types';
+import type { ColumnFilters, PaginatedResponse } from '../types';
 import type { Permission, CreatePermissionRequest, UpdatePermissionRequest } from '../types/permission.types';
 import { httpClient } from '../utils/http-client';
+import { matchesColumnFilters, toFilterParams } from '../utils/list-query.utils';
 
 // Interface para ErrorDTO da API
 interface ErrorDTO {
@@ -27,6 +28,7 @@ interface QueryParams {
   sortOrder?: 'asc' | 'desc';
   moduleId?: string;
   roleId?: string;
+  filters?: ColumnFilters;
 }
 
 // Interface específica para a resposta da API de Permissions
@@ -68,9 +70,10 @@ export class PermissionService {
   static async getPermissions(params?: QueryParams): Promise<PaginatedResponse<Permission>> {
     console.log('🔍 Buscando permissões com parâmetros:', params);
     
+    const { filters, ...query } = params ?? {};
     const response = await httpClient.get<Permission[] | PermissionsApiResponse>(
       this.BASE_URL,
-      { params }
+      { params: { ...query, ...toFilterParams(filters) } }
     );
     
     console.log('🔍 Debug - Resposta completa da API (Permissions):', response.data);
@@ -134,6 +137,11 @@ export class PermissionService {
       );
     }
     
+    // Filtros por coluna
+    if (filters) {
+      filteredPermissions = filteredPermissions.filter(permission => matchesColumnFilters(permission, filters));
+    }
+    
     // Ordenação
     const sortBy = params?.sortBy || 'name';
     const sortOrder = params?.sortOrder || 'asc';
@@ -3,15 +3,17 @@ import type {
   CreateRoleRequest, 
   UpdateRoleRequest,
   Permission,
-  AccessGroup
+  AccessGroup,
+  ListQuery
 } from '../types';
-import { httpClient } from '../utils';
+import { httpClient, toListQueryParams } from '../utils';
 import { API_ENDPOINTS } from '../constants';
 
-interface GetRolesParams {
+interface GetRolesParams extends ListQuery {
   page?: number;
   limit?: number;
   search?: string;
+  applicationId?: string;
 }
 
 interface RolesApiResponse {
@@ -25,12 +27,14 @@ interface RolesApiResponse {
 export class RoleService {
   static async getRoles(params: GetRolesParams = {}): Promise<RolesApiResponse> {
     try {
-      const { page = 1, limit = 10, search } = params;
+      const { page = 1, limit = 10, search, applicationId, ...listQuery } = params;
       
       const searchParams = new URLSearchParams({
         page: page.toString(),
         limit: limit.toString(),
         ...(search && { search }),
+        ...(applicationId && { applicationId }),
+        ...toListQueryParams(listQuery),
       });
       
       const url = `${API_ENDPOINTS.ROLES}?${searchParams}`;
@@ -62,6 +66,10 @@ export class RoleService {
     }
   }
 
+  /**
+   * Método de compatibilidade - busca todos os roles (sem paginação)
+   * @deprecated Use getRoles() com paginação
+   */
   static async getAllRoles(): Promise<Role[]> {
     const response = await this.getRoles({ page: 1, limit: 1000 });
     return response.items || [];
@@ -0,0 +1,101 @@
+import { config } from '../config';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import type { TableView, TableViewPreferences } from '../types/table-view.types';
+import { httpClient } from '../utils/http-client';
+
+const STORAGE_PREFIX = 'access_control_table_views';
+
+const EMPTY_PREFERENCES: TableViewPreferences = { views: [], updatedAt: new Date(0).toISOString() };
+
+const isTableView = (value: unknown): value is TableView => {
+  if (typeof value !== 'object' || value === null) return false;
+  const view = value as Partial<TableView>;
+  return typeof view.id === 'string' && typeof view.name === 'string' && typeof view.state === 'object';
+};
+
+// Descarta entradas corrompidas (ex: localStorage editado manualmente)
+const toPreferences = (raw: unknown): TableViewPreferences | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Partial<TableViewPreferences>;
+
+  return {
+    views: Array.isArray(data.views) ? data.views.filter(isTableView) : [],
+    defaultViewId: typeof data.defaultViewId === 'string' ? data.defaultViewId : undefined,
+    updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : EMPTY_PREFERENCES.updatedAt,
+  };
+};
+
+/**
+ * Persistência das visualizações salvas das tabelas
+ * localStorage por usuário e tabela, com sincronização opcional na API (VITE_TABLE_VIEWS_SYNC)
+ */
+export class TableViewService {
+  private static storageKey(userId: string, tableId: string): string {
+    return `${STORAGE_PREFIX}:${userId}:${tableId}`;
+  }
+
+  static getLocal(userId: string, tableId: string): TableViewPreferences {
+    try {
+      const stored = localStorage.getItem(this.storageKey(userId, tableId));
+      return (stored && toPreferences(JSON.parse(stored))) || EMPTY_PREFERENCES;
+    } catch {
+      return EMPTY_PREFERENCES;
+    }
+  }
+
+  static saveLocal(userId: string, tableId: string, preferences: TableViewPreferences): void {
+    localStorage.setItem(this.storageKey(userId, tableId), JSON.stringify(preferences));
+  }
+
+  static async fetchRemote(tableId: string): Promise<TableViewPreferences | null> {
+    const response = await httpClient.get<TableViewPreferences>(API_ENDPOINTS.TABLE_VIEWS(tableId));
+
+    if (!response.succeeded) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao buscar visualizações');
+    }
+
+    return toPreferences(response.data);
+  }
+
+  static async saveRemote(tableId: string, preferences: TableViewPreferences): Promise<void> {
+    const response = await httpClient.put<TableViewPreferences>(API_ENDPOINTS.TABLE_VIEWS(tableId), preferences);
+
+    if (!response.succeeded) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao salvar visualizações');
+    }
+  }
+
+  /**
+   * Carrega as visualizações; com sincronização ativa vence a versão mais recente
+   */
+  static async load(userId: string, tableId: string): Promise<TableViewPreferences> {
+    const local = this.getLocal(userId, tableId);
+    if (!config.tableViews.serverSync) return local;
+
+    try {
+      const remote = await this.fetchRemote(tableId);
+      if (!remote || remote.updatedAt <= local.updatedAt) return local;
+
+      this.saveLocal(userId, tableId, remote);
+      return remote;
+    } catch (error) {
+      console.warn('⚠️ TableViewService: Falha ao sincronizar visualizações, usando cópia local:', error);
+      return local;
+    }
+  }
+
+  /**
+   * Salva localmente e, com sincronização ativa, na API
+   * Falhas na API não perdem a alteração: a cópia local é enviada na próxima gravação
+   */
+  static async save(userId: string, tableId: string, preferences: TableViewPreferences): Promise<void> {
+    this.saveLocal(userId, tableId, preferences);
+    if (!config.tableViews.serverSync) return;
+
+    try {
+      await this.saveRemote(tableId, preferences);
+    } catch (error) {
+      console.warn('⚠️ TableViewService: Falha ao sincronizar visualizações com a API:', error);
+    }
+  }
+}
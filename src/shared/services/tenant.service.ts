@@ -0,0 +1,115 @@
+import type {
+  ApiError,
+  Tenant,
+  TenantSummary,
+  CreateTenantRequest,
+  UpdateTenantRequest
+} from '../types';
+import { TenantStatus } from '../types';
+import { httpClient } from '../utils';
+import { API_ENDPOINTS } from '../constants';
+
+interface GetTenantsParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+}
+
+interface TenantsApiResponse {
+  items: TenantSummary[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const emptyTenantsResponse = (): TenantsApiResponse => ({
+  items: [],
+  page: 1,
+  limit: 10,
+  total: 0,
+  totalPages: 0
+});
+
+export class TenantService {
+  static async getTenants(params: GetTenantsParams = {}): Promise<TenantsApiResponse> {
+    try {
+      const { page = 1, limit = 10, search } = params;
+
+      const searchParams = new URLSearchParams({
+        page: page.toString(),
+        limit: limit.toString(),
+        ...(search && { search }),
+      });
+
+      const url = `${API_ENDPOINTS.TENANTS}?${searchParams}`;
+      const response = await httpClient.get<TenantsApiResponse>(url);
+
+      if (!response.succeeded) {
+        throw new Error(response.errors?.join(', ') || 'API retornou succeeded=false');
+      }
+
+      return response.data || emptyTenantsResponse();
+
+    } catch (error) {
+      if ((error as ApiError).status === 404) {
+        return emptyTenantsResponse();
+      }
+      throw error;
+    }
+  }
+
+  static async getTenantById(id: string): Promise<Tenant> {
+    const response = await httpClient.get<Tenant>(API_ENDPOINTS.TENANT_BY_ID(id));
+
+    if (!response.succeeded || !response.data) {
+      throw new Error(response.errors?.join(', ') || 'Tenant não encontrado');
+    }
+
+    return response.data;
+  }
+
+  static async getTenantBySlug(slug: string): Promise<Tenant> {
+    const response = await httpClient.get<Tenant>(API_ENDPOINTS.TENANT_BY_SLUG(slug));
+
+    if (!response.succeeded || !response.data) {
+      throw new Error(response.errors?.join(', ') || 'Tenant não encontrado');
+    }
+
+    return response.data;
+  }
+
+  static async createTenant(tenant: CreateTenantRequest): Promise<Tenant> {
+    const response = await httpClient.post<Tenant>(API_ENDPOINTS.TENANTS, tenant);
+
+    if (!response.succeeded || !response.data) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao criar tenant');
+    }
+
+    return response.data;
+  }
+
+  static async updateTenant(id: string, tenant: UpdateTenantRequest): Promise<Tenant> {
+    const response = await httpClient.put<Tenant>(API_ENDPOINTS.TENANT_BY_ID(id), tenant);
+
+    if (!response.succeeded || !response.data) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao atualizar tenant');
+    }
+
+    return response.data;
+  }
+
+  static async deleteTenant(id: string): Promise<void> {
+    const response = await httpClient.delete(API_ENDPOINTS.TENANT_BY_ID(id));
+
+    if (!response.succeeded) {
+      throw new Error(response.errors?.join(', ') || 'Erro ao remover tenant');
+    }
+  }
+
+  static async toggleTenantStatus(tenant: TenantSummary): Promise<Tenant> {
+    return this.updateTenant(tenant.id, {
+      status: tenant.status === TenantStatus.ACTIVE ? TenantStatus.INACTIVE : TenantStatus.ACTIVE
+    });
+  }
+}
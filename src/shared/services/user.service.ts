@@ -3,11 +3,11 @@ import type {
   CreateUserAccountRequest, 
   UpdateUserAccountRequest
 } from '../types';
-import type { AccessGroup } from '../types';
-import { httpClient } from '../utils';
+import type { AccessGroup, ListQuery } from '../types';
+import { httpClient, toListQueryParams } from '../utils';
 import { API_ENDPOINTS } from '../constants';
 
-interface GetUsersParams {
+interface GetUsersParams extends ListQuery {
   page?: number;
   limit?: number;
   search?: string;
@@ -31,6 +31,11 @@ interface ResetPasswordRequest {
   newPassword: string;
 }
 
+interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
 /**
  * Serviço para gerenciar Usuários (UserAccounts)
  * Centraliza todas as operações CRUD relacionadas aos usuários do sistema
@@ -44,6 +49,7 @@ interface ResetPasswordRequest {
  * - DELETE /api/users/{id} - Remove usuário
  * - POST /api/users/forgot-password - Esqueci senha
  * - POST /api/users/reset-password - Reset senha
+ * - POST /api/users/{id}/change-password - Troca de senha pelo próprio usuário
  */
 export class UserService {
   // ========== USERS CRUD ==========
@@ -54,7 +60,7 @@ export class UserService {
    */
   static async getUsers(params: GetUsersParams = {}): Promise<UsersApiResponse> {
     try {
-      const { page = 1, limit = 10, search } = params;
+      const { page = 1, limit = 10, search, ...listQuery } = params;
       
       console.log('🔄 UserService: Buscando usuários via API paginada...', params);
       
@@ -62,6 +68,7 @@ export class UserService {
         page: page.toString(),
         limit: limit.toString(),
         ...(search && { search }),
+        ...toListQueryParams(listQuery),
       });
       
       const url = `${API_ENDPOINTS.USERS}?${searchParams}`;
@@ -261,7 +268,7 @@ export class UserService {
       console.log('🔄 UserService: Iniciando fluxo de esqueci senha para:', email);
       
       const requestData: ForgotPasswordRequest = { email };
-      const response = await httpClient.post<boolean>(`${API_ENDPOINTS.USERS}/forgot-password`, requestData);
+      const response = await httpClient.post<boolean>(API_ENDPOINTS.FORGOT_PASSWORD, requestData);
       
       if (!response.succeeded) {
         const errorMsg = response.errors?.join(', ') || 'API retornou succeeded=false';
@@ -286,7 +293,7 @@ export class UserService {
       console.log('🔄 UserService: Resetando senha para:', email);
       
       const requestData: ResetPasswordRequest = { email, token, newPassword };
-      const response = await httpClient.post<boolean>(`${API_ENDPOINTS.USERS}/reset-password`, requestData);
+      const response = await httpClient.post<boolean>(API_ENDPOINTS.RESET_PASSWORD, requestData);
       
       if (!response.succeeded) {
         const errorMsg = response.errors?.join(', ') || 'API retornou succeeded=false';
@@ -296,9 +303,35 @@ export class UserService {
       
       console.log('✅ UserService: Senha resetada com sucesso');
       
-    } catch (error: any) {
+    } catch (error) {
+      // Mantém o erro normalizado pelo httpClient: o status indica se o token foi recusado
       console.error('💥 UserService: Erro ao resetar senha:', error);
-      throw new Error(error.message || 'Erro ao resetar senha');
+      throw error;
+    }
+  }
+
+  /**
+   * Troca a senha do usuário informando a senha atual
+   * API: POST /api/users/{id}/change-password
+   */
+  static async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    try {
+      console.log('🔄 UserService: Alterando senha do usuário:', userId);
+      
+      const requestData: ChangePasswordRequest = { currentPassword, newPassword };
+      const response = await httpClient.post<boolean>(API_ENDPOINTS.USER_CHANGE_PASSWORD(userId), requestData);
+      
+      if (!response.succeeded) {
+        const errorMsg = response.errors?.join(', ') || 'API retornou succeeded=false';
+        console.error('❌ UserService: API failed:', errorMsg);
+        throw new Error(errorMsg);
+      }
+      
+      console.log('✅ UserService: Senha alterada com sucesso');
+      
+    } catch (error) {
+      console.error('💥 UserService: Erro ao alterar senha:', error);
+      throw new Error((error as Error).message || 'Erro ao alterar senha');
     }
   }
 
@@ -25,16 +25,43 @@
 
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import type { AuthState, AuthUser, LoginRequest, LoginResponseData, UserInfo } from '../types';
+import type { AuthState, AuthTenant, AuthUser, LoginRequest, LoginResponseData, UserInfo } from '../types';
 import { httpClient } from '../utils';
 import { API_ENDPOINTS } from '../constants';
-import { setToken, setRefreshToken, setStoredUser, clearAuth, getToken, getStoredUser, isTokenValid } from '../utils/auth-storage';
+import { setToken, setRefreshToken, setStoredUser, clearAuth, getToken, getRefreshToken, getStoredUser, isTokenValid, getActiveTenantId, setActiveTenantId, removeActiveTenantId } from '../utils/auth-storage';
+import { broadcastSessionEvent } from '../utils/session-sync';
 import { usePermissionStore } from './permission.store';
 
+/**
+ * Busca o usuário logado (com permissões) no tenant ativo
+ */
+const fetchUserInfo = async (): Promise<UserInfo> => {
+  const userInfoResponse = await httpClient.get<UserInfo>(API_ENDPOINTS.ME);
+
+  if (!userInfoResponse.succeeded || !userInfoResponse.data) {
+    throw new Error('Não foi possível recarregar as permissões do usuário');
+  }
+
+  return userInfoResponse.data;
+};
+
+/**
+ * Dados do usuário usados nas condições de permissão ($user.id, $user.tenant.id)
+ */
+const toPermissionSubject = (user: UserInfo) => ({
+  userId: user.id,
+  tenantId: user.tenant?.id,
+});
+
 interface AuthStore extends AuthState {
   initialize: () => Promise<void>;
   login: (credentials: LoginRequest) => Promise<void>;
   logout: () => void;
+  clearSession: () => void;
+  syncFromStorage: () => void;
+  reloadPermissions: () => Promise<void>;
+  loadAvailableTenants: () => Promise<void>;
+  switchTenant: (tenant: AuthTenant) => Promise<void>;
   setUser: (user: AuthUser | null) => void;
   setToken: (token: string | null) => void;
   setLoading: (isLoading: boolean) => void;
@@ -49,14 +76,25 @@ export const useAuthStore = create<AuthStore>()(
         user: null,
         token: null,
         isLoading: false,
+        availableTenants: [],
 
         initialize: async () => {
           console.log('🔧 Store: initialize() chamado (versão limpa)');
           
           try {
-            const storedToken = getToken();
+            let storedToken = getToken();
             const storedUser = getStoredUser();
-            const tokenValid = storedToken && storedUser && isTokenValid();
+            let tokenValid = storedToken && storedUser && isTokenValid();
+
+            // Access token expirado mas com refresh token: tenta renovar antes de descartar a sessão
+            if (storedToken && storedUser && !tokenValid && getRefreshToken()) {
+              try {
+                storedToken = await httpClient.refreshAccessToken();
+                tokenValid = true;
+              } catch (refreshError) {
+                console.warn('⚠️ Store: Não foi possível renovar a sessão', refreshError);
+              }
+            }
 
             const initialState = {
               isAuthenticated: !!tokenValid,
@@ -69,7 +107,7 @@ export const useAuthStore = create<AuthStore>()(
               clearAuth();
               usePermissionStore.getState().clearPermissions();
             } else if (tokenValid && storedUser) {
-              usePermissionStore.getState().setPermissions(storedUser.permissions);
+              usePermissionStore.getState().setPermissions(storedUser.permissions, toPermissionSubject(storedUser));
             }
 
             set(initialState);
@@ -83,8 +121,15 @@ export const useAuthStore = create<AuthStore>()(
               get().logout();
             };
 
+            const handleTokenRefreshed = (event: Event) => {
+              const { accessToken } = (event as CustomEvent<{ accessToken: string }>).detail;
+              set({ token: accessToken });
+            };
+
             window.removeEventListener('auth:token-expired', handleTokenExpired);
             window.addEventListener('auth:token-expired', handleTokenExpired);
+            window.removeEventListener('auth:token-refreshed', handleTokenRefreshed);
+            window.addEventListener('auth:token-refreshed', handleTokenRefreshed);
 
           } catch (error) {
             console.error('❌ Store: Erro na inicialização:', error);
@@ -108,41 +153,50 @@ export const useAuthStore = create<AuthStore>()(
 
               setToken(accessToken);
               setRefreshToken(refreshToken);
+              let userData: UserInfo;
               try {
                 const userInfoResponse = await httpClient.get<UserInfo>(API_ENDPOINTS.ME);
                 
-                if (userInfoResponse.succeeded && userInfoResponse.data) {
-                  const userData = userInfoResponse.data;
-                  
-                  setStoredUser(userData);
-
-                  usePermissionStore.getState().setPermissions(userData.permissions);
-
-                  const authUser: AuthUser = {
-                    id: userData.id,
-                    email: userData.email,
-                    username: userData.username,
-                    fullName: userData.fullName,
-                    tenant: userData.tenant,
-                  };
-
-                  set({
-                    isAuthenticated: true,
-                    user: authUser,
-                    token: accessToken,
-                    isLoading: false,
-                  });
-
-                  console.log('Login successful, user:', authUser);
-                } else {
+                if (!userInfoResponse.succeeded || !userInfoResponse.data) {
                   throw new Error('Não foi possível obter informações do usuário');
                 }
+                userData = userInfoResponse.data;
               } catch (userInfoError) {
                 console.error('Erro ao buscar informações do usuário:', userInfoError);
                 clearAuth();
                 throw new Error('Falha ao carregar informações do usuário');
               }
 
+              // Tenant resolvido na tela de login: o usuário precisa pertencer a ele
+              if (credentials.tenantId) {
+                if (userData.tenant.id !== credentials.tenantId) {
+                  throw new Error('Este usuário não pertence a esta organização');
+                }
+                setActiveTenantId(credentials.tenantId);
+              }
+                  
+              setStoredUser(userData);
+
+              usePermissionStore.getState().setPermissions(userData.permissions, toPermissionSubject(userData));
+
+              const authUser: AuthUser = {
+                id: userData.id,
+                email: userData.email,
+                username: userData.username,
+                fullName: userData.fullName,
+                tenant: userData.tenant,
+              };
+
+              set({
+                isAuthenticated: true,
+                user: authUser,
+                token: accessToken,
+                isLoading: false,
+              });
+
+              broadcastSessionEvent({ type: 'login' });
+              console.log('Login successful, user:', authUser);
+
             } else {
               throw new Error('Credenciais inválidas ou resposta inesperada da API');
             }
@@ -159,6 +213,16 @@ export const useAuthStore = create<AuthStore>()(
           
           window.removeEventListener('auth:token-expired', () => {});
           
+          get().clearSession();
+          broadcastSessionEvent({ type: 'logout' });
+          
+          console.log('✅ Store: Logout concluído');
+        },
+
+        /**
+         * Limpa a sessão apenas nesta aba (sem notificar as demais)
+         */
+        clearSession: () => {
           usePermissionStore.getState().clearPermissions();
           
           clearAuth();
@@ -167,9 +231,84 @@ export const useAuthStore = create<AuthStore>()(
             user: null,
             token: null,
             isLoading: false,
+            availableTenants: [],
           });
-          
-          console.log('✅ Store: Logout concluído');
+        },
+
+        /**
+         * Recarrega a sessão a partir do localStorage, que é compartilhado entre abas
+         */
+        syncFromStorage: () => {
+          const storedToken = getToken();
+          const storedUser: UserInfo | null = getStoredUser();
+
+          if (!storedToken || !storedUser) {
+            get().clearSession();
+            return;
+          }
+
+          usePermissionStore.getState().setPermissions(storedUser.permissions, toPermissionSubject(storedUser));
+          set({
+            isAuthenticated: true,
+            user: {
+              id: storedUser.id,
+              email: storedUser.email,
+              username: storedUser.username,
+              fullName: storedUser.fullName,
+              tenant: storedUser.tenant,
+            },
+            token: storedToken,
+          });
+        },
+
+        /**
+         * Busca novamente as permissões do usuário logado e propaga para as outras abas
+         */
+        reloadPermissions: async () => {
+          setStoredUser(await fetchUserInfo());
+          get().syncFromStorage();
+          broadcastSessionEvent({ type: 'permissions-updated' });
+        },
+
+        /**
+         * Carrega os tenants que o usuário pode administrar
+         */
+        loadAvailableTenants: async () => {
+          const response = await httpClient.get<AuthTenant[]>(API_ENDPOINTS.MY_TENANTS);
+
+          if (!response.succeeded) {
+            throw new Error(response.errors?.join(', ') || 'Erro ao carregar tenants disponíveis');
+          }
+
+          set({ availableTenants: response.data || [] });
+        },
+
+        /**
+         * Troca o tenant ativo: todas as requisições passam a enviar o novo tenant
+         * e as permissões são recarregadas no contexto dele
+         */
+        switchTenant: async (tenant: AuthTenant) => {
+          const previousTenantId = getActiveTenantId();
+          console.log('🏢 Store: Trocando tenant ativo...', tenant.slug);
+
+          try {
+            setActiveTenantId(tenant.id);
+            const userInfo = await fetchUserInfo();
+
+            setStoredUser({ ...userInfo, tenant });
+            get().syncFromStorage();
+            broadcastSessionEvent({ type: 'tenant-switched', tenantId: tenant.id });
+
+            console.log('✅ Store: Tenant ativo alterado');
+          } catch (error) {
+            // Mantém o tenant anterior se não foi possível carregar o novo contexto
+            if (previousTenantId) {
+              setActiveTenantId(previousTenantId);
+            } else {
+              removeActiveTenantId();
+            }
+            throw error;
+          }
         },
 
         setUser: (user: AuthUser | null) => {
@@ -186,8 +325,8 @@ export const useAuthStore = create<AuthStore>()(
 
         refreshToken: async () => {
           try {
-            // TODO: Implementar refresh token quando a API estiver pronta
-            console.log('Refresh token not implemented yet');
+            const accessToken = await httpClient.refreshAccessToken();
+            set({ token: accessToken, isAuthenticated: true });
           } catch (error) {
             // Se falhar o refresh, faz logout
             get().logout();
@@ -1,3 +1,4 @@
 // Stores da aplicação
 export * from './auth.store';
-export * from './permission.store';
\ No newline at end of file
+export * from './permission.store';
+export * from './module-registry.store';
\ No newline at end of file
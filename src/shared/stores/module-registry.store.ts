@@ -0,0 +1,143 @@
+import { create } from 'zustand';
+import { ModuleKey } from '../types/permission.types';
+import { GENERATED_MODULE_KEYS } from '../types/module-keys.generated';
+import type { Module, UserPermissions } from '../types/permission.types';
+
+// De onde o registro conhece a chave
+export type ModuleKeySource = 'static' | 'catalog' | 'permissions';
+
+export interface RegisteredModuleKey {
+  key: string;
+  name?: string;
+  moduleId?: string;
+  sources: ModuleKeySource[];
+}
+
+interface ModuleRegistryState {
+  keys: Record<string, RegisteredModuleKey>;
+  catalogLoaded: boolean;
+  seedFromCatalog: (modules: Module[]) => void;
+  syncWithPermissions: (permissions: UserPermissions | null) => void;
+  isKnownKey: (key: string) => boolean;
+  getKeys: () => RegisteredModuleKey[];
+  reset: () => void;
+}
+
+const isDev = import.meta.env.DEV;
+
+// Chaves já avisadas no console, para não repetir o aviso a cada render
+const warnedKeys = new Set<string>();
+
+const addSource = (
+  keys: Record<string, RegisteredModuleKey>,
+  key: string,
+  source: ModuleKeySource,
+  extra: Partial<RegisteredModuleKey> = {}
+): Record<string, RegisteredModuleKey> => {
+  const current = keys[key];
+  return {
+    ...keys,
+    [key]: {
+      ...current,
+      ...extra,
+      key,
+      sources: current?.sources.includes(source) ? current.sources : [...(current?.sources ?? []), source],
+    },
+  };
+};
+
+const buildStaticKeys = (): Record<string, RegisteredModuleKey> =>
+  [...Object.values(ModuleKey), ...GENERATED_MODULE_KEYS].reduce(
+    (keys, key) => addSource(keys, key, 'static'),
+    {} as Record<string, RegisteredModuleKey>
+  );
+
+const collectPermissionKeys = (permissions: UserPermissions): string[] =>
+  Array.from(new Set(
+    permissions.accessGroups.flatMap(group =>
+      group.roles.flatMap(role => role.modules.map(module => module.key))
+    )
+  ));
+
+/**
+ * Registro em tempo de execução das chaves de módulo
+ *
+ * Features:
+ * - Parte das chaves estáticas e geradas (module-keys.generated.ts)
+ * - Semeado com o catálogo de módulos (ModuleService) e com as chaves das permissões
+ * - Com o catálogo carregado, só chaves do catálogo ou das permissões são conhecidas
+ */
+export const useModuleRegistryStore = create<ModuleRegistryState>((set, get) => ({
+  keys: buildStaticKeys(),
+  catalogLoaded: false,
+
+  seedFromCatalog: (modules: Module[]) => {
+    const keys = modules
+      .filter(module => module.key)
+      .reduce(
+        (acc, module) => addSource(acc, module.key as string, 'catalog', { name: module.name, moduleId: module.id }),
+        get().keys
+      );
+
+    set({ keys, catalogLoaded: true });
+
+    if (isDev) {
+      const unknownStatic = Object.values(keys)
+        .filter(entry => entry.sources.includes('static') && !entry.sources.includes('catalog'))
+        .map(entry => entry.key);
+
+      if (unknownStatic.length > 0) {
+        console.warn('⚠️ ModuleRegistry: Chaves usadas no código sem módulo no catálogo:', unknownStatic);
+      }
+    }
+  },
+
+  syncWithPermissions: (permissions: UserPermissions | null) => {
+    if (!permissions) return;
+
+    const permissionKeys = collectPermissionKeys(permissions);
+    const keys = permissionKeys.reduce(
+      (acc, key) => addSource(acc, key, 'permissions'),
+      get().keys
+    );
+
+    set({ keys });
+
+    if (isDev && get().catalogLoaded) {
+      const orphanKeys = permissionKeys.filter(key => !keys[key].sources.includes('catalog'));
+
+      if (orphanKeys.length > 0) {
+        console.warn('⚠️ ModuleRegistry: Permissões referenciam módulos fora do catálogo:', orphanKeys);
+      }
+    }
+  },
+
+  isKnownKey: (key: string): boolean => {
+    const { keys, catalogLoaded } = get();
+    const entry = keys[key];
+    if (!entry) return false;
+    if (!catalogLoaded) return true;
+
+    return entry.sources.includes('catalog') || entry.sources.includes('permissions');
+  },
+
+  getKeys: (): RegisteredModuleKey[] =>
+    Object.values(get().keys).sort((a, b) => a.key.localeCompare(b.key)),
+
+  reset: () => {
+    warnedKeys.clear();
+    set({ keys: buildStaticKeys(), catalogLoaded: false });
+  },
+}));
+
+/**
+ * Avisa em desenvolvimento quando o código referencia uma chave de módulo desconhecida
+ * Cada chave é avisada uma única vez
+ */
+export const warnUnknownModuleKey = (key: string): void => {
+  if (!isDev || warnedKeys.has(key)) return;
+  if (useModuleRegistryStore.getState().isKnownKey(key)) return;
+
+  warnedKeys.add(key);
+  console.warn(`⚠️ ModuleRegistry: Chave de módulo desconhecida "${key}". Verifique o catálogo ou rode npm run codegen:module-keys.`);
+};
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { usePermissionStore } from './permission.store';
+
+describe('usePermissionStore.satisfies', () => {
+  beforeEach(() => {
+    usePermissionStore.getState().setPermissions({
+      userId: 'user-1',
+      accessGroups: [{
+        id: 'group-1',
+        code: 'ADMINS',
+        roles: [{
+          id: 'role-1',
+          code: 'ADMIN',
+          modules: [{ id: 'permission-1', key: 'ROLE_MODULE', operations: ['SELECT', 'UPDATE'] }],
+        }],
+      }],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('avalia expressões válidas', () => {
+    const { satisfies } = usePermissionStore.getState();
+    expect(satisfies('ROLE_MODULE:UPDATE')).toBe(true);
+    expect(satisfies('ROLE_MODULE:DELETE || USER_MODULE')).toBe(false);
+  });
+
+  it('nega expressões mal formadas com um aviso, sem lançar erro', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { satisfies } = usePermissionStore.getState();
+
+    expect(satisfies('ROLE_MODULE:UPDATE &&')).toBe(false);
+    expect(satisfies('ROLE_MODULE:UPDATE &&')).toBe(false);
+    expect(warn.mock.calls.filter(([message]) => String(message).includes('expressão incompleta'))).toHaveLength(1);
+  });
+});
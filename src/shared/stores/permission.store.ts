@@ -1,81 +1,184 @@
 import { create } from 'zustand';
-import type { UserPermissions, OperationType } from '../types/permission.types';
+import { BUILT_IN_OPERATIONS, PERMISSION_WILDCARD } from '../types/permission.types';
+import type {
+  UserPermissions,
+  OperationCode,
+  PermissionDecision,
+  PermissionExpression,
+  PermissionPrecedence,
+  PermissionSubject,
+} from '../types/permission.types';
+import { config } from '../config/app.config';
+import { evaluatePermissionExpression } from '../utils/permission-expression';
+import { decidePermission, normalizeOperation } from '../utils/permission-decision';
+import { warnUnknownModuleKey } from './module-registry.store';
+
+// Opções da verificação por registro
+export interface CanOnOptions {
+  // Campos que serão alterados - validados contra a allow-list das condições
+  fields?: string[];
+}
 
 interface PermissionState {
   permissions: UserPermissions | null;
-  setPermissions: (permissions: UserPermissions) => void;
+  // Usuário logado, usado nas condições ($user.id, $user.tenant.id)
+  subject: PermissionSubject | null;
+  // Códigos de operação cadastrados (padrão + customizados), carregados de OperationService
+  operationCodes: string[];
+  operationCatalogLoaded: boolean;
+  // Precedência entre concessões e negações (padrão: VITE_PERMISSION_PRECEDENCE)
+  precedence: PermissionPrecedence;
+  setPermissions: (permissions: UserPermissions, subject?: PermissionSubject) => void;
   clearPermissions: () => void;
+  setOperationCodes: (codes: string[]) => void;
+  isKnownOperation: (operation: OperationCode) => boolean;
+  setPrecedence: (precedence: PermissionPrecedence) => void;
   hasModuleAccess: (moduleKey: string) => boolean;
-  canPerformOperation: (moduleKey: string, operation: OperationType) => boolean;
+  canPerformOperation: (moduleKey: string, operation: OperationCode) => boolean;
   getAccessibleModules: () => string[];
-  getModuleOperations: (moduleKey: string) => OperationType[];
+  getModuleOperations: (moduleKey: string) => OperationCode[];
+  satisfies: (expression: PermissionExpression) => boolean;
+  canOn: (moduleKey: string, operation: OperationCode, record: object, options?: CanOnOptions) => boolean;
+  explain: (moduleKey: string, operation?: OperationCode, record?: object) => PermissionDecision;
 }
 
+// Operações já avisadas no console, para não repetir o aviso a cada render
+const warnedOperations = new Set<string>();
+// Expressões inválidas já avisadas no console
+const warnedExpressions = new Set<string>();
+
 export const usePermissionStore = create<PermissionState>((set, get) => ({
   permissions: null,
+  subject: null,
+  operationCodes: [...BUILT_IN_OPERATIONS],
+  operationCatalogLoaded: false,
+  precedence: config.permissions.precedence,
+
+  setPermissions: (permissions: UserPermissions, subject?: PermissionSubject) =>
+    set({ permissions, subject: subject ?? { userId: permissions.userId } }),
+
+  clearPermissions: () => set({ permissions: null, subject: null }),
+
+  setOperationCodes: (codes: string[]) => {
+    const operationCodes = Array.from(new Set([
+      ...BUILT_IN_OPERATIONS,
+      ...codes.filter(Boolean).map(normalizeOperation),
+    ]));
+    set({ operationCodes, operationCatalogLoaded: true });
+  },
 
-  setPermissions: (permissions: UserPermissions) => set({ permissions }),
+  isKnownOperation: (operation: OperationCode): boolean =>
+    get().operationCodes.includes(normalizeOperation(operation)),
 
-  clearPermissions: () => set({ permissions: null }),
+  setPrecedence: (precedence: PermissionPrecedence) => set({ precedence }),
 
   hasModuleAccess: (moduleKey: string): boolean => {
-    const { permissions } = get();
-    if (!permissions) return false;
+    warnUnknownModuleKey(moduleKey);
+    const { permissions, precedence } = get();
 
-    return permissions.accessGroups.some(group =>
-      group.roles.some(role =>
-        role.modules.some(module => module.key === moduleKey)
-      )
-    );
+    return decidePermission(permissions, moduleKey, undefined, { precedence }).allowed;
   },
 
-  canPerformOperation: (moduleKey: string, operation: OperationType): boolean => {
-    const { permissions } = get();
+  canPerformOperation: (moduleKey: string, operation: OperationCode): boolean => {
+    warnUnknownModuleKey(moduleKey);
+    const { permissions, precedence, operationCatalogLoaded, isKnownOperation } = get();
     if (!permissions) return false;
 
-    return permissions.accessGroups.some(group =>
-      group.roles.some(role =>
-        role.modules.some(module =>
-          module.key === moduleKey && module.operations.includes(operation)
-        )
-      )
-    );
+    const code = normalizeOperation(operation);
+
+    // Só avisa depois que o catálogo de operações foi carregado
+    if (import.meta.env.DEV && operationCatalogLoaded && !isKnownOperation(code) && !warnedOperations.has(code)) {
+      warnedOperations.add(code);
+      console.warn(`⚠️ Permissões: Operação desconhecida "${code}" - verifique o cadastro de operações`);
+    }
+
+    return decidePermission(permissions, moduleKey, code, { precedence }).allowed;
   },
 
   getAccessibleModules: (): string[] => {
-    const { permissions } = get();
+    const { permissions, precedence } = get();
     if (!permissions) return [];
 
     const modules = new Set<string>();
-    
+
     permissions.accessGroups.forEach(group =>
       group.roles.forEach(role =>
-        role.modules.forEach(module =>
-          modules.add(module.key)
-        )
+        role.modules.forEach(module => {
+          if (module.effect !== 'deny' && module.key !== PERMISSION_WILDCARD) {
+            modules.add(module.key);
+          }
+        })
       )
     );
 
-    return Array.from(modules);
+    // Remove módulos negados por completo (operação '*')
+    return Array.from(modules).filter(key => decidePermission(permissions, key, undefined, { precedence }).allowed);
   },
 
-  getModuleOperations: (moduleKey: string): OperationType[] => {
-    const { permissions } = get();
+  getModuleOperations: (moduleKey: string): OperationCode[] => {
+    const { permissions, precedence } = get();
     if (!permissions) return [];
 
-    const operations = new Set<OperationType>();
-    
+    const operations = new Set<OperationCode>();
+
     permissions.accessGroups.forEach(group =>
       group.roles.forEach(role =>
         role.modules.forEach(module => {
-          if (module.key === moduleKey) {
-            module.operations.forEach(op => operations.add(op));
+          if (module.effect !== 'deny' && (module.key === moduleKey || module.key === PERMISSION_WILDCARD)) {
+            module.operations
+              .filter(op => op !== PERMISSION_WILDCARD)
+              .forEach(op => operations.add(normalizeOperation(op)));
           }
         })
       )
     );
 
-    return Array.from(operations);
+    // Apenas as operações que sobrevivem às negações
+    return Array.from(operations).filter(op => decidePermission(permissions, moduleKey, op, { precedence }).allowed);
+  },
+
+  // Avalia uma expressão de permissão (ex: 'ROLE_MODULE:UPDATE && PERMISSION_MODULE:SELECT')
+  // Expressão mal formada nega o acesso com um aviso, em vez de quebrar a renderização
+  satisfies: (expression: PermissionExpression): boolean => {
+    const { permissions, hasModuleAccess, canPerformOperation } = get();
+    if (!permissions) return false;
+
+    try {
+      return evaluatePermissionExpression(expression, (moduleKey, operation) =>
+        operation ? canPerformOperation(moduleKey, operation) : hasModuleAccess(moduleKey)
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!warnedExpressions.has(message)) {
+        warnedExpressions.add(message);
+        console.warn(`⚠️ Permissões: ${message} - acesso negado`);
+      }
+      return false;
+    }
+  },
+
+  /**
+   * Verifica a operação sobre um registro específico, considerando as condições
+   * Basta uma permissão (de qualquer papel) cujas condições o registro satisfaça,
+   * desde que nenhuma negação aplicável ao registro prevaleça
+   * canPerformOperation continua indicando se a operação existe para algum registro
+   */
+  canOn: (moduleKey: string, operation: OperationCode, record: object, options?: CanOnOptions): boolean => {
+    warnUnknownModuleKey(moduleKey);
+    const { permissions, subject, precedence } = get();
+
+    return decidePermission(permissions, moduleKey, operation, {
+      precedence,
+      record,
+      subject,
+      fields: options?.fields,
+    }).allowed;
+  },
+
+  // Explica qual concessão ou negação decidiu a verificação
+  explain: (moduleKey: string, operation?: OperationCode, record?: object): PermissionDecision => {
+    const { permissions, subject, precedence } = get();
+    return decidePermission(permissions, moduleKey, operation, { precedence, record, subject });
   }
 }));
 
@@ -85,16 +188,27 @@ export const usePermissions = () => {
     hasModuleAccess,
     canPerformOperation,
     getAccessibleModules,
-    getModuleOperations
+    getModuleOperations,
+    satisfies,
+    canOn,
+    explain
   } = usePermissionStore();
 
   return {
-    hasAccess: (moduleKey: string, operation?: OperationType) => {
+    hasAccess: (moduleKey: string, operation?: OperationCode) => {
       if (!operation) {
         return hasModuleAccess(moduleKey);
       }
       return canPerformOperation(moduleKey, operation);
     },
+    // Verificação genérica - operações padrão ou customizadas (ex: can('USER_MODULE', 'EXPORT'))
+    can: (moduleKey: string, operation: OperationCode) => canPerformOperation(moduleKey, operation),
+    // Expressões combinadas (ex: satisfies('ROLE_MODULE:UPDATE || PERMISSION_MODULE:UPDATE'))
+    satisfies,
+    // Verificação por registro (ex: canOn('USER_MODULE', 'UPDATE', user))
+    canOn,
+    // Explicação da decisão (ex: explain('ROLE_MODULE', 'DELETE').decidedBy)
+    explain,
     getAccessibleModules,
     getModuleOperations,
     canCreate: (moduleKey: string) => canPerformOperation(moduleKey, 'CREATE'),
@@ -102,4 +216,4 @@ export const usePermissions = () => {
     canUpdate: (moduleKey: string) => canPerformOperation(moduleKey, 'UPDATE'),
     canDelete: (moduleKey: string) => canPerformOperation(moduleKey, 'DELETE')
   };
-};
\ No newline at end of file
+};
@@ -38,6 +38,38 @@ export interface PaginationParams {
   search?: string;
 }
 
+export type SortDirection = NonNullable<PaginationParams['sortDirection']>;
+
+// Filtros por coluna das listagens (enviados como query params)
+// - texto/enum: campo=valor
+// - booleano: campo=true|false
+// - intervalo de datas: campoFrom/campoTo (yyyy-mm-dd)
+export interface DateRangeFilter {
+  from?: string;
+  to?: string;
+}
+
+export type ColumnFilterValue = string | boolean | DateRangeFilter;
+export type ColumnFilters = Record<string, ColumnFilterValue>;
+
+// Tipo do filtro de cada campo, usado para ler os filtros da URL (campos ausentes são texto)
+export type ColumnFilterType = 'text' | 'enum' | 'boolean' | 'dateRange';
+export type ColumnFilterTypes = Record<string, ColumnFilterType>;
+
+// Ordenação e filtros de uma listagem paginada no servidor
+export interface ListQuery extends Pick<PaginationParams, 'sortBy' | 'sortDirection'> {
+  filters?: ColumnFilters;
+}
+
+// Estado completo de uma listagem (página, tamanho, busca, ordenação e filtros)
+// Quando informado aos hooks de listagem, a página controla o carregamento (ex: query string)
+export interface ListState {
+  page: number;
+  pageSize: number;
+  search: string;
+  listQuery: ListQuery;
+}
+
 export interface ApiError {
   message: string;
   status: number;
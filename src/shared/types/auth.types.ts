@@ -4,6 +4,8 @@ import type { UserPermissions } from './permission.types';
 export interface LoginRequest {
   usernameOrEmail: string;
   password: string;
+  tenantId?: string;   // Tenant resolvido pelo domínio ou ?tenant= na tela de login
+  tenantSlug?: string;
 }
 
 export interface LoginResponseData {
@@ -13,18 +15,21 @@ export interface LoginResponseData {
   expiresIn: number;
 }
 
+// Tenant do contexto ativo da sessão
+export interface AuthTenant {
+  id: string;
+  name: string;
+  slug: string;
+  customDomain: string | null;
+}
+
 export interface UserInfo {
   id: string;
   username: string;
   email: string;
   fullName: string;
   permissions: UserPermissions;
-  tenant: {
-    id: string;
-    name: string;
-    slug: string;
-    customDomain: string | null;
-  };
+  tenant: AuthTenant;
 }
 
 export interface RefreshTokenRequest {
@@ -36,12 +41,7 @@ export interface AuthUser {
   email: string;
   username: string;
   fullName: string;
-  tenant: {
-    id: string;
-    name: string;
-    slug: string;
-    customDomain: string | null;
-  };
+  tenant: AuthTenant;
 }
 
 export interface AuthState {
@@ -49,4 +49,5 @@ export interface AuthState {
   user: AuthUser | null;
   token: string | null;
   isLoading: boolean;
+  availableTenants: AuthTenant[];
 }
\ No newline at end of file
@@ -4,5 +4,10 @@ export * from './tenant.types';
 export * from './access-group.types';
 export * from './role.types';
 export * from './permission.types';
+export * from './permission-explain.types';
+export * from './permission-matrix.types';
+export * from './table-view.types';
+export * from './navigation.types';
+export * from './module-keys.generated';
 export * from './api.types';
 export * from './auth.types';
\ No newline at end of file
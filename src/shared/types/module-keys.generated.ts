@@ -0,0 +1,16 @@
+// Arquivo gerado por scripts/generate-module-keys.mjs - não edite manualmente
+// Origem: modules-export.json (9 chaves)
+
+export const GENERATED_MODULE_KEYS = [
+  'ACCESS_GROUP', // Grupos de Acesso
+  'APPLICATION_MODULE', // Aplicações
+  'GROUP_TYPE', // Tipos de Grupo
+  'MODULES', // Módulos
+  'OPERATION_MODULE', // Operações
+  'PERMISSION_MODULE', // Permissões
+  'ROLE_MODULE', // Papéis
+  'TENANT_MODULE', // Tenants
+  'USER_MODULE', // Usuários
+] as const;
+
+export type GeneratedModuleKey = typeof GENERATED_MODULE_KEYS[number];
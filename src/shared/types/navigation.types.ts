@@ -0,0 +1,44 @@
+// Tipos do modelo único de navegação (sidebar, menus, ações rápidas e breadcrumbs)
+import type { SvgIconComponent } from '@mui/icons-material';
+import type { ModuleKey, OperationCode } from './permission.types';
+
+export type NavigationColor = 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info';
+
+export interface NavigationBadge {
+  label: string;
+  color?: NavigationColor;
+}
+
+// Exibição do item como card de ação rápida no dashboard
+export interface NavigationQuickAction {
+  description: string;
+  color?: NavigationColor;
+}
+
+export interface NavigationItem {
+  id: string;
+  title: string;
+  icon?: SvgIconComponent;
+  // Itens sem path são seções que apenas agrupam filhos
+  path?: string;
+  // Sem moduleKey o item é visível para qualquer usuário autenticado
+  moduleKey?: ModuleKey;
+  // Operação exigida no módulo (padrão: SELECT) - aceita operações customizadas
+  operation?: OperationCode;
+  // Ordem de exibição entre irmãos (menor primeiro)
+  order?: number;
+  badge?: NavigationBadge;
+  // false = não aparece nos menus, apenas em breadcrumbs e ações rápidas
+  showInMenu?: boolean;
+  // true = aparece nos menus sem navegação (ex: módulo do catálogo ainda sem tela nesta aplicação)
+  disabled?: boolean;
+  quickAction?: NavigationQuickAction;
+  children?: readonly NavigationItem[];
+}
+
+// Item de breadcrumb resolvido para a rota atual
+export interface BreadcrumbItem {
+  id: string;
+  title: string;
+  path?: string;
+}
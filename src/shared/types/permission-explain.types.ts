@@ -0,0 +1,34 @@
+// Tipos da explicação de permissões efetivas ("por que o usuário pode fazer X?")
+import type { OperationCode, PermissionDecision } from './permission.types';
+
+export type ExplainNodeType = 'user' | 'access-group' | 'role' | 'permission' | 'operation';
+
+// Situação do nó em relação à verificação
+// - grant/deny: o nó está em um caminho ativo que concede ou nega a operação
+// - inactive: o nó (ou um ancestral) está inativo e interrompe o caminho
+// - no-match: o nó não leva à operação verificada
+export type ExplainNodeStatus = 'grant' | 'deny' | 'inactive' | 'no-match';
+
+export interface ExplainNode {
+  // Único na árvore (um mesmo role pode aparecer em vários grupos)
+  id: string;
+  type: ExplainNodeType;
+  label: string;
+  description?: string;
+  status: ExplainNodeStatus;
+  // Aresta do caminho user → grupo → role → permissão → operação que contribui para a decisão
+  contributes: boolean;
+  // Caminho da entrada que decidiu a verificação (conforme a precedência)
+  decisive: boolean;
+  children: ExplainNode[];
+}
+
+export interface PermissionExplanation {
+  userId: string;
+  moduleKey: string;
+  operation: OperationCode;
+  decision: PermissionDecision;
+  root: ExplainNode;
+  grantPaths: number;
+  denyPaths: number;
+}
@@ -0,0 +1,55 @@
+// Tipos da matriz de permissões (usuários × módulo:operação) usada em auditorias
+import type { AccessGroup, GroupType } from './access-group.types';
+import type { OperationCode, PermissionDecisionReason } from './permission.types';
+import type { Role } from './role.types';
+import type { UserAccount } from './user-account.types';
+
+// Combinações módulo:operação destacadas como privilegiadas no relatório
+export const PRIVILEGED_PERMISSIONS: ReadonlyArray<{ moduleKey: string; operation: OperationCode }> = [
+  { moduleKey: 'PERMISSION_MODULE', operation: 'DELETE' },
+  { moduleKey: 'ROLE_MODULE', operation: 'DELETE' },
+];
+
+export interface PermissionMatrixColumn {
+  // `${moduleKey}:${operation}`
+  id: string;
+  moduleKey: string;
+  moduleName: string;
+  operation: OperationCode;
+  privileged: boolean;
+}
+
+export interface PermissionMatrixCell {
+  allowed: boolean;
+  reason: PermissionDecisionReason;
+  // Caminho da entrada decisiva (grupo › role)
+  decidedBy?: string;
+  // A concessão depende de condições por registro
+  conditional: boolean;
+}
+
+export interface PermissionMatrixRow {
+  user: UserAccount;
+  accessGroupIds: string[];
+  roleIds: string[];
+  groupTypeIds: string[];
+  // Indexado pelo id da coluna; ausente quando não há entrada aplicável
+  cells: Record<string, PermissionMatrixCell>;
+}
+
+export interface PermissionMatrix {
+  columns: PermissionMatrixColumn[];
+  rows: PermissionMatrixRow[];
+  accessGroups: AccessGroup[];
+  roles: Role[];
+  groupTypes: GroupType[];
+  generatedAt: string;
+}
+
+export interface PermissionMatrixFilters {
+  groupTypeId?: string;
+  accessGroupId?: string;
+  roleId?: string;
+  search?: string;
+  onlyPrivileged?: boolean;
+}
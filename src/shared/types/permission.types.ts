@@ -1,11 +1,59 @@
 // Tipos para o sistema de permissões baseado em módulos (nova estrutura)
+import type { GeneratedModuleKey } from './module-keys.generated';
 
+// Operações padrão (CRUD) - sempre disponíveis e tipadas
 export type OperationType = 'CREATE' | 'SELECT' | 'UPDATE' | 'DELETE';
 
+export const BUILT_IN_OPERATIONS: readonly OperationType[] = ['SELECT', 'CREATE', 'UPDATE', 'DELETE'];
+
+// Código de operação: uma das padrão ou uma customizada cadastrada em Operações (ex: EXPORT, APPROVE)
+// O `string & {}` mantém o autocomplete das operações padrão
+export type OperationCode = OperationType | (string & {});
+
+// Condições de atributo/propriedade sobre o registro (avaliadas por canOn)
+export type PermissionConditionOperator = 'eq' | 'neq' | 'in';
+
+// Referências ao usuário logado aceitas como valor de uma condição
+export const CONDITION_SUBJECT_REFS = {
+  USER_ID: '$user.id',
+  TENANT_ID: '$user.tenant.id',
+} as const;
+
+export interface PermissionConditionRule {
+  // Campo do registro (aceita caminho, ex: 'tenant.id')
+  field: string;
+  operator: PermissionConditionOperator;
+  // Valor literal ou referência ao usuário (ex: '$user.tenant.id'); 'in' usa lista
+  value: string | string[];
+}
+
+export interface PermissionConditions {
+  // Todas as regras precisam ser satisfeitas pelo registro
+  rules?: PermissionConditionRule[];
+  // Campos que podem ser alterados; sem lista todos os campos são permitidos
+  allowedFields?: string[];
+}
+
+// Usuário avaliado nas condições (referências $user.*)
+export interface PermissionSubject {
+  userId: string;
+  tenantId?: string;
+}
+
+// Efeito de uma entrada de permissão - negações prevalecem sobre concessões
+export type PermissionEffect = 'allow' | 'deny';
+
+// Curinga aceito em key e operations (ex: negar DELETE em todos os módulos)
+export const PERMISSION_WILDCARD = '*';
+
 export interface ModulePermission {
   id: string;
   key: string;
-  operations: OperationType[];
+  operations: OperationCode[];
+  // Sem condições a permissão vale para qualquer registro do módulo
+  conditions?: PermissionConditions;
+  // Padrão: 'allow'
+  effect?: PermissionEffect;
 }
 
 export interface RolePermission {
@@ -25,41 +73,91 @@ export interface UserPermissions {
   accessGroups: AccessGroupPermission[];
 }
 
+// Precedência entre concessões e negações
+// - 'deny-overrides': qualquer negação aplicável vence (padrão)
+// - 'most-specific': vence a entrada mais específica; no empate, a negação
+export type PermissionPrecedence = 'deny-overrides' | 'most-specific';
+
+// Entrada de permissão localizada no caminho grupo → role → módulo
+export interface PermissionEntryRef {
+  accessGroupId: string;
+  accessGroupCode: string;
+  roleId: string;
+  roleCode: string;
+  modulePermissionId: string;
+  moduleKey: string;
+  effect: PermissionEffect;
+  // Chave exata > curinga, operação exata > curinga, com condições > sem condições
+  specificity: number;
+}
+
+export type PermissionDecisionReason = 'allow' | 'deny' | 'no-grant' | 'not-loaded';
+
+// Resultado explicado de uma verificação (usePermissions().explain)
+export interface PermissionDecision {
+  moduleKey: string;
+  operation?: OperationCode;
+  allowed: boolean;
+  reason: PermissionDecisionReason;
+  precedence: PermissionPrecedence;
+  // Entrada que decidiu a verificação (ausente quando nenhuma se aplica)
+  decidedBy?: PermissionEntryRef;
+  // Todas as entradas aplicáveis, da que decidiu para as demais
+  matches: PermissionEntryRef[];
+}
+
 // Chaves de módulos conhecidos
 export const ModuleKey = {
   USER_MODULE: 'USER_MODULE',
-  ORDER_MODULE: 'ORDER_MODULE',
   ACCESS_GROUP: 'ACCESS_GROUP',
-  PRODUCT_MODULE: 'PRODUCT_MODULE',
-  PAYMENT_MODULE: 'PAYMENT_MODULE',
-  REPORT_MODULE: 'REPORT_MODULE',
   MODULES: 'MODULES',
   GROUP_TYPE: 'GROUP_TYPE',
   ROLE_MODULE: 'ROLE_MODULE',
   OPERATION_MODULE: 'OPERATION_MODULE',
   PERMISSION_MODULE: 'PERMISSION_MODULE',
+  TENANT_MODULE: 'TENANT_MODULE',
+  APPLICATION_MODULE: 'APPLICATION_MODULE',
 } as const;
 
-export type ModuleKey = typeof ModuleKey[keyof typeof ModuleKey];
+// Union das chaves conhecidas pelo frontend e das geradas do catálogo
+// (npm run codegen:module-keys -- <exportação.json>)
+export type ModuleKey = typeof ModuleKey[keyof typeof ModuleKey] | GeneratedModuleKey;
+
+// Expressões de permissão - combinam verificações de módulo/operação
+// Forma textual: 'ROLE_MODULE:UPDATE && PERMISSION_MODULE:SELECT', 'USER_MODULE:DELETE|UPDATE', '!TENANT_MODULE'
+export interface PermissionCheck {
+  moduleKey: string;
+  // Sem operação verifica apenas o acesso ao módulo; com array basta uma das operações
+  operation?: OperationCode | OperationCode[];
+}
+
+export type PermissionExpressionNode =
+  | PermissionCheck
+  | { all: PermissionExpression[] }
+  | { any: PermissionExpression[] }
+  | { not: PermissionExpression };
+
+export type PermissionExpression = string | PermissionExpressionNode;
+
+// Comportamento da rota quando o usuário não tem a permissão exigida
+export type RouteDeniedBehavior = 'access-denied' | 'redirect';
 
 // Interface para configuração de rota protegida
 export interface ProtectedRouteConfig {
   path: string;
-  moduleKey: ModuleKey;
-  operation?: OperationType;
   component: React.ComponentType;
-  exact?: boolean;
-}
-
-// Interface para item de menu
-export interface MenuItemConfig {
-  key: string;
-  label: string;
-  icon: string;
-  moduleKey: ModuleKey;
-  operation: OperationType;
-  path: string;
-  children?: MenuItemConfig[];
+  // Sem moduleKey a rota exige apenas autenticação
+  moduleKey?: ModuleKey;
+  // Operação exigida no módulo (padrão: SELECT) - aceita operações customizadas
+  operation?: OperationCode;
+  // Expressão combinada (ex: 'ROLE_MODULE:SELECT || PERMISSION_MODULE:SELECT')
+  permission?: PermissionExpression;
+  // Renderiza dentro do MainLayout (padrão: true)
+  layout?: boolean;
+  // O que fazer sem permissão (padrão: 'access-denied')
+  onDenied?: RouteDeniedBehavior;
+  // Destino do redirecionamento quando onDenied = 'redirect' (padrão: dashboard)
+  redirectTo?: string;
 }
 
 // Tipos de Permissões (estrutura anterior - manter compatibilidade)
@@ -76,6 +174,8 @@ export interface Permission {
   createdAt: string;
   updatedAt?: string;
   operations?: Operation[];
+  conditions?: PermissionConditions;
+  effect?: PermissionEffect;
 }
 
 export interface Module {
@@ -89,6 +189,8 @@ export interface Module {
   moduleTypeId?: string;
   moduleTypeName?: string;
   applicationName?: string;
+  icon?: string;          // Nome do ícone exibido no menu (ver navigationIcons)
+  displayOrder?: number;  // Ordem do módulo no menu gerado pelo catálogo
   isActive: boolean;
   createdAt: string;
   updatedAt?: string;
@@ -105,6 +207,21 @@ export interface Application {
   updatedAt?: string;
 }
 
+// Aplicações - DTOs para integração com API
+export interface CreateApplicationRequest {
+  name: string;                    // Required
+  description?: string;            // Optional
+  code?: string;                   // Optional
+  isActive?: boolean;              // Optional (padrão true)
+}
+
+export interface UpdateApplicationRequest {
+  name?: string;
+  description?: string;
+  code?: string;
+  isActive?: boolean;
+}
+
 export interface Operation {
   id: string;
   name: string;
@@ -136,6 +253,8 @@ export interface CreatePermissionRequest {
   moduleId: string;           // ID do módulo (obrigatório)
   operationIds?: string[];    // IDs das operações (opcional)
   isActive?: boolean;         // Se está ativa (opcional, padrão true)
+  conditions?: PermissionConditions; // Condições sobre o registro (opcional)
+  effect?: PermissionEffect;          // 'allow' (padrão) ou 'deny'
 }
 
 export interface UpdatePermissionRequest {
@@ -144,6 +263,8 @@ export interface UpdatePermissionRequest {
   moduleId: string;           // ID do módulo (obrigatório)
   operationIds?: string[];    // IDs das operações (opcional)
   isActive?: boolean;         // Se está ativa (opcional)
+  conditions?: PermissionConditions | null; // Condições sobre o registro (null remove as condições)
+  effect?: PermissionEffect;          // 'allow' (padrão) ou 'deny'
 }
 
 // Módulos - DTOs para integração com API (atualizados conforme backend)
@@ -154,6 +275,8 @@ export interface CreateModuleRequest {
   key: string;                     // Required - chave obrigatória (mudança: moduleKey → key)
   code?: string;                   // Optional
   applicationId?: string;          // Optional (Guid como string)
+  icon?: string;                   // Optional - ícone do menu
+  displayOrder?: number;           // Optional - ordem no menu
   isActive: boolean;               // Required
 }
 
@@ -165,6 +288,8 @@ export interface UpdateModuleRequest {
   code?: string;                   // Optional
   applicationId?: string;          // Optional (Guid como string)
   moduleTypeId?: string;           // Optional (Guid como string)
+  icon?: string;                   // Optional - ícone do menu
+  displayOrder?: number;           // Optional - ordem no menu
   isActive: boolean;               // Required
 }
 
@@ -0,0 +1,43 @@
+import type { ColumnFilters, SortDirection } from './api.types';
+
+// Densidade das linhas da tabela
+export type TableDensity = 'standard' | 'compact';
+
+// Disposição das colunas: ordem e colunas ocultas (por id)
+export interface TableColumnLayout {
+  columnOrder: string[];
+  hiddenColumns: string[];
+  density: TableDensity;
+}
+
+// Estado completo de uma listagem guardado em uma visualização
+export interface TableViewState extends TableColumnLayout {
+  sortBy?: string;
+  sortDirection?: SortDirection;
+  filters: ColumnFilters;
+  pageSize: number;
+}
+
+// Visualização nomeada de uma listagem (ex: "Usuários pendentes")
+export interface TableView {
+  id: string;
+  name: string;
+  state: TableViewState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Visualizações de uma listagem para um usuário
+export interface TableViewPreferences {
+  views: TableView[];
+  defaultViewId?: string;
+  updatedAt: string;
+}
+
+// Coluna configurável no menu de visualizações
+export interface TableViewColumn {
+  id: string;
+  label: string;
+  // Colunas como "Ações" não podem ser ocultadas
+  hideable?: boolean;
+}
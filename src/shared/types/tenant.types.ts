@@ -1,4 +1,13 @@
 // Tipos de Tenant baseados na API
+
+// Status conhecidos de um tenant
+export const TenantStatus = {
+  ACTIVE: 'active',
+  INACTIVE: 'inactive',
+} as const;
+
+export type TenantStatus = typeof TenantStatus[keyof typeof TenantStatus];
+
 export interface Tenant {
   id: string;
   name: string;
@@ -59,6 +68,35 @@ export interface CreateTenantRequest {
   domain?: string;
   email?: string;
   phone?: string;
+  website?: string;
   cnpjCpf?: string;
   razaoSocial?: string;
-}
\ No newline at end of file
+  inscricaoEstadual?: string;
+  inscricaoMunicipal?: string;
+
+  // Endereço
+  addressStreet?: string;
+  addressNumber?: string;
+  addressComplement?: string;
+  addressNeighborhood?: string;
+  addressCity?: string;
+  addressState?: string;
+  addressZipCode?: string;
+  addressCountry?: string;
+
+  // Representante Legal
+  legalRepresentativeName?: string;
+  legalRepresentativeCpf?: string;
+  legalRepresentativeEmail?: string;
+  legalRepresentativePhone?: string;
+}
+
+// Campos opcionais do tenant (tudo exceto nome e slug)
+export type TenantOptionalFields = Omit<CreateTenantRequest, 'name' | 'slug'>;
+
+// Na edição, campos opcionais enviados como null são limpos no servidor
+export type UpdateTenantRequest = Partial<Pick<CreateTenantRequest, 'name' | 'slug'>> & {
+  [Field in keyof TenantOptionalFields]?: TenantOptionalFields[Field] | null;
+} & {
+  status?: string;
+};
\ No newline at end of file
@@ -39,7 +39,8 @@ export interface UpdateUserAccountRequest {
   email?: string;
   firstName?: string;
   lastName?: string;
-  phoneNumber?: string;
+  // null limpa o telefone
+  phoneNumber?: string | null;
   status?: UserAccountStatus;
 }
 
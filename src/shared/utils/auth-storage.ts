@@ -1,7 +1,12 @@
+import { config } from '../config';
+
 // Gerenciamento de autenticação no localStorage
 const TOKEN_KEY = 'access_control_token';
 const REFRESH_TOKEN_KEY = 'access_control_refresh_token';
+const REFRESH_TOKEN_ISSUED_AT_KEY = 'access_control_refresh_token_issued_at';
+const TOKEN_ISSUED_AT_KEY = 'access_control_token_issued_at';
 const USER_KEY = 'access_control_user';
+const ACTIVE_TENANT_KEY = 'access_control_active_tenant';
 
 export const getToken = (): string | null => {
   return localStorage.getItem(TOKEN_KEY);
@@ -9,20 +14,30 @@ export const getToken = (): string | null => {
 
 export const setToken = (token: string): void => {
   localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(TOKEN_ISSUED_AT_KEY, String(Date.now()));
 };
 
 export const removeToken = (): void => {
   localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(TOKEN_ISSUED_AT_KEY);
   localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_ISSUED_AT_KEY);
   localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(ACTIVE_TENANT_KEY);
 };
 
 export const getRefreshToken = (): string | null => {
   return localStorage.getItem(REFRESH_TOKEN_KEY);
 };
 
+// A emissão (base da expiração estimada) só muda quando o servidor envia um refresh token novo;
+// o mesmo token devolvido na renovação mantém o tempo de vida absoluto da sessão
 export const setRefreshToken = (refreshToken: string): void => {
+  const isNewToken = localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken;
   localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  if (isNewToken || !localStorage.getItem(REFRESH_TOKEN_ISSUED_AT_KEY)) {
+    localStorage.setItem(REFRESH_TOKEN_ISSUED_AT_KEY, String(Date.now()));
+  }
 };
 
 export const getStoredUser = (): any | null => {
@@ -34,10 +49,75 @@ export const setStoredUser = (user: any): void => {
   localStorage.setItem(USER_KEY, JSON.stringify(user));
 };
 
+export const getActiveTenantId = (): string | null => {
+  return localStorage.getItem(ACTIVE_TENANT_KEY);
+};
+
+export const setActiveTenantId = (tenantId: string): void => {
+  localStorage.setItem(ACTIVE_TENANT_KEY, tenantId);
+};
+
+export const removeActiveTenantId = (): void => {
+  localStorage.removeItem(ACTIVE_TENANT_KEY);
+};
+
 export const clearAuth = (): void => {
   removeToken();
 };
 
+/**
+ * Decodifica o payload de um JWT (sem verificar assinatura)
+ */
+const decodeTokenPayload = (token: string): { exp?: number } | null => {
+  const base64Url = token.split('.')[1];
+  if (!base64Url) return null;
+
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  const jsonPayload = decodeURIComponent(
+    atob(base64)
+      .split('')
+      .map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
+      .join('')
+  );
+
+  return JSON.parse(jsonPayload);
+};
+
+const getIssuedAt = (key: string): number | null => {
+  const issuedAt = Number(localStorage.getItem(key));
+  return issuedAt > 0 ? issuedAt : null;
+};
+
+/**
+ * Retorna o instante (ms) em que o access token expira.
+ * Usa o `exp` do JWT; sem ele, estima a partir de `config.auth.tokenExpiryTime`
+ */
+export const getTokenExpiration = (): number | null => {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const payload = decodeTokenPayload(token);
+    if (payload?.exp) return payload.exp * 1000;
+  } catch {
+    // Token opaco ou malformado - usa a estimativa abaixo
+  }
+
+  const issuedAt = getIssuedAt(TOKEN_ISSUED_AT_KEY);
+  return issuedAt ? issuedAt + config.auth.tokenExpiryTime : null;
+};
+
+/**
+ * Retorna o instante (ms) em que o refresh token expira.
+ * O refresh token é opaco, então a validade vem de `config.auth.refreshTokenExpiryTime`
+ */
+export const getRefreshTokenExpiration = (): number | null => {
+  if (!getRefreshToken()) return null;
+
+  const issuedAt = getIssuedAt(REFRESH_TOKEN_ISSUED_AT_KEY);
+  return issuedAt ? issuedAt + config.auth.refreshTokenExpiryTime : null;
+};
+
 /**
  * Verifica se o token JWT é válido (não expirado)
  * Faz parse básico do token para verificar exp
@@ -47,25 +127,15 @@ export const isTokenValid = (): boolean => {
   if (!token) return false;
   
   try {
-    // Decodifica o payload do JWT (sem verificar assinatura)
-    const base64Url = token.split('.')[1];
-    if (!base64Url) return false;
+    const payload = decodeTokenPayload(token);
+    if (!payload) return false;
     
-    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-    const jsonPayload = decodeURIComponent(
-      atob(base64)
-        .split('')
-        .map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
-        .join('')
-    );
-    
-    const payload = JSON.parse(jsonPayload);
     const now = Math.floor(Date.now() / 1000);
     
     // Verifica se o token não expirou (com margem de 30 segundos)
-    return payload.exp && payload.exp > (now + 30);
+    return !!payload.exp && payload.exp > (now + 30);
   } catch (error) {
     console.error('🔐 Erro ao validar token:', error);
     return false;
   }
-};
\ No newline at end of file
+};
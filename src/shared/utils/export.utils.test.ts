@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv, toXlsx } from './export.utils';
+
+interface ZipEntry {
+  name: string;
+  content: string;
+}
+
+// CRC-32 bit a bit, independente da tabela usada pelo exportador
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Lê um ZIP "stored" pelo diretório central, conferindo os cabeçalhos locais e o CRC de cada arquivo
+ */
+const unzip = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const endOffset = bytes.length - 22;
+
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+  const count = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  const centralOffset = view.getUint32(endOffset + 16, true);
+  expect(centralOffset + centralSize).toBe(endOffset);
+
+  const entries: ZipEntry[] = [];
+  let position = centralOffset;
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    expect(compressedSize).toBe(size);
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + localNameLength))).toBe(name);
+
+    const dataStart = localOffset + 30 + localNameLength;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.push({ name, content: decoder.decode(data) });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(endOffset);
+  return entries;
+};
+
+const sheetTexts = (xlsx: Uint8Array): string[] => {
+  const sheet = unzip(xlsx).find(entry => entry.name === 'xl/worksheets/sheet1.xml');
+  return [...(sheet?.content ?? '').matchAll(/<t xml:space="preserve">(.*?)<\/t>/g)].map(match => match[1]);
+};
+
+describe('toCsv', () => {
+  it('separa por ponto e vírgula e escapa aspas, separadores e quebras de linha', () => {
+    expect(toCsv([['Nome', 'Obs'], ['Ana "A"', 'a;b\nc'], [1, null]])).toBe(
+      'Nome;Obs\r\n"Ana ""A""";"a;b\nc"\r\n1;'
+    );
+  });
+
+  it('neutraliza textos que seriam interpretados como fórmula', () => {
+    const csv = toCsv([['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)', '\tx', '\rx']]);
+    expect(csv).toBe(`"'=HYPERLINK(""x"")";'+1;'-1;'@SUM(A1);'\tx;"'\rx"`);
+  });
+
+  it('mantém números negativos como números', () => {
+    expect(toCsv([[-5, true]])).toBe('-5;true');
+  });
+});
+
+describe('toXlsx', () => {
+  it('gera um ZIP válido com as partes do pacote XLSX', () => {
+    const names = unzip(toXlsx('Matriz', [['Usuário'], ['Ana']])).map(entry => entry.name);
+    expect(names).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+  });
+
+  it('preserva textos acentuados, números e booleanos na planilha', () => {
+    const xlsx = toXlsx('Matriz', [['Usuário', 'Total', 'Ativo'], ['José & <Cia>', 3, false]]);
+    const sheet = unzip(xlsx).find(entry => entry.name === 'xl/worksheets/sheet1.xml')!.content;
+
+    expect(sheetTexts(xlsx)).toEqual(['Usuário', 'Total', 'Ativo', 'José &amp; &lt;Cia&gt;']);
+    expect(sheet).toContain('<c r="B2"><v>3</v></c>');
+    expect(sheet).toContain('<c r="C2" t="b"><v>0</v></c>');
+  });
+
+  it('limpa o nome da aba', () => {
+    const workbook = unzip(toXlsx('Matriz: [2026] / auditoria de permissões', [['x']]))
+      .find(entry => entry.name === 'xl/workbook.xml')!.content;
+    expect(workbook).toContain('<sheet name="Matriz   2026    auditoria de p"');
+  });
+
+  it('mantém como texto literal valores que seriam fórmula no CSV', () => {
+    expect(sheetTexts(toXlsx('Matriz', [['=HYPERLINK("x")', '-5', '@user']]))).toEqual([
+      '=HYPERLINK(&quot;x&quot;)',
+      '-5',
+      '@user',
+    ]);
+  });
+});
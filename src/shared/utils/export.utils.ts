@@ -0,0 +1,223 @@
+// Exportação de tabelas para CSV e XLSX (sem dependências externas)
+
+export type ExportCell = string | number | boolean | null | undefined;
+export type ExportRows = ExportCell[][];
+
+const CSV_SEPARATOR = ';';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// No CSV, textos iniciados por =, +, -, @, tab ou CR viram fórmula no Excel/LibreOffice (injeção de fórmula);
+// o apóstrofo inicial faz a planilha tratá-los como texto. No XLSX as células inlineStr nunca são avaliadas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const neutralizeFormula = (value: string) => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+const csvValue = (cell: ExportCell): string => {
+  const value = cell === null || cell === undefined ? '' : typeof cell === 'string' ? neutralizeFormula(cell) : String(cell);
+  return /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Gera o conteúdo CSV (separador ';', padrão do Excel em pt-BR)
+ */
+export const toCsv = (rows: ExportRows): string =>
+  rows.map(row => row.map(csvValue).join(CSV_SEPARATOR)).join('\r\n');
+
+/**
+ * Baixa as linhas como CSV; o BOM garante a acentuação correta no Excel
+ */
+export const exportToCsv = (filename: string, rows: ExportRows) => {
+  downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), filename);
+};
+
+// ========== XLSX ==========
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Caracteres de controle (exceto tab e quebras de linha) não são permitidos em XML
+const stripControlChars = (value: string) =>
+  Array.from(value).filter(char => {
+    const code = char.charCodeAt(0);
+    return code >= 32 || code === 9 || code === 10 || code === 13;
+  }).join('');
+
+// Referência de coluna no formato do Excel (0 → A, 26 → AA)
+const columnName = (index: number): string => {
+  let name = '';
+  for (let current = index + 1; current > 0; current = Math.floor((current - 1) / 26)) {
+    name = String.fromCharCode(65 + ((current - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const sheetXml = (rows: ExportRows): string => {
+  const rowsXml = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, cellIndex) => {
+      if (cell === null || cell === undefined || cell === '') return '';
+      const ref = `${columnName(cellIndex)}${rowIndex + 1}`;
+      // Cabeçalho (primeira linha) em negrito - estilo 1 de styles.xml
+      const style = rowIndex === 0 ? ' s="1"' : '';
+      if (typeof cell === 'number' && Number.isFinite(cell)) {
+        return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+      }
+      if (typeof cell === 'boolean') {
+        return `<c r="${ref}"${style} t="b"><v>${cell ? 1 : 0}</v></c>`;
+      }
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(stripControlChars(String(cell)))}</t></is></c>`;
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rowsXml}</sheetData></worksheet>`;
+};
+
+const xlsxFiles = (sheetName: string, rows: ExportRows): Record<string, string> => ({
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    // Nome da planilha: até 31 caracteres, sem []:*?/\
+    `<sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  'xl/styles.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>',
+  'xl/worksheets/sheet1.xml': sheetXml(rows),
+});
+
+// Tabela do CRC-32 usado pelo formato ZIP
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Empacota os arquivos em um ZIP sem compressão (método "stored"), suficiente para o XLSX
+ */
+const zip = (files: Record<string, string>): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true); // nomes em UTF-8
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((position, part) => {
+    output.set(part, position);
+    return position + part.length;
+  }, 0);
+  return output;
+};
+
+/**
+ * Gera uma planilha XLSX (uma aba, primeira linha como cabeçalho congelado)
+ */
+export const toXlsx = (sheetName: string, rows: ExportRows): Uint8Array<ArrayBuffer> =>
+  zip(xlsxFiles(sheetName, rows));
+
+/**
+ * Baixa as linhas como planilha XLSX
+ */
+export const exportToXlsx = (filename: string, sheetName: string, rows: ExportRows) => {
+  downloadBlob(
+    new Blob([toXlsx(sheetName, rows)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    filename
+  );
+};
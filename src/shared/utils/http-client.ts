@@ -1,14 +1,35 @@
 import axios from 'axios';
-import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { API_BASE_URL, HTTP_STATUS } from '../constants';
-import type { ApiResponse, ApiError } from '../types';
-import { getToken, clearAuth } from './auth-storage';
+import type { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { API_BASE_URL, API_ENDPOINTS, HTTP_STATUS, TENANT_HEADER } from '../constants';
+import type { ApiResponse, ApiError, LoginResponseData, RefreshTokenRequest } from '../types';
+import { getToken, getRefreshToken, setToken, setRefreshToken, clearAuth, getActiveTenantId } from './auth-storage';
+import { broadcastSessionEvent } from './session-sync';
 
 // Variável para controlar se já estamos fazendo logout
 let isLoggingOut = false;
 
+// Requisição marcada após a primeira tentativa de refresh, para não entrar em loop
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+// Endpoints que nunca devem disparar refresh ao receber 401
+const AUTH_ENDPOINTS_WITHOUT_REFRESH: string[] = [
+  API_ENDPOINTS.LOGIN,
+  API_ENDPOINTS.REFRESH,
+  API_ENDPOINTS.LOGOUT,
+];
+
+// Endpoints públicos: um 401 neles não significa sessão expirada
+const PUBLIC_ENDPOINTS: string[] = [
+  API_ENDPOINTS.FORGOT_PASSWORD,
+  API_ENDPOINTS.RESET_PASSWORD,
+];
+
 class HttpClient {
   private client: AxiosInstance;
+  // Refresh em andamento - requisições concorrentes aguardam a mesma promise
+  private refreshPromise: Promise<string> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -23,13 +44,17 @@ class HttpClient {
   }
 
   private setupInterceptors(): void {
-    // Request interceptor - adiciona token de autenticação
+    // Request interceptor - adiciona token de autenticação e tenant ativo
     this.client.interceptors.request.use(
       (config) => {
         const token = getToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+        const tenantId = getActiveTenantId();
+        if (tenantId) {
+          config.headers[TENANT_HEADER] = tenantId;
+        }
         return config;
       },
       (error) => Promise.reject(error)
@@ -38,30 +63,40 @@ class HttpClient {
     // Response interceptor - trata respostas e erros SEM causar reloads
     this.client.interceptors.response.use(
       (response: AxiosResponse) => response,
-      (error) => {
-        // Tratamento especial para 401 (token expirado) SEM reload
-        if (error.response?.status === HTTP_STATUS.UNAUTHORIZED) {
-          console.log('🔐 Token expirado detectado - fazendo logout suave...');
-          
-          // Só faz logout uma vez para evitar loops
-          if (!isLoggingOut) {
-            isLoggingOut = true;
-            
-            // Limpa dados de autenticação
-            clearAuth();
-            
-            // Usa evento personalizado para notificar o store (SEM reload)
-            window.dispatchEvent(new CustomEvent('auth:token-expired'));
-            
-            // Reset após timeout
-            setTimeout(() => {
-              isLoggingOut = false;
-            }, 1000);
+      async (error) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+        const isPublicEndpoint = PUBLIC_ENDPOINTS.includes(originalRequest?.url ?? '');
+
+        // 401: tenta renovar o token silenciosamente e repetir a requisição
+        if (
+          error.response?.status === HTTP_STATUS.UNAUTHORIZED &&
+          originalRequest &&
+          !originalRequest._retry &&
+          !isPublicEndpoint &&
+          !AUTH_ENDPOINTS_WITHOUT_REFRESH.includes(originalRequest.url ?? '')
+        ) {
+          originalRequest._retry = true;
+
+          try {
+            const newToken = await this.refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${newToken}`;
+            return this.client(originalRequest);
+          } catch {
+            // Refresh falhou - segue para o logout abaixo
           }
         }
+
+        // Tratamento especial para 401 (sessão expirada) SEM reload
+        if (error.response?.status === HTTP_STATUS.UNAUTHORIZED && !isPublicEndpoint) {
+          this.handleSessionExpired();
+        }
         
+        // Sem `message`, usa a lista de erros do ApiResponse (ex: token de redefinição inválido)
+        const responseErrors = error.response?.data?.errors;
+        const errorsMessage = Array.isArray(responseErrors) ? responseErrors.join(', ') : '';
+
         const apiError: ApiError = {
-          message: error.response?.data?.message || 'Erro interno do servidor',
+          message: error.response?.data?.message || errorsMessage || 'Erro interno do servidor',
           status: error.response?.status || HTTP_STATUS.INTERNAL_SERVER_ERROR,
           errors: error.response?.data?.errors,
         };
@@ -71,6 +106,87 @@ class HttpClient {
     );
   }
 
+  /**
+   * Renova o access token usando o refresh token armazenado.
+   * Chamadas concorrentes compartilham um único refresh em andamento.
+   */
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestNewToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  private async requestNewToken(): Promise<string> {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) {
+      throw new Error('Refresh token não encontrado');
+    }
+
+    console.log('🔄 Access token expirado - renovando sessão...');
+
+    const tokenBeforeRefresh = getToken();
+    let data: ApiResponse<LoginResponseData>;
+
+    try {
+      // Usa axios puro para não passar pelos interceptors desta instância
+      const payload: RefreshTokenRequest = { refreshToken };
+      const response = await axios.post<ApiResponse<LoginResponseData>>(
+        `${API_BASE_URL}${API_ENDPOINTS.REFRESH}`,
+        payload,
+        { headers: { 'Content-Type': 'application/json' }, timeout: 30000 }
+      );
+      data = response.data;
+    } catch (error) {
+      // Outra aba pode ter renovado (e rotacionado) o refresh token ao mesmo tempo
+      const currentToken = getToken();
+      if (currentToken && currentToken !== tokenBeforeRefresh) {
+        return currentToken;
+      }
+      throw error;
+    }
+
+    if (!data.succeeded || !data.data?.accessToken) {
+      throw new Error('Resposta inválida ao renovar token');
+    }
+
+    const { accessToken, refreshToken: newRefreshToken } = data.data;
+    setToken(accessToken);
+    if (newRefreshToken) {
+      setRefreshToken(newRefreshToken);
+    }
+
+    // Notifica o store do novo token (SEM acoplamento direto)
+    window.dispatchEvent(new CustomEvent('auth:token-refreshed', { detail: { accessToken } }));
+    broadcastSessionEvent({ type: 'token-refreshed' });
+    console.log('✅ Sessão renovada');
+
+    return accessToken;
+  }
+
+  private handleSessionExpired(): void {
+    console.log('🔐 Sessão expirada - fazendo logout suave...');
+
+    // Só faz logout uma vez para evitar loops
+    if (!isLoggingOut) {
+      isLoggingOut = true;
+
+      // Limpa dados de autenticação
+      clearAuth();
+
+      // Usa evento personalizado para notificar o store (SEM reload)
+      window.dispatchEvent(new CustomEvent('auth:token-expired'));
+
+      // Reset após timeout
+      setTimeout(() => {
+        isLoggingOut = false;
+      }, 1000);
+    }
+  }
+
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
     const response = await this.client.get<ApiResponse<T>>(url, config);
     return response.data;
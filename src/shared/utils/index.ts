@@ -1,3 +1,15 @@
 // Utilitários da aplicação
 export * from './http-client';
-export * from './auth-storage';
\ No newline at end of file
+export * from './auth-storage';
+export * from './session-sync';
+export * from './tenant-resolver';
+export * from './navigation.utils';
+export * from './permission-expression';
+export * from './permission-conditions';
+export * from './permission-decision';
+export * from './export.utils';
+export * from './list-query.utils';
+export * from './virtual-list.utils';
+export * from './table-view.utils';
+export * from './list-url-state.utils';
+export * from './query-cache.utils';
@@ -0,0 +1,142 @@
+import type { ColumnFilterValue, ColumnFilters, DateRangeFilter, ListQuery } from '../types/api.types';
+
+// Seleção de linhas das tabelas
+// - include: apenas as chaves listadas
+// - all: todos os registros que atendem aos filtros (em todas as páginas), exceto os excluídos
+export type RowSelection =
+  | { mode: 'include'; keys: string[] }
+  | { mode: 'all'; excludedKeys: string[] };
+
+export const EMPTY_SELECTION: RowSelection = { mode: 'include', keys: [] };
+
+const ALL_PAGES_LIMIT = 100;
+
+// Requisições por item feitas em paralelo em cada lote (mapInBatches)
+const REQUEST_BATCH_SIZE = 10;
+
+const isDateRange = (value: ColumnFilterValue): value is DateRangeFilter =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Indica se o valor de um filtro restringe a listagem
+ */
+export const isFilterActive = (value: ColumnFilterValue | undefined): boolean => {
+  if (value === undefined) return false;
+  if (isDateRange(value)) return !!value.from || !!value.to;
+  return typeof value === 'boolean' || value.trim() !== '';
+};
+
+export const hasActiveFilters = (filters: ColumnFilters | undefined): boolean =>
+  !!filters && Object.values(filters).some(isFilterActive);
+
+/**
+ * Converte os filtros por coluna em query params
+ */
+export const toFilterParams = (filters: ColumnFilters | undefined): Record<string, string> => {
+  const params: Record<string, string> = {};
+
+  Object.entries(filters ?? {}).forEach(([key, value]) => {
+    if (!isFilterActive(value)) return;
+
+    if (isDateRange(value)) {
+      if (value.from) params[`${key}From`] = value.from;
+      if (value.to) params[`${key}To`] = value.to;
+    } else {
+      params[key] = typeof value === 'boolean' ? String(value) : value.trim();
+    }
+  });
+
+  return params;
+};
+
+/**
+ * Aplica os filtros por coluna a um registro - para APIs que devolvem a coleção inteira
+ * Texto: contém (sem diferenciar maiúsculas); datas comparadas por yyyy-mm-dd
+ */
+export const matchesColumnFilters = (record: object, filters: ColumnFilters | undefined): boolean =>
+  Object.entries(filters ?? {}).every(([key, value]) => {
+    if (!isFilterActive(value)) return true;
+    const field = (record as Record<string, unknown>)[key];
+
+    if (typeof value === 'boolean') return field === value;
+
+    if (isDateRange(value)) {
+      const date = typeof field === 'string' ? field.slice(0, 10) : '';
+      if (!date) return false;
+      return (!value.from || date >= value.from) && (!value.to || date <= value.to);
+    }
+
+    return String(field ?? '').toLowerCase().includes(value.trim().toLowerCase());
+  });
+
+/**
+ * Converte ordenação e filtros em query params (sortBy, sortDirection e filtros)
+ */
+export const toListQueryParams = (query: ListQuery = {}): Record<string, string> => ({
+  ...(query.sortBy && { sortBy: query.sortBy }),
+  ...(query.sortBy && query.sortDirection && { sortDirection: query.sortDirection }),
+  ...toFilterParams(query.filters),
+});
+
+export const getSelectedCount = (selection: RowSelection, totalCount: number): number =>
+  selection.mode === 'all'
+    ? Math.max(totalCount - selection.excludedKeys.length, 0)
+    : selection.keys.length;
+
+export const isRowSelected = (selection: RowSelection, key: string): boolean =>
+  selection.mode === 'all' ? !selection.excludedKeys.includes(key) : selection.keys.includes(key);
+
+/**
+ * Percorre todas as páginas de uma listagem (ex: ações sobre a seleção de todas as páginas)
+ */
+export const fetchAllPages = async <T>(
+  fetchPage: (page: number, limit: number) => Promise<{ items: T[]; totalPages: number }>
+): Promise<T[]> => {
+  const items: T[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await fetchPage(page, ALL_PAGES_LIMIT);
+    items.push(...response.items);
+    totalPages = response.totalPages || 1;
+    page++;
+  } while (page <= totalPages);
+
+  return items;
+};
+
+/**
+ * Executa uma requisição por item em lotes, para não sobrecarregar a API
+ * Qualquer falha rejeita o resultado inteiro
+ */
+export const mapInBatches = async <T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  batchSize = REQUEST_BATCH_SIZE
+): Promise<R[]> => {
+  const results: R[] = [];
+  for (let index = 0; index < items.length; index += batchSize) {
+    results.push(...await Promise.all(items.slice(index, index + batchSize).map(fn)));
+  }
+  return results;
+};
+
+/**
+ * Resolve os registros selecionados; busca as demais páginas quando a seleção
+ * inclui registros fora da página atual
+ */
+export const resolveSelectedRows = async <T>(
+  selection: RowSelection,
+  currentRows: T[],
+  getKey: (row: T) => string,
+  fetchAll: () => Promise<T[]>
+): Promise<T[]> => {
+  if (selection.mode === 'include') {
+    const onPage = currentRows.filter(row => selection.keys.includes(getKey(row)));
+    if (onPage.length === selection.keys.length) return onPage;
+  }
+
+  const rows = await fetchAll();
+  return rows.filter(row => isRowSelected(selection, getKey(row)));
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { readListState, writeListState } from './list-url-state.utils';
+import type { ColumnFilterTypes, ListState } from '../types/api.types';
+
+const FILTER_TYPES: ColumnFilterTypes = {
+  isActive: 'boolean',
+  createdAt: 'dateRange',
+};
+
+const read = (query: string) => readListState(new URLSearchParams(query), 10, FILTER_TYPES);
+
+describe('readListState', () => {
+  it('mantém como texto os valores "true" e "false" de filtros de texto', () => {
+    expect(read('filter.name=true&filter.code=false').listQuery.filters).toEqual({ name: 'true', code: 'false' });
+  });
+
+  it('lê filtros booleanos e ignora valores inválidos', () => {
+    expect(read('filter.isActive=false').listQuery.filters).toEqual({ isActive: false });
+    expect(read('filter.isActive=sim').listQuery.filters).toBeUndefined();
+  });
+
+  it('monta intervalos de datas apenas para colunas de intervalo', () => {
+    expect(read('filter.createdAt.from=2026-01-01&filter.createdAt.to=2026-01-31&filter.name.from=x').listQuery.filters)
+      .toEqual({ createdAt: { from: '2026-01-01', to: '2026-01-31' }, 'name.from': 'x' });
+    expect(read('filter.createdAt=2026-01-01').listQuery.filters).toBeUndefined();
+  });
+
+  it('lê campos sem tipo declarado como texto', () => {
+    const state = readListState(new URLSearchParams('filter.isActive=true'), 10);
+    expect(state.listQuery.filters).toEqual({ isActive: 'true' });
+  });
+});
+
+describe('writeListState', () => {
+  it('volta ao mesmo estado ao ler a URL gravada', () => {
+    const state: ListState = {
+      page: 2,
+      pageSize: 25,
+      search: 'ana',
+      listQuery: {
+        sortBy: 'name',
+        sortDirection: 'desc',
+        filters: { name: 'true', isActive: true, createdAt: { from: '2026-01-01' } },
+      },
+    };
+    const params = writeListState(new URLSearchParams('tab=1'), state, 10);
+
+    expect(params.get('tab')).toBe('1');
+    expect(readListState(params, 10, FILTER_TYPES)).toEqual(state);
+  });
+});
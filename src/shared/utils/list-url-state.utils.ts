@@ -0,0 +1,146 @@
+import type {
+  ColumnFilterTypes,
+  ColumnFilters,
+  DateRangeFilter,
+  ListState,
+  SortDirection,
+} from '../types/api.types';
+import { isFilterActive } from './list-query.utils';
+
+// Query params do estado das listagens
+// - page, pageSize, search, sortBy, sortDirection
+// - filtros: filter.<campo>=valor, filter.<campo>=true|false, filter.<campo>.from/.to (yyyy-mm-dd)
+export const LIST_URL_PARAMS = {
+  page: 'page',
+  pageSize: 'pageSize',
+  search: 'search',
+  sortBy: 'sortBy',
+  sortDirection: 'sortDirection',
+} as const;
+
+const FILTER_PARAM_PREFIX = 'filter.';
+const RANGE_SUFFIXES = { from: '.from', to: '.to' } as const;
+
+const isListParam = (key: string): boolean =>
+  key.startsWith(FILTER_PARAM_PREFIX) || Object.values<string>(LIST_URL_PARAMS).includes(key);
+
+const parsePositiveInt = (value: string | null): number | undefined => {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const parsed = Number(value);
+  return parsed > 0 ? parsed : undefined;
+};
+
+const parseSortDirection = (value: string | null): SortDirection | undefined =>
+  value === 'asc' || value === 'desc' ? value : undefined;
+
+// O tipo da coluna decide a leitura: só filtros booleanos viram true/false e só intervalos usam .from/.to
+const parseFilters = (params: URLSearchParams, filterTypes: ColumnFilterTypes): ColumnFilters => {
+  const filters: ColumnFilters = {};
+
+  params.forEach((value, key) => {
+    if (!key.startsWith(FILTER_PARAM_PREFIX) || !value) return;
+    const field = key.slice(FILTER_PARAM_PREFIX.length);
+
+    const rangeBound = (Object.keys(RANGE_SUFFIXES) as (keyof DateRangeFilter)[])
+      .find(bound => field.endsWith(RANGE_SUFFIXES[bound]));
+    const rangeName = rangeBound && field.slice(0, -RANGE_SUFFIXES[rangeBound].length);
+
+    if (rangeBound && rangeName && filterTypes[rangeName] === 'dateRange') {
+      const current = filters[rangeName];
+      const range = typeof current === 'object' ? current : {};
+      filters[rangeName] = { ...range, [rangeBound]: value };
+      return;
+    }
+
+    switch (filterTypes[field] ?? 'text') {
+      case 'boolean':
+        if (value === 'true' || value === 'false') filters[field] = value === 'true';
+        break;
+      case 'dateRange':
+        // Intervalos só existem nos parâmetros .from/.to
+        break;
+      default:
+        filters[field] = value;
+    }
+  });
+
+  return filters;
+};
+
+export const createDefaultListState = (pageSize: number): ListState => ({
+  page: 1,
+  pageSize,
+  search: '',
+  listQuery: {},
+});
+
+/**
+ * Indica se a query string define algum parâmetro de listagem
+ */
+export const hasListStateParams = (params: URLSearchParams): boolean =>
+  Array.from(params.keys()).some(isListParam);
+
+/**
+ * Lê o estado da listagem da query string; valores ausentes ou inválidos usam o padrão
+ * filterTypes indica o tipo do filtro de cada campo (campos ausentes são lidos como texto)
+ */
+export const readListState = (
+  params: URLSearchParams,
+  defaultPageSize: number,
+  filterTypes: ColumnFilterTypes = {}
+): ListState => {
+  const sortBy = params.get(LIST_URL_PARAMS.sortBy) || undefined;
+  const filters = parseFilters(params, filterTypes);
+
+  return {
+    page: parsePositiveInt(params.get(LIST_URL_PARAMS.page)) ?? 1,
+    pageSize: parsePositiveInt(params.get(LIST_URL_PARAMS.pageSize)) ?? defaultPageSize,
+    search: params.get(LIST_URL_PARAMS.search) ?? '',
+    listQuery: {
+      ...(sortBy && {
+        sortBy,
+        sortDirection: parseSortDirection(params.get(LIST_URL_PARAMS.sortDirection)) ?? 'asc',
+      }),
+      ...(Object.keys(filters).length > 0 && { filters }),
+    },
+  };
+};
+
+/**
+ * Grava o estado da listagem na query string preservando os demais parâmetros
+ * Valores padrão (página 1, tamanho padrão, busca vazia) não aparecem na URL
+ */
+export const writeListState = (
+  params: URLSearchParams,
+  state: ListState,
+  defaultPageSize: number
+): URLSearchParams => {
+  const next = new URLSearchParams();
+  params.forEach((value, key) => {
+    if (!isListParam(key)) next.append(key, value);
+  });
+
+  if (state.page > 1) next.set(LIST_URL_PARAMS.page, String(state.page));
+  if (state.pageSize !== defaultPageSize) next.set(LIST_URL_PARAMS.pageSize, String(state.pageSize));
+  if (state.search.trim()) next.set(LIST_URL_PARAMS.search, state.search);
+
+  const { sortBy, sortDirection, filters } = state.listQuery;
+  if (sortBy) {
+    next.set(LIST_URL_PARAMS.sortBy, sortBy);
+    next.set(LIST_URL_PARAMS.sortDirection, sortDirection ?? 'asc');
+  }
+
+  Object.entries(filters ?? {}).forEach(([field, value]) => {
+    if (!isFilterActive(value)) return;
+    const key = `${FILTER_PARAM_PREFIX}${field}`;
+
+    if (typeof value === 'object') {
+      if (value.from) next.set(`${key}${RANGE_SUFFIXES.from}`, value.from);
+      if (value.to) next.set(`${key}${RANGE_SUFFIXES.to}`, value.to);
+    } else {
+      next.set(key, String(value));
+    }
+  });
+
+  return next;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Module } from '../types/permission.types';
+import { buildModuleNavigation, filterNavigation } from './navigation.utils';
+
+const module = (overrides: Partial<Module>): Module => ({
+  id: overrides.key ?? 'module',
+  name: overrides.key ?? 'Módulo',
+  isActive: true,
+  createdAt: '2026-01-01T00:00:00Z',
+  applicationName: 'Backoffice',
+  ...overrides,
+});
+
+const registeredRoutes = new Set(['/users']);
+const isRouteRegistered = (path: string) => registeredRoutes.has(path);
+
+describe('buildModuleNavigation', () => {
+  const catalog = [
+    module({ key: 'USER_MODULE', url: '/users', displayOrder: 1 }),
+    module({ key: 'BILLING_MODULE', url: '/billing', displayOrder: 2 }),
+    module({ key: 'CRM_MODULE', url: 'https://crm.example.com', displayOrder: 3 }),
+    module({ key: 'DRAFT_MODULE' }),
+  ];
+
+  it('mantém módulos sem tela registrada, desabilitados', () => {
+    const [section] = buildModuleNavigation(catalog, { isRouteRegistered });
+
+    expect(section.children?.map(item => [item.moduleKey, item.disabled ?? false])).toEqual([
+      ['USER_MODULE', false],
+      ['BILLING_MODULE', true],
+      ['CRM_MODULE', false],
+    ]);
+    expect(section.children?.[1].badge).toEqual({ label: 'Em breve', color: 'info' });
+  });
+
+  it('não passa os itens desabilitados pela verificação de rota ao filtrar', () => {
+    const items = filterNavigation(buildModuleNavigation(catalog, { isRouteRegistered }), {
+      canAccess: () => true,
+      isRouteRegistered,
+    });
+
+    expect(items[0].children?.map(item => item.moduleKey)).toEqual(['USER_MODULE', 'BILLING_MODULE', 'CRM_MODULE']);
+  });
+
+  it('continua aplicando as permissões aos módulos do catálogo', () => {
+    const items = filterNavigation(buildModuleNavigation(catalog, { isRouteRegistered }), {
+      canAccess: moduleKey => String(moduleKey) !== 'BILLING_MODULE',
+      isRouteRegistered,
+    });
+
+    expect(items[0].children?.map(item => item.moduleKey)).toEqual(['USER_MODULE', 'CRM_MODULE']);
+  });
+});
@@ -0,0 +1,170 @@
+import type { Module, ModuleKey, OperationCode } from '../types/permission.types';
+import type { NavigationItem, BreadcrumbItem } from '../types/navigation.types';
+import { resolveNavigationIcon } from '../config/navigation-icons';
+
+export interface NavigationFilterOptions {
+  // Verifica se o usuário pode executar a operação no módulo
+  canAccess: (moduleKey: ModuleKey, operation: OperationCode) => boolean;
+  // Quando informado, itens cuja rota não está registrada são escondidos
+  isRouteRegistered?: (path: string) => boolean;
+  // Inclui itens marcados com showInMenu: false (ações rápidas, breadcrumbs)
+  includeHidden?: boolean;
+}
+
+const byOrder = (a: NavigationItem, b: NavigationItem) => (a.order ?? 0) - (b.order ?? 0);
+
+/**
+ * Indica se o path aponta para fora da aplicação (ex: URL absoluta de um módulo)
+ */
+export const isExternalPath = (path: string): boolean => /^https?:\/\//i.test(path);
+
+/**
+ * Filtra a árvore de navegação por permissão e rotas registradas
+ * Itens desabilitados não passam pela verificação de rota - não navegam
+ * Não altera a configuração original - retorna novos objetos ordenados por `order`
+ */
+export const filterNavigation = (
+  items: readonly NavigationItem[],
+  options: NavigationFilterOptions
+): NavigationItem[] => {
+  const { canAccess, isRouteRegistered, includeHidden = false } = options;
+
+  const isVisible = (item: NavigationItem): boolean => {
+    if (!includeHidden && item.showInMenu === false) return false;
+    if (item.moduleKey && !canAccess(item.moduleKey, item.operation ?? 'SELECT')) return false;
+    return true;
+  };
+
+  const filterLevel = (level: readonly NavigationItem[]): NavigationItem[] =>
+    [...level]
+      .sort(byOrder)
+      .flatMap(item => {
+        if (!isVisible(item)) return [];
+
+        if (item.children) {
+          const children = filterLevel(item.children);
+          // Seção sem nenhum filho acessível é escondida
+          return children.length > 0 ? [{ ...item, children }] : [];
+        }
+
+        if (
+          item.path &&
+          !item.disabled &&
+          isRouteRegistered &&
+          !isExternalPath(item.path) &&
+          !isRouteRegistered(item.path)
+        ) return [];
+
+        return [{ ...item }];
+      });
+
+  return filterLevel(items);
+};
+
+/**
+ * Lista os itens navegáveis (com path) da árvore, em ordem
+ */
+export const flattenNavigation = (items: readonly NavigationItem[]): NavigationItem[] =>
+  items.flatMap(item => [
+    ...(item.path ? [item] : []),
+    ...(item.children ? flattenNavigation(item.children) : []),
+  ]);
+
+/**
+ * Resolve o caminho de breadcrumbs até o item que corresponde ao pathname
+ * Considera o item de path mais longo que seja prefixo da rota (ex: /roles/123 → Papéis)
+ */
+export const findBreadcrumbTrail = (
+  items: readonly NavigationItem[],
+  pathname: string
+): BreadcrumbItem[] => {
+  let best: BreadcrumbItem[] = [];
+  let bestLength = 0;
+
+  const visit = (level: readonly NavigationItem[], trail: BreadcrumbItem[]) => {
+    level.forEach(item => {
+      const current = [...trail, { id: item.id, title: item.title, path: item.path }];
+      const path = item.path ?? '';
+      const matches = path !== '' && (pathname === path || pathname.startsWith(`${path}/`));
+
+      if (matches && path.length > bestLength) {
+        best = current;
+        bestLength = path.length;
+      }
+
+      if (item.children) visit(item.children, current);
+    });
+  };
+
+  visit(items, []);
+  return best;
+};
+
+/**
+ * Remove da árvore os itens vinculados a módulos
+ * No modo catálogo eles são substituídos pelos módulos vindos do backend
+ */
+export const withoutModuleItems = (items: readonly NavigationItem[]): NavigationItem[] =>
+  items.flatMap(item => {
+    if (item.moduleKey) return [];
+    if (!item.children) return [{ ...item }];
+
+    const children = withoutModuleItems(item.children);
+    return children.length > 0 ? [{ ...item, children }] : [];
+  });
+
+export interface ModuleNavigationOptions {
+  // Ordem da primeira seção gerada
+  order?: number;
+  // Quando informado, módulos internos sem rota registrada entram desabilitados ("Em breve")
+  isRouteRegistered?: (path: string) => boolean;
+}
+
+/**
+ * Gera a navigation a partir do catálogo de módulos ativos
+ * Um grupo por aplicação; módulos sem url ou sem chave não entram no menu
+ * Módulos novos aparecem sem nova versão do frontend: os que ainda não têm tela
+ * nesta aplicação ficam visíveis, mas desabilitados
+ */
+export const buildModuleNavigation = (
+  modules: readonly Module[],
+  options: ModuleNavigationOptions = {}
+): NavigationItem[] => {
+  const { order = 10, isRouteRegistered } = options;
+  const sections = new Map<string, NavigationItem[]>();
+
+  modules
+    .filter(module => module.isActive && module.url && module.key)
+    .forEach(module => {
+      const sectionTitle = module.applicationName || 'Módulos';
+      const items = sections.get(sectionTitle) ?? [];
+      const path = module.url!;
+      const withoutScreen = !!isRouteRegistered && !isExternalPath(path) && !isRouteRegistered(path);
+
+      items.push({
+        id: `module-${module.id}`,
+        title: module.name,
+        icon: resolveNavigationIcon(module.icon),
+        path,
+        // Chaves do catálogo podem não existir na constante ModuleKey
+        moduleKey: module.key as ModuleKey,
+        operation: 'SELECT',
+        order: module.displayOrder ?? Number.MAX_SAFE_INTEGER,
+        ...(withoutScreen && { disabled: true, badge: { label: 'Em breve', color: 'info' as const } }),
+      });
+
+      sections.set(sectionTitle, items);
+    });
+
+  return Array.from(sections.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([title, children], index) => ({
+      id: `modules-${title}`,
+      title,
+      icon: resolveNavigationIcon('apps'),
+      order: order + index,
+      children: [...children].sort(
+        (a, b) => byOrder(a, b) || a.title.localeCompare(b.title)
+      ),
+    }));
+};
@@ -0,0 +1,102 @@
+import { CONDITION_SUBJECT_REFS } from '../types/permission.types';
+import type {
+  PermissionConditionOperator,
+  PermissionConditionRule,
+  PermissionConditions,
+  PermissionSubject,
+} from '../types/permission.types';
+
+export const CONDITION_OPERATOR_LABELS: Record<PermissionConditionOperator, string> = {
+  eq: '==',
+  neq: '!=',
+  in: 'em',
+};
+
+/**
+ * Lê um campo do registro, aceitando caminhos (ex: 'tenant.id')
+ */
+const readField = (record: object, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, segment) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>)[segment]
+        : undefined,
+    record
+  );
+
+/**
+ * Resolve referências ao usuário logado ($user.id, $user.tenant.id)
+ * Referência sem usuário resolve para undefined e nunca é satisfeita
+ */
+const resolveValue = (value: string, subject: PermissionSubject | null): string | undefined => {
+  switch (value) {
+    case CONDITION_SUBJECT_REFS.USER_ID:
+      return subject?.userId;
+    case CONDITION_SUBJECT_REFS.TENANT_ID:
+      return subject?.tenantId;
+    default:
+      return value;
+  }
+};
+
+const matchesRule = (
+  rule: PermissionConditionRule,
+  record: object,
+  subject: PermissionSubject | null
+): boolean => {
+  const fieldValue = readField(record, rule.field);
+  const actual = fieldValue === undefined || fieldValue === null ? undefined : String(fieldValue);
+  const expected = (Array.isArray(rule.value) ? rule.value : [rule.value])
+    .map(value => resolveValue(value, subject))
+    .filter((value): value is string => value !== undefined);
+
+  switch (rule.operator) {
+    case 'eq':
+    case 'in':
+      return actual !== undefined && expected.includes(actual);
+    case 'neq':
+      return actual !== undefined && expected.length > 0 && !expected.includes(actual);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Verifica se o registro satisfaz as condições de uma permissão
+ *
+ * Features:
+ * - Todas as regras precisam ser satisfeitas (E lógico)
+ * - Com `fields`, exige que todos os campos alterados estejam na allow-list
+ * - Sem condições a permissão vale para qualquer registro
+ */
+export const matchesPermissionConditions = (
+  conditions: PermissionConditions | undefined,
+  record: object,
+  subject: PermissionSubject | null,
+  fields?: string[]
+): boolean => {
+  if (!conditions) return true;
+
+  const rulesMatch = (conditions.rules ?? []).every(rule => matchesRule(rule, record, subject));
+  if (!rulesMatch) return false;
+
+  if (fields && conditions.allowedFields && conditions.allowedFields.length > 0) {
+    return fields.every(field => conditions.allowedFields?.includes(field));
+  }
+
+  return true;
+};
+
+/**
+ * Indica se há alguma condição configurada
+ */
+export const hasPermissionConditions = (conditions: PermissionConditions | undefined): boolean =>
+  !!conditions && ((conditions.rules?.length ?? 0) > 0 || (conditions.allowedFields?.length ?? 0) > 0);
+
+/**
+ * Descreve uma regra para exibição (ex: 'tenantId == $user.tenant.id')
+ */
+export const describeConditionRule = (rule: PermissionConditionRule): string => {
+  const value = Array.isArray(rule.value) ? `[${rule.value.join(', ')}]` : rule.value;
+  return `${rule.field} ${CONDITION_OPERATOR_LABELS[rule.operator]} ${value}`;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { ModulePermission, UserPermissions } from '../types/permission.types';
+import { decidePermission, matchesModuleKey, matchesOperation } from './permission-decision';
+
+const withModules = (...modules: ModulePermission[]): UserPermissions => ({
+  userId: 'user-1',
+  accessGroups: [{ id: 'group-1', code: 'ADMINS', roles: [{ id: 'role-1', code: 'ADMIN', modules }] }],
+});
+
+describe('matchesModuleKey / matchesOperation', () => {
+  it('cobrem o valor exato e o curinga', () => {
+    expect(matchesModuleKey('USER_MODULE', 'USER_MODULE')).toBe(true);
+    expect(matchesModuleKey('*', 'USER_MODULE')).toBe(true);
+    expect(matchesModuleKey('ROLE_MODULE', 'USER_MODULE')).toBe(false);
+
+    expect(matchesOperation('delete', 'DELETE')).toBe(true);
+    expect(matchesOperation('*', 'DELETE')).toBe(true);
+    expect(matchesOperation('SELECT', 'DELETE')).toBe(false);
+  });
+});
+
+describe('decidePermission', () => {
+  it('aplica negações de módulo curinga', () => {
+    const permissions = withModules(
+      { id: 'grant', key: 'USER_MODULE', operations: ['SELECT', 'DELETE'] },
+      { id: 'deny', key: '*', operations: ['DELETE'], effect: 'deny' },
+    );
+
+    expect(decidePermission(permissions, 'USER_MODULE', 'DELETE')).toMatchObject({
+      allowed: false,
+      reason: 'deny',
+      decidedBy: { modulePermissionId: 'deny' },
+    });
+    expect(decidePermission(permissions, 'USER_MODULE', 'SELECT').allowed).toBe(true);
+  });
+
+  it('concede operações curinga e prefere a entrada mais específica em most-specific', () => {
+    const permissions = withModules(
+      { id: 'all', key: 'USER_MODULE', operations: ['*'] },
+      { id: 'deny', key: '*', operations: ['*'], effect: 'deny' },
+    );
+
+    expect(decidePermission(permissions, 'USER_MODULE', 'EXPORT').allowed).toBe(false);
+    expect(decidePermission(permissions, 'USER_MODULE', 'EXPORT', { precedence: 'most-specific' })).toMatchObject({
+      allowed: true,
+      decidedBy: { modulePermissionId: 'all' },
+    });
+  });
+
+  it('nega sem concessão aplicável', () => {
+    expect(decidePermission(withModules(), 'USER_MODULE', 'SELECT').reason).toBe('no-grant');
+    expect(decidePermission(null, 'USER_MODULE', 'SELECT').reason).toBe('not-loaded');
+  });
+});
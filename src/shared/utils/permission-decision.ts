@@ -0,0 +1,161 @@
+import { PERMISSION_WILDCARD } from '../types/permission.types';
+import type {
+  ModulePermission,
+  OperationCode,
+  PermissionDecision,
+  PermissionEntryRef,
+  PermissionPrecedence,
+  PermissionSubject,
+  UserPermissions,
+} from '../types/permission.types';
+import { matchesPermissionConditions } from './permission-conditions';
+
+export interface DecidePermissionOptions {
+  precedence?: PermissionPrecedence;
+  // Registro avaliado pelas condições (canOn); sem registro só negações incondicionais se aplicam
+  record?: object;
+  subject?: PermissionSubject | null;
+  // Campos alterados - validados contra a allow-list das concessões
+  fields?: string[];
+}
+
+// Códigos de operação são comparados sem diferenciar maiúsculas (ex: 'export' = 'EXPORT')
+export const normalizeOperation = (operation: string) => operation.trim().toUpperCase();
+
+// A chave da entrada cobre a chave verificada quando é igual a ela ou o curinga ('*')
+export const matchesModuleKey = (entryKey: string, moduleKey: string) =>
+  entryKey === moduleKey || entryKey === PERMISSION_WILDCARD;
+
+// A operação da entrada cobre o código verificado quando é igual a ele ou o curinga ('*')
+export const matchesOperation = (entryOperation: string, code: string) => {
+  const operation = normalizeOperation(entryOperation);
+  return operation === normalizeOperation(code) || operation === PERMISSION_WILDCARD;
+};
+
+const hasRules = (module: ModulePermission) => (module.conditions?.rules?.length ?? 0) > 0;
+
+/**
+ * Verifica se uma entrada se aplica à verificação
+ * Sem operação (acesso ao módulo): concessões com qualquer operação se aplicam,
+ * negações apenas quando negam todas as operações ('*')
+ */
+const appliesTo = (
+  module: ModulePermission,
+  moduleKey: string,
+  code: string | undefined,
+  options: DecidePermissionOptions
+): boolean => {
+  if (!matchesModuleKey(module.key, moduleKey)) return false;
+
+  const isDeny = module.effect === 'deny';
+  const coversOperation = code === undefined
+    ? !isDeny || module.operations.map(normalizeOperation).includes(PERMISSION_WILDCARD)
+    : module.operations.some(op => matchesOperation(op, code));
+
+  if (!coversOperation) return false;
+
+  if (!options.record) {
+    // Concessão condicional ainda indica que a operação existe para algum registro
+    return !isDeny || !hasRules(module);
+  }
+
+  return matchesPermissionConditions(
+    module.conditions,
+    options.record,
+    options.subject ?? null,
+    isDeny ? undefined : options.fields
+  );
+};
+
+const specificityOf = (module: ModulePermission, moduleKey: string, code: string | undefined): number =>
+  (module.key === moduleKey ? 4 : 0) +
+  (code !== undefined && module.operations.some(op => normalizeOperation(op) === code) ? 2 : 0) +
+  (hasRules(module) ? 1 : 0);
+
+/**
+ * Decide uma verificação de permissão e explica qual entrada a decidiu
+ *
+ * Precedência documentada:
+ * 1. 'deny-overrides' (padrão): qualquer negação aplicável vence; entre negações, a mais específica explica
+ * 2. 'most-specific': vence a entrada de maior especificidade; no empate a negação vence
+ * 3. Sem entrada aplicável o acesso é negado ('no-grant')
+ *
+ * Especificidade: chave exata (4) + operação exata (2) + condições (1)
+ */
+export const decidePermission = (
+  permissions: UserPermissions | null,
+  moduleKey: string,
+  operation?: OperationCode,
+  options: DecidePermissionOptions = {}
+): PermissionDecision => {
+  const precedence = options.precedence ?? 'deny-overrides';
+  const code = operation === undefined ? undefined : normalizeOperation(operation);
+
+  if (!permissions) {
+    return { moduleKey, operation: code, allowed: false, reason: 'not-loaded', precedence, matches: [] };
+  }
+
+  const matches: PermissionEntryRef[] = [];
+
+  permissions.accessGroups.forEach(group =>
+    group.roles.forEach(role =>
+      role.modules.forEach(module => {
+        if (!appliesTo(module, moduleKey, code, options)) return;
+
+        matches.push({
+          accessGroupId: group.id,
+          accessGroupCode: group.code,
+          roleId: role.id,
+          roleCode: role.code,
+          modulePermissionId: module.id,
+          moduleKey: module.key,
+          effect: module.effect ?? 'allow',
+          specificity: specificityOf(module, moduleKey, code),
+        });
+      })
+    )
+  );
+
+  const denyFirst = (a: PermissionEntryRef, b: PermissionEntryRef) =>
+    Number(b.effect === 'deny') - Number(a.effect === 'deny');
+  const bySpecificity = (a: PermissionEntryRef, b: PermissionEntryRef) => b.specificity - a.specificity;
+
+  matches.sort((a, b) =>
+    precedence === 'most-specific'
+      ? bySpecificity(a, b) || denyFirst(a, b)
+      : denyFirst(a, b) || bySpecificity(a, b)
+  );
+
+  const decidedBy = matches[0];
+
+  return {
+    moduleKey,
+    operation: code,
+    allowed: decidedBy?.effect === 'allow',
+    reason: decidedBy ? decidedBy.effect : 'no-grant',
+    precedence,
+    decidedBy,
+    matches,
+  };
+};
+
+/**
+ * Descreve a decisão em uma linha (logs, tooltips e debug)
+ */
+export const describePermissionDecision = (decision: PermissionDecision): string => {
+  const target = decision.operation ? `${decision.moduleKey}:${decision.operation}` : decision.moduleKey;
+  const path = decision.decidedBy
+    ? `${decision.decidedBy.accessGroupCode} › ${decision.decidedBy.roleCode} › ${decision.decidedBy.moduleKey}`
+    : '';
+
+  switch (decision.reason) {
+    case 'allow':
+      return `${target} permitido por ${path}`;
+    case 'deny':
+      return `${target} negado por ${path}`;
+    case 'no-grant':
+      return `${target} sem concessão`;
+    default:
+      return `${target} - permissões não carregadas`;
+  }
+};
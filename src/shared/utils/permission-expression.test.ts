@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluatePermissionExpression,
+  formatPermissionExpression,
+  parsePermissionExpression,
+} from './permission-expression';
+import type { PermissionChecker } from './permission-expression';
+
+// Usuário de exemplo: ROLE_MODULE com SELECT/UPDATE e USER_MODULE com SELECT
+const granted: Record<string, string[]> = {
+  ROLE_MODULE: ['SELECT', 'UPDATE'],
+  USER_MODULE: ['SELECT'],
+};
+
+const check: PermissionChecker = (moduleKey, operation) => {
+  const operations = granted[moduleKey];
+  if (!operations) return false;
+  return operation === undefined || operations.includes(operation);
+};
+
+const evaluate = (expression: string) => evaluatePermissionExpression(expression, check);
+
+describe('parsePermissionExpression', () => {
+  it('interpreta módulo, módulo:operação e lista de operações', () => {
+    expect(parsePermissionExpression('ROLE_MODULE')).toEqual({ moduleKey: 'ROLE_MODULE', operation: undefined });
+    expect(parsePermissionExpression('ROLE_MODULE:update')).toEqual({ moduleKey: 'ROLE_MODULE', operation: 'UPDATE' });
+    expect(parsePermissionExpression('ROLE_MODULE:SELECT|UPDATE')).toEqual({
+      moduleKey: 'ROLE_MODULE',
+      operation: ['SELECT', 'UPDATE'],
+    });
+  });
+
+  it('dá a ! precedência sobre && e a && precedência sobre ||', () => {
+    expect(parsePermissionExpression('A || B && !C')).toEqual({
+      any: [
+        { moduleKey: 'A', operation: undefined },
+        { all: [{ moduleKey: 'B', operation: undefined }, { not: { moduleKey: 'C', operation: undefined } }] },
+      ],
+    });
+  });
+
+  it('respeita os parênteses', () => {
+    expect(parsePermissionExpression('(A || B) && C')).toEqual({
+      all: [
+        { any: [{ moduleKey: 'A', operation: undefined }, { moduleKey: 'B', operation: undefined }] },
+        { moduleKey: 'C', operation: undefined },
+      ],
+    });
+  });
+
+  it('diferencia a lista de operações do operador ||', () => {
+    expect(parsePermissionExpression('A:SELECT||B')).toEqual({
+      any: [{ moduleKey: 'A', operation: 'SELECT' }, { moduleKey: 'B', operation: undefined }],
+    });
+  });
+
+  it.each([
+    ['', 'expressão incompleta', 1],
+    ['A &&', 'expressão incompleta', 5],
+    ['(A || B', 'esperado ")"', 8],
+    ['A B', 'conteúdo inesperado', 3],
+    ['A:', 'esperado um identificador', 3],
+    ['A:SELECT|', 'esperado um identificador', 10],
+    ['A & B', 'caractere inesperado "&"', 3],
+    ['A && )', 'esperada uma verificação de módulo', 6],
+  ])('rejeita %j com a posição do erro', (expression, message, position) => {
+    expect(() => parsePermissionExpression(expression)).toThrow(
+      `Expressão de permissão inválida "${expression}": ${message} (posição ${position})`
+    );
+  });
+});
+
+describe('evaluatePermissionExpression', () => {
+  it('avalia verificações simples', () => {
+    expect(evaluate('ROLE_MODULE')).toBe(true);
+    expect(evaluate('ROLE_MODULE:UPDATE')).toBe(true);
+    expect(evaluate('USER_MODULE:UPDATE')).toBe(false);
+  });
+
+  it('aplica a precedência dos operadores', () => {
+    // Lida como USER_MODULE:UPDATE || (ROLE_MODULE && !USER_MODULE) - falso
+    expect(evaluate('USER_MODULE:UPDATE || ROLE_MODULE && !USER_MODULE')).toBe(false);
+    expect(evaluate('!USER_MODULE:UPDATE && ROLE_MODULE:UPDATE')).toBe(true);
+  });
+
+  it('permite alterar a precedência com parênteses', () => {
+    expect(evaluate('(USER_MODULE:UPDATE || ROLE_MODULE) && !USER_MODULE')).toBe(false);
+    expect(evaluate('(USER_MODULE:UPDATE || ROLE_MODULE) && USER_MODULE')).toBe(true);
+    expect(evaluate('!(ROLE_MODULE && USER_MODULE:UPDATE)')).toBe(true);
+  });
+
+  it('concede a lista de operações se qualquer uma for permitida', () => {
+    expect(evaluate('USER_MODULE:UPDATE|SELECT')).toBe(true);
+    expect(evaluate('USER_MODULE:UPDATE|DELETE')).toBe(false);
+  });
+
+  it('nega módulos e operações desconhecidos', () => {
+    expect(evaluate('REPORT_MODULE')).toBe(false);
+    expect(evaluate('REPORT_MODULE:SELECT')).toBe(false);
+    expect(evaluate('ROLE_MODULE:ARCHIVE')).toBe(false);
+    expect(evaluate('ROLE_MODULE:ARCHIVE|SELECT')).toBe(true);
+    expect(evaluate('!REPORT_MODULE')).toBe(true);
+  });
+
+  it('avalia a forma de objeto com listas vazias', () => {
+    expect(evaluatePermissionExpression({ all: [] }, check)).toBe(true);
+    expect(evaluatePermissionExpression({ any: [] }, check)).toBe(false);
+    expect(evaluatePermissionExpression({ all: ['ROLE_MODULE', { moduleKey: 'USER_MODULE', operation: 'SELECT' }] }, check)).toBe(true);
+  });
+
+  it('propaga o erro de sintaxe', () => {
+    expect(() => evaluate('ROLE_MODULE &&')).toThrow('expressão incompleta');
+  });
+});
+
+describe('formatPermissionExpression', () => {
+  it('gera texto que volta à mesma árvore', () => {
+    const node = parsePermissionExpression('A:SELECT|UPDATE && (B || !C)');
+    const text = formatPermissionExpression(node);
+
+    expect(text).toBe('A:SELECT|UPDATE && (B || !C)');
+    expect(parsePermissionExpression(`${text} `)).toEqual(node);
+  });
+});
@@ -0,0 +1,210 @@
+import type {
+  OperationCode,
+  PermissionCheck,
+  PermissionExpression,
+  PermissionExpressionNode,
+} from '../types/permission.types';
+
+/**
+ * Verifica uma chave de módulo e, opcionalmente, uma operação
+ * Mesmo contrato de usePermissions().hasAccess
+ */
+export type PermissionChecker = (moduleKey: string, operation?: OperationCode) => boolean;
+
+type Token =
+  | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; position: number }
+  | { type: 'check'; value: PermissionCheck; position: number };
+
+// Identificadores de módulo e operação: letras, números, underscore e hífen
+const IDENTIFIER = /[A-Za-z0-9_-]/;
+
+const syntaxError = (expression: string, message: string, position: number) =>
+  new Error(`Expressão de permissão inválida "${expression}": ${message} (posição ${position + 1})`);
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readIdentifier = () => {
+    const start = index;
+    while (index < expression.length && IDENTIFIER.test(expression[index])) index++;
+    if (start === index) {
+      throw syntaxError(expression, 'esperado um identificador', start);
+    }
+    return expression.slice(start, index);
+  };
+
+  while (index < expression.length) {
+    const char = expression[index];
+    const position = index;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (expression.startsWith('&&', index)) {
+      tokens.push({ type: 'and', position });
+      index += 2;
+    } else if (expression.startsWith('||', index)) {
+      tokens.push({ type: 'or', position });
+      index += 2;
+    } else if (char === '!') {
+      tokens.push({ type: 'not', position });
+      index++;
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen', position });
+      index++;
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen', position });
+      index++;
+    } else if (IDENTIFIER.test(char)) {
+      // MODULO ou MODULO:OPERACAO ou MODULO:OP1|OP2
+      const moduleKey = readIdentifier();
+      const operations: string[] = [];
+
+      if (expression[index] === ':') {
+        index++;
+        operations.push(readIdentifier().toUpperCase());
+        while (expression[index] === '|' && expression[index + 1] !== '|') {
+          index++;
+          operations.push(readIdentifier().toUpperCase());
+        }
+      }
+
+      tokens.push({
+        type: 'check',
+        value: {
+          moduleKey,
+          operation: operations.length === 0 ? undefined : operations.length === 1 ? operations[0] : operations,
+        },
+        position,
+      });
+    } else {
+      throw syntaxError(expression, `caractere inesperado "${char}"`, position);
+    }
+  }
+
+  return tokens;
+};
+
+// Cache das expressões textuais já interpretadas - são reavaliadas a cada render
+const parsedCache = new Map<string, PermissionExpressionNode>();
+
+/**
+ * Interpreta a forma textual de uma expressão de permissão
+ *
+ * Gramática (precedência: ! > && > ||):
+ *   expressao := e ( '||' e )*
+ *   e         := nao ( '&&' nao )*
+ *   nao       := '!' nao | '(' expressao ')' | MODULO [ ':' OPERACAO ( '|' OPERACAO )* ]
+ *
+ * Exemplo: 'ROLE_MODULE:UPDATE && (PERMISSION_MODULE:SELECT || !TENANT_MODULE)'
+ */
+export const parsePermissionExpression = (expression: string): PermissionExpressionNode => {
+  const cached = parsedCache.get(expression);
+  if (cached) return cached;
+
+  const tokens = tokenize(expression);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const endPosition = expression.length;
+
+  const parseOr = (): PermissionExpressionNode => {
+    const operands = [parseAnd()];
+    while (peek()?.type === 'or') {
+      current++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { any: operands };
+  };
+
+  const parseAnd = (): PermissionExpressionNode => {
+    const operands = [parseUnary()];
+    while (peek()?.type === 'and') {
+      current++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { all: operands };
+  };
+
+  const parseUnary = (): PermissionExpressionNode => {
+    const token = peek();
+
+    if (!token) {
+      throw syntaxError(expression, 'expressão incompleta', endPosition);
+    }
+
+    if (token.type === 'not') {
+      current++;
+      return { not: parseUnary() };
+    }
+
+    if (token.type === 'lparen') {
+      current++;
+      const inner = parseOr();
+      if (peek()?.type !== 'rparen') {
+        throw syntaxError(expression, 'esperado ")"', peek()?.position ?? endPosition);
+      }
+      current++;
+      return inner;
+    }
+
+    if (token.type === 'check') {
+      current++;
+      return token.value;
+    }
+
+    throw syntaxError(expression, 'esperada uma verificação de módulo', token.position);
+  };
+
+  const result = parseOr();
+
+  if (current < tokens.length) {
+    throw syntaxError(expression, 'conteúdo inesperado', tokens[current].position);
+  }
+
+  parsedCache.set(expression, result);
+  return result;
+};
+
+/**
+ * Avalia uma expressão de permissão (textual ou objeto)
+ * Listas vazias seguem a lógica usual: all([]) = true, any([]) = false
+ */
+export const evaluatePermissionExpression = (
+  expression: PermissionExpression,
+  check: PermissionChecker
+): boolean => {
+  const node = typeof expression === 'string' ? parsePermissionExpression(expression) : expression;
+
+  if ('all' in node) return node.all.every(child => evaluatePermissionExpression(child, check));
+  if ('any' in node) return node.any.some(child => evaluatePermissionExpression(child, check));
+  if ('not' in node) return !evaluatePermissionExpression(node.not, check);
+
+  const { moduleKey, operation } = node;
+
+  if (Array.isArray(operation)) {
+    return operation.some(op => check(moduleKey, op));
+  }
+
+  return check(moduleKey, operation);
+};
+
+/**
+ * Converte uma expressão para a forma textual (útil em logs e mensagens)
+ */
+export const formatPermissionExpression = (expression: PermissionExpression): string => {
+  if (typeof expression === 'string') return expression;
+
+  const wrap = (child: PermissionExpression) => {
+    const text = formatPermissionExpression(child);
+    return typeof child !== 'string' && ('all' in child || 'any' in child) ? `(${text})` : text;
+  };
+
+  if ('all' in expression) return expression.all.map(wrap).join(' && ');
+  if ('any' in expression) return expression.any.map(wrap).join(' || ');
+  if ('not' in expression) return `!${wrap(expression.not)}`;
+
+  const { moduleKey, operation } = expression;
+  if (!operation) return moduleKey;
+  return `${moduleKey}:${Array.isArray(operation) ? operation.join('|') : operation}`;
+};
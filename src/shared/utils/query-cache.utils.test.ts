@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { MutationObserver, QueryClient } from '@tanstack/react-query';
+import { applyOptimisticUpdate, getQueryErrorMessage, rollbackOptimisticUpdate } from './query-cache.utils';
+import type { QueryCacheSnapshot } from './query-cache.utils';
+import { ROLE_QUERY_KEYS } from '../constants/query-keys.constants';
+
+interface RoleRow {
+  id: string;
+  isActive: boolean;
+}
+
+interface RolesPage {
+  items: RoleRow[];
+}
+
+const firstPage = ROLE_QUERY_KEYS.list({ page: 1, pageSize: 10, listQuery: {} });
+const secondPage = ROLE_QUERY_KEYS.list({ page: 2, pageSize: 10, listQuery: {} });
+const rolePermissions = ROLE_QUERY_KEYS.permissions('role-1');
+
+const createClient = () => {
+  const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } });
+  queryClient.setQueryData<RolesPage>(firstPage, { items: [{ id: 'role-1', isActive: true }] });
+  queryClient.setQueryData<RolesPage>(secondPage, { items: [{ id: 'role-2', isActive: true }] });
+  queryClient.setQueryData(rolePermissions, ['permission-1']);
+  return queryClient;
+};
+
+const toggleRole = (roleId: string) => (page: RolesPage): RolesPage => ({
+  items: page.items.map(role => (role.id === roleId ? { ...role, isActive: !role.isActive } : role)),
+});
+
+describe('applyOptimisticUpdate', () => {
+  it('altera todas as páginas sob o prefixo e devolve o estado anterior', async () => {
+    const queryClient = createClient();
+
+    const snapshot = await applyOptimisticUpdate(queryClient, ROLE_QUERY_KEYS.lists(), toggleRole('role-2'));
+
+    expect(queryClient.getQueryData(firstPage)).toEqual({ items: [{ id: 'role-1', isActive: true }] });
+    expect(queryClient.getQueryData(secondPage)).toEqual({ items: [{ id: 'role-2', isActive: false }] });
+    expect(queryClient.getQueryData(rolePermissions)).toEqual(['permission-1']);
+    expect(snapshot).toHaveLength(2);
+  });
+
+  it('não cria dados para queries ainda sem cache', async () => {
+    const queryClient = new QueryClient();
+    const emptyKey = ROLE_QUERY_KEYS.list({ page: 3, pageSize: 10, listQuery: {} });
+    queryClient.getQueryCache().build(queryClient, { queryKey: emptyKey });
+
+    await applyOptimisticUpdate(queryClient, ROLE_QUERY_KEYS.lists(), toggleRole('role-1'));
+
+    expect(queryClient.getQueryData(emptyKey)).toBeUndefined();
+  });
+});
+
+describe('rollbackOptimisticUpdate', () => {
+  it('desfaz a troca de status quando a mutation falha', async () => {
+    const queryClient = createClient();
+    let duringRequest: RolesPage | undefined;
+    const observer = new MutationObserver<RoleRow, Error, RoleRow, QueryCacheSnapshot>(queryClient, {
+      mutationFn: async () => {
+        // A requisição só começa depois do onMutate: a listagem já mostra o novo status
+        duringRequest = queryClient.getQueryData<RolesPage>(firstPage);
+        throw new Error('Falha ao alterar status');
+      },
+      onMutate: role => applyOptimisticUpdate(queryClient, ROLE_QUERY_KEYS.lists(), toggleRole(role.id)),
+      onError: (_error, _role, snapshot) => rollbackOptimisticUpdate(queryClient, snapshot),
+    });
+
+    const pending = observer.mutate({ id: 'role-1', isActive: true });
+
+    await expect(pending).rejects.toThrow('Falha ao alterar status');
+    expect(duringRequest).toEqual({ items: [{ id: 'role-1', isActive: false }] });
+    expect(queryClient.getQueryData(firstPage)).toEqual({ items: [{ id: 'role-1', isActive: true }] });
+    expect(queryClient.getQueryData(secondPage)).toEqual({ items: [{ id: 'role-2', isActive: true }] });
+  });
+
+  it('ignora um snapshot ausente (erro antes do onMutate)', () => {
+    const queryClient = createClient();
+    rollbackOptimisticUpdate(queryClient, undefined);
+    expect(queryClient.getQueryData(firstPage)).toEqual({ items: [{ id: 'role-1', isActive: true }] });
+  });
+});
+
+describe('getQueryErrorMessage', () => {
+  it('usa a mensagem do erro ou o texto padrão', () => {
+    expect(getQueryErrorMessage(new Error('Falhou'), 'Erro')).toBe('Falhou');
+    expect(getQueryErrorMessage({ message: '', status: 500 }, 'Erro')).toBe('Erro');
+    expect(getQueryErrorMessage(null, 'Erro')).toBe('Erro');
+  });
+});
@@ -0,0 +1,35 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+
+// Dados em cache antes de uma atualização otimista, por query key
+export type QueryCacheSnapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * Aplica uma alteração a todas as queries em cache sob o prefixo (ex: todas as páginas de uma listagem)
+ * Cancela buscas em andamento para que uma resposta antiga não sobrescreva a alteração
+ * Retorna o estado anterior para desfazer em caso de erro
+ */
+export const applyOptimisticUpdate = async <TData>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (data: TData) => TData
+): Promise<QueryCacheSnapshot> => {
+  await queryClient.cancelQueries({ queryKey });
+
+  const snapshot = queryClient.getQueriesData<TData>({ queryKey });
+  queryClient.setQueriesData<TData>({ queryKey }, data => (data === undefined ? data : update(data)));
+
+  return snapshot;
+};
+
+/**
+ * Restaura os dados guardados por applyOptimisticUpdate
+ */
+export const rollbackOptimisticUpdate = (queryClient: QueryClient, snapshot: QueryCacheSnapshot | undefined) => {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+/**
+ * Mensagem de erro de uma query ou mutation (Error ou erro normalizado pelo httpClient)
+ */
+export const getQueryErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { message?: string } | null)?.message || fallback;
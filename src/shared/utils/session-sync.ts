@@ -0,0 +1,65 @@
+/**
+ * Sincronização da sessão entre abas do console
+ * Usa BroadcastChannel e, quando indisponível, o evento `storage` do localStorage
+ * Mensagens não são entregues à própria aba que as emitiu
+ */
+
+const CHANNEL_NAME = 'access-control-session';
+const STORAGE_EVENT_KEY = 'access_control_session_event';
+
+export type SessionSyncEvent =
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'token-refreshed' }
+  | { type: 'tenant-switched'; tenantId: string }
+  | { type: 'permissions-updated' };
+
+type SessionSyncListener = (event: SessionSyncEvent) => void;
+
+const channel: BroadcastChannel | null =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+/**
+ * Publica um evento de sessão para as demais abas
+ */
+export const broadcastSessionEvent = (event: SessionSyncEvent): void => {
+  try {
+    if (channel) {
+      channel.postMessage(event);
+      return;
+    }
+
+    // Fallback: o timestamp garante que o valor mude e o evento `storage` dispare
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ event, timestamp: Date.now() }));
+    localStorage.removeItem(STORAGE_EVENT_KEY);
+  } catch (error) {
+    console.warn('⚠️ Sessão: falha ao sincronizar evento entre abas', error);
+  }
+};
+
+/**
+ * Escuta eventos de sessão vindos de outras abas
+ * @returns função para cancelar a inscrição
+ */
+export const subscribeSessionEvents = (listener: SessionSyncListener): (() => void) => {
+  if (channel) {
+    const handleMessage = (message: MessageEvent<SessionSyncEvent>) => listener(message.data);
+
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (storageEvent: StorageEvent) => {
+    if (storageEvent.key !== STORAGE_EVENT_KEY || !storageEvent.newValue) return;
+
+    try {
+      const { event } = JSON.parse(storageEvent.newValue) as { event: SessionSyncEvent };
+      listener(event);
+    } catch (error) {
+      console.warn('⚠️ Sessão: evento entre abas inválido', error);
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
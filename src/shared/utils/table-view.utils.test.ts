@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getRowHeightForDensity } from './table-view.utils';
+import { getVirtualRange } from './virtual-list.utils';
+
+describe('getRowHeightForDensity', () => {
+  it('mantém a altura na densidade padrão', () => {
+    expect(getRowHeightForDensity(53)).toBe(53);
+    expect(getRowHeightForDensity(53, 'standard')).toBe(53);
+  });
+
+  it('reduz o padding das células na densidade compacta', () => {
+    expect(getRowHeightForDensity(53, 'compact')).toBe(33);
+    expect(getRowHeightForDensity(73, 'compact')).toBe(53);
+  });
+
+  it('posiciona a janela virtual pela altura compacta', () => {
+    const range = getVirtualRange(1000, getRowHeightForDensity(53, 'compact'), 3300, 330, 0);
+    expect(range.startIndex).toBe(100);
+    expect(range.endIndex).toBe(110);
+    expect(range.offsetTop).toBe(3300);
+    expect(range.offsetBottom).toBe(890 * 33);
+  });
+});
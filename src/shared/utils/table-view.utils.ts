@@ -0,0 +1,135 @@
+import type { ColumnFilterValue, ColumnFilters } from '../types/api.types';
+import type {
+  TableColumnLayout,
+  TableDensity,
+  TableViewColumn,
+  TableViewState,
+} from '../types/table-view.types';
+
+// Query param usado nos links de visualizações compartilhadas
+export const TABLE_VIEW_URL_PARAM = 'view';
+
+export const DEFAULT_TABLE_DENSITY: TableDensity = 'standard';
+
+// Padding vertical que as células perdem na densidade compacta (MUI: 16px → 6px em cima e embaixo)
+const COMPACT_ROW_HEIGHT_REDUCTION = 20;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isColumnFilterValue = (value: unknown): value is ColumnFilterValue =>
+  typeof value === 'string' ||
+  typeof value === 'boolean' ||
+  (isRecord(value) && Object.values(value).every(item => item === undefined || typeof item === 'string'));
+
+const normalizeFilters = (raw: unknown): ColumnFilters =>
+  isRecord(raw)
+    ? Object.fromEntries(Object.entries(raw).filter((entry): entry is [string, ColumnFilterValue] =>
+        isColumnFilterValue(entry[1])))
+    : {};
+
+/**
+ * Estado inicial de uma listagem: todas as colunas visíveis, sem ordenação nem filtros
+ */
+export const createDefaultTableViewState = (
+  columns: TableViewColumn[],
+  pageSize: number
+): TableViewState => ({
+  columnOrder: columns.map(column => column.id),
+  hiddenColumns: [],
+  density: DEFAULT_TABLE_DENSITY,
+  filters: {},
+  pageSize,
+});
+
+/**
+ * Altura da linha na densidade ativa, a partir da altura na densidade padrão
+ */
+export const getRowHeightForDensity = (
+  rowHeight: number,
+  density: TableDensity = DEFAULT_TABLE_DENSITY
+): number => density === 'compact' ? rowHeight - COMPACT_ROW_HEIGHT_REDUCTION : rowHeight;
+
+/**
+ * Aplica ordem e visibilidade às colunas
+ * Colunas ausentes de columnOrder (ex: adicionadas depois da visualização ser salva) vão para o fim
+ */
+export const applyColumnLayout = <C extends { id: string }>(
+  columns: C[],
+  layout?: Partial<TableColumnLayout>
+): C[] => {
+  if (!layout) return columns;
+
+  const order = layout.columnOrder ?? [];
+  const hidden = new Set(layout.hiddenColumns ?? []);
+  const position = (column: C) => {
+    const index = order.indexOf(column.id);
+    return index === -1 ? order.length + columns.indexOf(column) : index;
+  };
+
+  return columns
+    .filter(column => !hidden.has(column.id))
+    .sort((a, b) => position(a) - position(b));
+};
+
+/**
+ * Valida um estado vindo de fora (localStorage, servidor ou URL)
+ * Campos inválidos são trocados pelos valores de fallback
+ */
+export const normalizeTableViewState = (raw: unknown, fallback: TableViewState): TableViewState => {
+  if (!isRecord(raw)) return fallback;
+
+  const sortDirection = raw.sortDirection === 'asc' || raw.sortDirection === 'desc'
+    ? raw.sortDirection
+    : undefined;
+
+  return {
+    columnOrder: isStringArray(raw.columnOrder) ? raw.columnOrder : fallback.columnOrder,
+    hiddenColumns: isStringArray(raw.hiddenColumns) ? raw.hiddenColumns : fallback.hiddenColumns,
+    density: raw.density === 'compact' || raw.density === 'standard' ? raw.density : fallback.density,
+    sortBy: typeof raw.sortBy === 'string' ? raw.sortBy : undefined,
+    sortDirection: typeof raw.sortBy === 'string' ? sortDirection : undefined,
+    filters: normalizeFilters(raw.filters),
+    pageSize: typeof raw.pageSize === 'number' && raw.pageSize > 0 ? raw.pageSize : fallback.pageSize,
+  };
+};
+
+/**
+ * Codifica o estado em base64url para compartilhar por link
+ */
+export const encodeTableViewState = (state: TableViewState): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Decodifica um estado compartilhado por link; retorna null se o valor for inválido
+ */
+export const decodeTableViewState = (value: string, fallback: TableViewState): TableViewState | null => {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64);
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return normalizeTableViewState(JSON.parse(new TextDecoder().decode(bytes)), fallback);
+  } catch {
+    return null;
+  }
+};
+
+// Representação canônica para comparar estados (independente da ordem das chaves)
+const toComparableState = (state: TableViewState) => JSON.stringify([
+  state.columnOrder,
+  [...state.hiddenColumns].sort(),
+  state.density,
+  state.sortBy ?? null,
+  state.sortBy ? state.sortDirection ?? null : null,
+  Object.entries(state.filters).sort(([a], [b]) => a.localeCompare(b)),
+  state.pageSize,
+]);
+
+export const isSameTableViewState = (a: TableViewState, b: TableViewState): boolean =>
+  toComparableState(a) === toComparableState(b);
@@ -0,0 +1,46 @@
+import { config } from '../config';
+
+/**
+ * Indicação do tenant a partir da URL de acesso
+ * - slug: vindo de `?tenant=` ou do subdomínio do domínio base
+ * - domain: domínio personalizado do tenant
+ */
+export type TenantHint =
+  | { source: 'query' | 'subdomain'; slug: string }
+  | { source: 'domain'; domain: string };
+
+// Subdomínios da própria aplicação, que não identificam tenant
+const RESERVED_SUBDOMAINS = ['www', 'app', 'api'];
+
+const isLocalHost = (hostname: string) =>
+  hostname === 'localhost' || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+
+/**
+ * Descobre o tenant pela URL, na ordem: `?tenant=`, subdomínio, domínio personalizado
+ * Subdomínio e domínio personalizado dependem de `config.tenant.baseDomain`
+ */
+export const resolveTenantHint = (
+  hostname: string = window.location.hostname,
+  search: string = window.location.search
+): TenantHint | null => {
+  const querySlug = new URLSearchParams(search).get('tenant')?.trim().toLowerCase();
+  if (querySlug) {
+    return { source: 'query', slug: querySlug };
+  }
+
+  const baseDomain = config.tenant.baseDomain.toLowerCase();
+  const host = hostname.toLowerCase();
+  if (!baseDomain || isLocalHost(host) || host === baseDomain) {
+    return null;
+  }
+
+  if (host.endsWith(`.${baseDomain}`)) {
+    const subdomain = host.slice(0, -(baseDomain.length + 1));
+    if (subdomain.includes('.') || RESERVED_SUBDOMAINS.includes(subdomain)) {
+      return null;
+    }
+    return { source: 'subdomain', slug: subdomain };
+  }
+
+  return { source: 'domain', domain: host };
+};
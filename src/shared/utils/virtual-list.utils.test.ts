@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_OVERSCAN, getVirtualRange } from './virtual-list.utils';
+
+const ROW_HEIGHT = 50;
+const VIEWPORT = 500; // 10 linhas visíveis
+
+describe('getVirtualRange', () => {
+  it('começa do topo sem espaço antes das linhas', () => {
+    expect(getVirtualRange(1000, ROW_HEIGHT, 0, VIEWPORT)).toEqual({
+      startIndex: 0,
+      endIndex: 10 + DEFAULT_OVERSCAN,
+      offsetTop: 0,
+      offsetBottom: (1000 - 18) * ROW_HEIGHT,
+    });
+  });
+
+  it('renderiza as linhas visíveis com overscan dos dois lados no meio da lista', () => {
+    expect(getVirtualRange(1000, ROW_HEIGHT, 5000, VIEWPORT, 4)).toEqual({
+      startIndex: 96,
+      endIndex: 114,
+      offsetTop: 96 * ROW_HEIGHT,
+      offsetBottom: (1000 - 114) * ROW_HEIGHT,
+    });
+  });
+
+  it('termina na última linha sem espaço depois dela', () => {
+    const range = getVirtualRange(1000, ROW_HEIGHT, 1000 * ROW_HEIGHT - VIEWPORT, VIEWPORT);
+
+    expect(range.endIndex).toBe(1000);
+    expect(range.offsetBottom).toBe(0);
+    expect(range.startIndex).toBe(990 - DEFAULT_OVERSCAN);
+    expect(range.offsetTop + (range.endIndex - range.startIndex) * ROW_HEIGHT).toBe(1000 * ROW_HEIGHT);
+  });
+
+  it('mantém a última linha quando a rolagem passa do fim (lista encolheu)', () => {
+    expect(getVirtualRange(10, ROW_HEIGHT, 10_000, VIEWPORT)).toEqual({
+      startIndex: 9,
+      endIndex: 10,
+      offsetTop: 9 * ROW_HEIGHT,
+      offsetBottom: 0,
+    });
+  });
+
+  it('não renderiza nada em uma lista vazia ou com altura de linha inválida', () => {
+    const empty = { startIndex: 0, endIndex: 0, offsetTop: 0, offsetBottom: 0 };
+    expect(getVirtualRange(0, ROW_HEIGHT, 0, VIEWPORT)).toEqual(empty);
+    expect(getVirtualRange(10, 0, 0, VIEWPORT)).toEqual(empty);
+  });
+
+  it('renderiza todas as linhas de uma lista menor que a área visível', () => {
+    expect(getVirtualRange(5, ROW_HEIGHT, 0, VIEWPORT)).toEqual({
+      startIndex: 0,
+      endIndex: 5,
+      offsetTop: 0,
+      offsetBottom: 0,
+    });
+  });
+
+  it('trata rolagem negativa como topo e área menor que uma linha como uma linha', () => {
+    expect(getVirtualRange(100, ROW_HEIGHT, -40, VIEWPORT, 0)).toMatchObject({ startIndex: 0, endIndex: 10 });
+    expect(getVirtualRange(100, ROW_HEIGHT, 0, 10, 0)).toMatchObject({ startIndex: 0, endIndex: 1 });
+  });
+});
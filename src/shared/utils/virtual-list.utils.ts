@@ -0,0 +1,39 @@
+// Janela de renderização de listas virtualizadas (altura de linha fixa)
+export interface VirtualRange {
+  startIndex: number;
+  // Exclusivo
+  endIndex: number;
+  // Espaço reservado antes e depois das linhas renderizadas
+  offsetTop: number;
+  offsetBottom: number;
+}
+
+export const DEFAULT_OVERSCAN = 8;
+
+/**
+ * Calcula quais linhas devem ser renderizadas para a posição de rolagem
+ */
+export const getVirtualRange = (
+  count: number,
+  rowHeight: number,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number = DEFAULT_OVERSCAN
+): VirtualRange => {
+  if (count === 0 || rowHeight <= 0) {
+    return { startIndex: 0, endIndex: 0, offsetTop: 0, offsetBottom: 0 };
+  }
+
+  const firstVisible = Math.floor(Math.max(scrollTop, 0) / rowHeight);
+  const visibleCount = Math.ceil(Math.max(viewportHeight, rowHeight) / rowHeight);
+
+  const startIndex = Math.min(Math.max(firstVisible - overscan, 0), count - 1);
+  const endIndex = Math.min(firstVisible + visibleCount + overscan, count);
+
+  return {
+    startIndex,
+    endIndex,
+    offsetTop: startIndex * rowHeight,
+    offsetBottom: (count - endIndex) * rowHeight,
+  };
+};
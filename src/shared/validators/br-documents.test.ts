@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCep,
+  formatCnpj,
+  formatCpf,
+  formatCpfCnpj,
+  formatPhone,
+  isValidCep,
+  isValidCnpj,
+  isValidCpf,
+  isValidCpfCnpj,
+  isValidPhone,
+  onlyAlphanumeric,
+  onlyDigits,
+} from './br-documents';
+import { cpfCnpjSchema, optionalField, phoneSchema } from './br.schemas';
+
+describe('isValidCpf', () => {
+  it.each(['529.982.247-25', '52998224725', '111.444.777-35'])('aceita %s', cpf => {
+    expect(isValidCpf(cpf)).toBe(true);
+  });
+
+  it.each([
+    ['529.982.247-24', 'segundo dígito errado'],
+    ['529.982.247-15', 'primeiro dígito errado'],
+    ['5299822472', 'menos de 11 dígitos'],
+    ['529982247250', 'mais de 11 dígitos'],
+  ])('rejeita %s (%s)', cpf => {
+    expect(isValidCpf(cpf)).toBe(false);
+  });
+
+  it.each(['000.000.000-00', '111.111.111-11', '99999999999'])('rejeita dígitos repetidos %s', cpf => {
+    expect(isValidCpf(cpf)).toBe(false);
+  });
+});
+
+describe('isValidCnpj', () => {
+  it.each(['11.222.333/0001-81', '11222333000181', '12.ABC.345/01DE-35', '12abc34501de35'])('aceita %s', cnpj => {
+    expect(isValidCnpj(cnpj)).toBe(true);
+  });
+
+  it.each([
+    ['11.222.333/0001-82', 'segundo dígito errado'],
+    ['11.222.333/0001-71', 'primeiro dígito errado'],
+    ['12.ABC.345/01DE-36', 'dígito errado no formato alfanumérico'],
+    ['12.ABC.345/01DE-3A', 'letra no dígito verificador'],
+    ['1122233300018', 'menos de 14 caracteres'],
+  ])('rejeita %s (%s)', cnpj => {
+    expect(isValidCnpj(cnpj)).toBe(false);
+  });
+
+  it.each(['00.000.000/0000-00', '11111111111111'])('rejeita caracteres repetidos %s', cnpj => {
+    expect(isValidCnpj(cnpj)).toBe(false);
+  });
+});
+
+describe('isValidCpfCnpj', () => {
+  it('escolhe a validação pelo tamanho do documento', () => {
+    expect(isValidCpfCnpj('529.982.247-25')).toBe(true);
+    expect(isValidCpfCnpj('11.222.333/0001-81')).toBe(true);
+    expect(isValidCpfCnpj('12.ABC.345/01DE-35')).toBe(true);
+    expect(isValidCpfCnpj('529.982.247-24')).toBe(false);
+  });
+});
+
+describe('isValidCep e isValidPhone', () => {
+  it('valida CEP com ou sem máscara', () => {
+    expect(isValidCep('01310-100')).toBe(true);
+    expect(isValidCep('0131010')).toBe(false);
+  });
+
+  it('valida telefones fixos e celulares com DDD', () => {
+    expect(isValidPhone('(11) 3123-4567')).toBe(true);
+    expect(isValidPhone('(11) 91234-5678')).toBe(true);
+    expect(isValidPhone('(11) 81234-5678')).toBe(false);
+    expect(isValidPhone('(01) 3123-4567')).toBe(false);
+    expect(isValidPhone('3123-4567')).toBe(false);
+  });
+});
+
+describe('máscaras', () => {
+  it.each([
+    [formatCpf, '52998224725', '529.982.247-25'],
+    [formatCnpj, '11222333000181', '11.222.333/0001-81'],
+    [formatCnpj, '12abc34501de35', '12.ABC.345/01DE-35'],
+    [formatCep, '01310100', '01310-100'],
+    [formatPhone, '1131234567', '(11) 3123-4567'],
+    [formatPhone, '11912345678', '(11) 91234-5678'],
+  ])('formata e volta ao valor sem máscara', (format, raw, masked) => {
+    expect(format(raw)).toBe(masked);
+    expect(format(masked)).toBe(masked);
+    expect(onlyAlphanumeric(masked)).toBe(raw.toUpperCase());
+  });
+
+  it('formata valores parciais durante a digitação', () => {
+    expect(formatCpf('5299')).toBe('529.9');
+    expect(formatCep('01310')).toBe('01310');
+    expect(formatPhone('119')).toBe('(11) 9');
+  });
+
+  it('descarta o excesso de caracteres', () => {
+    expect(formatCpf('529982247251234')).toBe('529.982.247-25');
+    expect(formatCep('013101009')).toBe('01310-100');
+  });
+
+  it('troca a máscara de CPF para CNPJ com mais de 11 dígitos ou com letras', () => {
+    expect(formatCpfCnpj('52998224725')).toBe('529.982.247-25');
+    expect(formatCpfCnpj('112223330001')).toBe('11.222.333/0001');
+    expect(formatCpfCnpj('12ABC')).toBe('12.ABC');
+    expect(onlyDigits(formatCpfCnpj('52998224725'))).toBe('52998224725');
+  });
+});
+
+describe('schemas', () => {
+  it('aceita campo opcional vazio e valida quando preenchido', () => {
+    const optionalPhone = optionalField(phoneSchema);
+    expect(optionalPhone.safeParse('').success).toBe(true);
+    expect(optionalPhone.safeParse('(11) 91234-5678').success).toBe(true);
+    expect(optionalPhone.safeParse('(11) 1234').success).toBe(false);
+  });
+
+  it('informa a mensagem do documento inválido', () => {
+    const result = cpfCnpjSchema.safeParse('111.111.111-11');
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('CPF ou CNPJ inválido');
+  });
+});
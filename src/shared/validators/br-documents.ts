@@ -0,0 +1,133 @@
+/**
+ * Validação e máscaras de documentos brasileiros
+ * CPF, CNPJ (numérico e alfanumérico), CEP e telefone
+ */
+
+/**
+ * Remove tudo que não for dígito
+ */
+export const onlyDigits = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * Remove pontuação preservando letras (CNPJ alfanumérico) e converte para maiúsculas
+ */
+export const onlyAlphanumeric = (value: string): string =>
+  value.replace(/[^0-9a-zA-Z]/g, '').toUpperCase();
+
+/**
+ * Dígito verificador módulo 11 usado por CPF e CNPJ
+ * Cada caractere vale seu código ASCII menos 48 ('0' = 0, 'A' = 17, ...)
+ */
+const mod11CheckDigit = (base: string, weights: number[]): number => {
+  const sum = base
+    .split('')
+    .reduce((acc, char, index) => acc + (char.charCodeAt(0) - 48) * weights[index], 0);
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+const hasAllSameChars = (value: string) => /^(.)\1+$/.test(value);
+
+/**
+ * Valida um CPF pelos dígitos verificadores
+ */
+export const isValidCpf = (value: string): boolean => {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || hasAllSameChars(cpf)) return false;
+
+  const firstDigit = mod11CheckDigit(cpf.slice(0, 9), [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const secondDigit = mod11CheckDigit(cpf.slice(0, 10), [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+
+  return cpf.endsWith(`${firstDigit}${secondDigit}`);
+};
+
+const CNPJ_FIRST_WEIGHTS = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+const CNPJ_SECOND_WEIGHTS = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Valida um CNPJ pelos dígitos verificadores
+ * Aceita o formato numérico e o alfanumérico (a partir de 2026):
+ * 12 posições com letras ou números seguidas de 2 dígitos verificadores numéricos
+ */
+export const isValidCnpj = (value: string): boolean => {
+  const cnpj = onlyAlphanumeric(value);
+  if (!/^[0-9A-Z]{12}[0-9]{2}$/.test(cnpj) || hasAllSameChars(cnpj)) return false;
+
+  const firstDigit = mod11CheckDigit(cnpj.slice(0, 12), CNPJ_FIRST_WEIGHTS);
+  const secondDigit = mod11CheckDigit(cnpj.slice(0, 13), CNPJ_SECOND_WEIGHTS);
+
+  return cnpj.endsWith(`${firstDigit}${secondDigit}`);
+};
+
+/**
+ * Valida um documento que pode ser CPF (pessoa física) ou CNPJ (pessoa jurídica)
+ */
+export const isValidCpfCnpj = (value: string): boolean => {
+  const document = onlyAlphanumeric(value);
+  return document.length === 11 ? isValidCpf(document) : isValidCnpj(document);
+};
+
+/**
+ * Valida um CEP (8 dígitos)
+ */
+export const isValidCep = (value: string): boolean => /^\d{8}$/.test(onlyDigits(value));
+
+/**
+ * Valida um telefone brasileiro com DDD
+ * Fixo: 10 dígitos (DDD + 8); celular: 11 dígitos (DDD + 9 + 8)
+ */
+export const isValidPhone = (value: string): boolean => {
+  const phone = onlyDigits(value);
+  if (!/^[1-9][1-9]/.test(phone)) return false;
+  if (phone.length === 10) return /^[2-5]$/.test(phone[2]);
+  if (phone.length === 11) return phone[2] === '9';
+  return false;
+};
+
+// ===== MÁSCARAS =====
+
+/**
+ * Aplica um padrão de máscara onde `#` representa um caractere do valor
+ * Para no último caractere disponível, servindo para digitação parcial
+ */
+const applyPattern = (value: string, pattern: string): string => {
+  let result = '';
+  let index = 0;
+
+  for (const token of pattern) {
+    if (index >= value.length) break;
+    if (token === '#') {
+      result += value[index++];
+    } else {
+      result += token;
+    }
+  }
+
+  return result;
+};
+
+export const formatCpf = (value: string): string =>
+  applyPattern(onlyDigits(value).slice(0, 11), '###.###.###-##');
+
+export const formatCnpj = (value: string): string =>
+  applyPattern(onlyAlphanumeric(value).slice(0, 14), '##.###.###/####-##');
+
+/**
+ * Máscara de CPF até 11 caracteres numéricos; a partir daí (ou com letras), CNPJ
+ */
+export const formatCpfCnpj = (value: string): string => {
+  const document = onlyAlphanumeric(value);
+  return document.length <= 11 && /^\d*$/.test(document)
+    ? formatCpf(document)
+    : formatCnpj(document);
+};
+
+export const formatCep = (value: string): string =>
+  applyPattern(onlyDigits(value).slice(0, 8), '#####-###');
+
+export const formatPhone = (value: string): string => {
+  const phone = onlyDigits(value).slice(0, 11);
+  return phone.length <= 10
+    ? applyPattern(phone, '(##) ####-####')
+    : applyPattern(phone, '(##) #####-####');
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import {
+  isValidCpf,
+  isValidCnpj,
+  isValidCpfCnpj,
+  isValidCep,
+  isValidPhone,
+} from './br-documents';
+
+/**
+ * Schemas Zod para documentos brasileiros
+ * Usados com `zodResolver` no react-hook-form, como no LoginForm
+ *
+ * @example
+ * ```ts
+ * const schema = z.object({
+ *   cnpjCpf: cpfCnpjSchema,
+ *   addressZipCode: optionalField(cepSchema),
+ * });
+ * ```
+ */
+
+export const cpfSchema = z.string().trim().refine(isValidCpf, 'CPF inválido');
+
+export const cnpjSchema = z.string().trim().refine(isValidCnpj, 'CNPJ inválido');
+
+export const cpfCnpjSchema = z.string().trim().refine(isValidCpfCnpj, 'CPF ou CNPJ inválido');
+
+export const cepSchema = z.string().trim().refine(isValidCep, 'CEP deve ter 8 dígitos');
+
+export const phoneSchema = z
+  .string()
+  .trim()
+  .refine(isValidPhone, 'Telefone inválido - informe DDD e número');
+
+/**
+ * Torna um schema opcional para campos de formulário (aceita string vazia)
+ */
+export const optionalField = <T extends z.ZodType<string>>(schema: T) =>
+  z.union([z.literal(''), schema]);
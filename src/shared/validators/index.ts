@@ -0,0 +1,5 @@
+// Validadores e máscaras compartilhados
+export * from './br-documents';
+export * from './br.schemas';
+export * from './input-masks';
+export * from './password';
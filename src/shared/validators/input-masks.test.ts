@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ChangeEvent } from 'react';
+import { withMask } from './input-masks';
+import { formatCep } from './br-documents';
+
+const changeEvent = (value: string) =>
+  ({ target: { value } }) as unknown as ChangeEvent<HTMLInputElement>;
+
+describe('withMask', () => {
+  it('formata o valor do input antes de repassar o evento', () => {
+    const onChange = vi.fn();
+    const props = withMask({ name: 'addressZipCode', onChange }, formatCep);
+    const event = changeEvent('01310100');
+
+    props.onChange(event);
+
+    expect(event.target.value).toBe('01310-100');
+    expect(onChange).toHaveBeenCalledWith(event);
+  });
+
+  it('preserva as demais props do register', () => {
+    const ref = () => undefined;
+    const registered = { name: 'addressZipCode', ref, onChange: () => undefined };
+    const props = withMask(registered, formatCep);
+
+    expect(props.name).toBe('addressZipCode');
+    expect(props.ref).toBe(ref);
+  });
+});
@@ -0,0 +1,23 @@
+import type { ChangeEvent } from 'react';
+
+type InputChangeHandler = (event: ChangeEvent<HTMLInputElement>) => unknown;
+
+/**
+ * Aplica uma máscara às props retornadas por `register` do react-hook-form
+ * O valor é formatado no próprio input antes de chegar ao formulário
+ *
+ * @example
+ * ```tsx
+ * <TextField {...withMask(register('addressZipCode'), formatCep)} />
+ * ```
+ */
+export const withMask = <T extends { onChange: InputChangeHandler }>(
+  props: T,
+  mask: (value: string) => string
+): T => ({
+  ...props,
+  onChange: (event: ChangeEvent<HTMLInputElement>) => {
+    event.target.value = mask(event.target.value);
+    return props.onChange(event);
+  },
+});
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+/**
+ * Regras e medidor de força de senha
+ * O mínimo de caracteres segue o cadastro de usuários (UserForm)
+ */
+
+export const PASSWORD_MIN_LENGTH = 6;
+export const PASSWORD_MAX_LENGTH = 100;
+
+export interface PasswordRequirement {
+  id: 'length' | 'lowercase' | 'uppercase' | 'number' | 'symbol';
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export const PASSWORD_REQUIREMENTS: PasswordRequirement[] = [
+  { id: 'length', label: 'Pelo menos 8 caracteres', test: password => password.length >= 8 },
+  { id: 'lowercase', label: 'Letra minúscula', test: password => /[a-z]/.test(password) },
+  { id: 'uppercase', label: 'Letra maiúscula', test: password => /[A-Z]/.test(password) },
+  { id: 'number', label: 'Número', test: password => /\d/.test(password) },
+  { id: 'symbol', label: 'Símbolo (ex: ! @ # $)', test: password => /[^A-Za-z0-9]/.test(password) },
+];
+
+export type PasswordStrengthLevel = 'empty' | 'weak' | 'fair' | 'good' | 'strong';
+
+export interface PasswordStrength {
+  score: number; // 0 a 4
+  level: PasswordStrengthLevel;
+  label: string;
+  color: 'error' | 'warning' | 'info' | 'success';
+  unmetRequirements: PasswordRequirement['id'][];
+}
+
+const STRENGTH_LEVELS: Array<Omit<PasswordStrength, 'score' | 'unmetRequirements'>> = [
+  { level: 'weak', label: 'Muito fraca', color: 'error' },
+  { level: 'weak', label: 'Fraca', color: 'error' },
+  { level: 'fair', label: 'Razoável', color: 'warning' },
+  { level: 'good', label: 'Boa', color: 'info' },
+  { level: 'strong', label: 'Forte', color: 'success' },
+];
+
+/**
+ * Calcula a força da senha (0 a 4) pelos requisitos atendidos e pelo comprimento
+ * Senhas abaixo do mínimo aceito nunca passam de "Muito fraca"
+ */
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  const unmetRequirements = PASSWORD_REQUIREMENTS
+    .filter(requirement => !requirement.test(password))
+    .map(requirement => requirement.id);
+
+  if (!password) {
+    return { score: 0, level: 'empty', label: '', color: 'error', unmetRequirements };
+  }
+
+  const metCount = PASSWORD_REQUIREMENTS.length - unmetRequirements.length;
+  const lengthBonus = password.length >= 12 ? 1 : 0;
+  const score = password.length < PASSWORD_MIN_LENGTH
+    ? 0
+    : Math.min(4, Math.max(0, metCount - 1 + lengthBonus));
+
+  return { score, ...STRENGTH_LEVELS[score], unmetRequirements };
+};
+
+export const passwordSchema = z
+  .string()
+  .min(1, 'Senha é obrigatória')
+  .min(PASSWORD_MIN_LENGTH, `Senha deve ter pelo menos ${PASSWORD_MIN_LENGTH} caracteres`)
+  .max(PASSWORD_MAX_LENGTH, `Senha deve ter no máximo ${PASSWORD_MAX_LENGTH} caracteres`)
+  .refine(password => getPasswordStrength(password).score >= 2, 'Senha muito fraca - combine letras, números e símbolos');
+
+/**
+ * Nova senha com confirmação
+ * O erro de divergência é associado ao campo `confirmPassword`
+ */
+export const newPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string().min(1, 'Confirme a nova senha'),
+  })
+  .refine(data => data.password === data.confirmPassword, {
+    message: 'Senhas não coincidem',
+    path: ['confirmPassword'],
+  });